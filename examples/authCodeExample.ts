@@ -1,4 +1,4 @@
-import { GmailAdapter, FetchOptions, NormalizedEmail, GmailCredentials } from '../src';
+import { GmailAdapter, AddressParser, FetchOptions, NormalizedEmail, GmailCredentials } from '../src';
 import dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -52,7 +52,7 @@ async function initializeWithAuthCode() {
       response.emails.forEach((email, index) => {
         console.log(`\n--- Email ${index + 1} ---`);
         console.log(`Subject: ${email.subject || '(No subject)'}`);
-        console.log(`From: ${email.from}`);
+        console.log(`From: ${AddressParser.format(email.from)}`);
         console.log(`Labels: ${email.labels?.join(', ') || 'None'}`);
         
         // Show some additional information about system labels
@@ -107,8 +107,8 @@ function saveEmailsToFile(emails: NormalizedEmail[]) {
       emails.map(email => ({
         id: email.id,
         threadId: email.threadId,
-        from: email.from,
-        to: email.to,
+        from: AddressParser.format(email.from),
+        to: AddressParser.formatList(email.to),
         subject: email.subject,
         date: email.date,
         labels: email.labels || [],
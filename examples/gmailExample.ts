@@ -1,4 +1,4 @@
-import { GmailAdapter, FetchOptions, NormalizedEmail, GmailCredentials } from '../src'; // Adjust path
+import { GmailAdapter, AddressParser, FetchOptions, NormalizedEmail, GmailCredentials } from '../src'; // Adjust path
 import dotenv from 'dotenv';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -109,7 +109,7 @@ async function main() {
       console.log('\n--- Email ---');
       console.log(`ID: ${email.id}`);
       console.log(`Subject: ${email.subject}`);
-      console.log(`From: ${email.from}`);
+      console.log(`From: ${AddressParser.format(email.from)}`);
       console.log(`Date: ${email.date}`);
       console.log(`Labels: ${email.labels?.join(', ') || 'None'}`);
       console.log(`Body (text preview): ${email.bodyText?.substring(0, 100)}...`);
@@ -11,7 +11,7 @@ const imap = new ImapAdapter({
 });
 
 (async () => {
-  const emails = await imap.fetchEmails({
+  const { emails } = await imap.fetchEmails({
     since: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // last 7 days
     limit: 10,
   });
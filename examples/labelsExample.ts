@@ -1,4 +1,4 @@
-import { GmailAdapter, NormalizedEmail } from '../src';
+import { GmailAdapter, AddressParser, NormalizedEmail } from '../src';
 import dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -54,7 +54,7 @@ async function labelsExample() {
     importantResponse.emails.forEach((email, index) => {
       console.log(`\nEmail ${index + 1}:`);
       console.log(`  Subject: ${email.subject || '(No subject)'}`);
-      console.log(`  From: ${email.from}`);
+      console.log(`  From: ${AddressParser.format(email.from)}`);
       console.log(`  Labels: ${email.labels?.join(', ')}`);
     });
     
@@ -139,7 +139,7 @@ function saveResultsToFile(
     labelGroups[label] = emails.map(email => ({
       id: email.id,
       subject: email.subject,
-      from: email.from,
+      from: AddressParser.format(email.from),
       date: email.date,
       labels: email.labels
     }));
@@ -158,7 +158,7 @@ function saveResultsToFile(
       multiLabelEmails.map(email => ({
         id: email.id,
         subject: email.subject,
-        from: email.from,
+        from: AddressParser.format(email.from),
         date: email.date,
         labels: email.labels
       })),
@@ -1,4 +1,4 @@
-import { OutlookAdapter, NormalizedEmail } from '../src';
+import { OutlookAdapter, AddressParser, NormalizedEmail } from '../src';
 import dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -90,7 +90,7 @@ async function outlookCategoriesExample() {
       
       topCategoryEmails.slice(0, 3).forEach((email, index) => {
         console.log(`  ${index + 1}. Subject: ${email.subject || '(No subject)'}`);
-        console.log(`     From: ${email.from}`);
+        console.log(`     From: ${AddressParser.format(email.from)}`);
         console.log(`     Date: ${email.date.toLocaleString()}`);
       });
     }
@@ -119,7 +119,7 @@ function saveResultsToFile(emailsByCategory: Map<string, NormalizedEmail[]>) {
     categoryGroups[category] = emails.map(email => ({
       id: email.id,
       subject: email.subject,
-      from: email.from,
+      from: AddressParser.format(email.from),
       date: email.date,
       categories: email.labels
     }));
@@ -1,4 +1,4 @@
-import { OutlookAdapter, FetchOptions, OutlookCredentials } from '../src';
+import { OutlookAdapter, AddressParser, FetchOptions, OutlookCredentials } from '../src';
 import dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -54,10 +54,10 @@ async function outlookExample() {
       console.log(`\n--- Email ${index + 1} ---`);
       console.log(`ID: ${email.id}`);
       console.log(`Subject: ${email.subject || '(No subject)'}`);
-      console.log(`From: ${email.from}`);
-      console.log(`To: ${email.to.join(', ')}`);
+      console.log(`From: ${AddressParser.format(email.from)}`);
+      console.log(`To: ${AddressParser.formatList(email.to)}`);
       if (email.cc && email.cc.length > 0) {
-        console.log(`CC: ${email.cc.join(', ')}`);
+        console.log(`CC: ${AddressParser.formatList(email.cc)}`);
       }
       console.log(`Date: ${email.date.toLocaleString()}`);
       
@@ -102,9 +102,9 @@ function saveResultsToFile(emails: any[]) {
   const emailsForExport = emails.map(email => ({
     id: email.id,
     subject: email.subject,
-    from: email.from,
-    to: email.to,
-    cc: email.cc,
+    from: AddressParser.format(email.from),
+    to: AddressParser.formatList(email.to),
+    cc: AddressParser.formatList(email.cc),
     date: email.date,
     labels: email.labels,
     bodyPreview: email.bodyText ? email.bodyText.substring(0, 100) : undefined,
@@ -1,4 +1,4 @@
-import { OutlookAdapter, FetchOptions, NormalizedEmail, OutlookCredentials, PaginationHelper, createPaginationHelper, PaginationUtils } from '../src';
+import { OutlookAdapter, AddressParser, FetchOptions, NormalizedEmail, OutlookCredentials, PaginationHelper, createPaginationHelper, PaginationUtils } from '../src';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -207,7 +207,7 @@ async function paginationWithFiltersExample(adapter: OutlookAdapter) {
     const time = email.date.toTimeString().split(' ')[0];
     const categories = email.labels?.length ? email.labels.join(', ') : 'Uncategorized';
     console.log(`     ${index + 1}. [${date} ${time}] ${email.subject || '(No subject)'}`);
-    console.log(`        From: ${email.from}`);
+    console.log(`        From: ${AddressParser.format(email.from)}`);
     console.log(`        Categories: ${categories}`);
     console.log(`        Has attachments: ${email.attachments.length > 0 ? 'Yes' : 'No'}`);
   });
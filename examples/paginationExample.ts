@@ -1,4 +1,4 @@
-import { GmailAdapter, FetchOptions, NormalizedEmail, GmailCredentials, PaginationHelper, createPaginationHelper, PaginationUtils } from '../src';
+import { GmailAdapter, AddressParser, FetchOptions, NormalizedEmail, GmailCredentials, PaginationHelper, createPaginationHelper, PaginationUtils } from '../src';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -181,7 +181,7 @@ async function paginationWithFiltersExample(adapter: GmailAdapter) {
   emails.forEach((email, index) => {
     const date = email.date.toISOString().split('T')[0];
     console.log(`     ${index + 1}. [${date}] ${email.subject || '(No subject)'}`);
-    console.log(`        From: ${email.from}`);
+    console.log(`        From: ${AddressParser.format(email.from)}`);
     console.log(`        Attachments: ${email.attachments.length}`);
   });
 }
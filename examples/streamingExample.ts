@@ -1,4 +1,4 @@
-import { GmailAdapter, EmailStreamOptions, EmailStreamCallbacks } from '../src';
+import { GmailAdapter, AddressParser, EmailStreamOptions, EmailStreamCallbacks } from '../src';
 import dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -88,7 +88,7 @@ async function databaseStreamingExample() {
     emailsToInsert.push(...emailBatch.map(email => ({
       id: email.id,
       subject: email.subject,
-      from: email.from,
+      from: AddressParser.format(email.from),
       date: email.date,
       labels: email.labels
     })));
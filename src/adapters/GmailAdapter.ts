@@ -1,11 +1,13 @@
 import { gmail_v1, google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
-import { IAdapter, PaginatedEmailsResponse } from './IAdapter.js';
+import { Readable } from 'stream';
+import { IAdapter, PaginatedEmailsResponse, PaginatedThreadsResponse } from './IAdapter.js';
 import { 
   NormalizedEmail, 
   FetchOptions, 
   GmailCredentials, 
-  Attachment, 
+  GmailAdapterOptions,
+  Attachment,
   EmailStreamOptions, 
   EmailStreamCallbacks, 
   EmailStreamProgress,
@@ -15,23 +17,81 @@ import {
   PushNotificationSetup,
   SyncOptions,
   SyncResult,
-  SyncState
+  SyncState,
+  OutgoingEmail,
+  SendResult,
+  DraftListOptions,
+  Folder,
+  FolderRole,
+  EmailLabel,
+  CreateFolderOptions,
+  NormalizedThread
 } from '../interfaces.js';
 import { EmailParserService } from '../services/EmailParserService.js';
+import { MimeBuilder } from '../services/MimeBuilder.js';
 import { EmailStreamService } from '../services/EmailStreamService.js';
+import { ThreadService } from '../services/ThreadService.js';
+import { AddressParser } from '../utils/AddressParser.js';
+import { AttachmentHandling, AttachmentStorage } from '../attachments/AttachmentStorage.js';
+import { AttachmentHandle } from '../attachments/AttachmentHandle.js';
+import { AttachmentClassifier } from '../attachments/AttachmentClassifier.js';
 import { OAuthService } from '../auth/OAuthService.js';
 import { GoogleOAuthProvider } from '../auth/providers/GoogleOAuthProvider.js';
 
+// Text and HTML bodies collected while walking a message's MIME tree, in document order
+interface MimeBodies {
+  text: string[];
+  html: string[];
+}
+
+// What one fetchEmails or streamEmails call asks for, shared by every page it reads
+interface GmailPageRequest {
+  query: string;
+  messageFormat: 'raw' | 'full' | 'metadata';
+  includeBody: boolean;
+  includeAttachments: boolean;
+  labelIds?: string[];
+  attachments: AttachmentHandling;
+}
+
+const DEFAULT_LABEL_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Known messages looked up at once while a full resync checks for deletions
+const RESYNC_CHECK_BATCH_SIZE = 20;
+
+// Roles of Gmail's system labels, shared with Outlook well-known folders and IMAP special-use mailboxes
+const SYSTEM_LABEL_ROLES: Record<string, FolderRole> = {
+  INBOX: 'inbox',
+  SENT: 'sent',
+  DRAFT: 'drafts',
+  TRASH: 'trash',
+  SPAM: 'spam',
+  STARRED: 'starred',
+  IMPORTANT: 'important',
+  UNREAD: 'unread',
+  CHAT: 'chat',
+  CATEGORY_PERSONAL: 'category_personal',
+  CATEGORY_SOCIAL: 'category_social',
+  CATEGORY_PROMOTIONS: 'category_promotions',
+  CATEGORY_UPDATES: 'category_updates',
+  CATEGORY_FORUMS: 'category_forums'
+};
+
 export class GmailAdapter implements IAdapter {
   private oauth2Client_?: OAuth2Client;
   private gmail_?: gmail_v1.Gmail;
   private credentials_?: GmailCredentials;
   private emailParserService: EmailParserService;
+  private mimeBuilder: MimeBuilder;
   private initialized: boolean = false;
   private oauthService?: OAuthService;
+  private labelCacheTtlMs: number;
+  private labelCache_?: { labels: Map<string, EmailLabel>; loadedAt: number };
 
-  constructor() {
+  constructor(options: GmailAdapterOptions = {}) {
     this.emailParserService = new EmailParserService();
+    this.mimeBuilder = new MimeBuilder();
+    this.labelCacheTtlMs = options.labelCacheTtlMs ?? DEFAULT_LABEL_CACHE_TTL_MS;
   }
 
   /**
@@ -181,10 +241,14 @@ export class GmailAdapter implements IAdapter {
       format,
       pageToken,
       pageSize,
-      getAllPages = false
+      getAllPages = false,
+      folderId,
+      attachmentMode = 'content'
     } = options;
+    const lazyAttachments = attachmentMode === 'metadata';
 
     let gmailQuery = query || '';
+    const labelIds = folderId ? [folderId] : undefined;
 
     // Determine the best format to use based on options
     let messageFormat: 'raw' | 'full' | 'metadata' = format || 'raw';
@@ -193,7 +257,7 @@ export class GmailAdapter implements IAdapter {
     if (!format) {
       if (!includeBody && !includeAttachments) {
         messageFormat = 'metadata'; // Just need headers
-      } else if (includeBody && includeAttachments) {
+      } else if (includeBody && includeAttachments && !lazyAttachments) {
         // Keep 'raw' for backward compatibility and most complete parsing
         messageFormat = 'raw';
       } else {
@@ -215,23 +279,25 @@ export class GmailAdapter implements IAdapter {
     }
     gmailQuery = gmailQuery.trim();
 
+    const request: GmailPageRequest = {
+      query: gmailQuery,
+      messageFormat,
+      includeBody,
+      includeAttachments,
+      labelIds,
+      attachments: AttachmentStorage.handlingFor(options)
+    };
+
     try {
       if (getAllPages) {
         // Show deprecation warning
         console.warn('Warning: getAllPages option is deprecated and may cause memory issues with large datasets. Consider using streamEmails() instead.');
         
         // Fetch all pages up to limit
-        return await this.fetchAllEmailPages(gmailQuery, limit, messageFormat, includeBody, includeAttachments);
+        return await this.fetchAllEmailPages(request, limit);
       } else {
         // Fetch a single page
-        return await this.fetchEmailPage(
-          gmailQuery, 
-          pageSize || limit, 
-          messageFormat, 
-          includeBody, 
-          includeAttachments, 
-          pageToken
-        );
+        return await this.fetchEmailPage(request, pageSize || limit, pageToken);
       }
     } catch (error) {
       console.error('Error fetching Gmail emails:', error);
@@ -260,16 +326,18 @@ export class GmailAdapter implements IAdapter {
     // Determine format based on options
     const messageFormat = this.determineMessageFormat(options);
     
+    const request: GmailPageRequest = {
+      query: gmailQuery,
+      messageFormat,
+      includeBody: options.includeBody !== false,
+      includeAttachments: options.includeAttachments !== false,
+      labelIds: options.folderId ? [options.folderId] : undefined,
+      attachments: AttachmentStorage.handlingFor(options)
+    };
+
     // Create the fetch function for the stream service
     const fetchPageFn = async (pageToken?: string, pageSize?: number) => {
-      return await this.fetchEmailPage(
-        gmailQuery,
-        pageSize || options.batchSize || 50,
-        messageFormat,
-        options.includeBody !== false,
-        options.includeAttachments !== false,
-        pageToken
-      );
+      return await this.fetchEmailPage(request, pageSize || options.batchSize || 50, pageToken);
     };
     
     // Use the stream service to create the generator
@@ -326,6 +394,7 @@ export class GmailAdapter implements IAdapter {
         const countResponse = await this.gmail_!.users.messages.list({
           userId: 'me',
           q: this.buildGmailQuery(options) || undefined,
+          labelIds: options.folderId ? [options.folderId] : undefined,
           maxResults: 1
         });
                  totalCount = countResponse.data.resultSizeEstimate || undefined;
@@ -392,7 +461,7 @@ export class GmailAdapter implements IAdapter {
     
     if (!includeBody && !includeAttachments) {
       return 'metadata';
-    } else if (includeBody && includeAttachments) {
+    } else if (includeBody && includeAttachments && options.attachmentMode !== 'metadata') {
       return 'raw';
     } else {
       return 'full';
@@ -403,16 +472,15 @@ export class GmailAdapter implements IAdapter {
    * Fetches a single page of emails
    */
   private async fetchEmailPage(
-    query: string,
+    request: GmailPageRequest,
     maxResults: number,
-    messageFormat: 'raw' | 'full' | 'metadata',
-    includeBody: boolean,
-    includeAttachments: boolean,
     pageToken?: string
   ): Promise<PaginatedEmailsResponse> {
+    const { query, messageFormat, includeBody, includeAttachments, labelIds, attachments } = request;
     const listMessagesResponse = await this.gmail_!.users.messages.list({
       userId: 'me',
       q: query || undefined, // q parameter cannot be empty string
+      labelIds,
       maxResults,
       pageToken
     });
@@ -447,7 +515,7 @@ export class GmailAdapter implements IAdapter {
         normalized.labels = messageResponse.data.labelIds || normalized.labels;
       } else {
         // Process using structured data from Gmail API
-        normalized = await this.parseStructuredMessage(messageResponse.data, includeBody, includeAttachments);
+        normalized = await this.parseStructuredMessage(messageResponse.data, includeBody, includeAttachments, attachments.lazy);
       }
 
       // Implement skipping inline images
@@ -459,6 +527,9 @@ export class GmailAdapter implements IAdapter {
         return true;
       });
 
+      await AttachmentStorage.store(normalized, attachments);
+
+      normalized.labelDetails = await this.resolveLabels(normalized.labels || []);
       normalizedEmails.push(normalized);
     }
     
@@ -473,11 +544,8 @@ export class GmailAdapter implements IAdapter {
    * Fetches all pages of emails up to the specified limit
    */
   private async fetchAllEmailPages(
-    query: string,
+    request: GmailPageRequest,
     limit: number,
-    messageFormat: 'raw' | 'full' | 'metadata',
-    includeBody: boolean,
-    includeAttachments: boolean,
     size?: number
   ): Promise<PaginatedEmailsResponse> {
     const allEmails: NormalizedEmail[] = [];
@@ -488,14 +556,7 @@ export class GmailAdapter implements IAdapter {
     const pageSize = size || Math.min(limit, 100);
     
     do {
-      const response = await this.fetchEmailPage(
-        query, 
-        pageSize, 
-        messageFormat, 
-        includeBody, 
-        includeAttachments, 
-        nextPageToken
-      );
+      const response = await this.fetchEmailPage(request, pageSize, nextPageToken);
       
       allEmails.push(...response.emails);
       nextPageToken = response.nextPageToken;
@@ -527,17 +588,19 @@ export class GmailAdapter implements IAdapter {
    * @param message The Gmail message object from the API
    * @param includeBody Whether to include message body content
    * @param includeAttachments Whether to include attachment data
+   * @param lazyAttachments List attachments without their content, to download on demand
    */
   private async parseStructuredMessage(
     message: gmail_v1.Schema$Message, 
     includeBody: boolean = true,
-    includeAttachments: boolean = true
+    includeAttachments: boolean = true,
+    lazyAttachments: boolean = false
   ): Promise<NormalizedEmail> {
     // Initialize the normalized email
     const normalized: NormalizedEmail = {
       id: message.id!,
       threadId: message.threadId || undefined,
-      from: '',
+      from: { address: '' },
       to: [],
       attachments: [],
       date: new Date(),
@@ -550,16 +613,22 @@ export class GmailAdapter implements IAdapter {
       for (const header of message.payload.headers) {
         switch(header.name?.toLowerCase()) {
           case 'from':
-            normalized.from = header.value || '';
+            normalized.from = AddressParser.parseOne(header.value) || { address: '' };
             break;
           case 'to':
-            normalized.to = header.value?.split(',').map(addr => addr.trim()) || [];
+            normalized.to = AddressParser.parse(header.value);
             break;
           case 'cc':
-            normalized.cc = header.value?.split(',').map(addr => addr.trim()) || [];
+            normalized.cc = AddressParser.parse(header.value);
             break;
           case 'bcc':
-            normalized.bcc = header.value?.split(',').map(addr => addr.trim()) || [];
+            normalized.bcc = AddressParser.parse(header.value);
+            break;
+          case 'reply-to':
+            normalized.replyTo = AddressParser.parse(header.value);
+            break;
+          case 'sender':
+            normalized.sender = AddressParser.parseOne(header.value);
             break;
           case 'subject':
             normalized.subject = header.value || undefined;
@@ -567,67 +636,197 @@ export class GmailAdapter implements IAdapter {
           case 'date':
             normalized.date = header.value ? new Date(header.value) : new Date();
             break;
+          case 'message-id':
+            normalized.messageId = header.value || undefined;
+            break;
+          case 'in-reply-to':
+            normalized.inReplyTo = header.value?.match(/<[^>]+>/)?.[0] || header.value || undefined;
+            break;
+          case 'references':
+            normalized.references = header.value?.split(/\s+/).filter(Boolean);
+            break;
         }
       }
     }
 
-    // Extract body and attachments only if needed and available
-    if (includeBody && message.payload) {
-      // Process parts only if we're using 'full' format and have parts
-      if (message.payload.parts && message.payload.parts.length > 0) {
-        // Extract text and HTML bodies
-        for (const part of message.payload.parts) {
-          // Plain text body
-          if (part.mimeType === 'text/plain' && part.body?.data) {
-            normalized.bodyText = Buffer.from(part.body.data, 'base64').toString('utf-8');
-          }
-          // HTML body
-          else if (part.mimeType === 'text/html' && part.body?.data) {
-            normalized.bodyHtml = Buffer.from(part.body.data, 'base64').toString('utf-8');
-          }
-          // Handle attachments
-          else if (includeAttachments && part.filename && part.body) {
-            const attachment: Attachment = {
-              filename: part.filename,
-              mimeType: part.mimeType || 'application/octet-stream',
-              size: part.body.size || 0,
-              contentId: part.headers?.find(h => h.name?.toLowerCase() === 'content-id')?.value || undefined,
-            };
-            
-            // Only fetch attachment data if we need the buffer and we have an attachment ID
-            if (part.body.attachmentId) {
-              try {
-                const attachmentResponse = await this.gmail_!.users.messages.attachments.get({
-                  userId: 'me',
-                  messageId: message.id!,
-                  id: part.body.attachmentId
-                });
-                
-                if (attachmentResponse.data.data) {
-                  attachment.buffer = Buffer.from(attachmentResponse.data.data, 'base64');
-                }
-              } catch (error) {
-                console.error(`Failed to fetch attachment ${part.filename}:`, error);
-              }
-            }
-            normalized.attachments.push(attachment);
-          }
-        }
-      } 
-      // Single part message with body directly in payload
-      else if (message.payload.body?.data) {
-        const bodyContent = Buffer.from(message.payload.body.data, 'base64').toString('utf-8');
-        if (message.payload.mimeType === 'text/html') {
-          normalized.bodyHtml = bodyContent;
-        } else {
-          normalized.bodyText = bodyContent;
-        }
+    // Walk the whole MIME tree; the 'metadata' format has no parts or data, so this finds nothing there
+    if (message.payload && (includeBody || includeAttachments)) {
+      const bodies: MimeBodies = { text: [], html: [] };
+      await this.walkMimePart(message.id!, message.payload, bodies, normalized, includeAttachments, lazyAttachments, false);
+
+      if (includeBody) {
+        // Multiple text parts (e.g. a body and a footer) are joined, as mailparser does for the raw format
+        normalized.bodyText = bodies.text.length > 0 ? bodies.text.join('\n') : undefined;
+        normalized.bodyHtml = bodies.html.length > 0 ? bodies.html.join('\n') : undefined;
       }
     }
 
     return normalized;
   }
 
+  /**
+   * Walk one part of a 'full' format message depth-first, in document order. Text parts that are not
+   * attachments become bodies; every other leaf, including inline images in multipart/related and
+   * attached message/rfc822 messages, becomes an attachment, matching what mailparser does with the raw format.
+   * @param embedded True inside an attached message whose parts Gmail expanded: its bodies are not ours
+   */
+  private async walkMimePart(
+    messageId: string,
+    part: gmail_v1.Schema$MessagePart,
+    bodies: MimeBodies,
+    normalized: NormalizedEmail,
+    includeAttachments: boolean,
+    lazyAttachments: boolean,
+    embedded: boolean
+  ): Promise<void> {
+    const mimeType = (part.mimeType || 'text/plain').toLowerCase();
+    const header = (name: string) => part.headers?.find(h => h.name?.toLowerCase() === name)?.value || undefined;
+    const disposition = header('content-disposition')?.split(';')[0].trim().toLowerCase();
+    const hasContent = !!(part.body?.attachmentId || part.body?.data);
+
+    if (part.parts && part.parts.length > 0 && (mimeType.startsWith('multipart/') || !hasContent)) {
+      for (const child of part.parts) {
+        await this.walkMimePart(
+          messageId, child, bodies, normalized, includeAttachments, lazyAttachments, embedded || mimeType === 'message/rfc822'
+        );
+      }
+      return;
+    }
+
+    const isBody = (mimeType === 'text/plain' || mimeType === 'text/html') && disposition !== 'attachment' && !part.filename;
+    if (isBody) {
+      const data = embedded ? undefined : await this.loadPartDataOrLog(messageId, part);
+      if (data) {
+        const charset = header('content-type')?.match(/charset\s*=\s*"?([^";\s]+)"?/i)?.[1];
+        bodies[mimeType === 'text/html' ? 'html' : 'text'].push(GmailAdapter.decodeText(data, charset));
+      }
+      return;
+    }
+
+    if (!includeAttachments || !hasContent) {
+      return;
+    }
+
+    const attachment: Attachment = {
+      filename: part.filename || 'untitled',
+      mimeType,
+      size: part.body?.size || 0,
+      buffer: lazyAttachments ? undefined : await this.loadPartDataOrLog(messageId, part),
+      contentId: header('content-id'),
+    };
+
+    AttachmentClassifier.classify(attachment);
+
+    // Gmail's own attachment IDs change on every request; the MIME part ID stays the same
+    if (part.partId) {
+      attachment.attachmentId = part.partId;
+      attachment.source = { provider: 'gmail', emailId: messageId };
+      AttachmentHandle.bind(attachment, () => this.getAttachmentStream(messageId, part.partId!));
+    }
+    normalized.attachments.push(attachment);
+  }
+
+  /**
+   * Content of a part: inline data, or fetched by attachment ID for attachments and large bodies.
+   * Gmail encodes both as base64url.
+   */
+  private async loadPartData(messageId: string, part: gmail_v1.Schema$MessagePart): Promise<Buffer | undefined> {
+    if (part.body?.data) {
+      return Buffer.from(part.body.data, 'base64url');
+    }
+    if (!part.body?.attachmentId) {
+      return undefined;
+    }
+
+    const attachmentResponse = await this.gmail_!.users.messages.attachments.get({
+      userId: 'me',
+      messageId,
+      id: part.body.attachmentId
+    });
+    return attachmentResponse.data.data ? Buffer.from(attachmentResponse.data.data, 'base64url') : undefined;
+  }
+
+  /**
+   * loadPartData for message parsing: one part that fails to load does not fail the whole email
+   */
+  private async loadPartDataOrLog(messageId: string, part: gmail_v1.Schema$MessagePart): Promise<Buffer | undefined> {
+    try {
+      return await this.loadPartData(messageId, part);
+    } catch (error) {
+      console.error(`Failed to fetch attachment ${part.filename || part.partId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Decode a text part in the charset from its Content-Type, falling back to UTF-8 for charsets Node does not know
+   */
+  private static decodeText(data: Buffer, charset?: string): string {
+    try {
+      return new TextDecoder(charset || 'utf-8').decode(data);
+    } catch {
+      return data.toString('utf-8');
+    }
+  }
+
+  // =====================================================
+  // ATTACHMENTS - content on demand, by MIME part ID
+  // =====================================================
+
+  /**
+   * Download one attachment of an email. attachmentId is the MIME part ID from Attachment.attachmentId.
+   */
+  async getAttachment(emailId: string, attachmentId: string): Promise<Buffer> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const messageResponse = await this.gmail_!.users.messages.get({
+        userId: 'me',
+        id: emailId,
+        format: 'full'
+      });
+
+      const part = GmailAdapter.findPart(messageResponse.data.payload, attachmentId);
+      if (!part) {
+        throw new Error('No such MIME part');
+      }
+      return (await this.loadPartData(emailId, part)) ?? Buffer.alloc(0);
+    } catch (error) {
+      throw new Error(`Failed to get attachment ${attachmentId} of email ${emailId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Download one attachment of an email as a stream. Gmail returns attachment content in a single
+   * response, so this is a convenience over getAttachment.
+   */
+  async getAttachmentStream(emailId: string, attachmentId: string): Promise<Readable> {
+    return Readable.from([await this.getAttachment(emailId, attachmentId)]);
+  }
+
+  /**
+   * Find a part anywhere in the MIME tree by its part ID
+   */
+  private static findPart(
+    part: gmail_v1.Schema$MessagePart | undefined,
+    partId: string
+  ): gmail_v1.Schema$MessagePart | undefined {
+    if (!part) {
+      return undefined;
+    }
+    if (part.partId === partId) {
+      return part;
+    }
+    for (const child of part.parts || []) {
+      const found = GmailAdapter.findPart(child, partId);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
   // =====================================================
   // SYNC CAPABILITIES - Gmail History API & Push Notifications
   // =====================================================
@@ -660,22 +859,23 @@ export class GmailAdapter implements IAdapter {
     this.ensureInitialized();
     await this.authenticate();
 
-    const { maxResults = 100, labelIds, includeDeleted = true } = options;
+    const { maxResults = 100, labelIds, includeDeleted = true, pageToken } = options;
 
     try {
-      // Gmail API expects labelId as a single string, not an array
-      // If multiple labels are provided, we'll need to make multiple calls or handle differently
-      const labelId = labelIds && labelIds.length > 0 ? labelIds[0] : undefined;
+      // Gmail API filters history by a single labelId; several labels are filtered client-side below
+      const labelId = labelIds && labelIds.length === 1 ? labelIds[0] : undefined;
       
       const historyResponse = await this.gmail_!.users.history.list({
         userId: 'me',
         startHistoryId,
         maxResults,
         labelId,
+        pageToken,
         historyTypes: includeDeleted ? ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'] : ['messageAdded', 'labelAdded', 'labelRemoved']
       });
 
-      const history: HistoryRecord[] = (historyResponse.data.history || []).map((record: any) => ({
+      const records = historyResponse.data.history || [];
+      let history: HistoryRecord[] = records.map((record: any) => ({
         id: record.id!,
         messages: record.messages,
         messagesAdded: record.messagesAdded,
@@ -684,10 +884,15 @@ export class GmailAdapter implements IAdapter {
         labelsRemoved: record.labelsRemoved
       }));
 
+      if (labelIds && labelIds.length > 1) {
+        history = this.filterHistoryByLabels(history, labelIds);
+      }
+
       return {
         history,
         nextPageToken: historyResponse.data.nextPageToken || undefined,
-        historyId: historyResponse.data.historyId!
+        historyId: historyResponse.data.historyId!,
+        lastRecordId: records.length > 0 ? records[records.length - 1].id! : undefined
       };
     } catch (error) {
       // Handle case where start history ID is too old
@@ -731,6 +936,7 @@ export class GmailAdapter implements IAdapter {
         normalized = await this.parseStructuredMessage(messageResponse.data, true, true);
       }
 
+      normalized.labelDetails = await this.resolveLabels(normalized.labels || []);
       return normalized;
     } catch (error) {
       if ((error as any).code === 404) {
@@ -748,6 +954,10 @@ export class GmailAdapter implements IAdapter {
     this.ensureInitialized();
     await this.authenticate();
 
+    if (!config.topicName) {
+      throw new Error('topicName is required for Gmail push notifications');
+    }
+
     try {
       const watchRequest: gmail_v1.Params$Resource$Users$Watch = {
         userId: 'me',
@@ -789,6 +999,7 @@ export class GmailAdapter implements IAdapter {
   /**
    * Process sync changes from a given history ID.
    * This is a higher-level method that processes history records and returns structured results.
+   * With options.fullResyncOnExpired, an expired history ID is recovered with a full listing.
    */
   public async processSync(options: SyncOptions = {}): Promise<SyncResult> {
     this.ensureInitialized();
@@ -801,7 +1012,20 @@ export class GmailAdapter implements IAdapter {
     }
 
     try {
-      const historyResponse = await this.getHistory(startHistoryId, options);
+      let history: HistoryRecord[];
+      let historyResponse: HistoryResponse;
+      let lastRecordId: string | undefined;
+      if (options.fullResyncPageToken) {
+        return await this.performFullResync(options);
+      }
+      try {
+        ({ history, lastResponse: historyResponse, lastRecordId } = await this.collectHistoryPages(startHistoryId, options));
+      } catch (error) {
+        if (options.fullResyncOnExpired && this.isExpiredHistoryError(error as Error)) {
+          return await this.performFullResync(options);
+        }
+        throw error;
+      }
       
       const addedEmails: NormalizedEmail[] = [];
       const deletedEmailIds: string[] = [];
@@ -809,7 +1033,7 @@ export class GmailAdapter implements IAdapter {
       const processedIds = new Set<string>();
 
       // Process history records
-      for (const record of historyResponse.history) {
+      for (const record of history) {
         // Handle new messages
         if (record.messagesAdded) {
           for (const added of record.messagesAdded) {
@@ -853,11 +1077,15 @@ export class GmailAdapter implements IAdapter {
       }
 
       return {
-        processedHistoryRecords: historyResponse.history.length,
+        processedHistoryRecords: history.length,
         addedEmails,
         deletedEmailIds,
         updatedEmails,
-        newHistoryId: historyResponse.historyId,
+        // With pages left, the mailbox's current history ID would skip them, so resume after the last record read.
+        // That is the last record before label filtering: a page where nothing matched must still move the cursor.
+        newHistoryId: historyResponse.nextPageToken
+          ? (lastRecordId ?? startHistoryId)
+          : historyResponse.historyId,
         hasMoreChanges: !!historyResponse.nextPageToken,
         nextPageToken: historyResponse.nextPageToken
       };
@@ -865,4 +1093,719 @@ export class GmailAdapter implements IAdapter {
       throw new Error(`Failed to process sync: ${(error as Error).message}`);
     }
   }
+
+  /**
+   * Fetch history starting at options.pageToken, following further pages when options.drainAllPages is set.
+   * Returns the records of every page read, the last response, whose nextPageToken tells whether more remain,
+   * and the ID of the last record read, matching labelIds or not.
+   */
+  private async collectHistoryPages(
+    startHistoryId: string,
+    options: SyncOptions
+  ): Promise<{ history: HistoryRecord[]; lastResponse: HistoryResponse; lastRecordId?: string }> {
+    const { drainAllPages = false, maxHistoryPages = 10 } = options;
+
+    const history: HistoryRecord[] = [];
+    let pageToken = options.pageToken;
+    let pages = 0;
+    let lastResponse: HistoryResponse;
+    let lastRecordId: string | undefined;
+
+    do {
+      lastResponse = await this.getHistory(startHistoryId, { ...options, pageToken });
+      history.push(...lastResponse.history);
+      lastRecordId = lastResponse.lastRecordId ?? lastRecordId;
+      pageToken = lastResponse.nextPageToken;
+      pages++;
+    } while (drainAllPages && pageToken && pages < maxHistoryPages);
+
+    return { history, lastResponse, lastRecordId };
+  }
+
+  /**
+   * Keep only the parts of history records that touch one of the given labels.
+   * Used when more than one label is requested, since the Gmail API filters by a single labelId.
+   */
+  private filterHistoryByLabels(history: HistoryRecord[], labelIds: string[]): HistoryRecord[] {
+    const wanted = new Set(labelIds);
+    const matches = (ids?: string[]) => !!ids && ids.some(id => wanted.has(id));
+    const nonEmpty = <T>(items: T[]) => (items.length > 0 ? items : undefined);
+
+    return history
+      .map(record => ({
+        id: record.id,
+        messagesAdded: nonEmpty((record.messagesAdded || []).filter(item => matches(item.message.labelIds))),
+        messagesDeleted: nonEmpty((record.messagesDeleted || []).filter(item => matches(item.message.labelIds))),
+        // A label change matters if the message carries a wanted label or a wanted label was added/removed
+        labelsAdded: nonEmpty((record.labelsAdded || []).filter(item => matches(item.message.labelIds) || matches(item.labelIds))),
+        labelsRemoved: nonEmpty((record.labelsRemoved || []).filter(item => matches(item.message.labelIds) || matches(item.labelIds)))
+      }))
+      .filter(record => record.messagesAdded || record.messagesDeleted || record.labelsAdded || record.labelsRemoved);
+  }
+
+  /**
+   * Rebuild a change set after the history ID expired.
+   * Lists messages since options.lastSyncTime, up to fullResyncLimit per call; with several labelIds each
+   * label is listed on its own so that, as with history, a message matching any of them counts. Listed
+   * messages not in knownMessageIds are reported as added and known ones as updated with their current
+   * labels. Once the listing is complete, known IDs missing from it are checked to find deletions and
+   * messages that lost every wanted label. The new history ID is taken before the first listing so
+   * nothing that changes meanwhile is skipped next time.
+   */
+  private async performFullResync(options: SyncOptions): Promise<SyncResult> {
+    const { lastSyncTime, labelIds, fullResyncLimit = 500, knownMessageIds = [], fullResyncPageToken } = options;
+
+    // A continuation keeps the history ID handed out by the call that started the resync
+    const newHistoryId = fullResyncPageToken && options.startHistoryId
+      ? options.startHistoryId
+      : await this.getCurrentHistoryId();
+
+    let q: string | undefined;
+    if (lastSyncTime) {
+      const since = typeof lastSyncTime === 'string' ? new Date(lastSyncTime) : lastSyncTime;
+      q = `after:${Math.floor(since.getTime() / 1000)}`;
+    }
+
+    // Continuation tokens look like "<label index>:<messages.list page token>"
+    const labels = labelIds && labelIds.length > 0 ? labelIds : [undefined];
+    const separator = fullResyncPageToken ? fullResyncPageToken.indexOf(':') : -1;
+    let labelIndex = separator > 0 ? parseInt(fullResyncPageToken!.slice(0, separator), 10) : 0;
+    let pageToken = separator > 0 ? fullResyncPageToken!.slice(separator + 1) || undefined : undefined;
+
+    const listed = new Set<string>();
+    while (labelIndex < labels.length && listed.size < fullResyncLimit) {
+      const response = await this.gmail_!.users.messages.list({
+        userId: 'me',
+        q,
+        labelIds: labels[labelIndex] ? [labels[labelIndex]!] : undefined,
+        maxResults: Math.min(500, fullResyncLimit - listed.size),
+        pageToken
+      });
+
+      for (const message of response.data.messages || []) {
+        if (message.id) {
+          listed.add(message.id);
+        }
+      }
+      pageToken = response.data.nextPageToken || undefined;
+      if (!pageToken) {
+        labelIndex++;
+      }
+    }
+    const nextPageToken = labelIndex < labels.length ? `${labelIndex}:${pageToken || ''}` : undefined;
+
+    const known = new Set(knownMessageIds);
+    const addedEmails: NormalizedEmail[] = [];
+    const updatedEmails: NormalizedEmail[] = [];
+    for (const id of listed) {
+      // Without history there is no telling what changed on a known message, so report its current state
+      const email = await this.getEmailById(id);
+      if (email) {
+        (known.has(id) ? updatedEmails : addedEmails).push(email);
+      }
+    }
+
+    const deletedEmailIds: string[] = [];
+    if (!nextPageToken) {
+      // Known messages outside the listing may simply be older than lastSyncTime, so check them in batches
+      const unlisted = [...known].filter(id => !listed.has(id));
+      for (let i = 0; i < unlisted.length; i += RESYNC_CHECK_BATCH_SIZE) {
+        const batch = unlisted.slice(i, i + RESYNC_CHECK_BATCH_SIZE);
+        const found = await Promise.all(batch.map(id => this.messageLabels(id)));
+
+        for (let j = 0; j < batch.length; j++) {
+          const messageLabels = found[j];
+          if (!messageLabels) {
+            deletedEmailIds.push(batch[j]);
+          } else if (labelIds && labelIds.length > 0 && !messageLabels.some(id => labelIds.includes(id))) {
+            const email = await this.getEmailById(batch[j]);
+            if (email) {
+              updatedEmails.push(email);
+            }
+          }
+        }
+      }
+    }
+
+    return {
+      processedHistoryRecords: 0,
+      addedEmails,
+      deletedEmailIds,
+      updatedEmails,
+      newHistoryId,
+      hasMoreChanges: !!nextPageToken,
+      fullResync: true,
+      fullResyncPageToken: nextPageToken
+    };
+  }
+
+  /**
+   * Label IDs of a message, or null if it no longer exists
+   */
+  private async messageLabels(id: string): Promise<string[] | null> {
+    try {
+      const response = await this.gmail_!.users.messages.get({ userId: 'me', id, format: 'minimal' });
+      return response.data.labelIds || [];
+    } catch (error) {
+      if ((error as any).code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private isExpiredHistoryError(error: Error): boolean {
+    return error.message?.includes('is too old or invalid') ?? false;
+  }
+
+  // =====================================================
+  // SENDING - users.messages.send with raw MIME
+  // =====================================================
+
+  /**
+   * Send an email from the authenticated account. The message lands in the Sent folder.
+   */
+  public async sendEmail(email: OutgoingEmail): Promise<SendResult> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    // Gmail reads Bcc recipients from the header and strips it before delivery
+    const message = await this.mimeBuilder.build(email, { keepBcc: true });
+
+    try {
+      const response = await this.gmail_!.users.messages.send({
+        userId: 'me',
+        requestBody: {
+          raw: message.raw.toString('base64url'),
+          threadId: email.threadId
+        }
+      });
+
+      return {
+        messageId: message.messageId,
+        id: response.data.id || undefined,
+        threadId: response.data.threadId || undefined
+      };
+    } catch (error) {
+      throw new Error(`Failed to send email: ${(error as Error).message}`);
+    }
+  }
+
+  // =====================================================
+  // DRAFTS - users.drafts
+  // =====================================================
+
+  /**
+   * Save an email as a draft. Set threadId to keep a reply draft in its thread.
+   */
+  public async createDraft(email: OutgoingEmail): Promise<NormalizedEmail> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    const message = await this.mimeBuilder.build(email, { keepBcc: true });
+
+    try {
+      const response = await this.gmail_!.users.drafts.create({
+        userId: 'me',
+        requestBody: { message: { raw: message.raw.toString('base64url'), threadId: email.threadId } }
+      });
+      return await this.loadDraft(response.data.id!);
+    } catch (error) {
+      throw new Error(`Failed to create draft: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Replace the content of a draft. The draft ID stays the same.
+   */
+  public async updateDraft(draftId: string, email: OutgoingEmail): Promise<NormalizedEmail> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    const message = await this.mimeBuilder.build(email, { keepBcc: true });
+
+    try {
+      await this.gmail_!.users.drafts.update({
+        userId: 'me',
+        id: draftId,
+        requestBody: { id: draftId, message: { raw: message.raw.toString('base64url'), threadId: email.threadId } }
+      });
+      return await this.loadDraft(draftId);
+    } catch (error) {
+      throw new Error(`Failed to update draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a draft by its draft ID, or null if it no longer exists
+   */
+  public async getDraft(draftId: string): Promise<NormalizedEmail | null> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      return await this.loadDraft(draftId);
+    } catch (error) {
+      if ((error as any).code === 404) {
+        return null;
+      }
+      throw new Error(`Failed to get draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List drafts, newest first
+   */
+  public async listDrafts(options: DraftListOptions = {}): Promise<PaginatedEmailsResponse> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const response = await this.gmail_!.users.drafts.list({
+        userId: 'me',
+        maxResults: options.limit || 10,
+        pageToken: options.pageToken
+      });
+
+      const emails: NormalizedEmail[] = [];
+      for (const draft of response.data.drafts || []) {
+        emails.push(await this.loadDraft(draft.id!));
+      }
+
+      return {
+        emails,
+        nextPageToken: response.data.nextPageToken || undefined,
+        totalCount: response.data.resultSizeEstimate ?? undefined
+      };
+    } catch (error) {
+      throw new Error(`Failed to list drafts: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Send a draft. Gmail removes the draft and files the message under SENT.
+   */
+  public async sendDraft(draftId: string): Promise<SendResult> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const response = await this.gmail_!.users.drafts.send({
+        userId: 'me',
+        requestBody: { id: draftId }
+      });
+
+      // The send response has no headers, so read the Message-ID back from the sent copy
+      const sent = await this.gmail_!.users.messages.get({
+        userId: 'me',
+        id: response.data.id!,
+        format: 'metadata',
+        metadataHeaders: ['Message-ID']
+      });
+      const messageId = sent.data.payload?.headers?.find(header => header.name?.toLowerCase() === 'message-id')?.value;
+
+      return {
+        messageId: messageId || '',
+        id: response.data.id || undefined,
+        threadId: response.data.threadId || undefined
+      };
+    } catch (error) {
+      throw new Error(`Failed to send draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete a draft permanently
+   */
+  public async deleteDraft(draftId: string): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      await this.gmail_!.users.drafts.delete({ userId: 'me', id: draftId });
+    } catch (error) {
+      throw new Error(`Failed to delete draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  private async loadDraft(draftId: string): Promise<NormalizedEmail> {
+    const response = await this.gmail_!.users.drafts.get({ userId: 'me', id: draftId, format: 'raw' });
+    const message = response.data.message!;
+
+    const rawEmail = Buffer.from(message.raw || '', 'base64').toString('utf-8');
+    const normalized = await this.emailParserService.parseEmail(rawEmail, message.id!, 'gmail');
+    normalized.threadId = message.threadId || normalized.threadId;
+    normalized.labels = message.labelIds || normalized.labels;
+    normalized.labelDetails = await this.resolveLabels(normalized.labels || []);
+    normalized.isDraft = true;
+    normalized.draftId = draftId;
+
+    return normalized;
+  }
+
+  // =====================================================
+  // MAILBOX MUTATIONS - Gmail labels, trash and delete
+  // =====================================================
+
+  /**
+   * Mark one or more emails as read by removing the UNREAD label.
+   */
+  public async markAsRead(ids: string | string[]): Promise<void> {
+    await this.modifyLabels(ids, [], ['UNREAD'], 'mark emails as read');
+  }
+
+  /**
+   * Mark one or more emails as unread by adding the UNREAD label.
+   */
+  public async markAsUnread(ids: string | string[]): Promise<void> {
+    await this.modifyLabels(ids, ['UNREAD'], [], 'mark emails as unread');
+  }
+
+  /**
+   * Star one or more emails.
+   */
+  public async flag(ids: string | string[]): Promise<void> {
+    await this.modifyLabels(ids, ['STARRED'], [], 'flag emails');
+  }
+
+  /**
+   * Remove the star from one or more emails.
+   */
+  public async unflag(ids: string | string[]): Promise<void> {
+    await this.modifyLabels(ids, [], ['STARRED'], 'unflag emails');
+  }
+
+  /**
+   * Archive one or more emails by removing the INBOX label.
+   */
+  public async archive(ids: string | string[]): Promise<void> {
+    await this.modifyLabels(ids, [], ['INBOX'], 'archive emails');
+  }
+
+  /**
+   * Move one or more emails to the trash. Gmail deletes trashed messages after 30 days.
+   */
+  public async moveToTrash(ids: string | string[]): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      // The Gmail API has no batch trash endpoint
+      for (const id of GmailAdapter.toIdList(ids)) {
+        await this.gmail_!.users.messages.trash({ userId: 'me', id });
+      }
+    } catch (error) {
+      throw new Error(`Failed to move emails to trash: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Permanently delete one or more emails, skipping the trash. This cannot be undone.
+   */
+  public async permanentlyDelete(ids: string | string[]): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      for (const chunk of GmailAdapter.chunkIds(GmailAdapter.toIdList(ids))) {
+        await this.gmail_!.users.messages.batchDelete({ userId: 'me', requestBody: { ids: chunk } });
+      }
+    } catch (error) {
+      throw new Error(`Failed to permanently delete emails: ${(error as Error).message}`);
+    }
+  }
+
+  private async modifyLabels(
+    ids: string | string[],
+    addLabelIds: string[],
+    removeLabelIds: string[],
+    action: string
+  ): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      for (const chunk of GmailAdapter.chunkIds(GmailAdapter.toIdList(ids))) {
+        await this.gmail_!.users.messages.batchModify({
+          userId: 'me',
+          requestBody: { ids: chunk, addLabelIds, removeLabelIds }
+        });
+      }
+    } catch (error) {
+      throw new Error(`Failed to ${action}: ${(error as Error).message}`);
+    }
+  }
+
+  private static toIdList(ids: string | string[]): string[] {
+    return Array.isArray(ids) ? ids : [ids];
+  }
+
+  /**
+   * batchModify and batchDelete accept at most 1000 IDs per call
+   */
+  private static chunkIds(ids: string[], size: number = 1000): string[][] {
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += size) {
+      chunks.push(ids.slice(i, i + size));
+    }
+    return chunks;
+  }
+
+  // =====================================================
+  // FOLDERS & LABELS - users.labels
+  // =====================================================
+
+  /**
+   * List all labels as folders, with message counts. Nested labels ("Parent/Child") get a parentId.
+   */
+  public async listFolders(): Promise<Folder[]> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const response = await this.gmail_!.users.labels.list({ userId: 'me' });
+      const labels = response.data.labels || [];
+      const idsByName = new Map(labels.map(label => [label.name!, label.id!]));
+
+      const folders: Folder[] = [];
+      for (const label of labels) {
+        // labels.list leaves out the counts
+        const details = await this.gmail_!.users.labels.get({ userId: 'me', id: label.id! });
+        folders.push(GmailAdapter.toFolder(details.data, idsByName));
+      }
+      return folders;
+    } catch (error) {
+      throw new Error(`Failed to list folders: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Create a user label, nested under options.parentId when given
+   */
+  public async createFolder(name: string, options: CreateFolderOptions = {}): Promise<Folder> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      // Gmail nests labels by name, so the parent's name becomes a prefix
+      const idsByName = new Map<string, string>();
+      let fullName = name;
+      if (options.parentId) {
+        const parent = await this.gmail_!.users.labels.get({ userId: 'me', id: options.parentId });
+        idsByName.set(parent.data.name!, options.parentId);
+        fullName = `${parent.data.name}/${name}`;
+      }
+
+      const response = await this.gmail_!.users.labels.create({
+        userId: 'me',
+        requestBody: { name: fullName, labelListVisibility: 'labelShow', messageListVisibility: 'show' }
+      });
+      this.labelCache_ = undefined;
+      return GmailAdapter.toFolder(response.data, idsByName);
+    } catch (error) {
+      throw new Error(`Failed to create folder ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Rename a user label, keeping it under the same parent
+   */
+  public async renameFolder(folderId: string, newName: string): Promise<Folder> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const current = await this.gmail_!.users.labels.get({ userId: 'me', id: folderId });
+      const currentName = current.data.name || '';
+      const separator = currentName.lastIndexOf('/');
+      const parentPath = separator >= 0 ? currentName.slice(0, separator) : undefined;
+
+      const response = await this.gmail_!.users.labels.patch({
+        userId: 'me',
+        id: folderId,
+        requestBody: { name: parentPath ? `${parentPath}/${newName}` : newName }
+      });
+      this.labelCache_ = undefined;
+
+      const idsByName = new Map<string, string>();
+      if (parentPath) {
+        const labels = await this.gmail_!.users.labels.list({ userId: 'me' });
+        const parent = (labels.data.labels || []).find(label => label.name === parentPath);
+        if (parent?.id) {
+          idsByName.set(parentPath, parent.id);
+        }
+      }
+      return GmailAdapter.toFolder(response.data, idsByName);
+    } catch (error) {
+      throw new Error(`Failed to rename folder ${folderId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete a user label. Messages keep their other labels; system labels cannot be deleted.
+   */
+  public async deleteFolder(folderId: string): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      await this.gmail_!.users.labels.delete({ userId: 'me', id: folderId });
+      this.labelCache_ = undefined;
+    } catch (error) {
+      throw new Error(`Failed to delete folder ${folderId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Add labels (by label ID) to one or more emails
+   */
+  public async addLabels(ids: string | string[], labels: string[]): Promise<void> {
+    await this.modifyLabels(ids, labels, [], 'add labels');
+  }
+
+  /**
+   * Remove labels (by label ID) from one or more emails
+   */
+  public async removeLabels(ids: string | string[], labels: string[]): Promise<void> {
+    await this.modifyLabels(ids, [], labels, 'remove labels');
+  }
+
+  /**
+   * Reload the cached label names now, e.g. after labels were changed outside this adapter
+   */
+  public async refreshLabels(): Promise<EmailLabel[]> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const response = await this.gmail_!.users.labels.list({ userId: 'me' });
+      const labels = (response.data.labels || []).map(GmailAdapter.toEmailLabel);
+      this.labelCache_ = { labels: new Map(labels.map(label => [label.id, label])), loadedAt: Date.now() };
+      return labels;
+    } catch (error) {
+      throw new Error(`Failed to load labels: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Resolve label IDs to names and roles. The label map is cached for labelCacheTtlMs
+   * and reloaded early when an ID is not in it yet.
+   */
+  public async resolveLabels(labelIds: string[]): Promise<EmailLabel[]> {
+    if (labelIds.length === 0) {
+      return [];
+    }
+
+    const cache = this.labelCache_;
+    const stale = !cache || Date.now() - cache.loadedAt > this.labelCacheTtlMs;
+    if (stale || labelIds.some(id => !cache.labels.has(id))) {
+      await this.refreshLabels();
+    }
+
+    const labels = this.labelCache_!.labels;
+    return labelIds.map(id => {
+      let label = labels.get(id);
+      if (!label) {
+        // Remember IDs that are still unknown after a reload so they don't trigger another one
+        label = GmailAdapter.toEmailLabel({ id, name: id, type: SYSTEM_LABEL_ROLES[id] ? 'system' : 'user' });
+        labels.set(id, label);
+      }
+      return label;
+    });
+  }
+
+  private static toEmailLabel(label: gmail_v1.Schema$Label): EmailLabel {
+    const type = label.type === 'system' ? 'system' : 'user';
+    return {
+      id: label.id!,
+      name: label.name || label.id!,
+      type,
+      role: type === 'system' ? SYSTEM_LABEL_ROLES[label.id!] : undefined
+    };
+  }
+
+  private static toFolder(label: gmail_v1.Schema$Label, idsByName: Map<string, string>): Folder {
+    const path = label.name || label.id!;
+    const separator = label.type === 'system' ? -1 : path.lastIndexOf('/');
+
+    return {
+      id: label.id!,
+      name: separator >= 0 ? path.slice(separator + 1) : path,
+      path,
+      type: label.type === 'system' ? 'system' : 'user',
+      role: label.type === 'system' ? SYSTEM_LABEL_ROLES[label.id!] : undefined,
+      parentId: separator >= 0 ? idsByName.get(path.slice(0, separator)) : undefined,
+      unreadCount: label.messagesUnread ?? undefined,
+      totalCount: label.messagesTotal ?? undefined
+    };
+  }
+
+  // =====================================================
+  // THREADS - users.threads
+  // =====================================================
+
+  /**
+   * Get every message in a thread, oldest first, or null if the thread does not exist
+   */
+  public async getThread(threadId: string): Promise<NormalizedThread | null> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      return await this.loadThread(threadId);
+    } catch (error) {
+      if ((error as any).code === 404) {
+        return null;
+      }
+      throw new Error(`Failed to get thread ${threadId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List threads matching the same filters as fetchEmails. limit and pageSize count threads, not messages.
+   */
+  public async fetchThreads(options: FetchOptions): Promise<PaginatedThreadsResponse> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const response = await this.gmail_!.users.threads.list({
+        userId: 'me',
+        q: this.buildGmailQuery(options) || undefined,
+        labelIds: options.folderId ? [options.folderId] : undefined,
+        maxResults: options.pageSize || options.limit || 10,
+        pageToken: options.pageToken
+      });
+
+      const threads: NormalizedThread[] = [];
+      for (const thread of response.data.threads || []) {
+        threads.push(await this.loadThread(thread.id!));
+      }
+
+      return {
+        threads,
+        nextPageToken: response.data.nextPageToken || undefined,
+        totalCount: response.data.resultSizeEstimate ?? undefined
+      };
+    } catch (error) {
+      throw new Error(`Failed to fetch threads: ${(error as Error).message}`);
+    }
+  }
+
+  private async loadThread(threadId: string): Promise<NormalizedThread> {
+    // The minimal format only lists the messages; each one is then parsed from its raw source like getEmailById does
+    const response = await this.gmail_!.users.threads.get({ userId: 'me', id: threadId, format: 'minimal' });
+    const threadMessages = response.data.messages || [];
+
+    const messages: NormalizedEmail[] = [];
+    for (const message of threadMessages) {
+      const email = await this.getEmailById(message.id!);
+      if (email) {
+        messages.push(email);
+      }
+    }
+
+    const latest = threadMessages[threadMessages.length - 1];
+    return ThreadService.buildThread(threadId, messages, { snippet: latest?.snippet || undefined });
+  }
 }
@@ -1,4 +1,5 @@
-import { NormalizedEmail, FetchOptions, AdapterCredentials, EmailStreamOptions, EmailStreamCallbacks, HistoryResponse, PushNotificationConfig, PushNotificationSetup, SyncOptions, SyncResult, PaginatedResponse } from '../interfaces.js';
+import { Readable } from 'stream';
+import { NormalizedEmail, FetchOptions, AdapterCredentials, EmailStreamOptions, EmailStreamCallbacks, HistoryResponse, PushNotificationConfig, PushNotificationSetup, SyncOptions, SyncResult, PaginatedResponse, MutationOptions, OutgoingEmail, SendResult, DraftOptions, DraftListOptions, Folder, CreateFolderOptions, NormalizedThread, AttachmentDownloadOptions } from '../interfaces.js';
 
 export interface PaginatedEmailsResponse {
   emails: NormalizedEmail[];
@@ -6,6 +7,12 @@ export interface PaginatedEmailsResponse {
   totalCount?: number; // Total number of emails matching the query (if available)
 }
 
+export interface PaginatedThreadsResponse {
+  threads: NormalizedThread[];
+  nextPageToken?: string;
+  totalCount?: number;
+}
+
 export interface IAdapter {
   // credentials?: AdapterCredentials; // Credentials might be passed in constructor
   authenticate(): Promise<void>;
@@ -27,8 +34,41 @@ export interface IAdapter {
   setupPushNotifications?(config: PushNotificationConfig): Promise<PushNotificationSetup>;
   stopPushNotifications?(): Promise<void>;
   processSync?(options?: SyncOptions): Promise<SyncResult>;
-  
-  // Future methods:
-  // deleteEmail(id: string): Promise<void>;
-  // markAsRead(id: string): Promise<void>;
+
+  // Mailbox mutations (optional). Each accepts a single ID or an array of IDs for bulk updates.
+  markAsRead?(ids: string | string[], options?: MutationOptions): Promise<void>;
+  markAsUnread?(ids: string | string[], options?: MutationOptions): Promise<void>;
+  flag?(ids: string | string[], options?: MutationOptions): Promise<void>;
+  unflag?(ids: string | string[], options?: MutationOptions): Promise<void>;
+  archive?(ids: string | string[], options?: MutationOptions): Promise<void>;
+  moveToTrash?(ids: string | string[], options?: MutationOptions): Promise<void>;
+  permanentlyDelete?(ids: string | string[], options?: MutationOptions): Promise<void>;
+
+  // Sending (optional - IMAP adapters need an SmtpSender)
+  sendEmail?(email: OutgoingEmail): Promise<SendResult>;
+
+  // Drafts (optional). Drafts come back as NormalizedEmail with isDraft and draftId set.
+  createDraft?(email: OutgoingEmail, options?: DraftOptions): Promise<NormalizedEmail>;
+  updateDraft?(draftId: string, email: OutgoingEmail, options?: DraftOptions): Promise<NormalizedEmail>;
+  getDraft?(draftId: string, options?: DraftOptions): Promise<NormalizedEmail | null>;
+  listDrafts?(options?: DraftListOptions): Promise<PaginatedEmailsResponse>;
+  sendDraft?(draftId: string, options?: DraftOptions): Promise<SendResult>;
+  deleteDraft?(draftId: string, options?: DraftOptions): Promise<void>;
+
+  // Folders and labels (optional). Gmail labels, Outlook mail folders and IMAP mailboxes are all Folders.
+  listFolders?(): Promise<Folder[]>;
+  createFolder?(name: string, options?: CreateFolderOptions): Promise<Folder>;
+  renameFolder?(folderId: string, newName: string): Promise<Folder>;
+  deleteFolder?(folderId: string): Promise<void>;
+  // Tag messages: Gmail label IDs, Outlook categories or IMAP keywords
+  addLabels?(ids: string | string[], labels: string[], options?: MutationOptions): Promise<void>;
+  removeLabels?(ids: string | string[], labels: string[], options?: MutationOptions): Promise<void>;
+
+  // Threads (optional). Messages in each thread are ordered oldest first.
+  getThread?(threadId: string): Promise<NormalizedThread | null>;
+  fetchThreads?(options: FetchOptions): Promise<PaginatedThreadsResponse>;
+
+  // Attachment content on demand (optional), by Attachment.attachmentId
+  getAttachment?(emailId: string, attachmentId: string, options?: AttachmentDownloadOptions): Promise<Buffer>;
+  getAttachmentStream?(emailId: string, attachmentId: string, options?: AttachmentDownloadOptions): Promise<Readable>;
 }
@@ -1,89 +1,1262 @@
-import { ImapFlow, ImapFlowOptions } from 'imapflow';
+import { ImapFlow, ImapFlowOptions, FetchMessageObject, FetchQueryObject, MailboxObject, SearchObject, ListResponse, MailboxLockObject } from 'imapflow';
+import { Readable, finished } from 'stream';
+import { IAdapter, PaginatedEmailsResponse, PaginatedThreadsResponse } from './IAdapter.js';
+import {
+  NormalizedEmail,
+  FetchOptions,
+  EmailStreamOptions,
+  EmailStreamCallbacks,
+  EmailStreamProgress,
+  ImapWatchOptions,
+  MutationOptions,
+  OutgoingEmail,
+  SendResult,
+  DraftOptions,
+  DraftListOptions,
+  Folder,
+  FolderRole,
+  CreateFolderOptions,
+  NormalizedThread,
+  SyncOptions,
+  SyncResult,
+  Attachment,
+  AttachmentDownloadOptions
+} from '../interfaces.js';
 import { EmailParserService } from '../services/EmailParserService.js';
-import { NormalizedEmail } from '../interfaces.js';
+import { EmailStreamService } from '../services/EmailStreamService.js';
+import { ImapWatcher } from './ImapWatcher.js';
+import { SmtpSender } from './SmtpSender.js';
+import { MimeBuilder } from '../services/MimeBuilder.js';
+import { ThreadService } from '../services/ThreadService.js';
+import { AddressParser } from '../utils/AddressParser.js';
+import { AttachmentHandling, AttachmentStorage } from '../attachments/AttachmentStorage.js';
+import { AttachmentHandle } from '../attachments/AttachmentHandle.js';
+import { AttachmentClassifier } from '../attachments/AttachmentClassifier.js';
 
-// Define Unimail-normalized email output
+// Decoded form of the opaque sync token handed out in place of a Gmail historyId
+interface ImapSyncToken {
+  mailbox: string;
+  uidValidity: string; // bigint serialized as string
+  lastUid: number; // Highest UID already reported
+  highestModseq?: string; // CONDSTORE HIGHESTMODSEQ at the time of the last sync
+  uids?: string; // Known UID set as a sequence string, only kept when the server lacks QRESYNC
+}
+
+// One node of a message's BODYSTRUCTURE as parsed by imapflow
+type MessageStructure = NonNullable<FetchMessageObject['bodyStructure']>;
 
-interface FetchOptions {
-  since?: Date;
-  limit?: number;
-  mailbox?: string;
+// What to download for each message of a fetch, shared by every page it reads
+interface ImapFetchRequest {
+  messageFormat: 'raw' | 'full' | 'metadata';
+  includeBody: boolean;
+  includeAttachments: boolean;
+  attachments: AttachmentHandling;
 }
 
-export class ImapAdapter {
-  private client: ImapFlow;
+// Whole messages with attachments kept in memory, as sync, drafts and threads return them
+const FULL_MESSAGES: ImapFetchRequest = { messageFormat: 'raw', includeBody: true, includeAttachments: true, attachments: {} };
+
+// Roles of special-use mailboxes (RFC 6154), shared with Gmail system labels and Outlook well-known folders
+const SPECIAL_USE_ROLES: Record<string, FolderRole> = {
+  '\\Inbox': 'inbox',
+  '\\Sent': 'sent',
+  '\\Drafts': 'drafts',
+  '\\Trash': 'trash',
+  '\\Junk': 'spam',
+  '\\Archive': 'archive',
+  '\\All': 'all',
+  '\\Flagged': 'starred'
+};
+
+export class ImapAdapter implements IAdapter {
   private config: ImapFlowOptions;
   private emailParserService: EmailParserService;
-  private retries = 0;
+  private activeClients: Set<ImapFlow> = new Set();
   private maxRetries = 3;
+  private smtpSender?: SmtpSender;
+  private mimeBuilder: MimeBuilder;
 
-  constructor(config: ImapFlowOptions) {
+  /**
+   * @param smtpSender Optional sender used by sendEmail, since IMAP itself cannot send mail
+   */
+  constructor(config: ImapFlowOptions, smtpSender?: SmtpSender) {
     this.config = config;
-    this.client = new ImapFlow(config);
+    this.smtpSender = smtpSender;
     this.emailParserService = new EmailParserService();
+    this.mimeBuilder = new MimeBuilder();
   }
 
   private log(msg: string, extra?: any) {
     console.log(`[IMAP] ${msg}`, extra || '');
   }
 
-  private async connectWithRetry() {
-    while (this.retries < this.maxRetries) {
+  /**
+   * Opens a new connection to the server.
+   * ImapFlow instances cannot be reused after logout, so every session gets its own client.
+   */
+  private async openConnection(overrides: Partial<ImapFlowOptions> = {}): Promise<ImapFlow> {
+    const client = new ImapFlow({ ...this.config, ...overrides });
+    await client.connect();
+    this.activeClients.add(client);
+    this.log('Connected successfully');
+    return client;
+  }
+
+  private async connectWithRetry(overrides: Partial<ImapFlowOptions> = {}): Promise<ImapFlow> {
+    let retries = 0;
+    while (retries < this.maxRetries) {
       try {
-        await this.client.connect();
-        this.log('Connected successfully');
-        return;
+        return await this.openConnection(overrides);
       } catch (err) {
-        this.retries++;
-        this.log(`Connection failed (attempt ${this.retries})`, err);
-        await new Promise(res => setTimeout(res, 1000 * this.retries)); // exponential backoff
+        retries++;
+        this.log(`Connection failed (attempt ${retries})`, err);
+        await new Promise(res => setTimeout(res, 1000 * retries)); // exponential backoff
       }
     }
     throw new Error(`Failed to connect after ${this.maxRetries} attempts`);
   }
 
-  public async fetchEmails({ since, limit = 10, mailbox = 'INBOX' }: FetchOptions): Promise<NormalizedEmail[]> {
-    const output: NormalizedEmail[] = [];
-
-    await this.connectWithRetry();
+  /**
+   * Lock a mailbox on a fresh connection, closing the connection when the mailbox cannot be opened
+   */
+  private async lockMailbox(client: ImapFlow, path: string): Promise<MailboxLockObject> {
+    try {
+      return await client.getMailboxLock(path);
+    } catch (error) {
+      await this.disconnect(client);
+      throw error;
+    }
+  }
 
+  private async disconnect(client: ImapFlow): Promise<void> {
+    this.activeClients.delete(client);
     try {
-      await this.client.mailboxOpen(mailbox);
+      await client.logout();
+      this.log('Disconnected cleanly');
+    } catch (err) {
+      this.log('Error during logout', err);
+    }
+  }
 
-      let counter = 0;
-      let normalized: NormalizedEmail;
-      for await (const msg of this.client.fetch({ since }, { source: true, uid: true })) {
+  /**
+   * Verify the IMAP credentials by opening and closing a connection.
+   */
+  public async authenticate(): Promise<void> {
+    const client = await this.connectWithRetry();
+    await this.disconnect(client);
+  }
 
-        normalized = await this.emailParserService.parseEmail(msg.source as Buffer, msg.uid.toString(), 'imap');
-        normalized.attachments = normalized.attachments.filter(att => {
-          if (att.contentId && normalized.bodyHtml?.includes(`cid:${att.contentId.replace(/[<>]/g, '')}`)) {
-            // This is likely an inline image referenced in the HTML
-            return false;
-          }
-          return true;
-        });
-        output.push(normalized);
+  public async fetchEmails(options: FetchOptions): Promise<PaginatedEmailsResponse> {
+    const {
+      limit = 10,
+      pageToken,
+      pageSize,
+      getAllPages = false
+    } = options;
 
-        counter++;
-        if (counter >= limit) break;
-      }
+    if (getAllPages) {
+      // Show deprecation warning to match the other adapters
+      console.warn('Warning: getAllPages option is deprecated and may cause memory issues with large datasets. Consider using streamEmails() instead.');
+    }
+
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, options.folderId || options.mailbox || 'INBOX');
 
-      this.log(`Fetched ${output.length} email(s)`);
-      return output;
+    try {
+      const uids = await this.searchUids(client, options);
+
+      // With the full UID list in hand, fetching "all pages up to limit" is a single page of size limit
+      const response = await this.fetchUidPage(
+        client,
+        uids,
+        getAllPages ? undefined : pageToken,
+        getAllPages ? limit : (pageSize || limit),
+        this.fetchRequestFor(options)
+      );
+
+      this.log(`Fetched ${response.emails.length} email(s)`);
+      return response;
     } catch (err) {
       this.log('Error during fetchEmails', err);
       throw err;
     } finally {
-      await this.close();
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  /**
+   * Stream emails in batches using async generator
+   * A single connection is held open for the lifetime of the stream
+   */
+  public async *streamEmails(options: EmailStreamOptions): AsyncGenerator<NormalizedEmail[], void, unknown> {
+    yield* this.createUidStream(options);
+  }
+
+  /**
+   * Stream emails with callback-based progress tracking
+   * IMAP SEARCH returns every matching UID up front, so the total count is exact
+   */
+  public async fetchEmailsStream(options: EmailStreamOptions, callbacks: EmailStreamCallbacks): Promise<void> {
+    let totalCount: number | undefined;
+
+    const enhancedCallbacks: EmailStreamCallbacks = {
+      ...callbacks,
+      onBatch: async (emails, progress) => {
+        const enhancedProgress: EmailStreamProgress = {
+          ...progress,
+          total: totalCount,
+          estimatedRemaining: EmailStreamService.calculateEstimatedRemaining(totalCount, progress.current)
+        };
+
+        if (callbacks.onBatch) {
+          await callbacks.onBatch(emails, enhancedProgress);
+        }
+      },
+      onProgress: async (progress) => {
+        const enhancedProgress: EmailStreamProgress = {
+          ...progress,
+          total: totalCount,
+          estimatedRemaining: EmailStreamService.calculateEstimatedRemaining(totalCount, progress.current)
+        };
+
+        if (callbacks.onProgress) {
+          await callbacks.onProgress(enhancedProgress);
+        }
+      }
+    };
+
+    const streamGenerator = this.createUidStream(options, count => {
+      totalCount = options.maxEmails ? Math.min(count, options.maxEmails) : count;
+    });
+
+    await EmailStreamService.processEmailStream(streamGenerator, enhancedCallbacks);
+  }
+
+  /**
+   * Watch a mailbox for new mail using IMAP IDLE.
+   * The returned watcher is already started; listen for 'email' events and call stop() when done.
+   */
+  public async watch(options: ImapWatchOptions = {}): Promise<ImapWatcher> {
+    const watcher = new ImapWatcher({
+      openConnection: () => this.openConnection(),
+      closeConnection: client => this.disconnect(client),
+      normalizeMessage: (msg, includeBody, includeAttachments) => this.normalizeMessage(msg, includeBody, includeAttachments)
+    }, options);
+
+    await watcher.start();
+    return watcher;
+  }
+
+  // =====================================================
+  // SYNC CAPABILITIES - UIDVALIDITY, CONDSTORE & QRESYNC
+  // =====================================================
+
+  /**
+   * Get a sync token describing the current state of a mailbox.
+   * The token is opaque and plays the role of a Gmail historyId in processSync.
+   */
+  public async getCurrentHistoryId(mailbox: string = 'INBOX'): Promise<string> {
+    const client = await this.connectWithRetry({ qresync: true });
+    const lock = await this.lockMailbox(client, mailbox);
+
+    try {
+      const state = client.mailbox as MailboxObject;
+      const token: ImapSyncToken = {
+        mailbox,
+        uidValidity: state.uidValidity.toString(),
+        lastUid: state.uidNext - 1,
+        highestModseq: state.highestModseq !== undefined ? state.highestModseq.toString() : undefined
+      };
+
+      // Without QRESYNC the only way to spot deletions later is to remember which UIDs existed
+      if (!client.enabled.has('QRESYNC')) {
+        token.uids = ImapAdapter.compressUids(await client.search({ all: true }, { uid: true }) || []);
+      }
+
+      return ImapAdapter.encodeSyncToken(token);
+    } catch (error) {
+      throw new Error(`Failed to get current history ID: ${(error as Error).message}`);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  /**
+   * Get a specific email by its UID.
+   */
+  public async getEmailById(id: string, mailbox: string = 'INBOX'): Promise<NormalizedEmail | null> {
+    const uid = parseInt(id, 10);
+    if (isNaN(uid)) {
+      return null;
+    }
+
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, mailbox);
+
+    try {
+      const [email] = await this.fetchNormalized(client, [uid], FULL_MESSAGES);
+      return email || null;
+    } catch (error) {
+      throw new Error(`Failed to get email by ID ${id}: ${(error as Error).message}`);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  /**
+   * Process changes since a sync token returned by getCurrentHistoryId or a previous processSync.
+   * New mail is found by UID, flag changes through CONDSTORE, and deletions through QRESYNC VANISHED
+   * responses (or by comparing against the UID set stored in the token when QRESYNC is unavailable).
+   */
+  public async processSync(options: SyncOptions = {}): Promise<SyncResult> {
+    const { startHistoryId, maxResults = 100 } = options;
+
+    if (!startHistoryId) {
+      throw new Error('startHistoryId is required for processSync');
+    }
+
+    const token = ImapAdapter.decodeSyncToken(startHistoryId);
+    const client = await this.connectWithRetry({ qresync: true });
+    const lock = await this.lockMailbox(client, token.mailbox);
+
+    try {
+      const state = client.mailbox as MailboxObject;
+
+      // A new UIDVALIDITY means every UID we know about now points at a different message (or none)
+      if (state.uidValidity.toString() !== token.uidValidity) {
+        throw new Error(`UIDVALIDITY of ${token.mailbox} changed. Use getCurrentHistoryId() to get a fresh starting point.`);
+      }
+
+      const hasQresync = client.enabled.has('QRESYNC');
+      const hasCondstore = client.enabled.has('CONDSTORE') && !state.noModseq && !!token.highestModseq;
+
+      const deleted = new Set<number>();
+      const changedUids: number[] = [];
+
+      if (hasCondstore && token.lastUid > 0) {
+        // With QRESYNC enabled, CHANGEDSINCE also reports expunged UIDs as VANISHED, surfaced as 'expunge' events
+        const onExpunge = (data: { uid?: number; vanished?: boolean }) => {
+          if (data.vanished && data.uid && data.uid <= token.lastUid) {
+            deleted.add(data.uid);
+          }
+        };
+        client.on('expunge', onExpunge);
+
+        try {
+          const changes = client.fetch(
+            `1:${token.lastUid}`,
+            { uid: true, flags: true },
+            { uid: true, changedSince: BigInt(token.highestModseq!) }
+          );
+          for await (const msg of changes) {
+            if (msg.uid <= token.lastUid) {
+              changedUids.push(msg.uid);
+            }
+          }
+        } finally {
+          client.off('expunge', onExpunge);
+        }
+      }
+
+      let knownUids: number[] = [];
+      if (!hasQresync) {
+        knownUids = token.lastUid > 0 ? await client.search({ uid: `1:${token.lastUid}` }, { uid: true }) || [] : [];
+        const existing = new Set(knownUids);
+        for (const uid of ImapAdapter.expandUids(token.uids || '')) {
+          if (!existing.has(uid)) {
+            deleted.add(uid);
+          }
+        }
+      }
+
+      // "N:*" always matches the newest message, even when its UID is below N
+      const newUids = (await client.search({ uid: `${token.lastUid + 1}:*` }, { uid: true }) || [])
+        .filter(uid => uid > token.lastUid)
+        .sort((a, b) => a - b);
+      const addedUids = newUids.slice(0, maxResults);
+      const hasMoreChanges = newUids.length > addedUids.length;
+
+      const addedEmails = await this.fetchNormalized(client, addedUids, FULL_MESSAGES);
+      const updatedEmails = await this.fetchNormalized(client, changedUids.filter(uid => !deleted.has(uid)), FULL_MESSAGES);
+
+      const lastUid = hasMoreChanges
+        ? addedUids[addedUids.length - 1]
+        : Math.max(token.lastUid, state.uidNext - 1, ...addedUids);
+
+      const nextToken: ImapSyncToken = {
+        mailbox: token.mailbox,
+        uidValidity: token.uidValidity,
+        lastUid,
+        highestModseq: state.highestModseq !== undefined ? state.highestModseq.toString() : token.highestModseq
+      };
+      if (!hasQresync) {
+        nextToken.uids = ImapAdapter.compressUids([...knownUids, ...addedUids]);
+      }
+
+      const deletedEmailIds = [...deleted].sort((a, b) => a - b).map(uid => uid.toString());
+
+      return {
+        processedHistoryRecords: addedEmails.length + deletedEmailIds.length + updatedEmails.length,
+        addedEmails,
+        deletedEmailIds,
+        updatedEmails,
+        newHistoryId: ImapAdapter.encodeSyncToken(nextToken),
+        hasMoreChanges
+      };
+    } catch (error) {
+      throw new Error(`Failed to process sync: ${(error as Error).message}`);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  private static encodeSyncToken(token: ImapSyncToken): string {
+    return Buffer.from(JSON.stringify(token), 'utf-8').toString('base64url');
+  }
+
+  private static decodeSyncToken(value: string): ImapSyncToken {
+    try {
+      const token = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+      if (typeof token.mailbox !== 'string' || typeof token.uidValidity !== 'string' || typeof token.lastUid !== 'number') {
+        throw new Error('missing fields');
+      }
+      return token;
+    } catch {
+      throw new Error(`Invalid IMAP sync token: ${value}`);
+    }
+  }
+
+  /**
+   * Collapse a list of UIDs into an IMAP sequence string, e.g. [1,2,3,7] -> "1:3,7"
+   */
+  private static compressUids(uids: number[]): string {
+    const sorted = [...new Set(uids)].sort((a, b) => a - b);
+    const ranges: string[] = [];
+
+    for (let i = 0; i < sorted.length; i++) {
+      const start = sorted[i];
+      while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) {
+        i++;
+      }
+      ranges.push(start === sorted[i] ? `${start}` : `${start}:${sorted[i]}`);
+    }
+
+    return ranges.join(',');
+  }
+
+  private static expandUids(sequence: string): number[] {
+    const uids: number[] = [];
+    for (const range of sequence.split(',').filter(Boolean)) {
+      const [start, end = start] = range.split(':').map(n => parseInt(n, 10));
+      for (let uid = start; uid <= end; uid++) {
+        uids.push(uid);
+      }
+    }
+    return uids;
+  }
+
+  // =====================================================
+  // MAILBOX MUTATIONS - Flags, special-use folders & expunge
+  // =====================================================
+
+  /**
+   * Mark one or more emails as read by setting \Seen.
+   */
+  public async markAsRead(ids: string | string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'mark emails as read', (client, uids) =>
+      client.messageFlagsAdd(uids, ['\\Seen'], { uid: true }));
+  }
+
+  /**
+   * Mark one or more emails as unread by clearing \Seen.
+   */
+  public async markAsUnread(ids: string | string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'mark emails as unread', (client, uids) =>
+      client.messageFlagsRemove(uids, ['\\Seen'], { uid: true }));
+  }
+
+  /**
+   * Flag one or more emails by setting \Flagged.
+   */
+  public async flag(ids: string | string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'flag emails', (client, uids) =>
+      client.messageFlagsAdd(uids, ['\\Flagged'], { uid: true }));
+  }
+
+  /**
+   * Unflag one or more emails by clearing \Flagged.
+   */
+  public async unflag(ids: string | string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'unflag emails', (client, uids) =>
+      client.messageFlagsRemove(uids, ['\\Flagged'], { uid: true }));
+  }
+
+  /**
+   * Move one or more emails to the server's \Archive mailbox.
+   */
+  public async archive(ids: string | string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'archive emails', async (client, uids) => {
+      const destination = await this.findSpecialUseMailbox(client, '\\Archive');
+      await client.messageMove(uids, destination, { uid: true });
+    });
+  }
+
+  /**
+   * Move one or more emails to the server's \Trash mailbox.
+   */
+  public async moveToTrash(ids: string | string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'move emails to trash', async (client, uids) => {
+      const destination = await this.findSpecialUseMailbox(client, '\\Trash');
+      await client.messageMove(uids, destination, { uid: true });
+    });
+  }
+
+  /**
+   * Permanently delete one or more emails (\Deleted + EXPUNGE). This cannot be undone.
+   */
+  public async permanentlyDelete(ids: string | string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'permanently delete emails', (client, uids) =>
+      client.messageDelete(uids, { uid: true }));
+  }
+
+  /**
+   * Runs a mutation against a UID set in the given mailbox (INBOX by default)
+   */
+  private async withUids(
+    ids: string | string[],
+    options: MutationOptions,
+    action: string,
+    operation: (client: ImapFlow, uids: string) => Promise<unknown>
+  ): Promise<void> {
+    const uids = (Array.isArray(ids) ? ids : [ids]).map(id => {
+      if (!/^\d+$/.test(id)) {
+        throw new Error(`Failed to ${action}: Invalid IMAP UID ${id}`);
+      }
+      return parseInt(id, 10);
+    });
+    if (uids.length === 0) {
+      return;
+    }
+
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, options.mailbox || 'INBOX');
+
+    try {
+      await operation(client, ImapAdapter.compressUids(uids));
+    } catch (error) {
+      throw new Error(`Failed to ${action}: ${(error as Error).message}`);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  private async findSpecialUseMailbox(client: ImapFlow, specialUse: string): Promise<string> {
+    const mailboxes = await client.list();
+    const match = mailboxes.find(mailbox => mailbox.specialUse === specialUse);
+    if (!match) {
+      throw new Error(`No ${specialUse} mailbox found on the server`);
+    }
+    return match.path;
+  }
+
+  // =====================================================
+  // SENDING - SMTP through SmtpSender
+  // =====================================================
+
+  /**
+   * Send an email through the SmtpSender passed to the constructor
+   */
+  public async sendEmail(email: OutgoingEmail): Promise<SendResult> {
+    if (!this.smtpSender) {
+      throw new Error('IMAP cannot send mail; pass an SmtpSender to the ImapAdapter constructor');
+    }
+    return this.smtpSender.sendEmail(email);
+  }
+
+  // =====================================================
+  // DRAFTS - APPEND to the \Drafts mailbox
+  // =====================================================
+
+  /**
+   * Save an email as a draft by appending it to the drafts mailbox with the \Draft flag
+   */
+  public async createDraft(email: OutgoingEmail, options: DraftOptions = {}): Promise<NormalizedEmail> {
+    return this.withDraftsMailbox(options, 'create draft', async (client, path) => {
+      const uid = await this.appendDraft(client, path, email);
+      return this.fetchDraft(client, uid);
+    });
+  }
+
+  /**
+   * Replace a draft. IMAP messages are immutable, so the new version is appended and the old one
+   * expunged: the returned draft has a new UID.
+   */
+  public async updateDraft(draftId: string, email: OutgoingEmail, options: DraftOptions = {}): Promise<NormalizedEmail> {
+    const oldUid = ImapAdapter.parseUid(draftId);
+
+    return this.withDraftsMailbox(options, `update draft ${draftId}`, async (client, path) => {
+      const uid = await this.appendDraft(client, path, email);
+      await client.messageDelete(String(oldUid), { uid: true });
+      return this.fetchDraft(client, uid);
+    });
+  }
+
+  /**
+   * Get a draft by UID, or null if it does not exist
+   */
+  public async getDraft(draftId: string, options: DraftOptions = {}): Promise<NormalizedEmail | null> {
+    if (!/^\d+$/.test(draftId)) {
+      return null;
+    }
+
+    return this.withDraftsMailbox(options, `get draft ${draftId}`, async client => {
+      const [email] = await this.fetchNormalized(client, [parseInt(draftId, 10)], FULL_MESSAGES);
+      return email ? ImapAdapter.markDraft(email) : null;
+    });
+  }
+
+  /**
+   * List drafts, newest first. The page token is a UID, as with fetchEmails.
+   */
+  public async listDrafts(options: DraftListOptions = {}): Promise<PaginatedEmailsResponse> {
+    return this.withDraftsMailbox(options, 'list drafts', async client => {
+      const uids = await this.searchUids(client, {});
+      const response = await this.fetchUidPage(client, uids, options.pageToken, options.limit || 10, FULL_MESSAGES);
+      response.emails.forEach(ImapAdapter.markDraft);
+      return response;
+    });
+  }
+
+  /**
+   * Send a draft through the SmtpSender passed to the constructor, then delete it.
+   * The stored message goes out as saved, so inline images, Reply-To and custom headers are kept.
+   */
+  public async sendDraft(draftId: string, options: DraftOptions = {}): Promise<SendResult> {
+    if (!this.smtpSender) {
+      throw new Error('IMAP cannot send mail; pass an SmtpSender to the ImapAdapter constructor');
+    }
+    const uid = ImapAdapter.parseUid(draftId);
+
+    const source = await this.withDraftsMailbox(options, `send draft ${draftId}`, async client => {
+      for await (const msg of client.fetch([uid], { uid: true, source: true }, { uid: true })) {
+        if (msg.source) {
+          return msg.source;
+        }
+      }
+      throw new Error('draft not found');
+    });
+
+    const draft = await this.emailParserService.parseEmail(source, draftId, 'imap');
+    const result = await this.smtpSender.sendRawMessage(source, {
+      from: draft.from.address || undefined,
+      to: [...draft.to, ...(draft.cc || []), ...(draft.bcc || [])]
+        .map(recipient => recipient.address)
+        .filter(Boolean)
+    });
+
+    await this.deleteDraft(draftId, options);
+    return result;
+  }
+
+  /**
+   * Delete a draft (\Deleted + EXPUNGE)
+   */
+  public async deleteDraft(draftId: string, options: DraftOptions = {}): Promise<void> {
+    const uid = ImapAdapter.parseUid(draftId);
+
+    await this.withDraftsMailbox(options, `delete draft ${draftId}`, async client => {
+      await client.messageDelete(String(uid), { uid: true });
+    });
+  }
+
+  /**
+   * Opens a session on the drafts mailbox: options.mailbox, or the server's \Drafts special-use mailbox
+   */
+  private async withDraftsMailbox<T>(
+    options: DraftOptions,
+    action: string,
+    operation: (client: ImapFlow, path: string) => Promise<T>
+  ): Promise<T> {
+    const client = await this.connectWithRetry();
+
+    try {
+      const path = options.mailbox || await this.findSpecialUseMailbox(client, '\\Drafts');
+      const lock = await client.getMailboxLock(path);
+      try {
+        return await operation(client, path);
+      } finally {
+        lock.release();
+      }
+    } catch (error) {
+      throw new Error(`Failed to ${action}: ${(error as Error).message}`);
+    } finally {
+      await this.disconnect(client);
+    }
+  }
+
+  private async appendDraft(client: ImapFlow, path: string, email: OutgoingEmail): Promise<number> {
+    // Keep Bcc so the recipients survive until the draft is sent
+    const message = await this.mimeBuilder.build(email, { keepBcc: true });
+    const appended = await client.append(path, message.raw, ['\\Draft', '\\Seen']);
+    if (appended.uid) {
+      return appended.uid;
+    }
+
+    // Without UIDPLUS the server does not report the new UID, so look it up by Message-ID
+    const matches = await client.search({ header: { 'message-id': message.messageId } }, { uid: true });
+    if (!matches || matches.length === 0) {
+      throw new Error('Could not locate the appended draft');
+    }
+    return Math.max(...matches);
+  }
+
+  private async fetchDraft(client: ImapFlow, uid: number): Promise<NormalizedEmail> {
+    const [email] = await this.fetchNormalized(client, [uid], FULL_MESSAGES);
+    if (!email) {
+      throw new Error(`Draft ${uid} disappeared after saving`);
+    }
+    return ImapAdapter.markDraft(email);
+  }
+
+  private static markDraft(email: NormalizedEmail): NormalizedEmail {
+    email.isDraft = true;
+    email.draftId = email.id;
+    return email;
+  }
+
+  private static parseUid(id: string): number {
+    if (!/^\d+$/.test(id)) {
+      throw new Error(`Invalid IMAP UID ${id}`);
     }
+    return parseInt(id, 10);
   }
 
+  // =====================================================
+  // ATTACHMENTS - Body parts downloaded by part number
+  // =====================================================
+
+  /**
+   * Download one attachment of an email. attachmentId is the body part number from Attachment.attachmentId.
+   */
+  public async getAttachment(emailId: string, attachmentId: string, options: AttachmentDownloadOptions = {}): Promise<Buffer> {
+    const uid = ImapAdapter.parseUid(emailId);
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, options.mailbox || 'INBOX');
+
+    try {
+      return await this.downloadPart(client, uid, attachmentId);
+    } catch (error) {
+      throw new Error(`Failed to get attachment ${attachmentId} of email ${emailId}: ${(error as Error).message}`);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  /**
+   * Download one attachment of an email as a stream. The connection stays open until the stream ends.
+   */
+  public async getAttachmentStream(emailId: string, attachmentId: string, options: AttachmentDownloadOptions = {}): Promise<Readable> {
+    const uid = ImapAdapter.parseUid(emailId);
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, options.mailbox || 'INBOX');
+    const release = async () => {
+      lock.release();
+      await this.disconnect(client);
+    };
+
+    try {
+      const { content } = await client.download(uid.toString(), attachmentId, { uid: true });
+      const stream = content as unknown as Readable;
+      finished(stream, () => {
+        release().catch(() => undefined);
+      });
+      return stream;
+    } catch (error) {
+      await release();
+      throw new Error(`Failed to get attachment ${attachmentId} of email ${emailId}: ${(error as Error).message}`);
+    }
+  }
+
+  // =====================================================
+  // FOLDERS & KEYWORDS - LIST, CREATE, RENAME, DELETE
+  // =====================================================
+
+  /**
+   * List every mailbox with its message and unseen counts. Folder ids are mailbox paths.
+   */
+  public async listFolders(): Promise<Folder[]> {
+    return this.withClient('list folders', async client => {
+      const mailboxes = await client.list({ statusQuery: { messages: true, unseen: true } });
+      return mailboxes.map(ImapAdapter.toFolder);
+    });
+  }
+
+  /**
+   * Create a mailbox at the top level or inside options.parentId
+   */
+  public async createFolder(name: string, options: CreateFolderOptions = {}): Promise<Folder> {
+    return this.withClient(`create folder ${name}`, async client => {
+      const created = await client.mailboxCreate(options.parentId ? [options.parentId, name] : name);
+      return this.findFolder(client, created.path);
+    });
+  }
+
+  /**
+   * Rename a mailbox in place; the returned folder carries the new path as its id
+   */
+  public async renameFolder(folderId: string, newName: string): Promise<Folder> {
+    return this.withClient(`rename folder ${folderId}`, async client => {
+      const current = await this.findFolder(client, folderId);
+      const renamed = await client.mailboxRename(folderId, current.parentId ? [current.parentId, newName] : newName);
+      return this.findFolder(client, renamed.newPath);
+    });
+  }
+
+  /**
+   * Delete a mailbox and every message in it
+   */
+  public async deleteFolder(folderId: string): Promise<void> {
+    await this.withClient(`delete folder ${folderId}`, client => client.mailboxDelete(folderId));
+  }
+
+  /**
+   * Add IMAP keywords to one or more emails. Keywords cannot contain spaces or parentheses.
+   */
+  public async addLabels(ids: string | string[], labels: string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'add labels', (client, uids) =>
+      client.messageFlagsAdd(uids, labels, { uid: true }));
+  }
+
+  /**
+   * Remove IMAP keywords from one or more emails
+   */
+  public async removeLabels(ids: string | string[], labels: string[], options: MutationOptions = {}): Promise<void> {
+    await this.withUids(ids, options, 'remove labels', (client, uids) =>
+      client.messageFlagsRemove(uids, labels, { uid: true }));
+  }
+
+  private async withClient<T>(action: string, operation: (client: ImapFlow) => Promise<T>): Promise<T> {
+    const client = await this.connectWithRetry();
+
+    try {
+      return await operation(client);
+    } catch (error) {
+      throw new Error(`Failed to ${action}: ${(error as Error).message}`);
+    } finally {
+      await this.disconnect(client);
+    }
+  }
+
+  private async findFolder(client: ImapFlow, path: string): Promise<Folder> {
+    const match = (await client.list({ statusQuery: { messages: true, unseen: true } }))
+      .find(mailbox => mailbox.path === path);
+    if (!match) {
+      throw new Error(`No mailbox ${path} found on the server`);
+    }
+    return ImapAdapter.toFolder(match);
+  }
+
+  private static toFolder(mailbox: ListResponse): Folder {
+    const role = mailbox.path.toUpperCase() === 'INBOX' ? 'inbox' : SPECIAL_USE_ROLES[mailbox.specialUse];
+    return {
+      id: mailbox.path,
+      name: mailbox.name,
+      path: mailbox.path,
+      type: mailbox.specialUse || role ? 'system' : 'user',
+      role,
+      parentId: mailbox.parentPath || undefined,
+      unreadCount: mailbox.status?.unseen,
+      totalCount: mailbox.status?.messages
+    };
+  }
+
+  // =====================================================
+  // THREADS - Reply chains rebuilt from References
+  // =====================================================
+
+  /**
+   * Get every message of a reply chain in a mailbox, oldest first. Thread IDs are the
+   * Message-ID of the first message, as set on NormalizedEmail.threadId.
+   */
+  public async getThread(threadId: string, mailbox: string = 'INBOX'): Promise<NormalizedThread | null> {
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, mailbox);
+
+    try {
+      const messages = await this.fetchThreadMessages(client, threadId);
+      return messages.length > 0 ? ThreadService.buildThread(threadId, messages) : null;
+    } catch (error) {
+      throw new Error(`Failed to get thread ${threadId}: ${(error as Error).message}`);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  /**
+   * List the threads of the messages matching the same filters as fetchEmails.
+   * Paging follows messages, so a page holds at most limit threads.
+   */
+  public async fetchThreads(options: FetchOptions): Promise<PaginatedThreadsResponse> {
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, options.folderId || options.mailbox || 'INBOX');
+
+    try {
+      const uids = await this.searchUids(client, options);
+      const page = await this.fetchUidPage(
+        client,
+        uids,
+        options.pageToken,
+        options.pageSize || options.limit || 10,
+        this.fetchRequestFor({ ...options, format: 'metadata' })
+      );
+
+      const threads: NormalizedThread[] = [];
+      const seen = new Set<string>();
+      for (const email of page.emails) {
+        // Skip messages already pulled into an earlier thread, e.g. replies that only carry In-Reply-To
+        if (!email.threadId || seen.has(email.threadId) || seen.has(email.id)) {
+          continue;
+        }
+        const messages = await this.fetchThreadMessages(client, email.threadId);
+        seen.add(email.threadId);
+        messages.forEach(message => seen.add(message.id));
+        threads.push(ThreadService.buildThread(email.threadId, messages));
+      }
+
+      return { threads, nextPageToken: page.nextPageToken, totalCount: page.totalCount };
+    } catch (error) {
+      throw new Error(`Failed to fetch threads: ${(error as Error).message}`);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  /**
+   * Finds the root message and every reply that points at it. Replies list the root first in
+   * References; In-Reply-To covers direct replies from clients that leave References out.
+   */
+  private async fetchThreadMessages(client: ImapFlow, rootMessageId: string): Promise<NormalizedEmail[]> {
+    const uids = await client.search({
+      or: [
+        { header: { 'message-id': rootMessageId } },
+        { header: { references: rootMessageId } },
+        { header: { 'in-reply-to': rootMessageId } }
+      ]
+    }, { uid: true });
+
+    const messages = await this.fetchNormalized(client, uids || [], FULL_MESSAGES);
+    // A reply that only has In-Reply-To still belongs to this thread
+    for (const message of messages) {
+      message.threadId = rootMessageId;
+    }
+    return messages;
+  }
+
+  /**
+   * Close any connections that are still open
+   */
   public async close() {
+    await Promise.all([...this.activeClients].map(client => this.disconnect(client)));
+  }
+
+  /**
+   * Creates the batch generator shared by streamEmails and fetchEmailsStream
+   */
+  private async *createUidStream(
+    options: EmailStreamOptions,
+    onTotalCount?: (count: number) => void
+  ): AsyncGenerator<NormalizedEmail[], void, unknown> {
+    // Validate options
+    EmailStreamService.validateStreamOptions(options);
+
+    const client = await this.connectWithRetry();
+    const lock = await this.lockMailbox(client, options.folderId || options.mailbox || 'INBOX');
+
     try {
-      await this.client.logout();
-      this.log('Disconnected cleanly');
-    } catch (err) {
-      this.log('Error during logout', err);
+      const uids = await this.searchUids(client, options);
+      if (onTotalCount) {
+        onTotalCount(uids.length);
+      }
+
+      const request = this.fetchRequestFor(options);
+      const fetchPageFn = async (pageToken?: string, pageSize?: number) => {
+        return await this.fetchUidPage(client, uids, pageToken, pageSize || options.batchSize || 50, request);
+      };
+
+      yield* EmailStreamService.createEmailStream(fetchPageFn, options);
+    } finally {
+      lock.release();
+      await this.disconnect(client);
+    }
+  }
+
+  /**
+   * Runs an IMAP SEARCH for the given options and returns matching UIDs, newest first
+   */
+  private async searchUids(client: ImapFlow, options: FetchOptions | EmailStreamOptions): Promise<number[]> {
+    const uids = await client.search(this.buildSearchQuery(options), { uid: true });
+    return (uids || []).sort((a, b) => b - a);
+  }
+
+  /**
+   * Helper method to build an IMAP search query from fetch options
+   */
+  private buildSearchQuery(options: FetchOptions | EmailStreamOptions): SearchObject {
+    const search: SearchObject = {};
+
+    if (options.since) {
+      search.since = typeof options.since === 'string' ? new Date(options.since) : options.since;
+    }
+    if (options.before) {
+      search.before = typeof options.before === 'string' ? new Date(options.before) : options.before;
+    }
+    if (options.unreadOnly) {
+      search.seen = false;
+    }
+    if (options.query) {
+      search.body = options.query;
+    }
+
+    // An empty search object is not a valid IMAP SEARCH
+    if (Object.keys(search).length === 0) {
+      search.all = true;
     }
+
+    return search;
+  }
+
+  /**
+   * Fetches one page of messages from a UID list sorted newest first.
+   * The page token is the last UID returned; the next page continues with lower UIDs.
+   */
+  private async fetchUidPage(
+    client: ImapFlow,
+    uids: number[],
+    pageToken: string | undefined,
+    pageSize: number,
+    request: ImapFetchRequest
+  ): Promise<PaginatedEmailsResponse> {
+    let remaining = uids;
+    if (pageToken) {
+      const cursor = parseInt(pageToken, 10);
+      if (isNaN(cursor)) {
+        throw new Error(`Invalid IMAP page token: ${pageToken}`);
+      }
+      remaining = uids.filter(uid => uid < cursor);
+    }
+
+    const pageUids = remaining.slice(0, pageSize);
+    const nextPageToken = remaining.length > pageUids.length && pageUids.length > 0
+      ? pageUids[pageUids.length - 1].toString()
+      : undefined;
+
+    if (pageUids.length === 0) {
+      return { emails: [], nextPageToken: undefined, totalCount: uids.length };
+    }
+
+    const emails = await this.fetchNormalized(client, pageUids, request);
+
+    return { emails, nextPageToken, totalCount: uids.length };
+  }
+
+  /**
+   * Works out what fetchUidPage downloads for the given fetch or stream options
+   */
+  private fetchRequestFor(options: FetchOptions | EmailStreamOptions): ImapFetchRequest {
+    return {
+      messageFormat: this.determineMessageFormat(options),
+      includeBody: options.includeBody !== false,
+      includeAttachments: options.includeAttachments !== false,
+      attachments: AttachmentStorage.handlingFor(options)
+    };
+  }
+
+  /**
+   * Fetches and normalizes the given UIDs, preserving the order of the input list
+   */
+  private async fetchNormalized(
+    client: ImapFlow,
+    uids: number[],
+    request: ImapFetchRequest
+  ): Promise<NormalizedEmail[]> {
+    if (uids.length === 0) {
+      return [];
+    }
+
+    const { messageFormat, includeBody, includeAttachments, attachments } = request;
+
+    const query: FetchQueryObject = { uid: true, flags: true, internalDate: true };
+    if (messageFormat === 'metadata') {
+      query.headers = true;
+    } else if (attachments.lazy && includeAttachments) {
+      // Headers and structure only: text parts are downloaded one by one, attachments on demand
+      query.headers = true;
+      query.bodyStructure = true;
+    } else {
+      query.source = true;
+    }
+
+    const byUid = new Map<number, NormalizedEmail>();
+    if (query.bodyStructure) {
+      // No other command can run while a FETCH is being read, so collect the structures first
+      const messages: FetchMessageObject[] = [];
+      for await (const msg of client.fetch(uids, query, { uid: true })) {
+        messages.push(msg);
+      }
+      for (const msg of messages) {
+        const normalized = await this.normalizeStructure(client, msg, includeBody);
+        await AttachmentStorage.store(normalized, attachments);
+        byUid.set(msg.uid, normalized);
+      }
+    } else {
+      for await (const msg of client.fetch(uids, query, { uid: true })) {
+        const normalized = await this.normalizeMessage(msg, includeBody, includeAttachments);
+        await AttachmentStorage.store(normalized, attachments);
+        byUid.set(msg.uid, normalized);
+      }
+    }
+
+    // FETCH responses come back in mailbox order
+    return uids
+      .map(uid => byUid.get(uid))
+      .filter((email): email is NormalizedEmail => !!email);
+  }
+
+  /**
+   * Helper method to determine message format from options
+   * IMAP has no server-side equivalent of 'full', so both 'raw' and 'full' download the source
+   */
+  private determineMessageFormat(options: FetchOptions | EmailStreamOptions): 'raw' | 'full' | 'metadata' {
+    if (options.format) {
+      return options.format;
+    }
+
+    const includeBody = options.includeBody !== false;
+    const includeAttachments = options.includeAttachments !== false;
+
+    return !includeBody && !includeAttachments ? 'metadata' : 'raw';
+  }
+
+  /**
+   * Parses a fetched message and trims it down to what the caller asked for
+   */
+  private async normalizeMessage(
+    msg: FetchMessageObject,
+    includeBody: boolean,
+    includeAttachments: boolean
+  ): Promise<NormalizedEmail> {
+    const content = msg.source || msg.headers || Buffer.alloc(0);
+    const normalized = await this.emailParserService.parseEmail(content, msg.uid.toString(), 'imap');
+
+    // IMAP flags (\Seen, \Flagged, keywords) play the role of labels
+    if (msg.flags) {
+      normalized.labels = [...msg.flags];
+    }
+
+    // IMAP has no thread IDs; the Message-ID that starts the reply chain stands in for one. This is only
+    // approximate: a reply whose client sent In-Reply-To without References is keyed to its parent,
+    // not the first message, so it gets a threadId of its own. ThreadService.groupThreads regroups them.
+    normalized.threadId = ThreadService.rootMessageId(normalized);
+
+    if (includeAttachments) {
+      ImapAdapter.dropInlineImages(normalized);
+    } else {
+      normalized.attachments = [];
+    }
+
+    if (!includeBody) {
+      normalized.bodyText = undefined;
+      normalized.bodyHtml = undefined;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Builds an email from its headers and BODYSTRUCTURE without downloading the whole message.
+   * Text parts are downloaded when includeBody is set; attachments are only listed, bound to their part numbers.
+   */
+  private async normalizeStructure(client: ImapFlow, msg: FetchMessageObject, includeBody: boolean): Promise<NormalizedEmail> {
+    const normalized = await this.normalizeMessage(msg, false, false);
+    const mailbox = client.mailbox && typeof client.mailbox === 'object' ? client.mailbox.path : undefined;
+
+    const bodies: MessageStructure[] = [];
+    const attachments: MessageStructure[] = [];
+    if (msg.bodyStructure) {
+      ImapAdapter.collectParts(msg.bodyStructure, bodies, attachments);
+    }
+
+    if (includeBody) {
+      const text: string[] = [];
+      const html: string[] = [];
+      for (const node of bodies) {
+        // imapflow decodes the transfer encoding and converts text parts to UTF-8
+        const content = (await this.downloadPart(client, msg.uid, node.part || '1')).toString('utf-8');
+        (node.type.toLowerCase() === 'text/html' ? html : text).push(content);
+      }
+      normalized.bodyText = text.length > 0 ? text.join('\n') : undefined;
+      normalized.bodyHtml = html.length > 0 ? html.join('\n') : undefined;
+    }
+
+    normalized.attachments = attachments.map(node => {
+      const part = node.part || '1';
+      const attachment: Attachment = {
+        filename: AddressParser.decodeWords(node.dispositionParameters?.filename || node.parameters?.name || 'untitled'),
+        mimeType: node.type.toLowerCase(),
+        // BODYSTRUCTURE reports the encoded size; base64 is about a third larger than the content
+        size: node.encoding?.toLowerCase() === 'base64' ? Math.floor((node.size || 0) * 3 / 4) : node.size || 0,
+        contentId: node.id,
+        attachmentId: part,
+        source: { provider: 'imap', emailId: normalized.id, mailbox }
+      };
+      AttachmentClassifier.classify(attachment);
+      return AttachmentHandle.bind(attachment, () => this.getAttachmentStream(normalized.id, part, { mailbox }));
+    });
+    ImapAdapter.dropInlineImages(normalized);
+
+    return normalized;
+  }
+
+  /**
+   * Sort the leaves of a BODYSTRUCTURE into text bodies and attachments, in document order.
+   * Forwarded messages (message/rfc822) are listed as attachments rather than walked into.
+   */
+  private static collectParts(node: MessageStructure, bodies: MessageStructure[], attachments: MessageStructure[]): void {
+    const type = node.type.toLowerCase();
+    if (node.childNodes?.length && type !== 'message/rfc822') {
+      node.childNodes.forEach(child => ImapAdapter.collectParts(child, bodies, attachments));
+      return;
+    }
+
+    const filename = node.dispositionParameters?.filename || node.parameters?.name;
+    if ((type === 'text/plain' || type === 'text/html') && node.disposition?.toLowerCase() !== 'attachment' && !filename) {
+      bodies.push(node);
+    } else {
+      attachments.push(node);
+    }
+  }
+
+  /**
+   * Drop attachments that are inline images referenced from the HTML body
+   */
+  private static dropInlineImages(normalized: NormalizedEmail): void {
+    normalized.attachments = normalized.attachments.filter(att =>
+      !(att.contentId && normalized.bodyHtml?.includes(`cid:${att.contentId.replace(/[<>]/g, '')}`)));
+  }
+
+  /**
+   * Download one decoded body part of a message in the selected mailbox
+   */
+  private async downloadPart(client: ImapFlow, uid: number, part: string): Promise<Buffer> {
+    const { content } = await client.download(uid.toString(), part, { uid: true });
+    return AttachmentHandle.toBuffer(content as unknown as Readable);
   }
 }
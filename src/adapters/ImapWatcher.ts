@@ -0,0 +1,227 @@
+import { EventEmitter } from 'events';
+import { ImapFlow, FetchMessageObject, MailboxLockObject, MailboxObject } from 'imapflow';
+import { NormalizedEmail, ImapWatchOptions } from '../interfaces.js';
+
+/**
+ * Connection and parsing hooks supplied by ImapAdapter
+ */
+export interface ImapWatcherHost {
+  openConnection(): Promise<ImapFlow>;
+  closeConnection(client: ImapFlow): Promise<void>;
+  normalizeMessage(msg: FetchMessageObject, includeBody: boolean, includeAttachments: boolean): Promise<NormalizedEmail>;
+}
+
+export interface ImapWatcher {
+  on(event: 'email', listener: (email: NormalizedEmail) => void): this;
+  on(event: 'connected', listener: (info: { mailbox: string; lastUid: number }) => void): this;
+  on(event: 'reconnecting', listener: (info: { attempt: number; delay: number; error?: Error }) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'stopped', listener: () => void): this;
+}
+
+/**
+ * Long-lived IMAP watcher.
+ * Holds a connection open in IDLE (imapflow idles automatically between commands),
+ * emits an 'email' event for every message that arrives with a UID above the last seen one,
+ * and reconnects with exponential backoff when the connection drops.
+ */
+export class ImapWatcher extends EventEmitter {
+  private host: ImapWatcherHost;
+  private mailbox: string;
+  private includeBody: boolean;
+  private includeAttachments: boolean;
+  private initialReconnectDelay: number;
+  private maxReconnectDelay: number;
+
+  private client?: ImapFlow;
+  private lock?: MailboxLockObject;
+  private lastUid?: number;
+  private uidValidity?: bigint;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private fetchChain: Promise<void> = Promise.resolve();
+  private running = false;
+
+  constructor(host: ImapWatcherHost, options: ImapWatchOptions = {}) {
+    super();
+    this.host = host;
+    this.mailbox = options.mailbox || 'INBOX';
+    this.includeBody = options.includeBody !== false;
+    this.includeAttachments = options.includeAttachments !== false;
+    this.initialReconnectDelay = options.initialReconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 60000;
+    this.lastUid = options.sinceUid;
+  }
+
+  /**
+   * Whether the watcher has been started and not yet stopped
+   */
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Highest UID emitted (or skipped) so far; persist it and pass it back as sinceUid to resume
+   */
+  public get lastSeenUid(): number | undefined {
+    return this.lastUid;
+  }
+
+  /**
+   * Open the connection and start watching.
+   * Resolves once the first connection attempt has finished, successful or not;
+   * a failed first attempt is retried in the background like any other disconnect.
+   */
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    await this.connect();
+  }
+
+  /**
+   * Stop watching and log out. No further events are emitted after 'stopped'.
+   */
+  public async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    // Let an in-flight fetch finish before logging out from under it
+    await this.fetchChain;
+    await this.teardown();
+    this.emit('stopped');
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      const client = await this.host.openConnection();
+      if (!this.running) {
+        await this.host.closeConnection(client);
+        return;
+      }
+
+      this.client = client;
+      client.on('error', (err: Error) => this.reportError(err));
+      client.on('exists', () => this.queueFetch());
+      client.on('close', () => this.handleClose(client));
+
+      this.lock = await client.getMailboxLock(this.mailbox);
+      const mailbox = client.mailbox as MailboxObject;
+
+      // A changed UIDVALIDITY invalidates every UID we know about, so only watch for mail from now on
+      if (this.lastUid === undefined || (this.uidValidity !== undefined && this.uidValidity !== mailbox.uidValidity)) {
+        this.lastUid = mailbox.uidNext - 1;
+      }
+      this.uidValidity = mailbox.uidValidity;
+      this.reconnectAttempt = 0;
+
+      this.emit('connected', { mailbox: this.mailbox, lastUid: this.lastUid });
+
+      // Catch up on anything that arrived while we were disconnected
+      this.queueFetch();
+      await this.fetchChain;
+    } catch (err) {
+      this.reportError(err as Error);
+      await this.teardown();
+      this.scheduleReconnect(err as Error);
+    }
+  }
+
+  /**
+   * Serializes fetches so overlapping 'exists' notifications never emit a message twice
+   */
+  private queueFetch(): void {
+    this.fetchChain = this.fetchChain
+      .then(() => this.fetchNewMessages())
+      .catch(err => this.reportError(err as Error));
+  }
+
+  private async fetchNewMessages(): Promise<void> {
+    const client = this.client;
+    if (!this.running || !client || this.lastUid === undefined) {
+      return;
+    }
+
+    const query = this.includeBody || this.includeAttachments
+      ? { uid: true, source: true }
+      : { uid: true, headers: true };
+
+    // "N:*" always matches the newest message, even when its UID is below N, so filter again
+    for await (const msg of client.fetch(`${this.lastUid + 1}:*`, query, { uid: true })) {
+      if (msg.uid <= this.lastUid) {
+        continue;
+      }
+      this.lastUid = msg.uid;
+
+      let email: NormalizedEmail;
+      try {
+        email = await this.host.normalizeMessage(msg, this.includeBody, this.includeAttachments);
+      } catch (err) {
+        // A message that fails to parse would fail again on every fetch, so report its UID and move on
+        this.reportError(new Error(`Failed to parse message UID ${msg.uid}: ${(err as Error).message}`));
+        continue;
+      }
+      this.emit('email', email);
+    }
+  }
+
+  private handleClose(client: ImapFlow): void {
+    if (client !== this.client) {
+      return;
+    }
+    this.client = undefined;
+    this.lock = undefined;
+
+    if (this.running) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(error?: Error): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectAttempt++;
+    const delay = Math.min(
+      this.initialReconnectDelay * Math.pow(2, this.reconnectAttempt - 1),
+      this.maxReconnectDelay
+    );
+    this.emit('reconnecting', { attempt: this.reconnectAttempt, delay, error });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      void this.connect();
+    }, delay);
+  }
+
+  private async teardown(): Promise<void> {
+    const client = this.client;
+    this.client = undefined;
+
+    if (this.lock) {
+      this.lock.release();
+      this.lock = undefined;
+    }
+    if (client) {
+      await this.host.closeConnection(client);
+    }
+  }
+
+  private reportError(error: Error): void {
+    // An 'error' event without listeners would crash the process
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      console.error('[IMAP] Watcher error:', error);
+    }
+  }
+}
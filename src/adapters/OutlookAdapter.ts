@@ -1,13 +1,53 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
 import { Client } from '@microsoft/microsoft-graph-client';
 import { ConfidentialClientApplication } from '@azure/msal-node';
-import { IAdapter, PaginatedEmailsResponse } from './IAdapter.js';
-import { NormalizedEmail, FetchOptions, OutlookCredentials, Attachment, EmailStreamOptions, EmailStreamCallbacks, EmailStreamProgress } from '../interfaces.js';
+import { Readable } from 'stream';
+import { IAdapter, PaginatedEmailsResponse, PaginatedThreadsResponse } from './IAdapter.js';
+import { 
+  NormalizedEmail, 
+  FetchOptions, 
+  OutlookCredentials, 
+  Attachment, 
+  EmailStreamOptions, 
+  EmailStreamCallbacks, 
+  EmailStreamProgress,
+  HistoryResponse,
+  HistoryRecord,
+  SyncOptions,
+  SyncResult,
+  PushNotificationConfig,
+  PushNotificationSetup,
+  OutlookChangeNotification,
+  OutlookNotificationPayload,
+  OutgoingEmail,
+  SendResult,
+  DraftListOptions,
+  Folder,
+  FolderRole,
+  CreateFolderOptions,
+  NormalizedThread,
+  EmailAddress,
+  AttachmentLink
+} from '../interfaces.js';
 import { EmailParserService } from '../services/EmailParserService.js';
+import { MimeBuilder } from '../services/MimeBuilder.js';
+import { ThreadService } from '../services/ThreadService.js';
 import { OAuthService } from '../auth/OAuthService.js';
 import { OutlookOAuthProvider } from '../auth/providers/OutlookOAuthProvider.js';
 import { EmailStreamService } from '../services/EmailStreamService.js';
+import { AddressParser } from '../utils/AddressParser.js';
+import { AttachmentHandling, AttachmentStorage } from '../attachments/AttachmentStorage.js';
+import { AttachmentHandle } from '../attachments/AttachmentHandle.js';
+import { AttachmentClassifier } from '../attachments/AttachmentClassifier.js';
 
 // Type definition for graph messages
+interface OutlookRecipient {
+  emailAddress: {
+    name?: string;
+    address?: string;
+  };
+}
+
 interface OutlookMessage {
   id: string;
   conversationId?: string;
@@ -17,58 +57,121 @@ interface OutlookMessage {
     contentType?: string;
     content?: string;
   };
-  from?: {
-    emailAddress: {
-      name?: string;
-      address: string;
-    }
-  };
-  toRecipients?: Array<{
-    emailAddress: {
-      name?: string;
-      address: string;
-    }
-  }>;
-  ccRecipients?: Array<{
-    emailAddress: {
-      name?: string;
-      address: string;
-    }
-  }>;
-  bccRecipients?: Array<{
-    emailAddress: {
-      name?: string;
-      address: string;
-    }
-  }>;
+  from?: OutlookRecipient;
+  toRecipients?: OutlookRecipient[];
+  ccRecipients?: OutlookRecipient[];
+  bccRecipients?: OutlookRecipient[];
+  replyTo?: OutlookRecipient[];
+  sender?: OutlookRecipient;
   receivedDateTime?: string;
   sentDateTime?: string;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+  isRead?: boolean;
+  isDraft?: boolean;
   hasAttachments?: boolean;
   internetMessageId?: string;
+  internetMessageHeaders?: Array<{ name: string; value: string }>;
   importance?: string;
   categories?: string[];
-  attachments?: Array<{
-    id: string;
-    name: string;
-    contentType: string;
-    size: number;
-    isInline: boolean;
-    contentId?: string;
-    contentBytes?: string;
-  }>;
+  attachments?: OutlookAttachment[];
+  '@removed'?: {
+    reason: 'changed' | 'deleted';
+  };
+}
+
+interface OutlookAttachment {
+  '@odata.type'?: string; // #microsoft.graph.fileAttachment, itemAttachment or referenceAttachment
+  id: string;
+  name: string;
+  contentType?: string;
+  size: number;
+  isInline?: boolean;
+  contentId?: string;
+  contentBytes?: string;
+  item?: { '@odata.type'?: string }; // Expanded itemAttachment item
+  // referenceAttachment properties, only returned by the beta endpoint
+  sourceUrl?: string;
+  providerType?: string;
+  permission?: string;
+  isFolder?: boolean;
+  previewUrl?: string;
+  thumbnailUrl?: string;
+}
+
+// What one fetchEmails or streamEmails call asks for, shared by every page it reads
+interface OutlookPageRequest {
+  filter: string;
+  searchTerm?: string;
+  fetchStrategy: 'full' | 'minimal' | 'metadata';
+  includeBody: boolean;
+  includeAttachments: boolean;
+  folderId?: string;
+  attachments: AttachmentHandling;
+}
+
+interface OutlookMailFolder {
+  id: string;
+  displayName: string;
+  parentFolderId?: string;
+  childFolderCount?: number;
+  unreadItemCount?: number;
+  totalItemCount?: number;
 }
 
+// Well-known folder names that listFolders reports as system folders, with the roles they share with Gmail and IMAP
+const WELL_KNOWN_FOLDERS: Record<string, FolderRole> = {
+  inbox: 'inbox',
+  drafts: 'drafts',
+  sentitems: 'sent',
+  deleteditems: 'trash',
+  junkemail: 'spam',
+  archive: 'archive',
+  outbox: 'outbox'
+};
+
+// Graph permissions requested unless OutlookCredentials.scopes says otherwise: Mail.ReadWrite covers reading,
+// flags, moves, deletes, drafts, folders and subscriptions, Mail.Send covers sending
+const DEFAULT_MAIL_SCOPES = ['Mail.ReadWrite', 'Mail.Send'];
+
+// Raw headers, the only source of In-Reply-To and References. They make every message much larger, so they are
+// only requested for single messages and conversations, where threading needs them.
+const THREADING_SELECT_FIELD = 'internetMessageHeaders';
+
+// Fields requested by delta queries. The deltaLink remembers this $select for every later round.
+const DELTA_SELECT_FIELDS = ['id', 'conversationId', 'createdDateTime', 'lastModifiedDateTime', 'receivedDateTime', 'isRead', 'categories'];
+
+// File attachments up to this size are read from contentBytes; larger ones are streamed from $value,
+// straight into the attachment sink when there is one. Graph stops inlining contentBytes reliably above 3 MB.
+const STREAMING_THRESHOLD_BYTES = 3 * 1024 * 1024;
+
+// Graph caps subscriptions on Outlook messages at just under three days
+const MAX_SUBSCRIPTION_MINUTES = 4230;
+
+// How long before expiration an auto-renewing subscription is extended
+const RENEWAL_MARGIN_MS = 10 * 60 * 1000;
+
+// First wait before retrying a failed renewal; doubles on each attempt while the subscription is still alive
+const RENEWAL_RETRY_MS = 30 * 1000;
+
 export class OutlookAdapter implements IAdapter {
   private graphClient_?: Client;
   private credentials_?: OutlookCredentials;
   private emailParserService: EmailParserService;
+  private mimeBuilder: MimeBuilder;
   private initialized: boolean = false;
   private oauthService?: OAuthService;
   private msalApp_?: ConfidentialClientApplication;
   private accessToken_?: string;
+  private subscriptionId_?: string;
+  private subscriptionMinutes_: number = MAX_SUBSCRIPTION_MINUTES;
+  private renewalTimer_?: NodeJS.Timeout;
+  private onRenewalError_?: PushNotificationConfig['onRenewalError'];
+  private wellKnownFolderRoles_?: Map<string, FolderRole>;
 
   constructor() {
     this.emailParserService = new EmailParserService();
+    this.mimeBuilder = new MimeBuilder();
   }
 
   /**
@@ -104,7 +207,7 @@ export class OutlookAdapter implements IAdapter {
           // Exchange the auth code for tokens
           const tokenRequest = {
             code: this.credentials_.authCode,
-            scopes: ['Mail.Read', 'offline_access'],
+            scopes: [...(this.credentials_.scopes || DEFAULT_MAIL_SCOPES), 'offline_access'],
             redirectUri: this.credentials_.redirectUri,
           };
           
@@ -152,7 +255,7 @@ export class OutlookAdapter implements IAdapter {
         clientId,
         clientSecret,
         redirectUri,
-        scopes: ['Mail.Read', 'offline_access', 'openid', 'profile', 'User.Read'],
+        scopes: [...DEFAULT_MAIL_SCOPES, 'offline_access', 'openid', 'profile', 'User.Read'],
         prompt: 'consent'
       },
       undefined, // No user ID needed for this flow
@@ -180,7 +283,7 @@ export class OutlookAdapter implements IAdapter {
       clientId,
       clientSecret,
       redirectUri,
-      scopes: ['Mail.Read', 'offline_access', 'openid', 'profile', 'User.Read'],
+      scopes: [...DEFAULT_MAIL_SCOPES, 'offline_access', 'openid', 'profile', 'User.Read'],
       tenantId
     };
     
@@ -225,7 +328,7 @@ export class OutlookAdapter implements IAdapter {
       
       const tokenRequest = {
         refreshToken: this.credentials_?.refreshToken,
-        scopes: ['https://graph.microsoft.com/Mail.Read', 'offline_access'],
+        scopes: [...(this.credentials_.scopes || DEFAULT_MAIL_SCOPES).map(scope => (scope.includes('://') ? scope : `https://graph.microsoft.com/${scope}`)), 'offline_access'],
       };
       
       const response = await this.msalApp_?.acquireTokenByRefreshToken(tokenRequest);
@@ -269,7 +372,8 @@ export class OutlookAdapter implements IAdapter {
       format,
       pageToken,
       pageSize,
-      getAllPages = false
+      getAllPages = false,
+      folderId
     } = options;
 
     // Determine the best format strategy based on options
@@ -323,29 +427,24 @@ export class OutlookAdapter implements IAdapter {
     // Search term (query) is handled differently in Outlook than filter
     const searchTerm = query || undefined;
     
+    const request: OutlookPageRequest = {
+      filter,
+      searchTerm,
+      fetchStrategy,
+      includeBody,
+      includeAttachments,
+      folderId,
+      attachments: AttachmentStorage.handlingFor(options)
+    };
+
     try {
       if (getAllPages) {
         // Show deprecation warning to match Gmail behavior
         console.warn('Warning: getAllPages option is deprecated and may cause memory issues with large datasets. Consider using streamEmails() instead.');
         
-        return await this.fetchAllEmailPages(
-          filter, 
-          searchTerm, 
-          limit, 
-          fetchStrategy,
-          includeBody, 
-          includeAttachments
-        );
+        return await this.fetchAllEmailPages(request, limit);
       } else {
-        return await this.fetchEmailPage(
-          filter, 
-          searchTerm,
-          pageSize || limit, 
-          fetchStrategy,
-          includeBody, 
-          includeAttachments, 
-          pageToken
-        );
+        return await this.fetchEmailPage(request, pageSize || limit, pageToken);
       }
     } catch (error) {
       console.error('Error fetching Outlook emails:', error);
@@ -369,16 +468,14 @@ export class OutlookAdapter implements IAdapter {
    * Fetches a single page of emails with enhanced format support
    */
   private async fetchEmailPage(
-    filter: string,
-    searchTerm: string | undefined,
+    request: OutlookPageRequest,
     maxResults: number,
-    fetchStrategy: 'full' | 'minimal' | 'metadata',
-    includeBody: boolean,
-    includeAttachments: boolean,
     skipToken?: string
   ): Promise<PaginatedEmailsResponse> {
+    const { filter, searchTerm, fetchStrategy, includeBody, includeAttachments, folderId } = request;
+
     // Build the initial request
-    let messagesRequest = this.graphClient_!.api('/me/messages')
+    let messagesRequest = this.graphClient_!.api(folderId ? `/me/mailFolders/${folderId}/messages` : '/me/messages')
       .top(maxResults);
       
     // Add filter if specified
@@ -428,12 +525,14 @@ export class OutlookAdapter implements IAdapter {
       
       // Fetch attachments if message has any and we are requested to include them
       if (includeAttachments && message.hasAttachments && fetchStrategy !== 'metadata') {
-        const attachments = await this.fetchAttachments(message.id);
+        const attachments = await this.fetchAttachments(message.id, request.attachments);
         normalized.attachments = attachments;
       } else if (!includeAttachments || fetchStrategy === 'metadata') {
         // Clear attachments but keep count if we have it
         normalized.attachments = [];
       }
+
+      await AttachmentStorage.store(normalized, request.attachments);
       
       normalizedEmails.push(normalized);
     }
@@ -451,12 +550,8 @@ export class OutlookAdapter implements IAdapter {
    * Fetches all pages of emails up to the specified limit with enhanced format support
    */
   private async fetchAllEmailPages(
-    filter: string,
-    searchTerm: string | undefined,
+    request: OutlookPageRequest,
     limit: number,
-    fetchStrategy: 'full' | 'minimal' | 'metadata',
-    includeBody: boolean,
-    includeAttachments: boolean,
     requestPageSize?: number
   ): Promise<PaginatedEmailsResponse> {
     const allEmails: NormalizedEmail[] = [];
@@ -466,15 +561,7 @@ export class OutlookAdapter implements IAdapter {
     const pageSize = requestPageSize || Math.min(limit, 50);
     
     do {
-      const response = await this.fetchEmailPage(
-        filter, 
-        searchTerm, 
-        pageSize, 
-        fetchStrategy,
-        includeBody, 
-        includeAttachments, 
-        nextPageToken
-      );
+      const response = await this.fetchEmailPage(request, pageSize, nextPageToken);
       
       allEmails.push(...response.emails);
       nextPageToken = response.nextPageToken;
@@ -502,7 +589,7 @@ export class OutlookAdapter implements IAdapter {
   private buildSelectFields(fetchStrategy: 'full' | 'minimal' | 'metadata', includeBody: boolean, includeAttachments: boolean): string[] {
     // Base fields always needed
     let select = ['id', 'conversationId', 'subject', 'from', 'toRecipients', 
-                  'ccRecipients', 'bccRecipients', 'receivedDateTime', 
+                  'ccRecipients', 'bccRecipients', 'replyTo', 'sender', 'receivedDateTime', 
                   'internetMessageId', 'importance', 'categories'];
     
     // Add attachment info if needed
@@ -564,50 +651,171 @@ export class OutlookAdapter implements IAdapter {
   }
 
   /**
-   * Fetches attachments for a message
+   * Fetches attachments for a message; with lazy handling only their metadata, to download on demand.
+   * The listing never includes contentBytes, which would put the base64 of every file in one response,
+   * large ones included; loadAttachmentContent fetches each file's content instead.
    */
-  private async fetchAttachments(messageId: string): Promise<Attachment[]> {
+  private async fetchAttachments(
+    messageId: string,
+    handling: AttachmentHandling = {}
+  ): Promise<Attachment[]> {
     try {
       const attachmentsResponse = await this.graphClient_!.api(`/me/messages/${messageId}/attachments`)
-        .select('id,name,contentType,size,isInline,contentId,contentBytes')
+        .select('id,name,contentType,size,isInline,contentId')
         .get();
       
       if (!attachmentsResponse.value || attachmentsResponse.value.length === 0) {
         return [];
       }
       
-      return attachmentsResponse.value.map((att: any) => {
+      const attachments: Attachment[] = [];
+      for (const att of attachmentsResponse.value as OutlookAttachment[]) {
         const attachment: Attachment = {
           filename: att.name,
-          mimeType: att.contentType,
+          mimeType: att.contentType || 'application/octet-stream',
           size: att.size,
           contentId: att.contentId,
+          attachmentId: att.id,
+          source: { provider: 'outlook', emailId: messageId },
+          kind: OutlookAdapter.attachmentKind(att)
         };
-        
-        // Convert Base64 content to Buffer if available
-        if (att.contentBytes) {
-          attachment.buffer = Buffer.from(att.contentBytes, 'base64');
+
+        if (attachment.kind === 'reference') {
+          // A link to a cloud file has no content to download
+          attachment.link = await this.fetchAttachmentLink(messageId, att);
+        } else {
+          AttachmentHandle.bind(attachment, () => this.getAttachmentStream(messageId, att.id));
+          if (!handling.lazy) {
+            try {
+              await this.loadAttachmentContent(messageId, att, attachment, handling);
+            } catch (error) {
+              // Keep the attachment listed; download() can retry later
+              console.error(`Failed to fetch attachment ${att.name}:`, error);
+            }
+          }
         }
-        
-        return attachment;
-      });
+
+        if (!attachment.category) {
+          AttachmentClassifier.classify(attachment);
+        }
+        attachments.push(attachment);
+      }
+      return attachments;
     } catch (error) {
       console.error(`Error fetching attachments for message ${messageId}:`, error);
       return [];
     }
   }
+
+  /**
+   * Fill in one attachment's content. Small files are fetched with their contentBytes; larger ones are streamed
+   * from $value, into the sink when there is one so they are never held in memory. Attached emails are
+   * downloaded as MIME and parsed into Attachment.email.
+   */
+  private async loadAttachmentContent(
+    messageId: string,
+    att: OutlookAttachment,
+    attachment: Attachment,
+    { sink, types }: AttachmentHandling
+  ): Promise<void> {
+    const path = `/me/messages/${messageId}/attachments/${att.id}`;
+
+    if (attachment.kind === 'item') {
+      const expanded: OutlookAttachment = await this.graphClient_!.api(path)
+        .expand('microsoft.graph.itemattachment/item')
+        .get();
+      if (expanded.item?.['@odata.type'] !== '#microsoft.graph.message') {
+        // Events and contacts are listed, but only attached emails are converted
+        return;
+      }
+      attachment.buffer = await AttachmentHandle.toBuffer(await this.getAttachmentStream(messageId, att.id));
+      attachment.filename = /\.eml$/i.test(att.name) ? att.name : `${att.name || 'untitled'}.eml`;
+      attachment.mimeType = 'message/rfc822';
+      attachment.size = attachment.buffer.length;
+      attachment.email = await this.emailParserService.parseEmail(attachment.buffer, att.id, 'outlook');
+      return;
+    }
+
+    if (att.size <= STREAMING_THRESHOLD_BYTES) {
+      const file: OutlookAttachment = await this.graphClient_!.api(path).get();
+      if (file.contentBytes) {
+        attachment.buffer = Buffer.from(file.contentBytes, 'base64');
+        return;
+      }
+    }
+
+    // Classify from the first bytes, so a large attachment the caller filtered out is never stored
+    const content = await AttachmentClassifier.classifyStream(attachment, await this.getAttachmentStream(messageId, att.id));
+    if (types && types.length > 0 && !AttachmentClassifier.matches(attachment, types)) {
+      content.destroy();
+    } else if (sink) {
+      attachment.filePath = await sink.write(attachment, content, { emailId: messageId, provider: 'outlook' });
+    } else {
+      attachment.buffer = await AttachmentHandle.toBuffer(content);
+    }
+  }
+
+  /**
+   * Link details of a reference attachment. v1.0 only returns the common attachment properties,
+   * so they are read from the beta endpoint.
+   */
+  private async fetchAttachmentLink(messageId: string, att: OutlookAttachment): Promise<AttachmentLink> {
+    let reference = att;
+    if (!att.sourceUrl) {
+      try {
+        reference = await this.graphClient_!.api(`/me/messages/${messageId}/attachments/${att.id}`)
+          .version('beta')
+          .get();
+      } catch (error) {
+        console.error(`Failed to fetch link of reference attachment ${att.name}:`, error);
+      }
+    }
+
+    return {
+      url: reference.sourceUrl,
+      providerType: reference.providerType,
+      permission: reference.permission,
+      isFolder: reference.isFolder,
+      previewUrl: reference.previewUrl,
+      thumbnailUrl: reference.thumbnailUrl
+    };
+  }
+
+  /**
+   * Attachment.kind from the Graph attachment type
+   */
+  private static attachmentKind(att: OutlookAttachment): 'file' | 'item' | 'reference' {
+    switch (att['@odata.type']) {
+      case '#microsoft.graph.itemAttachment':
+        return 'item';
+      case '#microsoft.graph.referenceAttachment':
+        return 'reference';
+      default:
+        return 'file';
+    }
+  }
   
   /**
    * Maps an Outlook message to our normalized email format
    */
   private mapOutlookMessageToNormalized(message: OutlookMessage): NormalizedEmail {
+    // Graph has no threading properties; In-Reply-To and References only come with the raw headers,
+    // which are selected by getEmailById and the thread fetches
+    const header = (name: string) => message.internetMessageHeaders?.find(item => item.name.toLowerCase() === name)?.value;
+    const references = header('references')?.match(/<[^>]+>/g);
+
     return {
       id: message.id,
       threadId: message.conversationId,
-      from: message.from ? message.from.emailAddress.address : '',
-      to: (message.toRecipients || []).map(r => r.emailAddress.address),
-      cc: message.ccRecipients ? message.ccRecipients.map(r => r.emailAddress.address) : undefined,
-      bcc: message.bccRecipients ? message.bccRecipients.map(r => r.emailAddress.address) : undefined,
+      messageId: message.internetMessageId,
+      inReplyTo: header('in-reply-to')?.match(/<[^>]+>/)?.[0],
+      references: references || undefined,
+      from: message.from ? OutlookAdapter.toEmailAddress(message.from) : { address: '' },
+      to: (message.toRecipients || []).map(OutlookAdapter.toEmailAddress),
+      cc: message.ccRecipients ? message.ccRecipients.map(OutlookAdapter.toEmailAddress) : undefined,
+      bcc: message.bccRecipients ? message.bccRecipients.map(OutlookAdapter.toEmailAddress) : undefined,
+      replyTo: message.replyTo && message.replyTo.length > 0 ? message.replyTo.map(OutlookAdapter.toEmailAddress) : undefined,
+      sender: message.sender ? OutlookAdapter.toEmailAddress(message.sender) : undefined,
       subject: message.subject,
       bodyText: message.bodyPreview,
       bodyHtml: message.body?.contentType === 'html' ? message.body.content : undefined,
@@ -620,6 +828,14 @@ export class OutlookAdapter implements IAdapter {
     };
   }
   
+  /**
+   * Graph recipient to EmailAddress; Graph repeats the address as the name when there is no display name
+   */
+  private static toEmailAddress(recipient: OutlookRecipient): EmailAddress {
+    const { name, address = '' } = recipient.emailAddress;
+    return name && name !== address ? { name, address } : { address };
+  }
+
   /**
    * Extracts the skip token from Outlook's nextLink URL
    */
@@ -645,17 +861,19 @@ export class OutlookAdapter implements IAdapter {
     // Determine fetch strategy
     const fetchStrategy = this.determineOutlookFetchStrategy(options);
     
+    const request: OutlookPageRequest = {
+      filter,
+      searchTerm,
+      fetchStrategy,
+      includeBody: options.includeBody !== false,
+      includeAttachments: options.includeAttachments !== false,
+      folderId: options.folderId,
+      attachments: AttachmentStorage.handlingFor(options)
+    };
+
     // Create the fetch function for the stream service
     const fetchPageFn = async (pageToken?: string, pageSize?: number) => {
-      return await this.fetchEmailPage(
-        filter,
-        searchTerm,
-        pageSize || options.batchSize || 50,
-        fetchStrategy,
-        options.includeBody !== false,
-        options.includeAttachments !== false,
-        pageToken
-      );
+      return await this.fetchEmailPage(request, pageSize || options.batchSize || 50, pageToken);
     };
     
     // Use the stream service to create the generator
@@ -762,4 +980,980 @@ export class OutlookAdapter implements IAdapter {
     
     return { filter, searchTerm };
   }
+
+  // =====================================================
+  // ATTACHMENTS - Graph message attachments
+  // =====================================================
+
+  /**
+   * Download one attachment of an email by its Graph attachment ID. Attached emails come back as MIME;
+   * reference attachments have no content and fail.
+   */
+  async getAttachment(emailId: string, attachmentId: string): Promise<Buffer> {
+    const content = await this.getAttachmentStream(emailId, attachmentId);
+    try {
+      return await AttachmentHandle.toBuffer(content);
+    } catch (error) {
+      throw new Error(`Failed to get attachment ${attachmentId} of email ${emailId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Download one attachment of an email as a stream of its raw content ($value), without buffering it.
+   * $value has no size limit, unlike the base64 contentBytes property.
+   */
+  async getAttachmentStream(emailId: string, attachmentId: string): Promise<Readable> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      return await this.graphClient_!.api(`/me/messages/${emailId}/attachments/${attachmentId}/$value`).getStream();
+    } catch (error) {
+      throw new Error(`Failed to get attachment ${attachmentId} of email ${emailId}: ${(error as Error).message}`);
+    }
+  }
+
+  // =====================================================
+  // SYNC CAPABILITIES - Microsoft Graph delta queries
+  // =====================================================
+
+  /**
+   * Get a delta link for a mail folder that marks the current state.
+   * The delta link is used as the opaque history ID for getHistory and processSync.
+   * Graph only hands out a delta link after the initial round has been paged through,
+   * so this walks the folder once with a minimal $select.
+   */
+  public async getCurrentHistoryId(folderId: string = 'inbox'): Promise<string> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      let response = await this.graphClient_!.api(`/me/mailFolders/${folderId}/messages/delta`)
+        .select(DELTA_SELECT_FIELDS.join(','))
+        .headers({ Prefer: 'odata.maxpagesize=100' })
+        .get();
+
+      while (response['@odata.nextLink']) {
+        response = await this.graphClient_!.api(response['@odata.nextLink'])
+          .headers({ Prefer: 'odata.maxpagesize=100' })
+          .get();
+      }
+
+      if (!response['@odata.deltaLink']) {
+        throw new Error('Microsoft Graph did not return a deltaLink');
+      }
+
+      return response['@odata.deltaLink'];
+    } catch (error) {
+      throw new Error(`Failed to get current history ID: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get one page of changes since the given delta link.
+   * Graph does not distinguish created from updated messages. Messages created after
+   * options.lastSyncTime are reported in messagesAdded, other changes in messages.
+   * Removed messages (deleted or moved out of the folder) are reported in messagesDeleted.
+   */
+  public async getHistory(startHistoryId: string, options: SyncOptions = {}): Promise<HistoryResponse> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    const { maxResults = 100, includeDeleted = true, lastSyncTime } = options;
+
+    try {
+      const response = await this.graphClient_!.api(startHistoryId)
+        .headers({ Prefer: `odata.maxpagesize=${maxResults}` })
+        .get();
+
+      const history: HistoryRecord[] = [];
+      for (const item of (response.value || []) as OutlookMessage[]) {
+        const message = { id: item.id, threadId: item.conversationId || '' };
+
+        if (item['@removed']) {
+          if (includeDeleted) {
+            history.push({ id: item.id, messagesDeleted: [{ message }] });
+          }
+        } else if (this.isCreatedSince(item, lastSyncTime)) {
+          history.push({ id: item.id, messagesAdded: [{ message: { ...message, labelIds: item.categories } }] });
+        } else {
+          history.push({ id: item.id, messages: [message] });
+        }
+      }
+
+      const nextLink: string | undefined = response['@odata.nextLink'];
+
+      return {
+        history,
+        nextPageToken: nextLink,
+        // A nextLink is itself a valid place to resume from, the deltaLink only comes with the last page
+        historyId: nextLink || response['@odata.deltaLink']
+      };
+    } catch (error) {
+      // Graph answers 410 Gone when the sync state behind a delta token has expired
+      if ((error as any).statusCode === 410 || (error as any).code === 'SyncStateNotFound' || (error as any).code === 'syncStateNotFound') {
+        throw new Error(`History ID ${startHistoryId} is too old or invalid. Use getCurrentHistoryId() to get a fresh starting point.`);
+      }
+      throw new Error(`Failed to get history: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a specific email by its ID.
+   * Useful for fetching full details of emails found in history records.
+   */
+  public async getEmailById(id: string): Promise<NormalizedEmail | null> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const message: OutlookMessage = await this.graphClient_!.api(`/me/messages/${id}`)
+        .select([...this.buildSelectFields('full', true, true), THREADING_SELECT_FIELD].join(','))
+        .get();
+
+      if (!message) {
+        return null;
+      }
+
+      const normalized = this.mapOutlookMessageToNormalized(message);
+      if (message.hasAttachments) {
+        normalized.attachments = await this.fetchAttachments(message.id);
+      }
+
+      return normalized;
+    } catch (error) {
+      if ((error as any).statusCode === 404 || (error as any).code === 'ErrorItemNotFound') {
+        return null; // Email not found or no access
+      }
+      throw new Error(`Failed to get email by ID ${id}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Process sync changes from a given delta link.
+   * This is a higher-level method that processes history records and returns structured results.
+   */
+  public async processSync(options: SyncOptions = {}): Promise<SyncResult> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    const { startHistoryId } = options;
+
+    if (!startHistoryId) {
+      throw new Error('startHistoryId is required for processSync');
+    }
+
+    try {
+      const historyResponse = await this.getHistory(startHistoryId, options);
+
+      const addedEmails: NormalizedEmail[] = [];
+      const deletedEmailIds: string[] = [];
+      const updatedEmails: NormalizedEmail[] = [];
+      const processedIds = new Set<string>();
+
+      for (const record of historyResponse.history) {
+        for (const deleted of record.messagesDeleted || []) {
+          if (!processedIds.has(deleted.message.id)) {
+            deletedEmailIds.push(deleted.message.id);
+            processedIds.add(deleted.message.id);
+          }
+        }
+
+        for (const added of record.messagesAdded || []) {
+          if (!processedIds.has(added.message.id)) {
+            const email = await this.getEmailById(added.message.id);
+            if (email) {
+              addedEmails.push(email);
+            }
+            processedIds.add(added.message.id);
+          }
+        }
+
+        for (const changed of record.messages || []) {
+          if (!processedIds.has(changed.id)) {
+            const email = await this.getEmailById(changed.id);
+            if (email) {
+              updatedEmails.push(email);
+            }
+            processedIds.add(changed.id);
+          }
+        }
+      }
+
+      return {
+        processedHistoryRecords: historyResponse.history.length,
+        addedEmails,
+        deletedEmailIds,
+        updatedEmails,
+        newHistoryId: historyResponse.historyId,
+        hasMoreChanges: !!historyResponse.nextPageToken,
+        nextPageToken: historyResponse.nextPageToken
+      };
+    } catch (error) {
+      throw new Error(`Failed to process sync: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Whether a delta item should be reported as newly added.
+   * Without a lastSyncTime there is nothing to compare against, so every change counts as added.
+   */
+  private isCreatedSince(message: OutlookMessage, lastSyncTime?: Date | string): boolean {
+    if (!lastSyncTime || !message.createdDateTime) {
+      return true;
+    }
+    const since = typeof lastSyncTime === 'string' ? new Date(lastSyncTime) : lastSyncTime;
+    return new Date(message.createdDateTime).getTime() >= since.getTime();
+  }
+
+  // =====================================================
+  // PUSH NOTIFICATIONS - Microsoft Graph subscriptions
+  // =====================================================
+
+  /**
+   * Subscribe to change notifications for a mail folder.
+   * config.webhookUrl must answer Graph's validation handshake (see getValidationToken)
+   * before the subscription is created. The returned historyId is a delta link taken
+   * just before subscribing, so processSync picks up everything the notifications announce.
+   */
+  public async setupPushNotifications(config: PushNotificationConfig): Promise<PushNotificationSetup> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    if (!config.webhookUrl) {
+      throw new Error('webhookUrl is required for Outlook push notifications');
+    }
+
+    const folderId = config.labelIds?.[0] || 'inbox';
+    const clientState = config.clientState || randomBytes(16).toString('hex');
+    const minutes = Math.min(config.expirationMinutes || MAX_SUBSCRIPTION_MINUTES, MAX_SUBSCRIPTION_MINUTES);
+
+    try {
+      const historyId = await this.getCurrentHistoryId(folderId);
+
+      const subscription = await this.graphClient_!.api('/subscriptions').post({
+        changeType: 'created,updated,deleted',
+        notificationUrl: config.webhookUrl,
+        resource: `me/mailFolders('${folderId}')/messages`,
+        expirationDateTime: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+        clientState
+      });
+
+      this.subscriptionId_ = subscription.id;
+      this.subscriptionMinutes_ = minutes;
+
+      const expiration = Date.parse(subscription.expirationDateTime);
+      if (config.autoRenew) {
+        this.onRenewalError_ = config.onRenewalError;
+        this.scheduleRenewal(expiration);
+      }
+
+      return {
+        historyId,
+        expiration,
+        subscriptionId: subscription.id,
+        clientState
+      };
+    } catch (error) {
+      throw new Error(`Failed to setup push notifications: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Extend a subscription before it expires.
+   * Defaults to the subscription created by setupPushNotifications; pass an ID to renew one
+   * persisted from an earlier process. Returns the new expiration as a Unix timestamp.
+   */
+  public async renewPushNotifications(subscriptionId: string | undefined = this.subscriptionId_): Promise<number> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    if (!subscriptionId) {
+      throw new Error('No subscription to renew. Call setupPushNotifications() first or pass a subscriptionId.');
+    }
+
+    try {
+      const subscription = await this.graphClient_!.api(`/subscriptions/${subscriptionId}`).patch({
+        expirationDateTime: new Date(Date.now() + this.subscriptionMinutes_ * 60 * 1000).toISOString()
+      });
+
+      const expiration = Date.parse(subscription.expirationDateTime);
+      if (this.renewalTimer_ && subscriptionId === this.subscriptionId_) {
+        this.scheduleRenewal(expiration);
+      }
+      return expiration;
+    } catch (error) {
+      throw new Error(`Failed to renew push notifications: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete a subscription and cancel its automatic renewal.
+   * A subscription that has already expired or been removed is not an error.
+   */
+  public async stopPushNotifications(subscriptionId: string | undefined = this.subscriptionId_): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    if (subscriptionId === this.subscriptionId_) {
+      this.clearRenewal();
+      this.subscriptionId_ = undefined;
+    }
+
+    if (!subscriptionId) {
+      return;
+    }
+
+    try {
+      await this.graphClient_!.api(`/subscriptions/${subscriptionId}`).delete();
+    } catch (error) {
+      if ((error as any).statusCode === 404 || (error as any).code === 'ResourceNotFound') {
+        return;
+      }
+      throw new Error(`Failed to stop push notifications: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Extract the validationToken from a subscription validation request.
+   * When this returns a token, respond 200 with it as text/plain within 10 seconds;
+   * otherwise the request is a regular notification.
+   */
+  public static getValidationToken(query: Record<string, unknown>): string | undefined {
+    const token = query?.validationToken;
+    return typeof token === 'string' && token.length > 0 ? token : undefined;
+  }
+
+  /**
+   * Check every notification in a payload against the expected clientState.
+   * Accepts a single secret or a lookup by subscription ID when several subscriptions share one endpoint.
+   * Throws if the payload is malformed or any clientState does not match, since a mismatch means
+   * the request did not come from Graph.
+   */
+  public static verifyNotifications(
+    payload: unknown,
+    expectedClientState: string | ((subscriptionId: string) => string | undefined)
+  ): OutlookChangeNotification[] {
+    const notifications = (payload as OutlookNotificationPayload)?.value;
+    if (!Array.isArray(notifications)) {
+      throw new Error('Invalid Graph notification payload: missing value array');
+    }
+
+    for (const notification of notifications) {
+      const expected = typeof expectedClientState === 'function'
+        ? expectedClientState(notification.subscriptionId)
+        : expectedClientState;
+
+      if (!expected || !notification.clientState || !OutlookAdapter.secretsMatch(notification.clientState, expected)) {
+        throw new Error(`clientState mismatch for subscription ${notification.subscriptionId}`);
+      }
+    }
+
+    return notifications;
+  }
+
+  private static secretsMatch(actual: string, expected: string): boolean {
+    const a = Buffer.from(actual);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  private scheduleRenewal(expiration: number, attempt: number = 0): void {
+    this.clearRenewal();
+    const delay = attempt === 0
+      ? expiration - Date.now() - RENEWAL_MARGIN_MS
+      : RENEWAL_RETRY_MS * 2 ** (attempt - 1);
+
+    // setTimeout overflows past ~24.8 days; subscriptions never live that long but clamp anyway
+    this.renewalTimer_ = setTimeout(() => {
+      void this.renewAutomatically(expiration, attempt);
+    }, Math.min(Math.max(delay, 0), 2147483647));
+    // Renewal alone should not keep the process alive
+    this.renewalTimer_.unref?.();
+  }
+
+  /**
+   * Timer callback for autoRenew: retries with backoff until the subscription would have expired,
+   * then reports the failure through onRenewalError so the caller can subscribe again
+   */
+  private async renewAutomatically(expiration: number, attempt: number): Promise<void> {
+    const subscriptionId = this.subscriptionId_!;
+    try {
+      await this.renewPushNotifications(subscriptionId);
+    } catch (error) {
+      if (subscriptionId !== this.subscriptionId_) {
+        // Stopped or replaced while the renewal was in flight
+        return;
+      }
+      if (Date.now() + RENEWAL_RETRY_MS * 2 ** attempt < expiration) {
+        console.warn(`[Outlook] Failed to renew subscription ${subscriptionId}, retrying:`, (error as Error).message);
+        this.scheduleRenewal(expiration, attempt + 1);
+        return;
+      }
+
+      this.clearRenewal();
+      if (this.onRenewalError_) {
+        this.onRenewalError_(error as Error, subscriptionId);
+      } else {
+        console.error(`[Outlook] Gave up renewing subscription ${subscriptionId}:`, error);
+      }
+    }
+  }
+
+  private clearRenewal(): void {
+    if (this.renewalTimer_) {
+      clearTimeout(this.renewalTimer_);
+      this.renewalTimer_ = undefined;
+    }
+  }
+
+  // =====================================================
+  // SENDING - Graph sendMail with MIME content
+  // =====================================================
+
+  /**
+   * Send an email from the authenticated account. Requires the Mail.Send permission.
+   * Graph accepts MIME messages up to 4 MB; the copy is saved to Sent Items.
+   */
+  public async sendEmail(email: OutgoingEmail): Promise<SendResult> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    // Graph reads Bcc recipients from the MIME headers, like Gmail
+    const message = await this.mimeBuilder.build(email, { keepBcc: true });
+
+    try {
+      await this.graphClient_!
+        .api('/me/sendMail')
+        .headers({ 'Content-Type': 'text/plain' })
+        .post(message.raw.toString('base64'));
+
+      return { messageId: message.messageId };
+    } catch (error) {
+      throw new Error(`Failed to send email: ${(error as Error).message}`);
+    }
+  }
+
+  // =====================================================
+  // DRAFTS - Graph messages with isDraft
+  // =====================================================
+
+  /**
+   * Save an email as a draft in the Drafts folder. Created from MIME so threading headers are kept.
+   */
+  public async createDraft(email: OutgoingEmail): Promise<NormalizedEmail> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    const message = await this.mimeBuilder.build(email, { keepBcc: true });
+
+    try {
+      const created: OutlookMessage = await this.graphClient_!
+        .api('/me/messages')
+        .headers({ 'Content-Type': 'text/plain' })
+        .post(message.raw.toString('base64'));
+      return await this.loadDraft(created.id);
+    } catch (error) {
+      throw new Error(`Failed to create draft: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Replace the recipients, subject, body and (when given) attachments of a draft. The draft ID stays the same.
+   * Graph cannot update a message from MIME, so custom and threading headers keep their original values.
+   */
+  public async updateDraft(draftId: string, email: OutgoingEmail): Promise<NormalizedEmail> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      await this.graphClient_!.api(`/me/messages/${draftId}`).patch({
+        subject: email.subject || '',
+        body: email.html !== undefined
+          ? { contentType: 'html', content: email.html }
+          : { contentType: 'text', content: email.text || '' },
+        toRecipients: OutlookAdapter.toGraphRecipients(email.to),
+        ccRecipients: OutlookAdapter.toGraphRecipients(email.cc),
+        bccRecipients: OutlookAdapter.toGraphRecipients(email.bcc),
+        replyTo: OutlookAdapter.toGraphRecipients(email.replyTo),
+        ...(email.from ? { from: OutlookAdapter.toGraphRecipients(email.from)[0] } : {})
+      });
+
+      if (email.attachments) {
+        await this.replaceDraftAttachments(draftId, email.attachments);
+      }
+
+      return await this.loadDraft(draftId);
+    } catch (error) {
+      throw new Error(`Failed to update draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Get a draft by ID, or null if it does not exist or has already been sent
+   */
+  public async getDraft(draftId: string): Promise<NormalizedEmail | null> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const draft = await this.loadDraft(draftId);
+      return draft.isDraft ? draft : null;
+    } catch (error) {
+      if ((error as any).statusCode === 404 || (error as any).code === 'ErrorItemNotFound') {
+        return null;
+      }
+      throw new Error(`Failed to get draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List messages in the Drafts folder, most recently edited first
+   */
+  public async listDrafts(options: DraftListOptions = {}): Promise<PaginatedEmailsResponse> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      let request = this.graphClient_!.api('/me/mailFolders/drafts/messages')
+        .top(options.limit || 10)
+        .orderby('lastModifiedDateTime desc')
+        .select(this.draftSelectFields().join(','));
+      if (options.pageToken) {
+        request = request.skipToken(options.pageToken);
+      }
+
+      const response = await request.get();
+      const emails = ((response.value || []) as OutlookMessage[]).map(message => this.mapDraft(message));
+
+      return {
+        emails,
+        nextPageToken: response['@odata.nextLink'] ? this.extractSkipTokenFromNextLink(response['@odata.nextLink']) : undefined,
+        totalCount: undefined
+      };
+    } catch (error) {
+      throw new Error(`Failed to list drafts: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Send a draft. Graph moves it to Sent Items.
+   */
+  public async sendDraft(draftId: string): Promise<SendResult> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      // The send call returns nothing, so read the Message-ID first
+      const draft: OutlookMessage = await this.graphClient_!.api(`/me/messages/${draftId}`)
+        .select('internetMessageId')
+        .get();
+      await this.graphClient_!.api(`/me/messages/${draftId}/send`).post({});
+
+      return { messageId: draft.internetMessageId || '' };
+    } catch (error) {
+      throw new Error(`Failed to send draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete a draft
+   */
+  public async deleteDraft(draftId: string): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      await this.graphClient_!.api(`/me/messages/${draftId}`).delete();
+    } catch (error) {
+      throw new Error(`Failed to delete draft ${draftId}: ${(error as Error).message}`);
+    }
+  }
+
+  private async loadDraft(draftId: string): Promise<NormalizedEmail> {
+    const message: OutlookMessage = await this.graphClient_!.api(`/me/messages/${draftId}`)
+      .select(this.draftSelectFields().join(','))
+      .get();
+
+    const draft = this.mapDraft(message);
+    if (message.hasAttachments) {
+      draft.attachments = await this.fetchAttachments(message.id);
+    }
+    return draft;
+  }
+
+  private mapDraft(message: OutlookMessage): NormalizedEmail {
+    const normalized = this.mapOutlookMessageToNormalized(message);
+    if (message.isDraft) {
+      normalized.isDraft = true;
+      normalized.draftId = message.id;
+    }
+    return normalized;
+  }
+
+  private draftSelectFields(): string[] {
+    return [...this.buildSelectFields('full', true, true), 'isDraft', 'lastModifiedDateTime'];
+  }
+
+  private async replaceDraftAttachments(draftId: string, attachments: Attachment[]): Promise<void> {
+    const existing = await this.graphClient_!.api(`/me/messages/${draftId}/attachments`).select('id').get();
+    for (const attachment of existing.value || []) {
+      await this.graphClient_!.api(`/me/messages/${draftId}/attachments/${attachment.id}`).delete();
+    }
+
+    for (const attachment of attachments) {
+      if (!attachment.buffer) {
+        throw new Error(`Attachment ${attachment.filename} has no content`);
+      }
+      await this.graphClient_!.api(`/me/messages/${draftId}/attachments`).post({
+        '@odata.type': '#microsoft.graph.fileAttachment',
+        name: attachment.filename,
+        contentType: attachment.mimeType,
+        contentBytes: attachment.buffer.toString('base64'),
+        contentId: attachment.contentId,
+        isInline: !!attachment.contentId
+      });
+    }
+  }
+
+  /**
+   * Converts address strings into Graph recipient objects; each string may hold a comma-separated list
+   */
+  private static toGraphRecipients(value?: string | string[]): Array<{ emailAddress: { name?: string; address: string } }> {
+    const list = !value ? [] : Array.isArray(value) ? value : [value];
+    return list
+      .flatMap(entry => AddressParser.parse(entry))
+      .map(({ name, address }) => ({ emailAddress: name ? { name, address } : { address } }));
+  }
+
+  // =====================================================
+  // MAILBOX MUTATIONS - Microsoft Graph JSON batching
+  // =====================================================
+
+  /**
+   * Mark one or more emails as read.
+   */
+  public async markAsRead(ids: string | string[]): Promise<void> {
+    await this.updateMessages(ids, id => ({ method: 'PATCH', url: `/me/messages/${id}`, body: { isRead: true } }), 'mark emails as read');
+  }
+
+  /**
+   * Mark one or more emails as unread.
+   */
+  public async markAsUnread(ids: string | string[]): Promise<void> {
+    await this.updateMessages(ids, id => ({ method: 'PATCH', url: `/me/messages/${id}`, body: { isRead: false } }), 'mark emails as unread');
+  }
+
+  /**
+   * Flag one or more emails for follow-up.
+   */
+  public async flag(ids: string | string[]): Promise<void> {
+    await this.updateMessages(ids, id => ({ method: 'PATCH', url: `/me/messages/${id}`, body: { flag: { flagStatus: 'flagged' } } }), 'flag emails');
+  }
+
+  /**
+   * Clear the follow-up flag on one or more emails.
+   */
+  public async unflag(ids: string | string[]): Promise<void> {
+    await this.updateMessages(ids, id => ({ method: 'PATCH', url: `/me/messages/${id}`, body: { flag: { flagStatus: 'notFlagged' } } }), 'unflag emails');
+  }
+
+  /**
+   * Move one or more emails to the Archive folder.
+   */
+  public async archive(ids: string | string[]): Promise<void> {
+    await this.updateMessages(ids, id => ({ method: 'POST', url: `/me/messages/${id}/move`, body: { destinationId: 'archive' } }), 'archive emails');
+  }
+
+  /**
+   * Move one or more emails to the Deleted Items folder.
+   */
+  public async moveToTrash(ids: string | string[]): Promise<void> {
+    await this.updateMessages(ids, id => ({ method: 'POST', url: `/me/messages/${id}/move`, body: { destinationId: 'deleteditems' } }), 'move emails to trash');
+  }
+
+  /**
+   * Permanently delete one or more emails, skipping Deleted Items. This cannot be undone.
+   */
+  public async permanentlyDelete(ids: string | string[]): Promise<void> {
+    await this.updateMessages(ids, id => ({ method: 'POST', url: `/me/messages/${id}/permanentDelete` }), 'permanently delete emails');
+  }
+
+  /**
+   * Send one request per message through /$batch, which takes at most 20 requests per call.
+   * Throws if any request fails, after the rest of the batch has been applied.
+   */
+  private async updateMessages(
+    ids: string | string[],
+    buildRequest: (id: string) => { method: string; url: string; body?: unknown },
+    action: string
+  ): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    const messageIds = Array.isArray(ids) ? ids : [ids];
+    const failures: string[] = [];
+
+    try {
+      for (let i = 0; i < messageIds.length; i += 20) {
+        const chunk = messageIds.slice(i, i + 20);
+        const response = await this.graphClient_!.api('/$batch').post({
+          requests: chunk.map((id, index) => {
+            const { method, url, body } = buildRequest(id);
+            return {
+              id: String(index),
+              method,
+              url,
+              ...(body ? { body, headers: { 'Content-Type': 'application/json' } } : {})
+            };
+          })
+        });
+
+        for (const item of response?.responses || []) {
+          if (item.status >= 400) {
+            const id = chunk[parseInt(item.id, 10)];
+            failures.push(`${id} (${item.status}${item.body?.error?.message ? `: ${item.body.error.message}` : ''})`);
+          }
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to ${action}: ${(error as Error).message}`);
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Failed to ${action}: ${failures.length} of ${messageIds.length} messages failed: ${failures.join(', ')}`);
+    }
+  }
+
+  // =====================================================
+  // FOLDERS & CATEGORIES - Graph mailFolders
+  // =====================================================
+
+  /**
+   * List every mail folder, including nested ones, with item counts.
+   * Well-known folders (Inbox, Drafts, Sent Items, ...) are reported as system folders.
+   */
+  public async listFolders(): Promise<Folder[]> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const roles = await this.getWellKnownFolderRoles();
+      const folders: Folder[] = [];
+      await this.collectFolders('/me/mailFolders', undefined, roles, folders);
+      return folders;
+    } catch (error) {
+      throw new Error(`Failed to list folders: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Create a mail folder at the top level or inside options.parentId
+   */
+  public async createFolder(name: string, options: CreateFolderOptions = {}): Promise<Folder> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const url = options.parentId ? `/me/mailFolders/${options.parentId}/childFolders` : '/me/mailFolders';
+      const created: OutlookMailFolder = await this.graphClient_!.api(url).post({ displayName: name });
+      return OutlookAdapter.toFolder(created, undefined, new Map());
+    } catch (error) {
+      throw new Error(`Failed to create folder ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Rename a mail folder
+   */
+  public async renameFolder(folderId: string, newName: string): Promise<Folder> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const updated: OutlookMailFolder = await this.graphClient_!.api(`/me/mailFolders/${folderId}`).patch({ displayName: newName });
+      return OutlookAdapter.toFolder(updated, undefined, await this.getWellKnownFolderRoles());
+    } catch (error) {
+      throw new Error(`Failed to rename folder ${folderId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Delete a mail folder and everything in it (moved to Deleted Items)
+   */
+  public async deleteFolder(folderId: string): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      await this.graphClient_!.api(`/me/mailFolders/${folderId}`).delete();
+    } catch (error) {
+      throw new Error(`Failed to delete folder ${folderId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Add categories to one or more emails, keeping the categories they already have
+   */
+  public async addLabels(ids: string | string[], labels: string[]): Promise<void> {
+    await this.updateCategories(ids, current => [...new Set([...current, ...labels])], 'add labels');
+  }
+
+  /**
+   * Remove categories from one or more emails
+   */
+  public async removeLabels(ids: string | string[], labels: string[]): Promise<void> {
+    const removed = new Set(labels);
+    await this.updateCategories(ids, current => current.filter(category => !removed.has(category)), 'remove labels');
+  }
+
+  /**
+   * Graph replaces the whole categories list on PATCH, so read each message's current list first
+   */
+  private async updateCategories(
+    ids: string | string[],
+    change: (current: string[]) => string[],
+    action: string
+  ): Promise<void> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    const categoriesById = new Map<string, string[]>();
+    try {
+      for (const id of Array.isArray(ids) ? ids : [ids]) {
+        const message: OutlookMessage = await this.graphClient_!.api(`/me/messages/${id}`).select('categories').get();
+        categoriesById.set(id, change(message.categories || []));
+      }
+    } catch (error) {
+      throw new Error(`Failed to ${action}: ${(error as Error).message}`);
+    }
+
+    await this.updateMessages(
+      ids,
+      id => ({ method: 'PATCH', url: `/me/messages/${id}`, body: { categories: categoriesById.get(id) } }),
+      action
+    );
+  }
+
+  private async collectFolders(
+    url: string,
+    parent: Folder | undefined,
+    roles: Map<string, FolderRole>,
+    folders: Folder[]
+  ): Promise<void> {
+    let response = await this.graphClient_!.api(url).top(100).get();
+
+    while (response) {
+      for (const item of (response.value || []) as OutlookMailFolder[]) {
+        const folder = OutlookAdapter.toFolder(item, parent, roles);
+        folders.push(folder);
+        if (item.childFolderCount) {
+          await this.collectFolders(`/me/mailFolders/${item.id}/childFolders`, folder, roles, folders);
+        }
+      }
+      response = response['@odata.nextLink'] ? await this.graphClient_!.api(response['@odata.nextLink']).get() : undefined;
+    }
+  }
+
+  /**
+   * Resolves the IDs of the well-known folders to their roles in one batch call; cached for the adapter's lifetime
+   */
+  private async getWellKnownFolderRoles(): Promise<Map<string, FolderRole>> {
+    if (this.wellKnownFolderRoles_) {
+      return this.wellKnownFolderRoles_;
+    }
+
+    const response = await this.graphClient_!.api('/$batch').post({
+      requests: Object.keys(WELL_KNOWN_FOLDERS).map(name => ({ id: name, method: 'GET', url: `/me/mailFolders/${name}?$select=id` }))
+    });
+
+    // Mailboxes without an archive folder answer 404 for it
+    this.wellKnownFolderRoles_ = new Map(
+      (response?.responses || [])
+        .filter((item: any) => item.status < 400 && item.body?.id)
+        .map((item: any) => [item.body.id as string, WELL_KNOWN_FOLDERS[item.id]])
+    );
+    return this.wellKnownFolderRoles_;
+  }
+
+  private static toFolder(item: OutlookMailFolder, parent: Folder | undefined, roles: Map<string, FolderRole>): Folder {
+    return {
+      id: item.id,
+      name: item.displayName,
+      path: parent ? `${parent.path}/${item.displayName}` : item.displayName,
+      type: roles.has(item.id) ? 'system' : 'user',
+      role: roles.get(item.id),
+      parentId: parent?.id ?? item.parentFolderId,
+      unreadCount: item.unreadItemCount,
+      totalCount: item.totalItemCount
+    };
+  }
+
+  // =====================================================
+  // THREADS - Graph conversationId
+  // =====================================================
+
+  /**
+   * Get every message in a conversation, oldest first, or null if there is none
+   */
+  public async getThread(threadId: string): Promise<NormalizedThread | null> {
+    this.ensureInitialized();
+    await this.authenticate();
+
+    try {
+      const messages = await this.loadConversation(threadId);
+      return messages.length > 0 ? ThreadService.buildThread(threadId, messages) : null;
+    } catch (error) {
+      throw new Error(`Failed to get thread ${threadId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List the conversations of the messages matching the same filters as fetchEmails.
+   * Paging follows messages, so a page holds at most limit threads and a conversation
+   * can show up again on a later page.
+   */
+  public async fetchThreads(options: FetchOptions): Promise<PaginatedThreadsResponse> {
+    const page = await this.fetchEmails({ ...options, includeBody: false, includeAttachments: false });
+
+    try {
+      const threads: NormalizedThread[] = [];
+      const seen = new Set<string>();
+      for (const email of page.emails) {
+        if (!email.threadId || seen.has(email.threadId)) {
+          continue;
+        }
+        seen.add(email.threadId);
+        threads.push(ThreadService.buildThread(email.threadId, await this.loadConversation(email.threadId)));
+      }
+
+      return { threads, nextPageToken: page.nextPageToken };
+    } catch (error) {
+      throw new Error(`Failed to fetch threads: ${(error as Error).message}`);
+    }
+  }
+
+  private async loadConversation(conversationId: string): Promise<NormalizedEmail[]> {
+    // Graph rejects $orderby combined with a conversationId filter, so ThreadService sorts the messages instead
+    const select = [...this.buildSelectFields('full', true, true), 'isRead', THREADING_SELECT_FIELD];
+    let response = await this.graphClient_!.api('/me/messages')
+      .filter(`conversationId eq '${conversationId.replace(/'/g, "''")}'`)
+      .select(select.join(','))
+      .top(50)
+      .get();
+
+    const messages: NormalizedEmail[] = [];
+    while (response) {
+      for (const message of (response.value || []) as OutlookMessage[]) {
+        const normalized = this.mapOutlookMessageToNormalized(message);
+        if (message.hasAttachments) {
+          normalized.attachments = await this.fetchAttachments(message.id);
+        }
+        messages.push(normalized);
+      }
+      response = response['@odata.nextLink'] ? await this.graphClient_!.api(response['@odata.nextLink']).get() : undefined;
+    }
+
+    return messages;
+  }
 }
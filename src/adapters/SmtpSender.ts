@@ -0,0 +1,128 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport/index.js';
+import { OutgoingEmail, SendResult } from '../interfaces.js';
+import { MimeBuilder, MimeMessage } from '../services/MimeBuilder.js';
+
+export interface SmtpSenderOptions extends SMTPTransport.Options {
+  defaultFrom?: string; // Used when an OutgoingEmail has no from, e.g. the IMAP account's address
+}
+
+/**
+ * Sends mail over SMTP for IMAP accounts, using the same MIME builder as the Gmail and Outlook adapters.
+ */
+export class SmtpSender {
+  private transporter: Transporter<SMTPTransport.SentMessageInfo>;
+  private mimeBuilder: MimeBuilder;
+  private defaultFrom?: string;
+
+  constructor(options: SmtpSenderOptions) {
+    const { defaultFrom, ...transportOptions } = options;
+    this.transporter = nodemailer.createTransport(transportOptions);
+    this.mimeBuilder = new MimeBuilder();
+    this.defaultFrom = defaultFrom;
+  }
+
+  /**
+   * Check the connection and credentials without sending anything
+   */
+  public async verify(): Promise<void> {
+    try {
+      await this.transporter.verify();
+    } catch (error) {
+      throw new Error(`SMTP verification failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Send an email. Bcc recipients only go into the SMTP envelope, never into the headers.
+   */
+  public async sendEmail(email: OutgoingEmail): Promise<SendResult> {
+    const from = email.from || this.defaultFrom;
+    if (!from) {
+      throw new Error('Failed to send email: no from address and no defaultFrom configured');
+    }
+
+    const message = await this.mimeBuilder.build({ ...email, from });
+    return this.deliver(message.raw, message.envelope.from, message.envelope.to, message.messageId);
+  }
+
+  /**
+   * Send an RFC 5322 message exactly as it was built, e.g. a saved draft. The Bcc header is
+   * removed so those recipients only go into the envelope; a missing From is filled with defaultFrom.
+   */
+  public async sendRawMessage(raw: Buffer, envelope: MimeMessage['envelope']): Promise<SendResult> {
+    const from = envelope.from || this.defaultFrom;
+    if (!from) {
+      throw new Error('Failed to send email: no from address and no defaultFrom configured');
+    }
+    if (envelope.to.length === 0) {
+      throw new Error('Failed to send email: message has no recipients');
+    }
+
+    const headerEnd = SmtpSender.headerEnd(raw);
+    const kept: string[] = [];
+    let messageId = '';
+    let hasFrom = false;
+    let dropping = false;
+    for (const line of raw.subarray(0, headerEnd).toString('latin1').split(/\r?\n/)) {
+      // Folded continuation lines belong to the field above them
+      if (/^[ \t]/.test(line)) {
+        if (!dropping) {
+          kept.push(line);
+        }
+        continue;
+      }
+      dropping = /^bcc\s*:/i.test(line);
+      if (dropping) {
+        continue;
+      }
+      hasFrom = hasFrom || /^from\s*:/i.test(line);
+      messageId = messageId || (line.match(/^message-id\s*:\s*(<[^>]+>)/i)?.[1] ?? '');
+      kept.push(line);
+    }
+    if (!hasFrom) {
+      kept.unshift(`From: ${from}`);
+    }
+
+    const message = Buffer.concat([Buffer.from(kept.join('\r\n'), 'latin1'), raw.subarray(headerEnd)]);
+    return this.deliver(message, from, envelope.to, messageId);
+  }
+
+  private async deliver(raw: Buffer, from: string | undefined, to: string[], messageId: string): Promise<SendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        envelope: { from: from || false, to },
+        raw
+      });
+
+      return {
+        messageId,
+        accepted: info.accepted.map(SmtpSender.addressOf),
+        rejected: info.rejected.map(SmtpSender.addressOf)
+      };
+    } catch (error) {
+      throw new Error(`Failed to send email: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Close pooled connections
+   */
+  public close(): void {
+    this.transporter.close();
+  }
+
+  /**
+   * Offset of the blank line that ends the header section, or the end of the message if there is none
+   */
+  private static headerEnd(raw: Buffer): number {
+    const crlf = raw.indexOf('\r\n\r\n');
+    const lf = raw.indexOf('\n\n');
+    const ends = [crlf, lf].filter(index => index !== -1);
+    return ends.length > 0 ? Math.min(...ends) : raw.length;
+  }
+
+  private static addressOf(recipient: string | { address: string }): string {
+    return typeof recipient === 'string' ? recipient : recipient.address;
+  }
+}
@@ -0,0 +1,320 @@
+import path from 'path';
+import { Readable } from 'stream';
+import { Attachment, AttachmentCategory } from '../interfaces.js';
+
+// How much of the content sniffing looks at; every signature sits well inside it
+const SNIFF_BYTES = 64 * 1024;
+
+// Claimed types that say nothing about the content
+const GENERIC_TYPES = new Set(['', 'application/octet-stream', 'application/x-download', 'application/force-download', 'binary/octet-stream']);
+
+// Words in a file name or PDF metadata that mark a PDF as invoice-like
+const INVOICE_WORDS = /invoice|receipt|billing|statement|factura|facture|rechnung|fattura|nota fiscal/i;
+
+interface Signature {
+  mimeType: string;
+  extension: string;
+  offset?: number;
+  bytes: number[] | string; // A string is matched as ASCII
+}
+
+// Binary signatures, checked in order; ZIP and OLE containers are looked into separately
+const SIGNATURES: Signature[] = [
+  { mimeType: 'application/pdf', extension: 'pdf', bytes: '%PDF-' },
+  { mimeType: 'image/png', extension: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', extension: 'jpg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', extension: 'gif', bytes: 'GIF8' },
+  { mimeType: 'image/webp', extension: 'webp', offset: 8, bytes: 'WEBP' },
+  { mimeType: 'image/tiff', extension: 'tif', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', extension: 'tif', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: 'image/heic', extension: 'heic', offset: 4, bytes: 'ftypheic' },
+  { mimeType: 'video/quicktime', extension: 'mov', offset: 4, bytes: 'ftypqt' },
+  { mimeType: 'audio/mp4', extension: 'm4a', offset: 4, bytes: 'ftypM4A' },
+  { mimeType: 'video/mp4', extension: 'mp4', offset: 4, bytes: 'ftyp' },
+  { mimeType: 'video/webm', extension: 'webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mimeType: 'audio/wav', extension: 'wav', offset: 8, bytes: 'WAVE' },
+  { mimeType: 'video/x-msvideo', extension: 'avi', offset: 8, bytes: 'AVI ' },
+  { mimeType: 'audio/mpeg', extension: 'mp3', bytes: 'ID3' },
+  { mimeType: 'audio/ogg', extension: 'ogg', bytes: 'OggS' },
+  { mimeType: 'audio/flac', extension: 'flac', bytes: 'fLaC' },
+  { mimeType: 'application/gzip', extension: 'gz', bytes: [0x1f, 0x8b] },
+  { mimeType: 'application/x-7z-compressed', extension: '7z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mimeType: 'application/vnd.rar', extension: 'rar', bytes: 'Rar!\x1a\x07' },
+  { mimeType: 'application/x-bzip2', extension: 'bz2', bytes: 'BZh' },
+  { mimeType: 'application/x-xz', extension: 'xz', bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { mimeType: 'application/x-tar', extension: 'tar', offset: 257, bytes: 'ustar' },
+  { mimeType: 'application/x-msdownload', extension: 'exe', bytes: 'MZ' },
+  { mimeType: 'application/x-executable', extension: 'elf', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { mimeType: 'application/x-mach-binary', extension: 'macho', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { mimeType: 'application/x-mach-binary', extension: 'macho', bytes: [0xca, 0xfe, 0xba, 0xbe] },
+  { mimeType: 'application/rtf', extension: 'rtf', bytes: '{\\rtf' }
+];
+
+// Text formats, recognized by how they start once leading whitespace and a BOM are skipped
+const TEXT_SIGNATURES: Array<{ mimeType: string; extension: string; pattern: RegExp }> = [
+  { mimeType: 'text/calendar', extension: 'ics', pattern: /^BEGIN:VCALENDAR/i },
+  { mimeType: 'text/vcard', extension: 'vcf', pattern: /^BEGIN:VCARD/i },
+  { mimeType: 'application/pgp-encrypted', extension: 'asc', pattern: /^-----BEGIN PGP MESSAGE-----/ },
+  { mimeType: 'application/pgp-signature', extension: 'sig', pattern: /^-----BEGIN PGP SIGNATURE-----/ },
+  { mimeType: 'application/pkcs7-mime', extension: 'p7m', pattern: /^-----BEGIN PKCS7-----/ },
+  { mimeType: 'text/html', extension: 'html', pattern: /^(<!doctype html|<html)/i },
+  { mimeType: 'image/svg+xml', extension: 'svg', pattern: /^(<\?xml[^>]*>\s*)?<svg/i },
+  { mimeType: 'application/xml', extension: 'xml', pattern: /^<\?xml/i },
+  { mimeType: 'message/rfc822', extension: 'eml', pattern: /^(received|return-path|from|mime-version|message-id|delivered-to):[^\r\n]*\r?\n/i }
+];
+
+// Entries that identify the kind of an Office Open XML package
+const OOXML_PARTS: Array<{ entry: string; mimeType: string; extension: string }> = [
+  { entry: 'word/', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+  { entry: 'xl/', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  { entry: 'ppt/', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', extension: 'pptx' }
+];
+
+// Stream names inside an OLE compound file (legacy Office, Outlook .msg), stored as UTF-16
+const OLE_STREAMS: Array<{ stream: string; mimeType: string; extension: string }> = [
+  { stream: 'WordDocument', mimeType: 'application/msword', extension: 'doc' },
+  { stream: 'Workbook', mimeType: 'application/vnd.ms-excel', extension: 'xls' },
+  { stream: 'PowerPoint Document', mimeType: 'application/vnd.ms-powerpoint', extension: 'ppt' },
+  { stream: '__substg1.0_', mimeType: 'application/vnd.ms-outlook', extension: 'msg' }
+];
+
+// DER-encoded PKCS#7 (S/MIME) content type OIDs: 1.2.840.113549.1.7.2 signedData and .3 envelopedData
+const PKCS7_SIGNED_OID = Buffer.from([0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02]);
+const PKCS7_ENVELOPED_OID = Buffer.from([0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x03]);
+
+const CATEGORY_EXTENSIONS: Array<[AttachmentCategory, string[]]> = [
+  ['spreadsheet', ['xls', 'xlsx', 'xlsm', 'ods', 'csv', 'tsv', 'numbers']],
+  ['presentation', ['ppt', 'pptx', 'odp', 'key']],
+  ['document', ['pdf', 'doc', 'docx', 'odt', 'rtf', 'txt', 'md', 'html', 'htm', 'pages']],
+  ['archive', ['zip', 'gz', 'tgz', '7z', 'rar', 'bz2', 'xz', 'tar']],
+  ['calendar', ['ics', 'vcs']],
+  ['contact', ['vcf']],
+  ['signed', ['p7s', 'sig']],
+  ['encrypted', ['p7m', 'pgp', 'gpg']],
+  ['executable', ['exe', 'dll', 'msi', 'scr', 'com', 'bat', 'cmd', 'ps1', 'vbs', 'js', 'jar', 'apk', 'dmg', 'app', 'sh', 'elf', 'macho']],
+  ['email', ['eml', 'msg']]
+];
+
+const CATEGORY_TYPES: Array<[AttachmentCategory, RegExp]> = [
+  ['image', /^image\//],
+  ['audio', /^audio\//],
+  ['video', /^video\//],
+  ['spreadsheet', /spreadsheet|ms-excel|^text\/(csv|tab-separated-values)$/],
+  ['presentation', /presentation|ms-powerpoint/],
+  ['calendar', /^text\/calendar$/],
+  ['contact', /^text\/(x-)?vcard$/],
+  ['signed', /pkcs7-signature|pgp-signature/],
+  ['encrypted', /pkcs7-mime|pgp-encrypted/],
+  ['executable', /msdownload|x-executable|x-mach-binary|x-msi|x-sh$/],
+  ['document', /epub/],
+  ['archive', /zip|gzip|x-7z|rar|bzip|x-xz|x-tar/],
+  ['email', /^message\/rfc822$|ms-outlook/],
+  ['document', /^application\/(pdf|msword|rtf)|wordprocessing|opendocument\.text|^text\//]
+];
+
+/**
+ * Works out what an attachment really is from its first bytes, since the claimed MIME type is
+ * often just application/octet-stream, and tags it with a category such as 'invoice' or 'archive'.
+ * Attachments without content are classified from their claimed type and file name alone.
+ */
+export class AttachmentClassifier {
+  /**
+   * Set detectedMimeType, detectedExtension and category on an attachment, sniffing content if given
+   */
+  public static classify(attachment: Attachment, content: Buffer | undefined = attachment.buffer): Attachment {
+    const detected = content ? AttachmentClassifier.sniff(content) : undefined;
+    if (detected) {
+      attachment.detectedMimeType = detected.mimeType;
+      attachment.detectedExtension = detected.extension;
+    }
+    attachment.category = AttachmentClassifier.categorize(attachment, content);
+    return attachment;
+  }
+
+  /**
+   * Classify an attachment from the start of a stream, returning a stream that still yields all of the content.
+   * Destroying the returned stream destroys the source too, so an unwanted download is not left open.
+   */
+  public static async classifyStream(attachment: Attachment, content: Readable): Promise<Readable> {
+    const iterator = content[Symbol.asyncIterator]();
+    const head: Buffer[] = [];
+    let headLength = 0;
+    let done = false;
+
+    try {
+      while (headLength < SNIFF_BYTES) {
+        const next = await iterator.next();
+        if (next.done) {
+          done = true;
+          break;
+        }
+        const chunk = Buffer.isBuffer(next.value) ? next.value : Buffer.from(next.value);
+        head.push(chunk);
+        headLength += chunk.length;
+      }
+
+      AttachmentClassifier.classify(attachment, Buffer.concat(head));
+    } catch (error) {
+      content.destroy();
+      throw error;
+    }
+
+    const wrapped = Readable.from((async function* () {
+      yield* head;
+      if (!done) {
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield next.value;
+        }
+      }
+    })());
+    // The generator may not have started, or may be waiting on the source, so its own cleanup cannot be relied on
+    wrapped.once('close', () => content.destroy());
+    return wrapped;
+  }
+
+  /**
+   * MIME type and extension the content's signature points to, if any
+   */
+  public static sniff(content: Buffer): { mimeType: string; extension: string } | undefined {
+    // Only the head is looked at, so buffered and streamed content are classified alike
+    const head = content.subarray(0, SNIFF_BYTES);
+
+    if (AttachmentClassifier.startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+      return AttachmentClassifier.sniffZip(head);
+    }
+    if (AttachmentClassifier.startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+      const ole = OLE_STREAMS.find(({ stream }) => head.includes(Buffer.from(stream, 'utf16le')));
+      return ole ? { mimeType: ole.mimeType, extension: ole.extension } : { mimeType: 'application/x-ole-storage', extension: 'cfb' };
+    }
+    // DER SEQUENCE holding a PKCS#7 content type near the start
+    if (head[0] === 0x30) {
+      const start = head.subarray(0, 32);
+      if (start.includes(PKCS7_SIGNED_OID)) {
+        return { mimeType: 'application/pkcs7-signature', extension: 'p7s' };
+      }
+      if (start.includes(PKCS7_ENVELOPED_OID)) {
+        return { mimeType: 'application/pkcs7-mime', extension: 'p7m' };
+      }
+    }
+
+    const signature = SIGNATURES.find(({ offset = 0, bytes }) =>
+      AttachmentClassifier.startsWith(head.subarray(offset), typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : bytes));
+    if (signature) {
+      return { mimeType: signature.mimeType, extension: signature.extension };
+    }
+
+    const text = head.subarray(0, 1024).toString('utf-8').replace(/^\uFEFF/, '').trimStart();
+    const textSignature = TEXT_SIGNATURES.find(({ pattern }) => pattern.test(text));
+    return textSignature ? { mimeType: textSignature.mimeType, extension: textSignature.extension } : undefined;
+  }
+
+  /**
+   * Category from the detected type, or the claimed type and file name when nothing was detected
+   */
+  public static categorize(attachment: Attachment, content?: Buffer): AttachmentCategory {
+    const mimeType = (attachment.detectedMimeType || AttachmentClassifier.claimedType(attachment) || '').toLowerCase();
+    const extension = attachment.detectedExtension || AttachmentClassifier.extensionOf(attachment.filename);
+
+    if (mimeType === 'application/pdf' || (!mimeType && extension === 'pdf')) {
+      return AttachmentClassifier.isInvoiceLike(attachment, content) ? 'invoice' : 'document';
+    }
+    const byType = CATEGORY_TYPES.find(([, pattern]) => pattern.test(mimeType));
+    if (byType) {
+      return byType[0];
+    }
+    const byExtension = CATEGORY_EXTENSIONS.find(([, extensions]) => extensions.includes(extension));
+    return byExtension ? byExtension[0] : 'other';
+  }
+
+  /**
+   * Whether an attachment is one of the given types. A type can be a category ('image', 'invoice'),
+   * a file extension ('pdf'), a MIME type ('application/pdf') or a MIME wildcard ('image/*').
+   */
+  public static matches(attachment: Attachment, types: string[]): boolean {
+    const category = attachment.category ?? AttachmentClassifier.categorize(attachment);
+    const mimeTypes = [attachment.detectedMimeType, attachment.mimeType].filter(Boolean).map(type => type!.toLowerCase());
+    const extensions = [attachment.detectedExtension, AttachmentClassifier.extensionOf(attachment.filename)].filter(Boolean);
+
+    return types.some(type => {
+      const wanted = type.toLowerCase().replace(/^\./, '');
+      if (wanted.endsWith('/*')) {
+        return mimeTypes.some(mimeType => mimeType.startsWith(wanted.slice(0, -1)));
+      }
+      return wanted === category || mimeTypes.includes(wanted) || extensions.includes(wanted)
+        // JPEG has two common extensions
+        || (wanted === 'jpeg' && extensions.includes('jpg'));
+    });
+  }
+
+  /**
+   * Keep only the attachments of an email that match the given types; no types keeps them all
+   */
+  public static filter(attachments: Attachment[], types?: string[]): Attachment[] {
+    return types && types.length > 0
+      ? attachments.filter(attachment => AttachmentClassifier.matches(attachment, types))
+      : attachments;
+  }
+
+  private static isInvoiceLike(attachment: Attachment, content?: Buffer): boolean {
+    if (INVOICE_WORDS.test(attachment.filename || '')) {
+      return true;
+    }
+    if (!content) {
+      return false;
+    }
+    // The document information dictionary (/Title, /Subject, /Keywords) is usually stored uncompressed,
+    // at the start of the file or, after incremental updates, near the end
+    const text = content.subarray(0, SNIFF_BYTES).toString('latin1') + content.subarray(-SNIFF_BYTES).toString('latin1');
+    return [...text.matchAll(/\/(?:Title|Subject|Keywords)\s*\(([^)]*)\)/g)].some(match => INVOICE_WORDS.test(match[1]));
+  }
+
+  /**
+   * The kind of a ZIP archive: an Office Open XML, OpenDocument or EPUB package, or a plain archive.
+   * Only local entry names within the head are seen; packages put [Content_Types].xml and their main part first.
+   */
+  private static sniffZip(content: Buffer): { mimeType: string; extension: string } {
+    // OpenDocument and EPUB store their type uncompressed in a first entry named "mimetype"
+    if (content.subarray(30, 38).toString('latin1') === 'mimetype') {
+      const declared = content.subarray(38, 38 + 80).toString('latin1').match(/^application\/[\w.+-]+/)?.[0];
+      if (declared === 'application/epub+zip') {
+        return { mimeType: declared, extension: 'epub' };
+      }
+      if (declared?.startsWith('application/vnd.oasis.opendocument.')) {
+        const kind = declared.split('.').pop();
+        return { mimeType: declared, extension: kind === 'spreadsheet' ? 'ods' : kind === 'presentation' ? 'odp' : 'odt' };
+      }
+    }
+
+    if (content.includes('[Content_Types].xml')) {
+      const part = OOXML_PARTS.find(({ entry }) => content.includes(entry));
+      if (part) {
+        return { mimeType: part.mimeType, extension: part.extension };
+      }
+    }
+    return { mimeType: 'application/zip', extension: 'zip' };
+  }
+
+  /**
+   * The sender's claimed type, unless it is a generic one that says nothing
+   */
+  private static claimedType(attachment: Attachment): string | undefined {
+    const claimed = (attachment.mimeType || '').split(';')[0].trim().toLowerCase();
+    return GENERIC_TYPES.has(claimed) ? undefined : claimed;
+  }
+
+  private static extensionOf(filename?: string): string {
+    return path.extname(filename || '').slice(1).toLowerCase();
+  }
+
+  private static startsWith(data: Buffer, bytes: number[] | Buffer): boolean {
+    if (data.length < bytes.length) {
+      return false;
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      if (data[i] !== bytes[i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
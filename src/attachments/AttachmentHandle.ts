@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+import { Attachment } from '../interfaces.js';
+
+/**
+ * Adds download() and stream() to attachments listed without their content.
+ * The methods are defined as non-enumerable properties, so JSON.stringify, spreading and
+ * deep equality still see the attachment as plain data.
+ */
+export class AttachmentHandle {
+  /**
+   * Bind an attachment to a function that opens its content. A buffer already on the attachment is used instead.
+   */
+  public static bind(attachment: Attachment, open: () => Promise<Readable>): Attachment {
+    Object.defineProperties(attachment, {
+      download: {
+        value: async (): Promise<Buffer> => attachment.buffer ?? AttachmentHandle.toBuffer(await open()),
+        enumerable: false,
+        configurable: true,
+        writable: true
+      },
+      stream: {
+        value: async (): Promise<Readable> => (attachment.buffer ? Readable.from([attachment.buffer]) : open()),
+        enumerable: false,
+        configurable: true,
+        writable: true
+      }
+    });
+    return attachment;
+  }
+
+  /**
+   * Read a stream to the end
+   */
+  public static async toBuffer(content: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of content) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,76 @@
+import { Readable } from 'stream';
+import { AttachmentSink, ExtractionOptions, FetchOptions, NormalizedEmail } from '../interfaces.js';
+import { FileAttachmentSink } from './FileAttachmentSink.js';
+import { AttachmentClassifier } from './AttachmentClassifier.js';
+import { ExtractionPipeline } from './ExtractionPipeline.js';
+
+// How one fetch treats attachments, worked out once from its FetchOptions and shared by every page
+export interface AttachmentHandling {
+  sink?: AttachmentSink; // Where content goes instead of Attachment.buffer
+  lazy?: boolean; // attachmentMode 'metadata': list attachments and download them on demand
+  types?: string[]; // attachmentTypes: keep only these (see AttachmentClassifier.matches)
+  extraction?: ExtractionOptions; // extractText, resolved by ExtractionPipeline.optionsFor
+}
+
+/**
+ * Moves fetched attachment content out of memory and into the sink chosen by FetchOptions.
+ */
+export class AttachmentStorage {
+  /**
+   * The attachment handling a fetch asks for
+   */
+  public static handlingFor(
+    options: Pick<FetchOptions, 'attachmentDir' | 'attachmentSink' | 'attachmentMode' | 'attachmentTypes' | 'extractText'>
+  ): AttachmentHandling {
+    return {
+      sink: AttachmentStorage.sinkFor(options),
+      lazy: options.attachmentMode === 'metadata',
+      types: options.attachmentTypes,
+      extraction: ExtractionPipeline.optionsFor(options)
+    };
+  }
+
+  /**
+   * The sink for a fetch: attachmentSink if given, otherwise a FileAttachmentSink for attachmentDir
+   */
+  public static sinkFor(options: Pick<FetchOptions, 'attachmentDir' | 'attachmentSink'>): AttachmentSink | undefined {
+    if (options.attachmentSink) {
+      return options.attachmentSink;
+    }
+    return options.attachmentDir ? new FileAttachmentSink(options.attachmentDir) : undefined;
+  }
+
+  /**
+   * Write every attachment of the email that has content to the sink, replacing its buffer with filePath.
+   * The content is already in memory: Gmail and IMAP deliver attachments with the message. Adapters call
+   * this for each email as soon as it is parsed, before fetching the next one, so at most one email's
+   * attachments are held in memory at a time.
+   * With handling.types, attachments of other types are dropped first (see AttachmentClassifier.matches).
+   * With handling.extraction, text is extracted while the content is still in memory. Attachments that were
+   * only listed, or already streamed into the sink, are left alone rather than downloaded a second time.
+   */
+  public static async store(email: NormalizedEmail, handling: AttachmentHandling = {}): Promise<void> {
+    const { sink, types, extraction } = handling;
+
+    email.attachments = AttachmentClassifier.filter(email.attachments, types);
+    if (extraction) {
+      for (const attachment of email.attachments) {
+        if (attachment.buffer) {
+          await ExtractionPipeline.extractAttachment(attachment, extraction);
+        }
+      }
+    }
+    if (!sink) {
+      return;
+    }
+
+    for (const attachment of email.attachments) {
+      if (!attachment.buffer) {
+        continue;
+      }
+      const content = Readable.from([attachment.buffer]);
+      attachment.filePath = await sink.write(attachment, content, { emailId: email.id, provider: email.provider });
+      delete attachment.buffer;
+    }
+  }
+}
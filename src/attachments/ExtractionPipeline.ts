@@ -0,0 +1,112 @@
+import { Attachment, AttachmentExtractor, ExtractionOptions, FetchOptions, NormalizedEmail } from '../interfaces.js';
+import { DocxExtractor } from './extractors/DocxExtractor.js';
+import { HtmlExtractor } from './extractors/HtmlExtractor.js';
+import { PdfExtractor } from './extractors/PdfExtractor.js';
+import { PlainTextExtractor } from './extractors/PlainTextExtractor.js';
+import { SpreadsheetExtractor } from './extractors/SpreadsheetExtractor.js';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_TEXT_LENGTH = 1_000_000;
+
+/**
+ * Runs AttachmentExtractors over attachments and stores the result as Attachment.extractedText
+ * and Attachment.extraction. Custom extractors are tried first, then the built-in ones for PDF,
+ * DOCX, XLSX/CSV, HTML and plain text. A failure only marks its own attachment (extraction.error);
+ * it never fails the fetch.
+ */
+export class ExtractionPipeline {
+  /**
+   * The built-in extractors, in the order they are tried
+   */
+  public static readonly builtInExtractors: readonly AttachmentExtractor[] = [
+    new PdfExtractor(),
+    new DocxExtractor(),
+    new SpreadsheetExtractor(),
+    new HtmlExtractor(),
+    new PlainTextExtractor()
+  ];
+
+  /**
+   * The extraction options of a fetch, or undefined when extractText is off
+   */
+  public static optionsFor(options: Pick<FetchOptions, 'extractText'>): ExtractionOptions | undefined {
+    if (!options.extractText) {
+      return undefined;
+    }
+    return options.extractText === true ? {} : options.extractText;
+  }
+
+  /**
+   * Extract text from every supported attachment of an email, one attachment at a time
+   */
+  public static async extract(email: NormalizedEmail, options: ExtractionOptions = {}): Promise<NormalizedEmail> {
+    for (const attachment of email.attachments) {
+      await ExtractionPipeline.extractAttachment(attachment, options);
+    }
+    return email;
+  }
+
+  /**
+   * Extract text from one attachment. Content comes from its buffer, or is downloaded through
+   * attachment.download() when the attachment was only listed or already handed to a sink.
+   * The time limit covers the download as well: one that runs over is abandoned rather than cancelled.
+   * Extractors see the abort between their steps (pages, sheets, unzipping and parsing), so a single
+   * synchronous step runs to completion; maxBytes is what bounds how long that takes.
+   */
+  public static async extractAttachment(attachment: Attachment, options: ExtractionOptions = {}): Promise<Attachment> {
+    const extractor = [...(options.extractors || []), ...ExtractionPipeline.builtInExtractors]
+      .find(candidate => candidate.supports(attachment));
+    if (!extractor || (!attachment.buffer && !attachment.download)) {
+      return attachment;
+    }
+
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxTextLength = options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
+    const tooLarge = `Attachment exceeds the ${maxBytes} byte extraction limit`;
+
+    // Check the listed size first, so oversized attachments are not downloaded at all
+    if (attachment.size > maxBytes) {
+      attachment.extraction = { extractor: extractor.name, error: tooLarge };
+      return attachment;
+    }
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Extraction timed out after ${timeoutMs} ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    try {
+      const content = attachment.buffer ?? await Promise.race([attachment.download!(), timeout]);
+      if (content.length > maxBytes) {
+        attachment.extraction = { extractor: extractor.name, error: tooLarge };
+        return attachment;
+      }
+
+      const result = await Promise.race([
+        extractor.extract(content, attachment, { signal: controller.signal, maxTextLength }),
+        timeout
+      ]);
+
+      const truncated = result.text.length > maxTextLength;
+      attachment.extractedText = truncated ? result.text.slice(0, maxTextLength) : result.text;
+      attachment.extraction = {
+        extractor: extractor.name,
+        ...(result.pageCount !== undefined && { pageCount: result.pageCount }),
+        ...(result.sheets !== undefined && { sheets: result.sheets }),
+        ...(truncated && { truncated })
+      };
+    } catch (error) {
+      delete attachment.extractedText;
+      attachment.extraction = { extractor: extractor.name, error: (error as Error).message };
+    } finally {
+      clearTimeout(timer);
+    }
+    return attachment;
+  }
+}
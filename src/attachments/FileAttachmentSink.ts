@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Attachment, AttachmentSink } from '../interfaces.js';
+
+// Longest file name we write, in UTF-8 bytes; most filesystems allow 255
+const MAX_FILENAME_BYTES = 200;
+
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+/**
+ * Writes attachments into a directory, the sink behind FetchOptions.attachmentDir.
+ * File names come from the attachment, made safe for any filesystem; a name that is
+ * already taken gets a numbered suffix ("report (1).pdf") instead of being overwritten.
+ */
+export class FileAttachmentSink implements AttachmentSink {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Stream the content to a new file and return its path
+   */
+  public async write(attachment: Attachment, content: Readable): Promise<string> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const filename = FileAttachmentSink.sanitizeFilename(attachment.filename);
+    const extension = path.extname(filename);
+    const stem = filename.slice(0, filename.length - extension.length);
+
+    for (let attempt = 0; ; attempt++) {
+      const filePath = path.join(this.directory, attempt === 0 ? filename : `${stem} (${attempt})${extension}`);
+
+      let handle: fs.FileHandle;
+      try {
+        // 'wx' fails when the file exists, so two writers can never claim the same name
+        handle = await fs.open(filePath, 'wx');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          continue;
+        }
+        throw new Error(`Failed to write attachment ${attachment.filename}: ${(error as Error).message}`);
+      }
+
+      try {
+        await pipeline(content, handle.createWriteStream());
+        return filePath;
+      } catch (error) {
+        await handle.close().catch(() => undefined);
+        await fs.rm(filePath, { force: true });
+        throw new Error(`Failed to write attachment ${attachment.filename}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * A file name safe on Linux, macOS and Windows: no directories, control or reserved characters,
+   * reserved device names or trailing dots, and short enough for any filesystem
+   */
+  public static sanitizeFilename(filename: string): string {
+    let name = path.basename((filename || '').replace(/\\/g, '/'))
+      .replace(/[\x00-\x1f\x7f<>:"/\\|?*]/g, '_')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^\.+/, '')
+      .replace(/[. ]+$/, '');
+
+    const extension = path.extname(name);
+    const stem = name.slice(0, name.length - extension.length);
+    if (RESERVED_NAMES.test(stem)) {
+      name = `_${name}`;
+    }
+
+    if (Buffer.byteLength(name) > MAX_FILENAME_BYTES) {
+      // Shorten the stem and keep the extension, unless the extension itself is absurdly long
+      name = Buffer.byteLength(extension) < MAX_FILENAME_BYTES / 2
+        ? FileAttachmentSink.truncateBytes(name.slice(0, name.length - extension.length), MAX_FILENAME_BYTES - Buffer.byteLength(extension)) + extension
+        : FileAttachmentSink.truncateBytes(name, MAX_FILENAME_BYTES);
+    }
+
+    return name || 'attachment';
+  }
+
+  /**
+   * Cut text to at most maxBytes of UTF-8 without splitting a character
+   */
+  private static truncateBytes(text: string, maxBytes: number): string {
+    let result = '';
+    for (const char of text) {
+      if (Buffer.byteLength(result + char) > maxBytes) {
+        break;
+      }
+      result += char;
+    }
+    return result;
+  }
+}
@@ -0,0 +1,89 @@
+import { Attachment, AttachmentExtractor, ExtractedContent, ExtractionContext } from '../../interfaces.js';
+import { AttachmentClassifier } from '../AttachmentClassifier.js';
+import { Markup } from './Markup.js';
+import { ZipArchive } from './ZipArchive.js';
+
+// WordprocessingML start/end tags and the text between them
+const TOKEN = /<(\/?)([\w:]+)[^>]*?(\/?)>|([^<]+)/g;
+
+/**
+ * Word documents (.docx): the body text, one line per paragraph and tab-separated table cells.
+ * Deleted revisions and field codes are left out. pageCount is the count Word saved in the
+ * document properties, since pages only exist once a layout engine has run.
+ */
+export class DocxExtractor implements AttachmentExtractor {
+  public readonly name = 'docx';
+
+  public supports(attachment: Attachment): boolean {
+    return AttachmentClassifier.matches(attachment, [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-word.document.macroenabled.12',
+      'docx',
+      'docm'
+    ]);
+  }
+
+  public async extract(content: Buffer, _attachment: Attachment, context: ExtractionContext): Promise<ExtractedContent> {
+    const zip = new ZipArchive(content);
+    const document = zip.readText('word/document.xml');
+    if (document === undefined) {
+      throw new Error('Not a Word document: word/document.xml is missing');
+    }
+
+    // Let the timeout fire between inflating the document and parsing it
+    await new Promise(resolve => setImmediate(resolve));
+    context.signal.throwIfAborted();
+
+    const pages = zip.readText('docProps/app.xml')?.match(/<Pages>(\d+)<\/Pages>/);
+    return {
+      text: DocxExtractor.bodyText(document),
+      pageCount: pages ? parseInt(pages[1], 10) : undefined
+    };
+  }
+
+  /**
+   * Text of a document.xml part
+   */
+  public static bodyText(xml: string): string {
+    const out: string[] = [];
+    let inText = false;
+
+    for (const [, closing, tag, selfClosing, text] of xml.matchAll(TOKEN)) {
+      if (text !== undefined) {
+        if (inText) {
+          out.push(Markup.decodeEntities(text));
+        }
+        continue;
+      }
+
+      if (tag === 'w:t') {
+        inText = !closing && !selfClosing;
+      } else if (closing) {
+        // A table cell ends with its own paragraph break; keep the row on one line instead
+        if (tag === 'w:p') {
+          out.push('\n');
+        } else if (tag === 'w:tc') {
+          DocxExtractor.replaceLast(out, '\n', '\t');
+        } else if (tag === 'w:tr') {
+          DocxExtractor.replaceLast(out, '\t', '\n');
+        }
+      } else if (tag === 'w:tab') {
+        out.push('\t');
+      } else if (tag === 'w:br' || tag === 'w:cr') {
+        out.push('\n');
+      } else if (tag === 'w:noBreakHyphen') {
+        out.push('-');
+      }
+    }
+
+    return Markup.tidy(out.join(''));
+  }
+
+  private static replaceLast(out: string[], from: string, to: string): void {
+    if (out[out.length - 1] === from) {
+      out[out.length - 1] = to;
+    } else {
+      out.push(to);
+    }
+  }
+}
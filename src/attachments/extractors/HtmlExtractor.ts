@@ -0,0 +1,64 @@
+import { Attachment, AttachmentExtractor, ExtractedContent, ExtractionContext } from '../../interfaces.js';
+import { AttachmentClassifier } from '../AttachmentClassifier.js';
+import { Markup } from './Markup.js';
+import { PlainTextExtractor } from './PlainTextExtractor.js';
+
+// Elements whose content is never shown as text
+const HIDDEN_ELEMENTS = /<(script|style|head|noscript|template|svg)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+// Elements set apart from their surroundings by a blank line, and those that only start a new line
+const PARAGRAPH_ELEMENTS = /<\/?(blockquote|h[1-6]|hr|ol|p|pre|table|ul)\b[^>]*>/gi;
+const LINE_ELEMENTS = /<\/?(address|article|aside|dd|div|dl|dt|figcaption|figure|footer|form|header|li|main|nav|section|tr)\b[^>]*>/gi;
+
+// Placeholders for those breaks, so that adjacent tags collapse into a single break
+const LINE = '\u0001';
+const PARAGRAPH = '\u0002';
+
+/**
+ * HTML files: visible text with paragraphs, line breaks, list items and table cells kept apart
+ */
+export class HtmlExtractor implements AttachmentExtractor {
+  public readonly name = 'html';
+
+  public supports(attachment: Attachment): boolean {
+    return AttachmentClassifier.matches(attachment, ['text/html', 'application/xhtml+xml', 'html', 'htm', 'xhtml']);
+  }
+
+  public async extract(content: Buffer, _attachment: Attachment, context: ExtractionContext): Promise<ExtractedContent> {
+    const head = content.subarray(0, 1024).toString('latin1');
+    const html = /<meta[^>]+charset\s*=\s*["']?\s*(iso-8859-1|latin-?1|windows-1252)/i.test(head)
+      ? content.toString('latin1')
+      : PlainTextExtractor.decode(content);
+
+    // Let the timeout fire between decoding and rendering
+    await new Promise(resolve => setImmediate(resolve));
+    context.signal.throwIfAborted();
+
+    return { text: HtmlExtractor.toText(html) };
+  }
+
+  /**
+   * Render HTML markup as plain text
+   */
+  public static toText(html: string): string {
+    const text = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(HIDDEN_ELEMENTS, '')
+      // Whitespace in HTML source is not significant: any run shows as one space
+      .replace(/\s+/g, ' ')
+      .replace(/<br\b[^>]*>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, `${LINE}- `)
+      .replace(/<\/?(td|th)\b[^>]*>/gi, '\t')
+      .replace(PARAGRAPH_ELEMENTS, PARAGRAPH)
+      .replace(LINE_ELEMENTS, LINE)
+      .replace(/<[^>]*>/g, '')
+      .replace(/[ \t]*[\u0001\u0002][\s\u0001\u0002]*/g, breaks => (breaks.includes(PARAGRAPH) ? '\n\n' : '\n'));
+
+    return Markup.tidy(
+      Markup.decodeEntities(text)
+        .split('\n')
+        .map(line => line.replace(/\t+/g, '\t').replace(/^[\t ]+|[\t ]+$/g, '').replace(/ *\t */g, '\t'))
+        .join('\n')
+    );
+  }
+}
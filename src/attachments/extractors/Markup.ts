@@ -0,0 +1,52 @@
+// Named entities that turn up in mail and office documents; anything else is left as written
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥', cent: '¢',
+  sect: '§', para: '¶', deg: '°', plusmn: '±', times: '×', divide: '÷',
+  middot: '·', bull: '•', hellip: '…', ndash: '–', mdash: '—',
+  lsquo: '‘', rsquo: '’', sbquo: '‚', ldquo: '“', rdquo: '”', bdquo: '„',
+  laquo: '«', raquo: '»', iexcl: '¡', iquest: '¿', shy: '',
+  auml: 'ä', ouml: 'ö', uuml: 'ü', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü', szlig: 'ß',
+  eacute: 'é', egrave: 'è', ecirc: 'ê', aacute: 'á', agrave: 'à', acirc: 'â',
+  iacute: 'í', oacute: 'ó', uacute: 'ú', ntilde: 'ñ', ccedil: 'ç', Eacute: 'É'
+};
+
+/**
+ * Small helpers for pulling text out of XML and HTML without a full parser
+ */
+export class Markup {
+  /**
+   * Replace character references (&#233;, &#xE9;) and the common named entities
+   */
+  public static decodeEntities(text: string): string {
+    return text.replace(/&(#\d+|#x[0-9a-f]+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const codePoint = entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+      }
+      return NAMED_ENTITIES[entity] ?? match;
+    });
+  }
+
+  /**
+   * Value of an attribute in a start tag, decoded; prefixed names like r:id are matched as written
+   */
+  public static attribute(tag: string, name: string): string | undefined {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = tag.match(new RegExp(`\\s${escaped}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+    return match ? Markup.decodeEntities(match[2] ?? match[3]) : undefined;
+  }
+
+  /**
+   * Collapse runs of spaces and blank lines left over from markup
+   */
+  public static tidy(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t\u00a0]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
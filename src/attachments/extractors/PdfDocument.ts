@@ -0,0 +1,454 @@
+import { constants, inflateSync } from 'zlib';
+
+// "12 0 obj" headers of indirect objects
+const OBJECT_HEADER = /(\d+)\s+\d+\s+obj\b/g;
+const REFERENCE = /^(\d+)\s+\d+\s+R$/;
+const NAME_CHARS = /[^\s/<>[\]()%{}]/;
+
+// Largest decoded stream we keep, so a small compressed bomb cannot exhaust memory
+const MAX_STREAM_BYTES = 64 * 1024 * 1024;
+
+// Windows-1252 characters in 0x80-0x9f, which WinAnsiEncoding (the usual simple font encoding) shares
+const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: '€', 0x82: '‚', 0x83: 'ƒ', 0x84: '„', 0x85: '…', 0x86: '†', 0x87: '‡', 0x88: 'ˆ', 0x89: '‰',
+  0x8a: 'Š', 0x8b: '‹', 0x8c: 'Œ', 0x8e: 'Ž', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•',
+  0x96: '–', 0x97: '—', 0x98: '˜', 0x99: '™', 0x9a: 'š', 0x9b: '›', 0x9c: 'œ', 0x9e: 'ž', 0x9f: 'Ÿ'
+};
+
+interface PdfObject {
+  dict: string; // The object as written, up to its stream keyword
+  stream?: Buffer; // Raw (still encoded) stream data
+}
+
+export interface PdfPage {
+  dict: string;
+  resources?: string; // Own or inherited /Resources dictionary
+}
+
+export interface PdfFont {
+  codeLength: 1 | 2; // Bytes per character code in shown strings
+  toUnicode?: Map<number, string>;
+}
+
+/**
+ * Just enough of a PDF reader for text extraction: indirect objects (including those packed in
+ * object streams), Flate/ASCIIHex/ASCII85 stream filters, the page tree and font ToUnicode maps.
+ * It reads objects by scanning the file rather than trusting the cross-reference table, which also
+ * copes with files whose offsets were broken by mail gateways. Encrypted PDFs are rejected.
+ */
+export class PdfDocument {
+  private objects = new Map<number, PdfObject>();
+  private fonts = new Map<string, PdfFont>();
+
+  constructor(data: Buffer) {
+    const text = data.toString('latin1');
+    // The header may follow up to 1 KB of junk, which readers tolerate
+    const header = text.indexOf('%PDF-');
+    if (header < 0 || header > 1024) {
+      throw new Error('Not a PDF file');
+    }
+    if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(text)) {
+      throw new Error('Encrypted PDFs are not supported');
+    }
+
+    OBJECT_HEADER.lastIndex = 0;
+    for (let match = OBJECT_HEADER.exec(text); match; match = OBJECT_HEADER.exec(text)) {
+      const bodyStart = match.index + match[0].length;
+      const end = text.indexOf('endobj', bodyStart);
+      const streamStart = text.indexOf('stream', bodyStart);
+      if (end < 0) {
+        break;
+      }
+
+      if (streamStart < 0 || streamStart > end) {
+        // Later revisions of an object (incremental updates) come later in the file and win
+        this.objects.set(parseInt(match[1], 10), { dict: text.slice(bodyStart, end) });
+        OBJECT_HEADER.lastIndex = end + 6;
+        continue;
+      }
+
+      const dict = text.slice(bodyStart, streamStart);
+      let dataStart = streamStart + 6;
+      if (text[dataStart] === '\r') {
+        dataStart++;
+      }
+      if (text[dataStart] === '\n') {
+        dataStart++;
+      }
+
+      // Trust /Length only when it is direct and lands on endstream; otherwise search for endstream
+      const length = dict.match(/\/Length\s+(\d+)(?![\d\s]*R)/);
+      let dataEnd = length ? dataStart + parseInt(length[1], 10) : -1;
+      if (dataEnd < 0 || !/^\s*endstream/.test(text.slice(dataEnd, dataEnd + 20))) {
+        dataEnd = text.indexOf('endstream', dataStart);
+        if (dataEnd < 0) {
+          break;
+        }
+        if (text[dataEnd - 1] === '\n') {
+          dataEnd--;
+        }
+        if (text[dataEnd - 1] === '\r') {
+          dataEnd--;
+        }
+      }
+
+      this.objects.set(parseInt(match[1], 10), { dict, stream: data.subarray(dataStart, dataEnd) });
+      const objectEnd = text.indexOf('endobj', dataEnd);
+      OBJECT_HEADER.lastIndex = objectEnd < 0 ? dataEnd : objectEnd + 6;
+    }
+
+    this.unpackObjectStreams();
+  }
+
+  /**
+   * Pages in reading order, from the catalog's page tree, or in object order when there is no usable tree
+   */
+  public pages(): PdfPage[] {
+    const pages: PdfPage[] = [];
+    const catalog = [...this.objects.values()].find(object => /\/Type\s*\/Catalog\b/.test(object.dict));
+    const root = catalog ? this.dictionary(PdfDocument.value(catalog.dict, 'Pages')) : undefined;
+
+    const visited = new Set<string>();
+    const walk = (node: string, resources: string | undefined, depth: number) => {
+      const ownResources = this.dictionary(PdfDocument.value(node, 'Resources')) ?? resources;
+      const kids = PdfDocument.value(node, 'Kids');
+      if (!kids) {
+        pages.push({ dict: node, resources: ownResources });
+        return;
+      }
+      for (const [reference] of kids.matchAll(/\d+\s+\d+\s+R/g)) {
+        if (!visited.has(reference) && depth < 64) {
+          visited.add(reference);
+          const kid = this.dictionary(reference);
+          if (kid) {
+            walk(kid, ownResources, depth + 1);
+          }
+        }
+      }
+    };
+    if (root) {
+      walk(root, undefined, 0);
+    }
+
+    if (pages.length === 0) {
+      for (const object of this.objects.values()) {
+        if (/\/Type\s*\/Page(?![a-zA-Z])/.test(object.dict)) {
+          pages.push({ dict: object.dict, resources: this.dictionary(PdfDocument.value(object.dict, 'Resources')) });
+        }
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * The page's content streams, decoded and joined
+   */
+  public contents(page: PdfPage): string {
+    const contents = PdfDocument.value(page.dict, 'Contents');
+    if (!contents) {
+      return '';
+    }
+    return [...contents.matchAll(/(\d+)\s+\d+\s+R/g)]
+      .map(([, number]) => this.streamOf(parseInt(number, 10))?.toString('latin1') ?? '')
+      .join('\n');
+  }
+
+  /**
+   * Fonts of a resource dictionary by resource name, e.g. "F1"
+   */
+  public fontsOf(resources?: string): Map<string, PdfFont> {
+    const fonts = new Map<string, PdfFont>();
+    const fontDictionary = this.dictionary(PdfDocument.value(resources, 'Font'));
+    for (const name of PdfDocument.keys(fontDictionary)) {
+      const value = PdfDocument.value(fontDictionary, name)!;
+      const cached = this.fonts.get(value);
+      const font = cached ?? this.loadFont(this.dictionary(value));
+      this.fonts.set(value, font);
+      fonts.set(name, font);
+    }
+    return fonts;
+  }
+
+  /**
+   * Form XObjects of a resource dictionary by resource name, with their content and own resources
+   */
+  public formsOf(resources?: string): Map<string, { content: string; resources?: string }> {
+    const forms = new Map<string, { content: string; resources?: string }>();
+    const xObjects = this.dictionary(PdfDocument.value(resources, 'XObject'));
+    for (const name of PdfDocument.keys(xObjects)) {
+      const reference = PdfDocument.value(xObjects, name)?.match(REFERENCE);
+      const object = reference ? this.objects.get(parseInt(reference[1], 10)) : undefined;
+      if (object && /\/Subtype\s*\/Form\b/.test(object.dict)) {
+        forms.set(name, {
+          content: this.streamOf(parseInt(reference![1], 10))?.toString('latin1') ?? '',
+          resources: this.dictionary(PdfDocument.value(object.dict, 'Resources')) ?? resources
+        });
+      }
+    }
+    return forms;
+  }
+
+  /**
+   * Turn the bytes of a shown string into text using the font's ToUnicode map, falling back to WinAnsi
+   */
+  public static decodeText(bytes: string, font?: PdfFont): string {
+    let text = '';
+    const codeLength = font?.codeLength ?? 1;
+    for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+      const code = codeLength === 2 ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1) : bytes.charCodeAt(i);
+      const mapped = font?.toUnicode?.get(code);
+      if (mapped !== undefined) {
+        text += mapped;
+      } else if (codeLength === 1) {
+        text += WIN_ANSI_HIGH[code] ?? String.fromCharCode(code);
+      }
+    }
+    return text;
+  }
+
+  /**
+   * The raw value of a dictionary entry: a name, number, reference, string, array or nested dictionary
+   */
+  public static value(dict: string | undefined, key: string): string | undefined {
+    if (!dict) {
+      return undefined;
+    }
+
+    let index = -1;
+    for (let from = 0; ; from = index + 1) {
+      index = dict.indexOf(`/${key}`, from);
+      if (index < 0) {
+        return undefined;
+      }
+      if (!NAME_CHARS.test(dict[index + key.length + 1] ?? ' ')) {
+        break;
+      }
+    }
+
+    const rest = dict.slice(index + key.length + 1).replace(/^\s+/, '');
+    if (rest.startsWith('<<')) {
+      return PdfDocument.balanced(rest, '<<', '>>');
+    }
+    if (rest.startsWith('[')) {
+      return PdfDocument.balanced(rest, '[', ']');
+    }
+    if (rest.startsWith('(')) {
+      return PdfDocument.balanced(rest, '(', ')');
+    }
+    return rest.match(/^(\d+\s+\d+\s+R|\/[^\s/<>[\]()]*|[^\s/<>[\]()]+)/)?.[0];
+  }
+
+  /**
+   * A dictionary given inline or by reference
+   */
+  private dictionary(value?: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const reference = value.match(REFERENCE);
+    return reference ? this.objects.get(parseInt(reference[1], 10))?.dict : value.startsWith('<<') ? value : undefined;
+  }
+
+  private streamOf(number: number): Buffer | undefined {
+    const object = this.objects.get(number);
+    return object?.stream ? PdfDocument.decodeStream(object.dict, object.stream) : undefined;
+  }
+
+  private loadFont(dict?: string): PdfFont {
+    const composite = /\/Subtype\s*\/Type0\b/.test(dict || '');
+    const font: PdfFont = { codeLength: composite ? 2 : 1 };
+
+    const reference = PdfDocument.value(dict, 'ToUnicode')?.match(REFERENCE);
+    const cmap = reference ? this.streamOf(parseInt(reference[1], 10))?.toString('latin1') : undefined;
+    if (cmap) {
+      const codeSpace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+      if (codeSpace) {
+        font.codeLength = codeSpace[1].length > 2 ? 2 : 1;
+      }
+      font.toUnicode = PdfDocument.parseCMap(cmap);
+    }
+    return font;
+  }
+
+  /**
+   * The bfchar and bfrange mappings of a ToUnicode CMap
+   */
+  private static parseCMap(cmap: string): Map<number, string> {
+    const map = new Map<number, string>();
+
+    for (const [, section] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const [, code, unicode] of section.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+        map.set(parseInt(code, 16), PdfDocument.utf16(unicode));
+      }
+    }
+
+    for (const [, section] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      for (const [, low, high, target] of section.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+        const first = parseInt(low, 16);
+        const last = Math.min(parseInt(high, 16), first + 0xffff);
+        if (target.startsWith('[')) {
+          [...target.matchAll(/<([0-9a-fA-F]*)>/g)].forEach(([, unicode], offset) => {
+            if (first + offset <= last) {
+              map.set(first + offset, PdfDocument.utf16(unicode));
+            }
+          });
+        } else {
+          // Consecutive codes map to consecutive characters: increment the last UTF-16 unit
+          const base = PdfDocument.utf16(target.slice(1, -1));
+          for (let code = first; code <= last && base.length > 0; code++) {
+            map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - first));
+          }
+        }
+      }
+    }
+    return map;
+  }
+
+  /**
+   * Decode a stream through its /Filter chain; undefined for filters that do not hold text (images)
+   */
+  private static decodeStream(dict: string, data: Buffer): Buffer | undefined {
+    const filters = [...(PdfDocument.value(dict, 'Filter') || '').matchAll(/\/(\w+)/g)].map(([, name]) => name);
+    const predictor = parseInt(PdfDocument.value(PdfDocument.value(dict, 'DecodeParms'), 'Predictor') || '1', 10);
+
+    let decoded: Buffer = data;
+    for (const filter of filters) {
+      switch (filter) {
+        case 'FlateDecode':
+        case 'Fl':
+          try {
+            decoded = inflateSync(decoded, { maxOutputLength: MAX_STREAM_BYTES });
+          } catch {
+            // Many writers truncate or pad the final block; take what inflates
+            decoded = inflateSync(decoded, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength: MAX_STREAM_BYTES });
+          }
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          decoded = PdfDocument.hexBytes(decoded.toString('latin1').replace(/>.*$/s, ''));
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          decoded = PdfDocument.ascii85(decoded.toString('latin1'));
+          break;
+        default:
+          return undefined;
+      }
+    }
+    // PNG predictors are only used on image and cross-reference data, never on text
+    return predictor > 1 ? undefined : decoded;
+  }
+
+  /**
+   * Load the objects packed into object streams (PDF 1.5+), keeping any written directly
+   */
+  private unpackObjectStreams(): void {
+    for (const object of [...this.objects.values()]) {
+      if (!object.stream || !/\/Type\s*\/ObjStm\b/.test(object.dict)) {
+        continue;
+      }
+      const content = PdfDocument.decodeStream(object.dict, object.stream)?.toString('latin1');
+      const first = parseInt(PdfDocument.value(object.dict, 'First') || '', 10);
+      if (!content || isNaN(first)) {
+        continue;
+      }
+
+      const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i + 1 < header.length; i += 2) {
+        const start = first + header[i + 1];
+        const end = i + 3 < header.length ? first + header[i + 3] : content.length;
+        if (!this.objects.has(header[i])) {
+          this.objects.set(header[i], { dict: content.slice(start, end) });
+        }
+      }
+    }
+  }
+
+  private static keys(dict?: string): string[] {
+    if (!dict) {
+      return [];
+    }
+    // Top-level keys only: skip over nested dictionaries and arrays
+    const keys: string[] = [];
+    const inner = dict.trim().replace(/^<<|>>$/g, '');
+    let depth = 0;
+    let expectKey = true;
+    for (const [token] of inner.matchAll(/<<|>>|\[|\]|\/[^\s/<>[\]()]+|\d+\s+\d+\s+R|\([^)]*\)|[^\s/<>[\]()]+/g)) {
+      if (token === '<<' || token === '[') {
+        if (depth === 0) {
+          expectKey = true;
+        }
+        depth++;
+      } else if (token === '>>' || token === ']') {
+        depth--;
+      } else if (depth === 0) {
+        if (expectKey && token.startsWith('/')) {
+          keys.push(token.slice(1));
+          expectKey = false;
+        } else {
+          expectKey = true;
+        }
+      }
+    }
+    return keys;
+  }
+
+  private static balanced(text: string, open: string, close: string): string {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (open === '(' && text[i] === '\\') {
+        i++;
+      } else if (text.startsWith(open, i)) {
+        depth++;
+        i += open.length - 1;
+      } else if (text.startsWith(close, i)) {
+        depth--;
+        i += close.length - 1;
+        if (depth === 0) {
+          return text.slice(0, i + 1);
+        }
+      }
+    }
+    return text;
+  }
+
+  private static utf16(hex: string): string {
+    const bytes = PdfDocument.hexBytes(hex.length % 4 === 0 ? hex : hex.padStart(Math.ceil(hex.length / 4) * 4, '0'));
+    return Buffer.from(bytes).swap16().toString('utf16le');
+  }
+
+  private static hexBytes(hex: string): Buffer {
+    const digits = hex.replace(/[^0-9a-fA-F]/g, '');
+    return Buffer.from(digits.length % 2 === 0 ? digits : `${digits}0`, 'hex');
+  }
+
+  private static ascii85(text: string): Buffer {
+    const bytes: number[] = [];
+    const body = text.replace(/^\s*<~/, '').replace(/~>[\s\S]*$/, '').replace(/\s+/g, '');
+    let group: number[] = [];
+    const flush = (count: number) => {
+      let value = 0;
+      for (let i = 0; i < 5; i++) {
+        value = value * 85 + (group[i] ?? 84);
+      }
+      for (let i = 0; i < count - 1; i++) {
+        bytes.push((value >>> (24 - 8 * i)) & 0xff);
+      }
+      group = [];
+    };
+    for (const char of body) {
+      if (char === 'z' && group.length === 0) {
+        bytes.push(0, 0, 0, 0);
+        continue;
+      }
+      group.push(char.charCodeAt(0) - 33);
+      if (group.length === 5) {
+        flush(5);
+      }
+    }
+    if (group.length > 0) {
+      flush(group.length);
+    }
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,291 @@
+import { Attachment, AttachmentExtractor, ExtractedContent, ExtractionContext } from '../../interfaces.js';
+import { AttachmentClassifier } from '../AttachmentClassifier.js';
+import { Markup } from './Markup.js';
+import { PdfDocument, PdfFont } from './PdfDocument.js';
+
+// How deep form XObjects may nest inside each other before we stop following them
+const MAX_FORM_DEPTH = 4;
+
+// A gap in a TJ array wider than this (thousandths of an em) is taken as a space between words
+const WORD_GAP = 200;
+
+// Sticky patterns, matched at the tokenizer's position without slicing the stream
+const NAME = /[^\s/<>[\]()%{}]*/y;
+const WORD = /[^\s/<>[\]()%{}]+/y;
+const INLINE_IMAGE_END = /\sEI(\s|$)/g;
+
+type Operand = string | number | Operand[] | { name: string } | { bytes: string };
+
+interface TextState {
+  fonts: Map<string, PdfFont>;
+  font?: PdfFont;
+  y: number; // Vertical position of the current line
+  shownY?: number; // Vertical position where text was last shown
+  moved: boolean; // The position changed since text was last shown
+  out: string[];
+}
+
+/**
+ * PDF text: what the pages show, in content stream order, one line per text line and pages
+ * separated by a blank line. Scanned PDFs have no text to extract, only images, and composite
+ * (CJK) fonts without a ToUnicode map cannot be decoded, so their text is left out.
+ */
+export class PdfExtractor implements AttachmentExtractor {
+  public readonly name = 'pdf';
+
+  public supports(attachment: Attachment): boolean {
+    return AttachmentClassifier.matches(attachment, ['application/pdf', 'pdf']);
+  }
+
+  public async extract(content: Buffer, _attachment: Attachment, context: ExtractionContext): Promise<ExtractedContent> {
+    const document = new PdfDocument(content);
+    const pages = document.pages();
+
+    const texts: string[] = [];
+    let length = 0;
+    for (const page of pages) {
+      // Keep counting pages past maxTextLength, but stop reading them
+      if (length >= context.maxTextLength) {
+        break;
+      }
+
+      const state: TextState = { fonts: document.fontsOf(page.resources), y: 0, moved: false, out: [] };
+      PdfExtractor.runContent(document, document.contents(page), page.resources, state, 0);
+      const text = Markup.tidy(state.out.join(''));
+      texts.push(text);
+      length += text.length;
+
+      // Let the timeout fire between pages of a large document
+      await new Promise(resolve => setImmediate(resolve));
+      context.signal.throwIfAborted();
+    }
+
+    return { text: texts.filter(Boolean).join('\n\n'), pageCount: pages.length };
+  }
+
+  /**
+   * Interpret the text operators of a content stream, following form XObjects
+   */
+  private static runContent(document: PdfDocument, content: string, resources: string | undefined, state: TextState, depth: number): void {
+    const operands: Operand[] = [];
+
+    for (const token of PdfExtractor.tokenize(content)) {
+      if (typeof token !== 'object' || !('operator' in token)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.operator) {
+        case 'BT':
+          state.y = 0;
+          break;
+        case 'Tf': {
+          const name = operands[operands.length - 2];
+          state.font = typeof name === 'object' && 'name' in name ? state.fonts.get(name.name) : undefined;
+          break;
+        }
+        case 'Td':
+        case 'TD':
+          PdfExtractor.moveTo(state, state.y + PdfExtractor.number(operands[operands.length - 1]), PdfExtractor.number(operands[operands.length - 2]) !== 0);
+          break;
+        case 'Tm':
+          PdfExtractor.moveTo(state, PdfExtractor.number(operands[operands.length - 1]), true);
+          break;
+        case 'T*':
+          PdfExtractor.newLine(state);
+          break;
+        case "'":
+        case '"':
+          PdfExtractor.newLine(state);
+          PdfExtractor.show(state, operands[operands.length - 1]);
+          break;
+        case 'Tj':
+          PdfExtractor.show(state, operands[operands.length - 1]);
+          break;
+        case 'TJ': {
+          const parts = operands[operands.length - 1];
+          for (const part of Array.isArray(parts) ? parts : []) {
+            if (typeof part === 'number') {
+              if (part < -WORD_GAP) {
+                state.moved = true;
+              }
+            } else {
+              PdfExtractor.show(state, part);
+            }
+          }
+          break;
+        }
+        case 'Do': {
+          const name = operands[operands.length - 1];
+          const form = typeof name === 'object' && 'name' in name ? document.formsOf(resources).get(name.name) : undefined;
+          if (form && depth < MAX_FORM_DEPTH) {
+            const formState: TextState = { ...state, fonts: document.fontsOf(form.resources), font: undefined };
+            PdfExtractor.runContent(document, form.content, form.resources, formState, depth + 1);
+            state.shownY = formState.shownY;
+            state.moved = true;
+          }
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+  }
+
+  private static moveTo(state: TextState, y: number, moved: boolean): void {
+    state.y = y;
+    state.moved = state.moved || moved;
+  }
+
+  private static newLine(state: TextState): void {
+    state.y -= 1;
+    state.shownY = undefined;
+    state.moved = true;
+    state.out.push('\n');
+  }
+
+  private static show(state: TextState, operand: Operand | undefined): void {
+    if (typeof operand !== 'object' || !('bytes' in operand)) {
+      return;
+    }
+    const text = PdfDocument.decodeText(operand.bytes, state.font);
+    if (!text) {
+      return;
+    }
+
+    const last = state.out[state.out.length - 1] ?? '\n';
+    if (state.shownY !== undefined && Math.abs(state.y - state.shownY) > 0.5) {
+      state.out.push('\n');
+    } else if (state.moved && !/\s$/.test(last) && !/^\s/.test(text)) {
+      state.out.push(' ');
+    }
+    state.out.push(text);
+    state.shownY = state.y;
+    state.moved = false;
+  }
+
+  private static number(operand: Operand | undefined): number {
+    return typeof operand === 'number' ? operand : 0;
+  }
+
+  /**
+   * Split a content stream into operands (numbers, names, strings, arrays) and operators
+   */
+  private static *tokenize(content: string): Generator<Operand | { operator: string }> {
+    const stack: Operand[][] = [];
+    let i = 0;
+
+    const emit = function* (operand: Operand): Generator<Operand> {
+      if (stack.length > 0) {
+        stack[stack.length - 1].push(operand);
+      } else {
+        yield operand;
+      }
+    };
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '%') {
+        const end = content.indexOf('\n', i);
+        i = end < 0 ? content.length : end + 1;
+      } else if (char === '(') {
+        const { bytes, end } = PdfExtractor.literalString(content, i);
+        yield* emit({ bytes });
+        i = end;
+      } else if (content.startsWith('<<', i)) {
+        // Dictionaries only appear as marked-content properties and inline image parameters
+        let depth = 0;
+        for (; i < content.length; i++) {
+          if (content.startsWith('<<', i)) {
+            depth++;
+            i++;
+          } else if (content.startsWith('>>', i)) {
+            depth--;
+            i++;
+            if (depth === 0) {
+              i++;
+              break;
+            }
+          }
+        }
+        yield* emit({ name: '' });
+      } else if (char === '<') {
+        const end = content.indexOf('>', i);
+        const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/[^0-9a-fA-F]/g, '');
+        yield* emit({ bytes: Buffer.from(hex.length % 2 === 0 ? hex : `${hex}0`, 'hex').toString('latin1') });
+        i = end < 0 ? content.length : end + 1;
+      } else if (char === '[') {
+        stack.push([]);
+        i++;
+      } else if (char === ']') {
+        const array = stack.pop() ?? [];
+        yield* emit(array);
+        i++;
+      } else if (char === '/') {
+        NAME.lastIndex = i + 1;
+        const name = NAME.exec(content)![0];
+        yield* emit({ name });
+        i += name.length + 1;
+      } else {
+        WORD.lastIndex = i;
+        const word = WORD.exec(content)?.[0] ?? char;
+        i += word.length;
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+          yield* emit(parseFloat(word));
+        } else if (word === 'ID') {
+          // Inline image data runs to the next EI and may contain anything
+          INLINE_IMAGE_END.lastIndex = i;
+          const end = INLINE_IMAGE_END.exec(content);
+          i = end ? end.index + 3 : content.length;
+        } else if (stack.length === 0) {
+          yield { operator: word };
+        }
+      }
+    }
+  }
+
+  /**
+   * Read a (literal string) starting at its opening parenthesis, resolving escapes
+   */
+  private static literalString(content: string, start: number): { bytes: string; end: number } {
+    let bytes = '';
+    let depth = 0;
+    let i = start;
+
+    for (; i < content.length; i++) {
+      const char = content[i];
+      if (char === '\\') {
+        const next = content[++i];
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+        if (next in escapes) {
+          bytes += escapes[next];
+        } else if (/[0-7]/.test(next)) {
+          const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)![0];
+          bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+          i += octal.length - 1;
+        } else if (next === '\r') {
+          // Backslash at the end of a line continues the string
+          if (content[i + 1] === '\n') {
+            i++;
+          }
+        } else if (next !== '\n') {
+          bytes += next ?? '';
+        }
+      } else if (char === '(') {
+        if (depth++ > 0) {
+          bytes += char;
+        }
+      } else if (char === ')') {
+        if (--depth === 0) {
+          return { bytes, end: i + 1 };
+        }
+        bytes += char;
+      } else {
+        bytes += char;
+      }
+    }
+    return { bytes, end: i };
+  }
+}
@@ -0,0 +1,34 @@
+import { Attachment, AttachmentExtractor, ExtractedContent } from '../../interfaces.js';
+import { AttachmentClassifier } from '../AttachmentClassifier.js';
+
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'application/json', 'application/xml', 'text/xml', 'txt', 'text', 'md', 'log', 'json', 'xml'];
+
+/**
+ * Plain text files: the content decoded as UTF-8, or UTF-16 when it starts with a byte order mark
+ */
+export class PlainTextExtractor implements AttachmentExtractor {
+  public readonly name = 'text';
+
+  public supports(attachment: Attachment): boolean {
+    return AttachmentClassifier.matches(attachment, TEXT_TYPES);
+  }
+
+  public async extract(content: Buffer): Promise<ExtractedContent> {
+    return { text: PlainTextExtractor.decode(content) };
+  }
+
+  /**
+   * Decode text by its byte order mark, defaulting to UTF-8
+   */
+  public static decode(content: Buffer): string {
+    if (content[0] === 0xff && content[1] === 0xfe) {
+      return content.subarray(2).toString('utf16le');
+    }
+    if (content[0] === 0xfe && content[1] === 0xff) {
+      // Node has no UTF-16BE decoder; swap to little endian
+      const swapped = Buffer.from(content.subarray(2, content.length - (content.length % 2)));
+      return swapped.swap16().toString('utf16le');
+    }
+    return content.toString('utf8').replace(/^\uFEFF/, '');
+  }
+}
@@ -0,0 +1,209 @@
+import path from 'path';
+import { Attachment, AttachmentExtractor, ExtractedContent, ExtractionContext } from '../../interfaces.js';
+import { AttachmentClassifier } from '../AttachmentClassifier.js';
+import { Markup } from './Markup.js';
+import { PlainTextExtractor } from './PlainTextExtractor.js';
+import { ZipArchive } from './ZipArchive.js';
+
+const XLSX_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel.sheet.macroenabled.12',
+  'xlsx',
+  'xlsm'
+];
+const CSV_TYPES = ['text/csv', 'application/csv', 'text/tab-separated-values', 'csv', 'tsv'];
+
+/**
+ * Excel workbooks (.xlsx) and CSV/TSV files. Each sheet becomes a "# name" heading followed by
+ * one line per row with tab-separated cells. Cells show their stored value: numbers and dates
+ * come out unformatted, and formulas as their last calculated result.
+ */
+export class SpreadsheetExtractor implements AttachmentExtractor {
+  public readonly name = 'spreadsheet';
+
+  public supports(attachment: Attachment): boolean {
+    return AttachmentClassifier.matches(attachment, [...XLSX_TYPES, ...CSV_TYPES]);
+  }
+
+  public async extract(content: Buffer, attachment: Attachment, context: ExtractionContext): Promise<ExtractedContent> {
+    if (AttachmentClassifier.matches(attachment, XLSX_TYPES)) {
+      return SpreadsheetExtractor.extractWorkbook(content, context);
+    }
+
+    const name = path.basename(attachment.filename || 'sheet', path.extname(attachment.filename || ''));
+    const rows = SpreadsheetExtractor.parseCsv(PlainTextExtractor.decode(content));
+    return {
+      text: rows.map(row => row.join('\t')).join('\n'),
+      sheets: [name]
+    };
+  }
+
+  /**
+   * Split CSV text into rows of fields (RFC 4180 quoting). The delimiter is whichever of comma,
+   * semicolon or tab the first line uses most, since European Excel writes semicolons.
+   */
+  public static parseCsv(text: string): string[][] {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const delimiter = [',', ';', '\t']
+      .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+      .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    // Line breaks inside quoted fields would split the row in the extracted text
+    return rows.map(cells => cells.map(cell => cell.replace(/\s*\r?\n\s*/g, ' ')));
+  }
+
+  private static async extractWorkbook(content: Buffer, context: ExtractionContext): Promise<ExtractedContent> {
+    const zip = new ZipArchive(content);
+    const workbook = zip.readText('xl/workbook.xml');
+    if (workbook === undefined) {
+      throw new Error('Not an Excel workbook: xl/workbook.xml is missing');
+    }
+
+    const targets = new Map<string, string>();
+    for (const [tag] of (zip.readText('xl/_rels/workbook.xml.rels') || '').matchAll(/<Relationship\b[^>]*>/g)) {
+      const id = Markup.attribute(tag, 'Id');
+      const target = Markup.attribute(tag, 'Target');
+      if (id && target) {
+        // Targets are relative to xl/ unless they start at the package root
+        targets.set(id, target.startsWith('/') ? target.slice(1) : path.posix.join('xl', target));
+      }
+    }
+
+    const sharedStrings = [...(zip.readText('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+      .map(([, item]) => SpreadsheetExtractor.textRuns(item));
+
+    const sheets: string[] = [];
+    const sections: string[] = [];
+    let length = 0;
+
+    for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+      const name = Markup.attribute(tag, 'name') || `Sheet${sheets.length + 1}`;
+      sheets.push(name);
+
+      // Stop reading once the text is long enough; the sheet names are still listed
+      const target = targets.get(Markup.attribute(tag, 'r:id') || '');
+      const xml = target && length < context.maxTextLength ? zip.readText(target) : undefined;
+      if (xml === undefined) {
+        continue;
+      }
+
+      const rows = SpreadsheetExtractor.sheetRows(xml, sharedStrings);
+      const section = [`# ${name}`, ...rows.map(row => row.join('\t'))].join('\n');
+      sections.push(section);
+      length += section.length;
+
+      // Let the timeout fire between sheets of a large workbook
+      await new Promise(resolve => setImmediate(resolve));
+      context.signal.throwIfAborted();
+    }
+
+    return { text: sections.join('\n\n'), sheets };
+  }
+
+  /**
+   * Cell values of a worksheet part, row by row, placed in their columns; empty rows are skipped
+   */
+  private static sheetRows(xml: string, sharedStrings: string[]): string[][] {
+    const rows: string[][] = [];
+
+    for (const [, rowXml] of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const row: string[] = [];
+      for (const [, cellTag, cellXml = ''] of (rowXml || '').matchAll(/(<c\b[^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const reference = Markup.attribute(`${cellTag}>`, 'r');
+        const column = reference && /^[A-Z]/i.test(reference) ? SpreadsheetExtractor.columnIndex(reference) : row.length;
+        const value = SpreadsheetExtractor.cellValue(Markup.attribute(`${cellTag}>`, 't'), cellXml, sharedStrings);
+        while (row.length < column) {
+          row.push('');
+        }
+        row[column] = value;
+      }
+
+      while (row.length > 0 && row[row.length - 1] === '') {
+        row.pop();
+      }
+      if (row.length > 0) {
+        rows.push(row);
+      }
+    }
+
+    return rows;
+  }
+
+  private static cellValue(type: string | undefined, xml: string, sharedStrings: string[]): string {
+    if (type === 'inlineStr') {
+      return SpreadsheetExtractor.textRuns(xml);
+    }
+
+    const raw = xml.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+    if (raw === undefined) {
+      return '';
+    }
+    switch (type) {
+      case 's':
+        return sharedStrings[parseInt(raw, 10)] ?? '';
+      case 'b':
+        return raw === '1' ? 'TRUE' : 'FALSE';
+      default:
+        return Markup.decodeEntities(raw);
+    }
+  }
+
+  /**
+   * Text of a shared or inline string, which may be split into formatted runs; phonetic guides are skipped
+   */
+  private static textRuns(xml: string): string {
+    return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+      .map(([, text]) => Markup.decodeEntities(text))
+      .join('')
+      .replace(/\s*\r?\n\s*/g, ' ');
+  }
+
+  /**
+   * Zero-based column of a cell reference such as "C7" or "AB12"
+   */
+  private static columnIndex(reference: string): number {
+    let column = 0;
+    for (const char of reference.toUpperCase().match(/^[A-Z]+/)?.[0] || '') {
+      column = column * 26 + (char.charCodeAt(0) - 64);
+    }
+    return column - 1;
+  }
+}
@@ -0,0 +1,108 @@
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Largest single entry we inflate, so a small zip bomb cannot exhaust memory
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Read-only access to the entries of a ZIP file held in memory, enough for Office Open XML packages.
+ * Supports stored and deflated entries; ZIP64 and encrypted archives are rejected.
+ */
+export class ZipArchive {
+  private data: Buffer;
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(data: Buffer) {
+    this.data = data;
+
+    // The end of central directory record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    let end = -1;
+    for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+      if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        end = offset;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('Not a ZIP archive');
+    }
+
+    const count = data.readUInt16LE(end + 10);
+    let offset = data.readUInt32LE(end + 16);
+    for (let i = 0; i < count; i++) {
+      if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+      const flags = data.readUInt16LE(offset + 8);
+      const nameLength = data.readUInt16LE(offset + 28);
+      const name = data.subarray(offset + 46, offset + 46 + nameLength).toString(flags & 0x800 ? 'utf8' : 'latin1');
+      const entry: ZipEntry = {
+        method: data.readUInt16LE(offset + 10),
+        compressedSize: data.readUInt32LE(offset + 20),
+        localHeaderOffset: data.readUInt32LE(offset + 42)
+      };
+      if (flags & 0x1) {
+        throw new Error('Encrypted ZIP archives are not supported');
+      }
+      if (entry.compressedSize === 0xffffffff || entry.localHeaderOffset === 0xffffffff) {
+        throw new Error('ZIP64 archives are not supported');
+      }
+      this.entries.set(name, entry);
+      offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+    }
+  }
+
+  /**
+   * Names of all entries, in central directory order
+   */
+  public get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * The uncompressed content of an entry, or undefined when there is no such entry
+   */
+  public read(name: string): Buffer | undefined {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return undefined;
+    }
+
+    const header = entry.localHeaderOffset;
+    if (header + 30 > this.data.length || this.data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    // Sizes are taken from the central directory: the local header may defer them to a data descriptor
+    const start = header + 30 + this.data.readUInt16LE(header + 26) + this.data.readUInt16LE(header + 28);
+    const compressed = this.data.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return compressed;
+      case 8:
+        return inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_BYTES });
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} in ${name}`);
+    }
+  }
+
+  /**
+   * An entry decoded as UTF-8 text
+   */
+  public readText(name: string): string | undefined {
+    return this.read(name)?.toString('utf8');
+  }
+}
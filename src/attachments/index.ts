@@ -0,0 +1,12 @@
+// Export attachment sinks, download handles, classification and text extraction
+export { FileAttachmentSink } from './FileAttachmentSink.js';
+export { AttachmentStorage } from './AttachmentStorage.js';
+export type { AttachmentHandling } from './AttachmentStorage.js';
+export { AttachmentHandle } from './AttachmentHandle.js';
+export { AttachmentClassifier } from './AttachmentClassifier.js';
+export { ExtractionPipeline } from './ExtractionPipeline.js';
+export { PdfExtractor } from './extractors/PdfExtractor.js';
+export { DocxExtractor } from './extractors/DocxExtractor.js';
+export { SpreadsheetExtractor } from './extractors/SpreadsheetExtractor.js';
+export { HtmlExtractor } from './extractors/HtmlExtractor.js';
+export { PlainTextExtractor } from './extractors/PlainTextExtractor.js';
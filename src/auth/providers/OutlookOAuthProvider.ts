@@ -28,7 +28,8 @@ export class OutlookOAuthProvider implements IOAuthProvider {
     
     // List of Microsoft Graph API permission scopes for mail access
     const scopes = options.scopes || [
-      'Mail.Read',
+      'Mail.ReadWrite', // Mutations, drafts, folders and subscriptions
+      'Mail.Send',
       'offline_access', // Required for refresh tokens
       'openid',
       'profile',
@@ -5,11 +5,23 @@ export * from './interfaces.js';
 export { GmailAdapter } from './adapters/GmailAdapter.js';
 export { OutlookAdapter } from './adapters/OutlookAdapter.js';
 export { ImapAdapter } from './adapters/ImapAdapter.js';
-export type { IAdapter, PaginatedEmailsResponse } from './adapters/IAdapter.js';
+export { ImapWatcher } from './adapters/ImapWatcher.js';
+export { SmtpSender } from './adapters/SmtpSender.js';
+export type { SmtpSenderOptions } from './adapters/SmtpSender.js';
+export type { IAdapter, PaginatedEmailsResponse, PaginatedThreadsResponse } from './adapters/IAdapter.js';
 
 // Export services if they are meant to be used directly, or internal utility classes
 export { EmailParserService } from './services/EmailParserService.js'; // Might be internal
 export { EmailStreamService } from './services/EmailStreamService.js'; // New streaming service
+export { WebhookReceiver } from './services/WebhookReceiver.js';
+export type { WebhookMailbox, WebhookReceiverOptions } from './services/WebhookReceiver.js';
+export { Poller } from './services/Poller.js';
+export { MimeBuilder } from './services/MimeBuilder.js';
+export type { MimeMessage, MimeBuildOptions } from './services/MimeBuilder.js';
+export { ReplyService } from './services/ReplyService.js';
+export type { EmailSender, ReplyContent, ReplyOptions, ForwardOptions, ReplyServiceOptions } from './services/ReplyService.js';
+export { ThreadService } from './services/ThreadService.js';
+export type { ThreadNode, ThreadingOptions, BuildThreadOptions } from './services/ThreadService.js';
 
 // Export OAuth functionality with renamed TokenData to avoid naming conflicts
 export {
@@ -28,8 +40,39 @@ export type {
 // Re-export TokenData from auth as OAuthTokenData to avoid naming conflict
 export type { TokenData as OAuthTokenData } from './auth/interfaces.js';
 
+// Export sync state persistence
+export {
+  SyncService,
+  MemorySyncStateStore,
+  FileSyncStateStore,
+  SqliteSyncStateStore
+} from './sync/index.js';
+export type {
+  ISyncStateStore,
+  SqliteDatabase,
+  SqliteStatement,
+  SyncResultHandler
+} from './sync/index.js';
+
 // Potentially a main unimail class in the future
 // export { unimail } from './unimail.js';
 
 // Export new pagination utilities
 export * from './utils/PaginationHelper.js';
+export { CronExpression } from './utils/CronExpression.js';
+export { AddressParser } from './utils/AddressParser.js';
+
+// Export attachment storage, download handles, classification and text extraction
+export {
+  FileAttachmentSink,
+  AttachmentStorage,
+  AttachmentHandle,
+  AttachmentClassifier,
+  ExtractionPipeline,
+  PdfExtractor,
+  DocxExtractor,
+  SpreadsheetExtractor,
+  HtmlExtractor,
+  PlainTextExtractor
+} from './attachments/index.js';
+export type { AttachmentHandling } from './attachments/index.js';
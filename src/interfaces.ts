@@ -1,28 +1,212 @@
+import { Readable } from 'stream';
+
 export interface Attachment {
   filename: string;
   mimeType: string; // Consistent with Gmail API, can map from mailparser's contentType
   size: number;
   buffer?: Buffer; // Optional, as we might just list attachments first
+  filePath?: string; // Set instead of buffer when attachmentDir or an AttachmentSink stored the content
   contentId?: string; // For inline attachments
+  attachmentId?: string; // Stable ID for getAttachment: Gmail MIME part ID, Graph attachment ID or IMAP body part number
+  source?: AttachmentSource; // The email to download the content from, set together with attachmentId
+  download?: () => Promise<Buffer>; // Fetch the content on demand; not enumerable, so emails still serialize as plain data
+  stream?: () => Promise<Readable>; // Same as download, as a stream
+  kind?: 'file' | 'item' | 'reference'; // Outlook: a file, an attached Outlook item or a link to a cloud file (default 'file')
+  email?: NormalizedEmail; // Attached email parsed into its own NormalizedEmail (Outlook item attachments)
+  link?: AttachmentLink; // Where a reference attachment points; it has no content of its own
+  detectedMimeType?: string; // MIME type sniffed from the content; mimeType stays what the sender claimed
+  detectedExtension?: string; // File extension matching detectedMimeType, without the dot
+  category?: AttachmentCategory; // Set by AttachmentClassifier on fetched attachments
+  extractedText?: string; // Text pulled out of the content by an AttachmentExtractor (see FetchOptions.extractText)
+  extraction?: AttachmentExtraction; // Which extractor ran, page and sheet details, or why it failed
+}
+
+export type AttachmentCategory =
+  | 'invoice' // PDF whose name or metadata reads like an invoice or receipt
+  | 'document'
+  | 'spreadsheet'
+  | 'presentation'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'archive'
+  | 'calendar'
+  | 'contact'
+  | 'email'
+  | 'signed' // S/MIME or PGP signatures
+  | 'encrypted' // S/MIME or PGP encrypted content
+  | 'executable'
+  | 'other';
+
+// Cloud file behind an Outlook reference attachment, such as a OneDrive or SharePoint share
+export interface AttachmentLink {
+  url?: string; // sourceUrl of the shared file or folder
+  providerType?: string; // e.g. 'oneDriveBusiness', 'oneDriveConsumer', 'dropbox'
+  permission?: string; // e.g. 'view', 'edit', 'anonymousView'
+  isFolder?: boolean;
+  previewUrl?: string;
+  thumbnailUrl?: string;
+}
+
+export interface AttachmentSource {
+  provider: NormalizedEmail['provider'];
+  emailId: string; // NormalizedEmail.id of the email the attachment belongs to
+  mailbox?: string; // IMAP only: mailbox the email is in
+}
+
+export interface AttachmentDownloadOptions {
+  mailbox?: string; // IMAP only: mailbox the email is in (default 'INBOX')
+}
+
+// Outcome of running an AttachmentExtractor on an attachment
+export interface AttachmentExtraction {
+  extractor: string; // AttachmentExtractor.name
+  pageCount?: number; // PDF pages, or DOCX pages as last counted by the authoring app
+  sheets?: string[]; // XLSX sheet names in workbook order; CSV files count as one sheet
+  truncated?: boolean; // extractedText was cut at ExtractionOptions.maxTextLength
+  error?: string; // Set instead of extractedText when the attachment was too large, timed out or could not be read
+}
+
+// What an AttachmentExtractor returns for one attachment
+export interface ExtractedContent {
+  text: string;
+  pageCount?: number;
+  sheets?: string[];
+}
+
+export interface ExtractionContext {
+  signal: AbortSignal; // Aborted when ExtractionOptions.timeoutMs runs out; long extractions should check it between steps
+  maxTextLength: number; // Text beyond this many characters is cut off anyway, so extractors may stop early
+}
+
+// Plugin that turns one kind of attachment content into text, e.g. PDF or DOCX
+export interface AttachmentExtractor {
+  name: string; // Recorded as Attachment.extraction.extractor
+  /**
+   * Whether this extractor handles the attachment, judged from its (detected) type and file name
+   */
+  supports(attachment: Attachment): boolean;
+  /**
+   * Read the text out of the attachment's content
+   */
+  extract(content: Buffer, attachment: Attachment, context: ExtractionContext): Promise<ExtractedContent>;
+}
+
+export interface ExtractionOptions {
+  extractors?: AttachmentExtractor[]; // Tried before the built-in extractors, in order
+  maxBytes?: number; // Skip attachments larger than this (default 10 MB)
+  timeoutMs?: number; // Give up on an attachment after this long, download included (default 10 seconds)
+  maxTextLength?: number; // Cut extractedText to this many characters (default 1,000,000)
+}
+
+export interface AttachmentSinkContext {
+  emailId: string; // Provider message ID of the email the attachment belongs to
+  provider: NormalizedEmail['provider'];
+}
+
+// Destination for attachment content fetched with attachmentDir or attachmentSink, e.g. local disk or an object store
+export interface AttachmentSink {
+  /**
+   * Store one attachment's content and resolve to where it went; the result becomes Attachment.filePath
+   */
+  write(attachment: Attachment, content: Readable, context: AttachmentSinkContext): Promise<string>;
+}
+
+// A mailbox from an address header; AddressParser.format renders it back to "Name <address>"
+export interface EmailAddress {
+  name?: string; // Display name, decoded; omitted when the header has none
+  address: string; // e.g. "jane@example.com"
 }
 
 export interface NormalizedEmail {
   id: string; // Provider-specific ID
   threadId?: string;
-  from: string;
-  to: string[];
-  cc?: string[];
-  bcc?: string[];
+  messageId?: string; // RFC 5322 Message-ID header, e.g. "<abc@example.com>"
+  inReplyTo?: string; // Message-ID from the In-Reply-To header: the message this one replies to
+  references?: string[]; // Message-IDs from the References header, oldest first
+  isDraft?: boolean; // Set on unsent drafts
+  draftId?: string; // Drafts only: ID for updateDraft/sendDraft/deleteDraft (Gmail draft IDs differ from message IDs)
+  from: EmailAddress; // Address "" when the message has no From header
+  to: EmailAddress[];
+  cc?: EmailAddress[];
+  bcc?: EmailAddress[];
+  replyTo?: EmailAddress[]; // Reply-To header, when present
+  sender?: EmailAddress; // Sender header: who actually sent the message on behalf of From, when present
   subject?: string;
   bodyText?: string;
   bodyHtml?: string;
   attachments: Attachment[];
   date: Date; // Received date
   labels?: string[]; // Provider-specific labels (e.g., Gmail labels like 'INBOX', 'SENT', 'IMPORTANT', 'CATEGORY_PERSONAL', etc.)
+  labelDetails?: EmailLabel[]; // Gmail only: labels resolved to names, in the same order as labels
   provider: 'gmail' | 'outlook' | 'imap' | 'unknown';
   raw?: any; // Optional: store the raw provider response
 }
 
+// A conversation: every message of one Gmail thread, Outlook conversation or IMAP reply chain
+export interface NormalizedThread {
+  id: string; // Gmail thread ID, Outlook conversationId, or the Message-ID of the first message for IMAP
+  subject?: string; // Subject of the first message
+  participants: EmailAddress[]; // Every sender and recipient, in order of first appearance
+  messages: NormalizedEmail[]; // Oldest first
+  snippet?: string; // Preview of the latest message
+  unread: boolean; // True when any message is unread
+  lastMessageDate?: Date;
+  provider: NormalizedEmail['provider'];
+}
+
+// Normalized role of a system folder or label, the same across Gmail labels, Outlook well-known folders and IMAP special-use mailboxes
+export type FolderRole =
+  | 'inbox'
+  | 'sent'
+  | 'drafts'
+  | 'trash'
+  | 'spam'
+  | 'archive'
+  | 'outbox'
+  | 'all'
+  | 'starred'
+  | 'important'
+  | 'unread'
+  | 'chat'
+  | 'category_personal'
+  | 'category_social'
+  | 'category_promotions'
+  | 'category_updates'
+  | 'category_forums';
+
+export interface EmailLabel {
+  id: string; // Raw provider ID, e.g. "Label_123456789" or "INBOX"
+  name: string; // Display name, e.g. "Invoices" or "Projects/2024"
+  type: 'system' | 'user';
+  role?: FolderRole; // Set for system labels
+}
+
+// Outgoing mail
+export interface OutgoingEmail {
+  from?: string; // Defaults to the authenticated account (Gmail/Outlook) or the SmtpSender's default sender
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  replyTo?: string;
+  subject?: string;
+  text?: string;
+  html?: string;
+  attachments?: Attachment[]; // buffer is required; set contentId to embed the attachment inline in html
+  headers?: Record<string, string>; // Extra headers, e.g. { 'X-Campaign': 'spring' }
+  inReplyTo?: string; // Message-ID this message replies to
+  references?: string[]; // Message-IDs of the thread so far, oldest first
+  threadId?: string; // Gmail: thread to add the sent message to (ignored by other providers)
+}
+
+export interface SendResult {
+  messageId: string; // RFC 5322 Message-ID header of the sent message
+  id?: string; // Gmail: ID of the message in the Sent folder
+  threadId?: string; // Gmail: thread the message was added to
+  accepted?: string[]; // SMTP: recipients the server accepted
+  rejected?: string[]; // SMTP: recipients the server rejected
+}
+
 export interface FetchOptions {
   limit?: number;
   since?: Date | string; // Fetch emails since this date (inclusive)
@@ -30,12 +214,18 @@ export interface FetchOptions {
   query?: string; // Provider-specific query string (e.g., Gmail search operators)
   includeBody?: boolean; // Default true
   includeAttachments?: boolean; // Default true, might just fetch metadata first
-  attachmentDir?: string; // Optional: directory to save attachments instead of buffer
+  attachmentDir?: string; // Optional: directory to write attachments to once each email is parsed, instead of keeping buffers (sets Attachment.filePath)
+  attachmentSink?: AttachmentSink; // Optional: custom destination for attachment content (takes precedence over attachmentDir)
+  attachmentMode?: 'content' | 'metadata'; // 'metadata' lists attachments without downloading them; use attachment.download() (default 'content')
+  attachmentTypes?: string[]; // Keep only these attachments: categories ('image'), extensions ('pdf'), MIME types or 'image/*'
+  extractText?: boolean | ExtractionOptions; // Fill Attachment.extractedText while fetching; true uses the defaults
   unreadOnly?: boolean;
   format?: 'raw' | 'full' | 'metadata'; // Default 'raw' for backward compatibility
   pageToken?: string; // Token for fetching the next page of results
   pageSize?: number; // Number of results per page (defaults to limit if not specified)
   getAllPages?: boolean; // Whether to automatically fetch all pages (up to limit)
+  mailbox?: string; // IMAP only: mailbox to read from (default 'INBOX')
+  folderId?: string; // Only return emails in this folder: a Folder.id from listFolders (takes precedence over mailbox)
 }
 
 // Streaming-specific interfaces
@@ -82,6 +272,10 @@ export interface GmailCredentials {
   redirectUri?: string; // Required when using authCode
 }
 
+export interface GmailAdapterOptions {
+  labelCacheTtlMs?: number; // How long label names are cached before being reloaded (default 5 minutes)
+}
+
 export interface OutlookCredentials {
   clientId: string;
   clientSecret: string;
@@ -90,6 +284,7 @@ export interface OutlookCredentials {
   redirectUri?: string; // Required when using authCode
   tenantId?: string; // Optional: Specific tenant for Azure AD authentication
   accessToken?: string; // Optional: Directly provide an access token for testing or specific flows
+  scopes?: string[]; // Optional: Graph permissions to request (default: Mail.ReadWrite and Mail.Send); offline_access is always added
 }
 
 // For Phase 2
@@ -126,12 +321,14 @@ export interface HistoryRecord {
     message: {
       id: string;
       threadId: string;
+      labelIds?: string[];
     };
   }>;
   labelsAdded?: Array<{
     message: {
       id: string;
       threadId: string;
+      labelIds?: string[];
     };
     labelIds: string[];
   }>;
@@ -139,6 +336,7 @@ export interface HistoryRecord {
     message: {
       id: string;
       threadId: string;
+      labelIds?: string[];
     };
     labelIds: string[];
   }>;
@@ -148,25 +346,72 @@ export interface HistoryResponse {
   history: HistoryRecord[];
   nextPageToken?: string;
   historyId: string; // Current history ID
+  lastRecordId?: string; // ID of the last record on this page before labelIds filtering; where a sync resumes
 }
 
 export interface PushNotificationConfig {
-  topicName: string; // Google Cloud Pub/Sub topic name (e.g., "projects/myproject/topics/gmail-push")
-  webhookUrl: string; // Your webhook endpoint URL
-  labelIds?: string[]; // Optional: only watch specific labels
+  topicName?: string; // Gmail (required): Google Cloud Pub/Sub topic name (e.g., "projects/myproject/topics/gmail-push")
+  webhookUrl: string; // Your webhook endpoint URL (Outlook: the Graph notificationUrl)
+  labelIds?: string[]; // Optional: only watch specific labels (Outlook: the first entry is the mail folder to watch, default 'inbox')
   labelFilterAction?: 'include' | 'exclude'; // How to apply label filter
+  clientState?: string; // Outlook: secret echoed back in every notification (generated if omitted)
+  expirationMinutes?: number; // Outlook: subscription lifetime (default and Graph maximum for messages: 4230)
+  autoRenew?: boolean; // Outlook: renew the subscription shortly before it expires
+  onRenewalError?: (error: Error, subscriptionId: string) => void; // Outlook: auto-renewal gave up and the subscription will lapse; set up a new one
 }
 
 export interface PushNotificationSetup {
   historyId: string; // Starting history ID
   expiration: number; // Unix timestamp when watch expires
-  topicName: string;
+  topicName?: string; // Gmail: Pub/Sub topic the watch publishes to
+  subscriptionId?: string; // Outlook: Graph subscription ID
+  clientState?: string; // Outlook: secret to verify incoming notifications against
+}
+
+// Microsoft Graph change notification payloads
+export interface OutlookChangeNotification {
+  subscriptionId: string;
+  subscriptionExpirationDateTime: string;
+  changeType: 'created' | 'updated' | 'deleted';
+  resource: string;
+  clientState?: string;
+  tenantId?: string;
+  resourceData?: {
+    id: string;
+    '@odata.type'?: string;
+    '@odata.id'?: string;
+  };
+}
+
+export interface OutlookNotificationPayload {
+  value: OutlookChangeNotification[];
+}
+
+// Webhook receiver interfaces
+export interface WebhookRequest {
+  body: unknown; // Parsed JSON body
+  query?: Record<string, unknown>; // Parsed query string
+}
+
+export interface WebhookResponse {
+  status: number;
+  body?: string;
+  contentType?: string;
+  processing?: Promise<void>; // Settles once the triggered syncs have finished; never rejects
+}
+
+export interface WebhookEvent {
+  provider: 'gmail' | 'outlook';
+  mailboxId: string; // Gmail: emailAddress from the Pub/Sub message, Outlook: subscriptionId
+  historyId?: string; // Gmail: history ID announced by the notification
+  notifications?: OutlookChangeNotification[]; // Outlook: the notifications for this subscription
 }
 
 export interface SyncState {
   historyId: string; // Last processed history ID
   lastSyncTime: Date; // When sync was last performed
   totalChanges: number; // Total changes processed
+  fullResyncPageToken?: string; // Gmail: where an unfinished full resync continues (SyncResult.fullResyncPageToken)
 }
 
 export interface SyncOptions {
@@ -174,6 +419,14 @@ export interface SyncOptions {
   maxResults?: number; // Max history records per request (default: 100)
   labelIds?: string[]; // Filter by specific labels
   includeDeleted?: boolean; // Include deleted messages (default: true)
+  lastSyncTime?: Date | string; // Outlook: changes to messages created before this are reported as updates, not additions. Gmail: start of the full-resync listing
+  fullResyncOnExpired?: boolean; // Gmail: fall back to a full listing instead of throwing when startHistoryId has expired
+  fullResyncLimit?: number; // Gmail: max messages listed per call during a full resync (default: 500)
+  fullResyncPageToken?: string; // Gmail: continue a full resync; pass SyncResult.fullResyncPageToken with startHistoryId set to its newHistoryId
+  knownMessageIds?: string[]; // Gmail: IDs the caller already has; a full resync reports those that no longer exist as deleted
+  pageToken?: string; // Gmail: resume a history listing for the same startHistoryId
+  drainAllPages?: boolean; // Gmail: follow history pages until done or maxHistoryPages is reached (default: false)
+  maxHistoryPages?: number; // Gmail: cap on pages drained in one processSync call (default: 10)
 }
 
 export interface SyncResult {
@@ -184,6 +437,63 @@ export interface SyncResult {
   newHistoryId: string;
   hasMoreChanges: boolean;
   nextPageToken?: string;
+  fullResync?: boolean; // True when the history ID had expired and the result comes from a full listing
+  fullResyncPageToken?: string; // Gmail: set with hasMoreChanges when a full resync stopped at fullResyncLimit
+}
+
+// IMAP IDLE watch interfaces
+export interface ImapWatchOptions {
+  mailbox?: string; // Mailbox to watch (default: 'INBOX')
+  sinceUid?: number; // Resume point: emit messages with a higher UID (default: only mail arriving after start)
+  includeBody?: boolean; // Default true
+  includeAttachments?: boolean; // Default true
+  initialReconnectDelay?: number; // Milliseconds before the first reconnect attempt (default: 1000)
+  maxReconnectDelay?: number; // Upper bound for the exponential backoff (default: 60000)
+}
+
+// Mailbox mutation interfaces
+export interface MutationOptions {
+  mailbox?: string; // IMAP only: mailbox the UIDs belong to (default 'INBOX')
+}
+
+// Folder/label interfaces
+export interface Folder {
+  id: string; // Gmail label ID, Outlook mail folder ID or IMAP mailbox path
+  name: string; // Display name; the last segment for nested folders
+  path: string; // Full name including parents, e.g. "Projects/2024"
+  type: 'system' | 'user';
+  role?: FolderRole; // Set for system folders
+  parentId?: string;
+  unreadCount?: number;
+  totalCount?: number;
+}
+
+export interface CreateFolderOptions {
+  parentId?: string; // Create the folder inside this one
+}
+
+// Draft interfaces
+export interface DraftOptions {
+  mailbox?: string; // IMAP only: drafts mailbox (default: the server's \Drafts special-use mailbox)
+}
+
+export interface DraftListOptions extends DraftOptions {
+  limit?: number; // Default 10
+  pageToken?: string;
+}
+
+// Poller interfaces
+export interface PollerOptions {
+  interval?: number; // Milliseconds between polls (default: 60000); ignored when cron is set
+  cron?: string; // Five-field cron expression in local time, e.g. "*/5 * * * *"
+  jitter?: number; // Up to this many milliseconds of random delay added to each poll (default: 0)
+  runImmediately?: boolean; // Poll once as soon as start() is called (default: true)
+  startHistoryId?: string; // Sync mode: resume from a stored history ID instead of starting at the current one
+  since?: Date | string; // Fetch mode: high-water mark to resume from (default: the time start() is called)
+  syncOptions?: Omit<SyncOptions, 'startHistoryId'>; // Passed to processSync on every poll
+  fetchOptions?: Omit<FetchOptions, 'since' | 'pageToken'>; // Passed to fetchEmails on every poll
+  maxSeenIds?: number; // How many recent email IDs are remembered for deduplication (default: 10000)
+  onEmails?: (emails: NormalizedEmail[]) => Promise<void> | void; // Called with each batch of new emails before state advances
 }
 
 // Enhanced Pagination Interfaces
@@ -1,5 +1,6 @@
-import { simpleParser, ParsedMail } from 'mailparser';
-import { Attachment, NormalizedEmail } from '../interfaces.js';
+import { simpleParser, ParsedMail, AddressObject, EmailAddress as ParsedAddress } from 'mailparser';
+import { Attachment, EmailAddress, NormalizedEmail } from '../interfaces.js';
+import { AttachmentClassifier } from '../attachments/AttachmentClassifier.js';
 
 export class EmailParserService {
   public async parseEmail(
@@ -10,7 +11,7 @@ export class EmailParserService {
     try {
       const parsed: ParsedMail = await simpleParser(rawEmail);
 
-      const attachments: Attachment[] = (parsed.attachments || []).map(att => ({
+      const attachments: Attachment[] = (parsed.attachments || []).map(att => AttachmentClassifier.classify({
         filename: att.filename || 'untitled',
         mimeType: att.contentType,
         size: att.size,
@@ -24,16 +25,22 @@ export class EmailParserService {
 
       return {
         id: providerMessageId, // Use provider's ID
-        threadId: parsed.messageId, // mailparser's messageId might be useful, or use provider's threadId
-        from: parsed.from?.text || '',
-        to: Array.isArray(parsed.to) ? parsed.to.flatMap(addr => addr.text.split(',').map((t: string) => t.trim())) : (parsed.to?.text.split(',').map((t: string) => t.trim()) || []),
-        cc: Array.isArray(parsed.cc) ? parsed.cc.flatMap(addr => addr.text.split(',').map((t: string) => t.trim())) : (parsed.cc?.text.split(',').map((t: string) => t.trim()) || []),
+        // Adapters fill in threadId: a raw message has no thread ID of its own
+        messageId: parsed.messageId,
+        inReplyTo: parsed.inReplyTo,
+        references: parsed.references ? (Array.isArray(parsed.references) ? parsed.references : [parsed.references]) : undefined,
+        from: EmailParserService.toAddresses(parsed.from)[0] || { address: '' },
+        to: EmailParserService.toAddresses(parsed.to),
+        cc: EmailParserService.toAddresses(parsed.cc),
+        bcc: parsed.bcc ? EmailParserService.toAddresses(parsed.bcc) : undefined,
+        replyTo: parsed.replyTo ? EmailParserService.toAddresses(parsed.replyTo) : undefined,
+        sender: EmailParserService.toAddresses(parsed.headers?.get('sender') as AddressObject | undefined)[0],
         subject: parsed.subject,
         bodyText: parsed.text,
         bodyHtml: parsed.html || undefined, // Ensure it's string or undefined
         attachments,
         date: parsed.date || new Date(),
-        labels: parsed.references ? (Array.isArray(parsed.references) ? parsed.references : [parsed.references]) : [], // Example, Gmail labels are different
+        labels: [], // Provider labels are not part of the message; adapters fill them in
         provider,
         raw: parsed // Optionally include the full parsed object
       };
@@ -48,4 +55,16 @@ export class EmailParserService {
     // e.g., checking if contentId is referenced in the HTML body.
     return attachment.contentDisposition === 'inline' || (!!attachment.contentId && attachment.contentId.startsWith('<'));
   }
+
+  /**
+   * Flatten mailparser's address objects into mailboxes, keeping the members of groups
+   */
+  private static toAddresses(value?: AddressObject | AddressObject[]): EmailAddress[] {
+    const flatten = (addresses: ParsedAddress[]): EmailAddress[] => addresses.flatMap(address =>
+      address.group
+        ? flatten(address.group)
+        : address.address ? [address.name ? { name: address.name, address: address.address } : { address: address.address }] : []);
+
+    return (Array.isArray(value) ? value : value ? [value] : []).flatMap(object => flatten(object.value || []));
+  }
 }
@@ -0,0 +1,77 @@
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import { OutgoingEmail } from '../interfaces.js';
+
+export interface MimeMessage {
+  raw: Buffer; // RFC 5322 message, ready for Gmail's raw field, Graph's MIME sendMail or SMTP DATA
+  messageId: string;
+  envelope: {
+    from?: string;
+    to: string[]; // Every To, Cc and Bcc recipient
+  };
+}
+
+export interface MimeBuildOptions {
+  keepBcc?: boolean; // Keep the Bcc header; Gmail and Graph read recipients from it and strip it before delivery
+}
+
+/**
+ * Builds MIME messages from OutgoingEmail. Shared by every sender so that
+ * all providers put the same headers, multipart structure and encodings on the wire.
+ */
+export class MimeBuilder {
+  public async build(email: OutgoingEmail, options: MimeBuildOptions = {}): Promise<MimeMessage> {
+    const to = MimeBuilder.toList(email.to);
+    const cc = MimeBuilder.toList(email.cc);
+    const bcc = MimeBuilder.toList(email.bcc);
+
+    if (to.length + cc.length + bcc.length === 0) {
+      throw new Error('Outgoing email needs at least one recipient');
+    }
+
+    const composer = new MailComposer({
+      from: email.from,
+      to,
+      cc,
+      bcc,
+      replyTo: email.replyTo,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      headers: email.headers,
+      inReplyTo: email.inReplyTo,
+      references: email.references,
+      attachments: (email.attachments || []).map(attachment => {
+        if (!attachment.buffer) {
+          throw new Error(`Attachment ${attachment.filename} has no content`);
+        }
+        return {
+          filename: attachment.filename,
+          contentType: attachment.mimeType,
+          content: attachment.buffer,
+          cid: attachment.contentId
+        };
+      })
+    });
+
+    const node = composer.compile();
+    node.keepBcc = options.keepBcc === true;
+    const raw = await node.build();
+    const envelope = node.getEnvelope();
+
+    return {
+      raw,
+      messageId: node.messageId(),
+      envelope: {
+        from: envelope.from || undefined,
+        to: envelope.to
+      }
+    };
+  }
+
+  private static toList(value?: string | string[]): string[] {
+    if (!value) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+}
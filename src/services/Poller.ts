@@ -0,0 +1,317 @@
+import { EventEmitter } from 'events';
+import { IAdapter } from '../adapters/IAdapter.js';
+import { NormalizedEmail, PollerOptions, SyncResult } from '../interfaces.js';
+import { CronExpression } from '../utils/CronExpression.js';
+
+export interface Poller {
+  on(event: 'emails', listener: (emails: NormalizedEmail[]) => void): this;
+  on(event: 'sync', listener: (result: SyncResult) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'paused' | 'resumed' | 'stopped', listener: () => void): this;
+}
+
+/**
+ * Background poller for providers or deployments without push notifications.
+ * Uses processSync when the adapter supports it and falls back to since-based fetchEmails
+ * with a high-water mark otherwise. New emails are deduplicated by ID and delivered through
+ * options.onEmails and the 'emails' event; state only advances once onEmails succeeds.
+ */
+export class Poller extends EventEmitter {
+  private adapter: IAdapter;
+  private options: PollerOptions;
+  private schedule?: CronExpression;
+  private interval: number;
+  private jitter: number;
+  private maxSeenIds: number;
+
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private running = false;
+  private paused = false;
+  private moreChanges = false;
+
+  private historyId?: string;
+  private fullResyncPageToken?: string;
+  private highWaterMark?: Date;
+  private lastSyncTime?: Date;
+  private baselinePending: boolean;
+  private seenIds: Set<string> = new Set();
+
+  constructor(adapter: IAdapter, options: PollerOptions = {}) {
+    super();
+    this.adapter = adapter;
+    this.options = options;
+    this.interval = options.interval ?? 60000;
+    this.jitter = options.jitter ?? 0;
+    this.maxSeenIds = options.maxSeenIds ?? 10000;
+    this.historyId = options.startHistoryId;
+
+    if (options.cron) {
+      this.schedule = CronExpression.parse(options.cron);
+      // Fail here rather than from a timer callback when the schedule has no matching date, e.g. 0 0 30 2 *
+      this.schedule.next();
+    } else if (this.interval <= 0) {
+      throw new Error('Poller interval must be a positive number of milliseconds');
+    }
+
+    if (options.since) {
+      this.highWaterMark = typeof options.since === 'string' ? new Date(options.since) : options.since;
+    }
+    // Fetch mode without a resume point: the first poll only records what is already there
+    this.baselinePending = !this.highWaterMark;
+  }
+
+  /**
+   * Whether the poller has been started and not yet stopped
+   */
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Whether polling is paused
+   */
+  public get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Sync mode: last committed history ID; persist it and pass it back as startHistoryId to resume
+   */
+  public get currentHistoryId(): string | undefined {
+    return this.historyId;
+  }
+
+  /**
+   * Fetch mode: last committed high-water mark; persist it and pass it back as since to resume
+   */
+  public get currentHighWaterMark(): Date | undefined {
+    return this.highWaterMark;
+  }
+
+  /**
+   * Start polling. Resolves after the first poll when runImmediately is set (the default).
+   */
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.paused = false;
+
+    if (!this.usesSync() && !this.highWaterMark) {
+      this.highWaterMark = new Date();
+    }
+
+    if (this.options.runImmediately !== false) {
+      await this.pollNow();
+    } else {
+      this.scheduleNext();
+    }
+  }
+
+  /**
+   * Stop polling. Waits for an in-flight poll to finish; no further events are emitted after 'stopped'.
+   */
+  public async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.clearTimer();
+
+    await this.polling;
+    this.emit('stopped');
+  }
+
+  /**
+   * Skip scheduled polls until resume() is called. An in-flight poll still completes.
+   */
+  public pause(): void {
+    if (!this.running || this.paused) {
+      return;
+    }
+    this.paused = true;
+    this.clearTimer();
+    this.emit('paused');
+  }
+
+  /**
+   * Resume scheduled polling after pause()
+   */
+  public resume(): void {
+    if (!this.running || !this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.emit('resumed');
+    this.scheduleNext();
+  }
+
+  /**
+   * Poll right away, e.g. when a push notification arrives.
+   * Concurrent calls share the poll that is already running.
+   */
+  public pollNow(): Promise<void> {
+    if (!this.polling) {
+      this.clearTimer();
+      this.polling = this.poll().finally(() => {
+        this.polling = undefined;
+        this.scheduleNext();
+      });
+    }
+    return this.polling;
+  }
+
+  private async poll(): Promise<void> {
+    this.moreChanges = false;
+    try {
+      if (this.usesSync()) {
+        await this.pollSync();
+      } else {
+        await this.pollFetch();
+      }
+    } catch (error) {
+      this.reportError(error as Error);
+    }
+  }
+
+  private async pollSync(): Promise<void> {
+    if (!this.historyId) {
+      this.historyId = await this.adapter.getCurrentHistoryId!();
+      this.lastSyncTime = new Date();
+      return;
+    }
+
+    const startedAt = new Date();
+    const result = await this.adapter.processSync!({
+      lastSyncTime: this.lastSyncTime,
+      ...this.options.syncOptions,
+      startHistoryId: this.historyId,
+      fullResyncPageToken: this.fullResyncPageToken
+    });
+    this.emit('sync', result);
+
+    const newEmails = this.unseen(result.addedEmails);
+    await this.deliver(newEmails);
+
+    this.historyId = result.newHistoryId;
+    this.fullResyncPageToken = result.fullResyncPageToken;
+    // The rest of an unfinished resync lists with the same lastSyncTime as its start
+    if (!result.fullResyncPageToken) {
+      this.lastSyncTime = startedAt;
+    }
+    this.moreChanges = result.hasMoreChanges;
+  }
+
+  private async pollFetch(): Promise<void> {
+    const startedAt = new Date();
+    const emails: NormalizedEmail[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.adapter.fetchEmails({
+        ...this.options.fetchOptions,
+        since: this.highWaterMark,
+        pageToken
+      });
+      emails.push(...page.emails);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    const newEmails = this.unseen(emails);
+
+    if (this.baselinePending) {
+      // Providers filter "since" by day, so remember what is already there instead of reporting it
+      this.markSeen(newEmails);
+      this.baselinePending = false;
+    } else {
+      await this.deliver(newEmails);
+    }
+
+    this.highWaterMark = startedAt;
+  }
+
+  private async deliver(emails: NormalizedEmail[]): Promise<void> {
+    if (emails.length === 0) {
+      return;
+    }
+    await this.options.onEmails?.(emails);
+    this.emit('emails', emails);
+    this.markSeen(emails);
+  }
+
+  private unseen(emails: NormalizedEmail[]): NormalizedEmail[] {
+    const batch = new Set<string>();
+    return emails.filter(email => {
+      if (this.seenIds.has(email.id) || batch.has(email.id)) {
+        return false;
+      }
+      batch.add(email.id);
+      return true;
+    });
+  }
+
+  private markSeen(emails: NormalizedEmail[]): void {
+    for (const email of emails) {
+      this.seenIds.add(email.id);
+    }
+    // Sets iterate in insertion order, so the oldest IDs are dropped first
+    for (const id of this.seenIds) {
+      if (this.seenIds.size <= this.maxSeenIds) {
+        break;
+      }
+      this.seenIds.delete(id);
+    }
+  }
+
+  private scheduleNext(): void {
+    if (!this.running || this.paused || this.polling) {
+      return;
+    }
+    this.clearTimer();
+
+    let delay: number;
+    if (this.moreChanges) {
+      // The last sync stopped early; fetch the rest right away
+      delay = 0;
+    } else if (this.schedule) {
+      try {
+        delay = this.schedule.next().getTime() - Date.now();
+      } catch (error) {
+        this.reportError(error as Error);
+        return;
+      }
+    } else {
+      delay = this.interval;
+    }
+    if (this.jitter > 0 && !this.moreChanges) {
+      delay += Math.floor(Math.random() * this.jitter);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.pollNow();
+    }, Math.max(delay, 0));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private usesSync(): boolean {
+    return typeof this.adapter.processSync === 'function' && typeof this.adapter.getCurrentHistoryId === 'function';
+  }
+
+  private reportError(error: Error): void {
+    // An 'error' event without listeners would crash the process
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    } else {
+      console.error('[Poller] Poll failed:', error);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import { promises as fs } from 'fs';
+import { Attachment, EmailAddress, NormalizedEmail, OutgoingEmail, SendResult } from '../interfaces.js';
+import { AddressParser } from '../utils/AddressParser.js';
+
+/**
+ * Anything that can send an OutgoingEmail: every adapter with sendEmail, or an SmtpSender
+ */
+export interface EmailSender {
+  sendEmail(email: OutgoingEmail): Promise<SendResult>;
+}
+
+export interface ReplyContent {
+  text?: string;
+  html?: string;
+}
+
+export interface ReplyServiceOptions {
+  selfAddresses?: string[]; // The account's own addresses, left out of reply recipients
+}
+
+export interface ReplyOptions {
+  all?: boolean; // Reply to the sender (or Reply-To) and every other recipient (default false)
+  quote?: boolean; // Quote the original below the reply (default true)
+  includeAttachments?: boolean; // Re-attach the original attachments (default false)
+  from?: string;
+  cc?: string[];
+  bcc?: string[];
+}
+
+export interface ForwardOptions {
+  includeAttachments?: boolean; // Attach the original attachments (default true)
+  from?: string;
+  cc?: string[];
+  bcc?: string[];
+}
+
+/**
+ * Builds replies and forwards and sends them through an adapter. Replies stay in the original thread:
+ * In-Reply-To/References everywhere plus the Gmail threadId when replying from Gmail. Forwards start a new one.
+ */
+export class ReplyService {
+  private sender: EmailSender;
+  private selfAddresses: Set<string>;
+
+  constructor(sender: EmailSender, options: ReplyServiceOptions = {}) {
+    this.sender = sender;
+    this.selfAddresses = new Set((options.selfAddresses || []).map(ReplyService.bareAddress));
+  }
+
+  /**
+   * Reply to an email, or to everyone on it with { all: true }
+   */
+  public async reply(email: NormalizedEmail, content: ReplyContent, options: ReplyOptions = {}): Promise<SendResult> {
+    return this.sender.sendEmail(await this.buildReply(email, content, options));
+  }
+
+  /**
+   * Forward an email to new recipients
+   */
+  public async forward(
+    email: NormalizedEmail,
+    to: string | string[],
+    content: ReplyContent = {},
+    options: ForwardOptions = {}
+  ): Promise<SendResult> {
+    return this.sender.sendEmail(await this.buildForward(email, to, content, options));
+  }
+
+  /**
+   * Build the reply without sending it, e.g. to save it as a draft. Asynchronous because re-attached
+   * attachments without a buffer are downloaded or read from their filePath.
+   */
+  public async buildReply(email: NormalizedEmail, content: ReplyContent, options: ReplyOptions = {}): Promise<OutgoingEmail> {
+    const { to, cc } = this.replyRecipients(email, options.all === true);
+    if (to.length === 0) {
+      throw new Error('Cannot reply: the original email has no sender to reply to');
+    }
+
+    const quote = options.quote !== false;
+    const header = `On ${email.date.toUTCString()}, ${AddressParser.format(email.from)} wrote:`;
+
+    return {
+      from: options.from,
+      to,
+      cc: [...cc, ...(options.cc || [])],
+      bcc: options.bcc,
+      subject: ReplyService.prefixSubject(email.subject, 'Re:', /^re:/i),
+      text: quote ? ReplyService.quoteText(content, email, header) : content.text,
+      html: ReplyService.buildHtml(content, quote ? email : undefined, [header]),
+      attachments: options.includeAttachments ? await ReplyService.reattach(email) : undefined,
+      ...ReplyService.threading(email)
+    };
+  }
+
+  /**
+   * Build the forward without sending it. It carries no threading headers, so it starts a new thread.
+   */
+  public async buildForward(
+    email: NormalizedEmail,
+    to: string | string[],
+    content: ReplyContent = {},
+    options: ForwardOptions = {}
+  ): Promise<OutgoingEmail> {
+    const header = [
+      '---------- Forwarded message ---------',
+      `From: ${AddressParser.format(email.from)}`,
+      `Date: ${email.date.toUTCString()}`,
+      `Subject: ${email.subject || ''}`,
+      `To: ${AddressParser.formatList(email.to)}`,
+      ...(email.cc && email.cc.length > 0 ? [`Cc: ${AddressParser.formatList(email.cc)}`] : [])
+    ];
+
+    const originalText = email.bodyText || '';
+    const text = [content.text || '', '', ...header, '', originalText].join('\n').trimStart();
+
+    return {
+      from: options.from,
+      to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: ReplyService.prefixSubject(email.subject, 'Fwd:', /^(fwd?|fw):/i),
+      text,
+      html: ReplyService.buildHtml(content, email, header, false),
+      attachments: options.includeAttachments === false ? undefined : await ReplyService.reattach(email)
+    };
+  }
+
+  private replyRecipients(email: NormalizedEmail, all: boolean): { to: string[]; cc: string[] } {
+    const seen = new Set<string>();
+    const pick = (addresses: EmailAddress[]) => addresses.filter(address => {
+      const bare = ReplyService.bareAddress(address.address);
+      if (!bare || seen.has(bare) || this.selfAddresses.has(bare)) {
+        return false;
+      }
+      seen.add(bare);
+      return true;
+    }).map(AddressParser.format);
+
+    // Replying to a message we sent ourselves goes back to its original recipients
+    const fromSelf = this.selfAddresses.has(ReplyService.bareAddress(email.from.address));
+    const primary = fromSelf ? email.to : email.replyTo && email.replyTo.length > 0 ? email.replyTo : [email.from];
+
+    const to = pick(primary);
+    if (!all) {
+      return { to, cc: [] };
+    }
+
+    const others = fromSelf ? [] : email.to;
+    return {
+      to: [...to, ...pick(others)],
+      cc: pick(email.cc || [])
+    };
+  }
+
+  private static threading(email: NormalizedEmail): Pick<OutgoingEmail, 'inReplyTo' | 'references' | 'threadId'> {
+    const references = [...(email.references || [])];
+    if (email.messageId && !references.includes(email.messageId)) {
+      references.push(email.messageId);
+    }
+
+    return {
+      inReplyTo: email.messageId,
+      references: references.length > 0 ? references : undefined,
+      threadId: email.provider === 'gmail' ? email.threadId : undefined
+    };
+  }
+
+  private static quoteText(content: ReplyContent, email: NormalizedEmail, header: string): string {
+    const quoted = (email.bodyText || '')
+      .replace(/\r\n/g, '\n')
+      .split('\n')
+      .map(line => (line.startsWith('>') ? `>${line}` : `> ${line}`))
+      .join('\n');
+
+    return `${content.text || ''}\n\n${header}\n${quoted}`.trimStart();
+  }
+
+  /**
+   * HTML part with the original in a blockquote. Returns undefined when neither side has any HTML to offer.
+   */
+  private static buildHtml(
+    content: ReplyContent,
+    original: NormalizedEmail | undefined,
+    headerLines: string[],
+    blockquote: boolean = true
+  ): string | undefined {
+    if (!content.html && !original?.bodyHtml) {
+      return undefined;
+    }
+
+    const body = content.html || (content.text ? `<div>${ReplyService.textToHtml(content.text)}</div>` : '');
+    if (!original) {
+      return body;
+    }
+
+    const originalHtml = original.bodyHtml || ReplyService.textToHtml(original.bodyText || '');
+    const quoted = blockquote
+      ? `<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${originalHtml}</blockquote>`
+      : originalHtml;
+
+    const header = headerLines.map(line => ReplyService.escapeHtml(line)).join('<br>');
+
+    return `${body}<br><div>${header}</div>${quoted}`;
+  }
+
+  private static async reattach(email: NormalizedEmail): Promise<Attachment[]> {
+    const attachments: Attachment[] = [];
+    // One at a time: an IMAP download opens a connection of its own
+    for (const attachment of email.attachments) {
+      attachments.push({ ...attachment, buffer: await ReplyService.contentOf(attachment) });
+    }
+    return attachments;
+  }
+
+  /**
+   * Content of an attachment: its buffer, else a download (attachmentMode 'metadata'), else the file it was stored to
+   */
+  private static async contentOf(attachment: Attachment): Promise<Buffer> {
+    if (attachment.buffer) {
+      return attachment.buffer;
+    }
+    if (attachment.download) {
+      return attachment.download();
+    }
+    if (attachment.filePath) {
+      return fs.readFile(attachment.filePath);
+    }
+    throw new Error(`Attachment ${attachment.filename} was fetched without content; fetch the email with includeAttachments`);
+  }
+
+  private static prefixSubject(subject: string | undefined, prefix: string, existing: RegExp): string {
+    const trimmed = (subject || '').trim();
+    return existing.test(trimmed) ? trimmed : `${prefix} ${trimmed}`.trim();
+  }
+
+  private static textToHtml(text: string): string {
+    return ReplyService.escapeHtml(text).replace(/\r?\n/g, '<br>');
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static bareAddress(address: string): string {
+    const match = address.match(/<([^>]+)>/);
+    return (match ? match[1] : address).trim().toLowerCase();
+  }
+}
@@ -0,0 +1,303 @@
+import { EmailAddress, NormalizedEmail, NormalizedThread } from '../interfaces.js';
+
+const SNIPPET_LENGTH = 200;
+const REPLY_PREFIX = /^\s*(re|fwd?|fw|aw|sv)(\[\d+\])?:\s*/i;
+
+/**
+ * A message in a conversation tree built by ThreadService.threadEmails
+ */
+export interface ThreadNode {
+  messageId: string; // Message-ID of the message; generated for messages that have none
+  email?: NormalizedEmail; // Missing when replies point at a message that is not in the collection
+  children: ThreadNode[]; // Replies, oldest first
+}
+
+export interface BuildThreadOptions {
+  snippet?: string; // Provider-supplied preview of the latest message; derived from its text when omitted
+  isUnread?: (email: NormalizedEmail) => boolean; // Defaults to ThreadService.isUnread
+}
+
+export interface ThreadingOptions {
+  groupBySubject?: boolean; // Also merge conversations whose subjects match once Re:/Fwd: is stripped (default false)
+  isUnread?: (email: NormalizedEmail) => boolean; // Used by groupThreads, defaults to ThreadService.isUnread
+}
+
+// Working node of the JWZ algorithm; ThreadNode is the public, parent-free view of it
+interface Container {
+  id: string;
+  email?: NormalizedEmail;
+  parent?: Container;
+  children: Container[];
+}
+
+/**
+ * Builds conversations from messages. buildThread summarizes messages an adapter already grouped;
+ * threadEmails and groupThreads rebuild conversations from Message-ID, In-Reply-To and References
+ * using Jamie Zawinski's threading algorithm, so emails from any mix of providers thread the same way.
+ */
+export class ThreadService {
+  /**
+   * Build a thread from its messages, sorting them oldest first
+   */
+  public static buildThread(id: string, messages: NormalizedEmail[], options: BuildThreadOptions = {}): NormalizedThread {
+    const isUnread = options.isUnread || ThreadService.isUnread;
+    const sorted = [...messages].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const latest = sorted[sorted.length - 1];
+
+    return {
+      id,
+      subject: sorted[0]?.subject,
+      participants: ThreadService.participants(sorted),
+      messages: sorted,
+      snippet: options.snippet ?? (latest ? ThreadService.snippetOf(latest) : undefined),
+      unread: sorted.some(isUnread),
+      lastMessageDate: latest?.date,
+      provider: latest?.provider ?? 'unknown'
+    };
+  }
+
+  /**
+   * Arrange emails into conversation trees, one per conversation, oldest conversation first
+   */
+  public static threadEmails(emails: NormalizedEmail[], options: ThreadingOptions = {}): ThreadNode[] {
+    const containers = new Map<string, Container>();
+    const containerFor = (id: string): Container => {
+      let container = containers.get(id);
+      if (!container) {
+        container = { id, children: [] };
+        containers.set(id, container);
+      }
+      return container;
+    };
+
+    emails.forEach((email, index) => {
+      // Messages without a Message-ID, or with one already taken, get an ID of their own
+      let id = email.messageId;
+      if (!id || containers.get(id)?.email) {
+        id = `${email.provider}:${email.id}:${index}`;
+      }
+      const container = containerFor(id);
+      container.email = email;
+
+      // Link the References chain, without overriding links made earlier or creating loops
+      let parent: Container | undefined;
+      for (const reference of ThreadService.referenceChain(email)) {
+        const referenced = containerFor(reference);
+        if (parent && !referenced.parent && !ThreadService.isAncestor(referenced, parent)) {
+          ThreadService.link(parent, referenced);
+        }
+        parent = referenced;
+      }
+
+      // The last reference is this message's parent, whatever earlier messages implied
+      if (parent && ThreadService.isAncestor(container, parent)) {
+        parent = undefined;
+      }
+      if (container.parent) {
+        ThreadService.unlink(container);
+      }
+      if (parent) {
+        ThreadService.link(parent, container);
+      }
+    });
+
+    let roots = ThreadService.prune([...containers.values()].filter(container => !container.parent), true);
+    if (options.groupBySubject) {
+      roots = ThreadService.groupBySubject(roots);
+    }
+
+    return roots
+      .sort((a, b) => ThreadService.dateOf(a) - ThreadService.dateOf(b))
+      .map(ThreadService.toNode);
+  }
+
+  /**
+   * Group emails into NormalizedThreads. Each thread's ID is the Message-ID at the root of its tree.
+   */
+  public static groupThreads(emails: NormalizedEmail[], options: ThreadingOptions = {}): NormalizedThread[] {
+    return ThreadService.threadEmails(emails, options).map(root =>
+      ThreadService.buildThread(root.messageId, ThreadService.flatten(root), { isUnread: options.isUnread }));
+  }
+
+  /**
+   * Every email in a tree, in tree order
+   */
+  public static flatten(node: ThreadNode): NormalizedEmail[] {
+    return [...(node.email ? [node.email] : []), ...node.children.flatMap(ThreadService.flatten)];
+  }
+
+  /**
+   * Message-ID of the first message in the reply chain: the oldest reference, or the message itself.
+   * Read from one email alone, so without References it falls back to the parent named in In-Reply-To.
+   */
+  public static rootMessageId(email: NormalizedEmail): string | undefined {
+    return email.references?.[0] || email.inReplyTo || email.messageId;
+  }
+
+  /**
+   * Read state as each provider reports it: Gmail's UNREAD label, Outlook's isRead or a missing IMAP \Seen flag
+   */
+  public static isUnread(email: NormalizedEmail): boolean {
+    switch (email.provider) {
+      case 'gmail':
+        return (email.labels || []).includes('UNREAD');
+      case 'outlook':
+        return (email.raw as { isRead?: boolean } | undefined)?.isRead === false;
+      case 'imap':
+        return !(email.labels || []).includes('\\Seen');
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * References oldest first, ending with In-Reply-To when References leaves it out
+   */
+  private static referenceChain(email: NormalizedEmail): string[] {
+    const chain = [...(email.references || [])];
+    if (email.inReplyTo && chain[chain.length - 1] !== email.inReplyTo) {
+      chain.push(email.inReplyTo);
+    }
+    return chain.filter(reference => reference !== email.messageId);
+  }
+
+  /**
+   * Drop placeholders for missing messages that have no replies, and move the replies of other
+   * placeholders up a level. A placeholder at the top stays when it holds several replies.
+   */
+  private static prune(containers: Container[], atRoot: boolean): Container[] {
+    const kept: Container[] = [];
+
+    for (const container of containers) {
+      container.children = ThreadService.prune(container.children, false);
+      container.children.forEach(child => { child.parent = container; });
+
+      if (container.email || (atRoot && container.children.length > 1)) {
+        kept.push(container);
+      } else {
+        container.children.forEach(child => { child.parent = container.parent; });
+        kept.push(...container.children);
+      }
+    }
+
+    return kept;
+  }
+
+  /**
+   * Merge top-level conversations that share a base subject (JWZ step 5)
+   */
+  private static groupBySubject(roots: Container[]): Container[] {
+    const bySubject = new Map<string, Container>();
+    const result: Container[] = [];
+
+    for (const root of [...roots].sort((a, b) => ThreadService.dateOf(a) - ThreadService.dateOf(b))) {
+      const subject = ThreadService.baseSubject(ThreadService.subjectOf(root));
+      const existing = subject ? bySubject.get(subject) : undefined;
+      if (!subject || !existing) {
+        if (subject) {
+          bySubject.set(subject, root);
+        }
+        result.push(root);
+        continue;
+      }
+
+      if (!existing.email && !root.email) {
+        root.children.forEach(child => ThreadService.link(existing, child));
+      } else if (!root.email || (ThreadService.isReply(existing) && !ThreadService.isReply(root))) {
+        // A placeholder, or the original that the existing thread replied to, takes over
+        ThreadService.link(root, existing);
+        bySubject.set(subject, root);
+        result[result.indexOf(existing)] = root;
+      } else {
+        ThreadService.link(existing, root);
+      }
+    }
+
+    return result;
+  }
+
+  private static link(parent: Container, child: Container): void {
+    child.parent = parent;
+    parent.children.push(child);
+  }
+
+  private static unlink(child: Container): void {
+    if (child.parent) {
+      child.parent.children = child.parent.children.filter(sibling => sibling !== child);
+      child.parent = undefined;
+    }
+  }
+
+  /**
+   * True when ancestor is node itself or one of its parents
+   */
+  private static isAncestor(ancestor: Container, node: Container): boolean {
+    for (let current: Container | undefined = node; current; current = current.parent) {
+      if (current === ancestor) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private static toNode(container: Container): ThreadNode {
+    return {
+      messageId: container.id,
+      email: container.email,
+      children: [...container.children]
+        .sort((a, b) => ThreadService.dateOf(a) - ThreadService.dateOf(b))
+        .map(ThreadService.toNode)
+    };
+  }
+
+  private static dateOf(container: Container): number {
+    if (container.email) {
+      return container.email.date.getTime();
+    }
+    const dates = container.children.map(ThreadService.dateOf);
+    return dates.length > 0 ? Math.min(...dates) : 0;
+  }
+
+  private static subjectOf(container: Container): string | undefined {
+    return container.email?.subject ?? container.children.map(ThreadService.subjectOf).find(Boolean);
+  }
+
+  private static baseSubject(subject?: string): string {
+    let base = (subject || '').trim();
+    while (REPLY_PREFIX.test(base)) {
+      base = base.replace(REPLY_PREFIX, '');
+    }
+    return base.toLowerCase();
+  }
+
+  private static isReply(container: Container): boolean {
+    return REPLY_PREFIX.test(container.email?.subject || '');
+  }
+
+  private static participants(messages: NormalizedEmail[]): EmailAddress[] {
+    const participants = new Map<string, EmailAddress>();
+
+    for (const email of messages) {
+      for (const participant of [email.from, ...email.to, ...(email.cc || [])]) {
+        const bare = participant.address.trim().toLowerCase();
+        const existing = participants.get(bare);
+        if (bare && !existing) {
+          participants.set(bare, participant);
+        } else if (existing && !existing.name && participant.name) {
+          // Keep the first appearance, with a display name from a later one when it had none
+          participants.set(bare, { name: participant.name, address: existing.address });
+        }
+      }
+    }
+
+    return [...participants.values()];
+  }
+
+  private static snippetOf(email: NormalizedEmail): string | undefined {
+    const text = email.bodyText?.replace(/\s+/g, ' ').trim();
+    if (!text) {
+      return undefined;
+    }
+    return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text;
+  }
+}
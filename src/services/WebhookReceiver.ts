@@ -0,0 +1,232 @@
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import { IAdapter } from '../adapters/IAdapter.js';
+import { OutlookAdapter } from '../adapters/OutlookAdapter.js';
+import {
+  OutlookChangeNotification,
+  SyncOptions,
+  SyncResult,
+  WebhookEvent,
+  WebhookRequest,
+  WebhookResponse
+} from '../interfaces.js';
+import { ISyncStateStore } from '../sync/interfaces.js';
+import { SyncService } from '../sync/SyncService.js';
+
+/**
+ * A mailbox a notification belongs to, as resolved by the caller
+ */
+export interface WebhookMailbox {
+  key: string; // Key the mailbox's SyncState is stored under
+  adapter: IAdapter; // Initialized adapter used to run processSync
+  clientState?: string; // Outlook: secret the subscription was created with (required to accept its notifications)
+  syncOptions?: Omit<SyncOptions, 'startHistoryId' | 'lastSyncTime'>;
+}
+
+export interface WebhookReceiverOptions {
+  resolveMailbox(event: WebhookEvent): Promise<WebhookMailbox | null> | WebhookMailbox | null;
+  stateStore: ISyncStateStore;
+  onSyncResult(result: SyncResult, event: WebhookEvent): Promise<void> | void;
+  onError?(error: Error, event?: WebhookEvent): void;
+  gmailVerificationToken?: string; // Gmail: expected `token` query parameter on the push endpoint URL
+}
+
+interface SyncTarget {
+  event: WebhookEvent;
+  mailbox: WebhookMailbox;
+}
+
+/**
+ * Framework-agnostic receiver for provider push notifications.
+ * Accepts Gmail Pub/Sub push bodies and Microsoft Graph change notifications,
+ * validates them, runs processSync from the mailbox's stored SyncState and hands
+ * the SyncResult to onSyncResult. The state is only advanced once the callback succeeds.
+ */
+export class WebhookReceiver {
+  private options: WebhookReceiverOptions;
+  private syncService: SyncService;
+  private queues: Map<string, Promise<void>> = new Map();
+
+  constructor(options: WebhookReceiverOptions) {
+    this.options = options;
+    this.syncService = new SyncService(options.stateStore);
+  }
+
+  /**
+   * Handle one webhook request.
+   * Responds as soon as the payload is validated; the syncs it triggers run in
+   * response.processing so providers get their acknowledgement in time.
+   */
+  public async handle(request: WebhookRequest): Promise<WebhookResponse> {
+    const query = request.query || {};
+
+    // Graph subscription validation handshake
+    const validationToken = OutlookAdapter.getValidationToken(query);
+    if (validationToken) {
+      return { status: 200, body: validationToken, contentType: 'text/plain' };
+    }
+
+    const body = request.body as any;
+
+    try {
+      if (body?.message) {
+        return await this.handleGmail(body, query);
+      }
+      if (Array.isArray(body?.value)) {
+        return await this.handleOutlook(body.value);
+      }
+    } catch (error) {
+      this.reportError(error as Error);
+      return { status: 500, body: 'Failed to process notification' };
+    }
+
+    return { status: 400, body: 'Unrecognized webhook payload' };
+  }
+
+  /**
+   * Express middleware wrapper around handle().
+   * Parses JSON bodies itself unless a body parser already ran.
+   */
+  public expressMiddleware(): RequestHandler {
+    const parseJson = express.json();
+
+    return (req: Request, res: Response, next: NextFunction) => {
+      const run = () => {
+        this.handle({ body: req.body, query: req.query as Record<string, unknown> })
+          .then(async response => {
+            res.status(response.status);
+            if (response.body !== undefined) {
+              res.type(response.contentType || 'text/plain').send(response.body);
+            } else {
+              res.end();
+            }
+            await response.processing;
+          })
+          .catch(next);
+      };
+
+      if (req.body !== undefined) {
+        run();
+      } else {
+        parseJson(req, res, (err?: unknown) => (err ? next(err) : run()));
+      }
+    };
+  }
+
+  private async handleGmail(body: any, query: Record<string, unknown>): Promise<WebhookResponse> {
+    const { gmailVerificationToken } = this.options;
+    if (gmailVerificationToken && query.token !== gmailVerificationToken) {
+      return { status: 403, body: 'Invalid verification token' };
+    }
+
+    let data: { emailAddress?: string; historyId?: string | number };
+    try {
+      data = JSON.parse(Buffer.from(body.message.data || '', 'base64').toString('utf-8'));
+    } catch {
+      return { status: 400, body: 'Invalid Pub/Sub message data' };
+    }
+
+    if (!data?.emailAddress || data.historyId === undefined) {
+      return { status: 400, body: 'Pub/Sub message is missing emailAddress or historyId' };
+    }
+
+    const event: WebhookEvent = {
+      provider: 'gmail',
+      mailboxId: data.emailAddress,
+      historyId: String(data.historyId)
+    };
+
+    const mailbox = await this.options.resolveMailbox(event);
+    // Acknowledge notifications for unknown mailboxes so Pub/Sub stops redelivering them
+    return this.accept(mailbox ? [{ event, mailbox }] : []);
+  }
+
+  private async handleOutlook(notifications: OutlookChangeNotification[]): Promise<WebhookResponse> {
+    const bySubscription = new Map<string, OutlookChangeNotification[]>();
+    for (const notification of notifications) {
+      if (!notification?.subscriptionId) {
+        return { status: 400, body: 'Notification is missing subscriptionId' };
+      }
+      const group = bySubscription.get(notification.subscriptionId) || [];
+      group.push(notification);
+      bySubscription.set(notification.subscriptionId, group);
+    }
+
+    const targets: SyncTarget[] = [];
+    for (const [subscriptionId, group] of bySubscription) {
+      const event: WebhookEvent = { provider: 'outlook', mailboxId: subscriptionId, notifications: group };
+      const mailbox = await this.options.resolveMailbox(event);
+      if (!mailbox) {
+        continue;
+      }
+
+      try {
+        OutlookAdapter.verifyNotifications({ value: group }, mailbox.clientState || '');
+      } catch {
+        return { status: 403, body: 'Invalid clientState' };
+      }
+      targets.push({ event, mailbox });
+    }
+
+    return this.accept(targets);
+  }
+
+  private accept(targets: SyncTarget[]): WebhookResponse {
+    const processing = Promise.all(
+      targets.map(target => this.enqueue(target.mailbox.key, () => this.sync(target), target.event))
+    ).then(() => undefined);
+
+    return { status: 202, processing };
+  }
+
+  /**
+   * Serializes syncs per mailbox so overlapping notifications never sync from the same state twice
+   */
+  private enqueue(key: string, task: () => Promise<void>, event: WebhookEvent): Promise<void> {
+    const previous = this.queues.get(key) || Promise.resolve();
+    const next = previous
+      .then(task)
+      .catch(error => this.reportError(error as Error, event));
+
+    this.queues.set(key, next);
+    void next.then(() => {
+      if (this.queues.get(key) === next) {
+        this.queues.delete(key);
+      }
+    });
+
+    return next;
+  }
+
+  private async sync({ event, mailbox }: SyncTarget): Promise<void> {
+    const { key, adapter } = mailbox;
+    const state = await this.syncService.getState(key);
+
+    if (!state) {
+      // Nothing to sync from yet: record a starting point for the next notification
+      await this.syncService.initialize(key, adapter, event.historyId);
+      return;
+    }
+
+    // Gmail sends one notification per change; skip those already covered by the stored state
+    if (event.historyId && this.isCoveredBy(state.historyId, event.historyId)) {
+      return;
+    }
+
+    await this.syncService.sync(key, adapter, result => this.options.onSyncResult(result, event), mailbox.syncOptions);
+  }
+
+  private isCoveredBy(storedHistoryId: string, announcedHistoryId: string): boolean {
+    if (!/^\d+$/.test(storedHistoryId) || !/^\d+$/.test(announcedHistoryId)) {
+      return false;
+    }
+    return BigInt(storedHistoryId) >= BigInt(announcedHistoryId);
+  }
+
+  private reportError(error: Error, event?: WebhookEvent): void {
+    if (this.options.onError) {
+      this.options.onError(error, event);
+    } else {
+      console.error('[Webhook] Sync failed:', error);
+    }
+  }
+}
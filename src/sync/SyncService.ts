@@ -0,0 +1,85 @@
+import { IAdapter } from '../adapters/IAdapter.js';
+import { SyncOptions, SyncResult, SyncState } from '../interfaces.js';
+import { ISyncStateStore, SyncResultHandler } from './interfaces.js';
+import { MemorySyncStateStore } from './storage/MemorySyncStateStore.js';
+
+/**
+ * Runs incremental syncs against persisted per-mailbox state
+ */
+export class SyncService {
+  private stateStore: ISyncStateStore;
+
+  /**
+   * Create a new SyncService
+   * @param stateStore - Optional storage mechanism for sync state
+   */
+  constructor(stateStore: ISyncStateStore = new MemorySyncStateStore()) {
+    this.stateStore = stateStore;
+  }
+
+  /**
+   * Get the stored sync state for a mailbox
+   */
+  public async getState(key: string): Promise<SyncState | null> {
+    return await this.stateStore.getState(key);
+  }
+
+  /**
+   * Record a starting point for a mailbox.
+   * Uses the given history ID (e.g. from setupPushNotifications) or asks the adapter for the current one.
+   */
+  public async initialize(key: string, adapter: IAdapter, historyId?: string): Promise<SyncState> {
+    const startHistoryId = historyId ?? await adapter.getCurrentHistoryId?.();
+    if (!startHistoryId) {
+      throw new Error(`No history ID to start from for mailbox ${key}: adapter does not support getCurrentHistoryId`);
+    }
+
+    const state: SyncState = { historyId: startHistoryId, lastSyncTime: new Date(), totalChanges: 0 };
+    await this.stateStore.saveState(key, state);
+    return state;
+  }
+
+  /**
+   * Load the mailbox's state, run processSync from it and pass the result to the handler.
+   * The new history ID is committed only after the handler succeeds, so a failed handler
+   * sees the same changes again on the next sync. A full resync cut short at fullResyncLimit
+   * is stored with its page token and continued by the next sync.
+   */
+  public async sync(
+    key: string,
+    adapter: IAdapter,
+    handler: SyncResultHandler,
+    options: Omit<SyncOptions, 'startHistoryId' | 'lastSyncTime' | 'fullResyncPageToken'> = {}
+  ): Promise<SyncResult> {
+    if (!adapter.processSync) {
+      throw new Error(`Adapter for mailbox ${key} does not support processSync`);
+    }
+
+    const state = await this.stateStore.getState(key);
+    if (!state) {
+      throw new Error(`No sync state stored for mailbox ${key}. Call initialize() first.`);
+    }
+
+    const startedAt = new Date();
+    const result = await adapter.processSync({
+      ...options,
+      startHistoryId: state.historyId,
+      lastSyncTime: state.lastSyncTime,
+      ...(state.fullResyncPageToken ? { fullResyncPageToken: state.fullResyncPageToken } : {})
+    });
+
+    await handler(result);
+
+    const changes = result.addedEmails.length + result.updatedEmails.length + result.deletedEmailIds.length;
+    await this.stateStore.saveState(key, {
+      historyId: result.newHistoryId,
+      // Taken before the sync so changes made while it ran are not treated as old. An unfinished
+      // resync keeps its own, since the rest of its listing must run the same query.
+      lastSyncTime: result.fullResyncPageToken ? state.lastSyncTime : startedAt,
+      totalChanges: state.totalChanges + changes,
+      ...(result.fullResyncPageToken ? { fullResyncPageToken: result.fullResyncPageToken } : {})
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,10 @@
+// Export interfaces
+export * from './interfaces.js';
+
+// Export sync service
+export { SyncService } from './SyncService.js';
+
+// Export storage implementations
+export { MemorySyncStateStore } from './storage/MemorySyncStateStore.js';
+export { FileSyncStateStore } from './storage/FileSyncStateStore.js';
+export { SqliteSyncStateStore } from './storage/SqliteSyncStateStore.js';
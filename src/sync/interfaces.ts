@@ -0,0 +1,46 @@
+import { SyncResult, SyncState } from '../interfaces.js';
+
+/**
+ * Interface for sync state storage implementations
+ * Implementors can use any storage strategy (file system, database, etc.)
+ */
+export interface ISyncStateStore {
+  /**
+   * Save the sync state for a mailbox
+   */
+  saveState(key: string, state: SyncState): Promise<void>;
+
+  /**
+   * Retrieve the sync state for a mailbox
+   */
+  getState(key: string): Promise<SyncState | null>;
+
+  /**
+   * Update the sync state for a mailbox
+   */
+  updateState(key: string, state: Partial<SyncState>): Promise<void>;
+
+  /**
+   * Delete the sync state for a mailbox
+   */
+  deleteState(key: string): Promise<boolean>;
+}
+
+/**
+ * Minimal synchronous SQLite driver surface used by SqliteSyncStateStore.
+ * Satisfied by better-sqlite3 databases and node:sqlite's DatabaseSync.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+}
+
+/**
+ * Handler invoked with each sync result before the new state is committed
+ */
+export type SyncResultHandler = (result: SyncResult) => Promise<void> | void;
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SyncState } from '../../interfaces.js';
+import { ISyncStateStore } from '../interfaces.js';
+import { mergeSyncState } from './MemorySyncStateStore.js';
+
+interface StoredSyncState {
+  historyId: string;
+  lastSyncTime: string;
+  totalChanges: number;
+  fullResyncPageToken?: string;
+}
+
+/**
+ * Sync state storage backed by a single JSON file.
+ * Writes go to a temporary file that is renamed over the original, so a crash never leaves
+ * a half-written file behind. Suitable for a single process; use a database for several.
+ */
+export class FileSyncStateStore implements ISyncStateStore {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Save the sync state for a mailbox
+   */
+  public async saveState(key: string, state: SyncState): Promise<void> {
+    await this.modify(states => {
+      states[key] = this.serialize(state);
+    });
+  }
+
+  /**
+   * Retrieve the sync state for a mailbox
+   */
+  public async getState(key: string): Promise<SyncState | null> {
+    await this.writeChain;
+    const states = await this.readAll();
+    return states[key] ? this.deserialize(states[key]) : null;
+  }
+
+  /**
+   * Update the sync state for a mailbox, merging with any existing state
+   */
+  public async updateState(key: string, state: Partial<SyncState>): Promise<void> {
+    await this.modify(states => {
+      const existing = states[key] ? this.deserialize(states[key]) : null;
+      states[key] = this.serialize(mergeSyncState(existing, state));
+    });
+  }
+
+  /**
+   * Delete the sync state for a mailbox
+   */
+  public async deleteState(key: string): Promise<boolean> {
+    let deleted = false;
+    await this.modify(states => {
+      deleted = key in states;
+      delete states[key];
+    });
+    return deleted;
+  }
+
+  /**
+   * Serializes read-modify-write cycles so concurrent saves never overwrite each other
+   */
+  private modify(mutate: (states: Record<string, StoredSyncState>) => void): Promise<void> {
+    const next = this.writeChain.then(async () => {
+      const states = await this.readAll();
+      mutate(states);
+      await this.writeAll(states);
+    });
+    // Keep the chain usable after a failed write; the caller still sees the error
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+
+  private async readAll(): Promise<Record<string, StoredSyncState>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new Error(`Failed to read sync state file ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private async writeAll(states: Record<string, StoredSyncState>): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(states, null, 2), 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      throw new Error(`Failed to write sync state file ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private serialize(state: SyncState): StoredSyncState {
+    return {
+      historyId: state.historyId,
+      lastSyncTime: new Date(state.lastSyncTime).toISOString(),
+      totalChanges: state.totalChanges,
+      fullResyncPageToken: state.fullResyncPageToken
+    };
+  }
+
+  private deserialize(stored: StoredSyncState): SyncState {
+    return {
+      historyId: stored.historyId,
+      lastSyncTime: new Date(stored.lastSyncTime),
+      totalChanges: stored.totalChanges,
+      ...(stored.fullResyncPageToken ? { fullResyncPageToken: stored.fullResyncPageToken } : {})
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { SyncState } from '../../interfaces.js';
+import { ISyncStateStore } from '../interfaces.js';
+
+/**
+ * Simple in-memory implementation of sync state storage.
+ * Note: State is lost when the process exits, so every mailbox starts over after a restart.
+ * It's intended for testing and short-lived processes.
+ */
+export class MemorySyncStateStore implements ISyncStateStore {
+  private stateStore: Map<string, SyncState> = new Map();
+
+  /**
+   * Save the sync state for a mailbox
+   */
+  public async saveState(key: string, state: SyncState): Promise<void> {
+    this.stateStore.set(key, { ...state });
+  }
+
+  /**
+   * Retrieve the sync state for a mailbox
+   */
+  public async getState(key: string): Promise<SyncState | null> {
+    const state = this.stateStore.get(key);
+    return state ? { ...state } : null;
+  }
+
+  /**
+   * Update the sync state for a mailbox, merging with any existing state
+   */
+  public async updateState(key: string, state: Partial<SyncState>): Promise<void> {
+    const existingState = this.stateStore.get(key);
+    this.stateStore.set(key, mergeSyncState(existingState, state));
+  }
+
+  /**
+   * Delete the sync state for a mailbox
+   */
+  public async deleteState(key: string): Promise<boolean> {
+    return this.stateStore.delete(key);
+  }
+}
+
+/**
+ * Merge a partial update into an existing state. Without an existing state the
+ * update must carry a historyId, since there is nothing to sync from otherwise.
+ */
+export function mergeSyncState(existing: SyncState | null | undefined, update: Partial<SyncState>): SyncState {
+  if (!existing && !update.historyId) {
+    throw new Error('Cannot update a missing sync state without a historyId');
+  }
+  return {
+    historyId: update.historyId ?? existing!.historyId,
+    lastSyncTime: update.lastSyncTime ?? existing?.lastSyncTime ?? new Date(),
+    totalChanges: update.totalChanges ?? existing?.totalChanges ?? 0,
+    // Cleared by an update that carries the key with no value, once the resync has finished
+    fullResyncPageToken: 'fullResyncPageToken' in update ? update.fullResyncPageToken : existing?.fullResyncPageToken
+  };
+}
@@ -0,0 +1,106 @@
+import { SyncState } from '../../interfaces.js';
+import { ISyncStateStore, SqliteDatabase } from '../interfaces.js';
+import { mergeSyncState } from './MemorySyncStateStore.js';
+
+interface SyncStateRow {
+  history_id: string;
+  last_sync_time: string;
+  total_changes: number;
+  full_resync_page_token: string | null;
+}
+
+/**
+ * Sync state storage backed by a SQLite table.
+ * Bring your own driver: pass an open better-sqlite3 database or a node:sqlite DatabaseSync.
+ * The table is created on first use.
+ */
+export class SqliteSyncStateStore implements ISyncStateStore {
+  private db: SqliteDatabase;
+  private tableName: string;
+  private tableReady: boolean = false;
+
+  constructor(db: SqliteDatabase, tableName: string = 'unimail_sync_state') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid SQLite table name: ${tableName}`);
+    }
+    this.db = db;
+    this.tableName = tableName;
+  }
+
+  /**
+   * Save the sync state for a mailbox
+   */
+  public async saveState(key: string, state: SyncState): Promise<void> {
+    this.ensureTable();
+    this.db.prepare(
+      `INSERT INTO ${this.tableName} (key, history_id, last_sync_time, total_changes, full_resync_page_token) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         history_id = excluded.history_id,
+         last_sync_time = excluded.last_sync_time,
+         total_changes = excluded.total_changes,
+         full_resync_page_token = excluded.full_resync_page_token`
+    ).run(key, state.historyId, new Date(state.lastSyncTime).toISOString(), state.totalChanges, state.fullResyncPageToken ?? null);
+  }
+
+  /**
+   * Retrieve the sync state for a mailbox
+   */
+  public async getState(key: string): Promise<SyncState | null> {
+    this.ensureTable();
+    const row = this.db.prepare(
+      `SELECT history_id, last_sync_time, total_changes, full_resync_page_token FROM ${this.tableName} WHERE key = ?`
+    ).get(key) as SyncStateRow | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      historyId: row.history_id,
+      lastSyncTime: new Date(row.last_sync_time),
+      totalChanges: Number(row.total_changes),
+      ...(row.full_resync_page_token ? { fullResyncPageToken: row.full_resync_page_token } : {})
+    };
+  }
+
+  /**
+   * Update the sync state for a mailbox, merging with any existing state
+   */
+  public async updateState(key: string, state: Partial<SyncState>): Promise<void> {
+    const existing = await this.getState(key);
+    await this.saveState(key, mergeSyncState(existing, state));
+  }
+
+  /**
+   * Delete the sync state for a mailbox
+   */
+  public async deleteState(key: string): Promise<boolean> {
+    this.ensureTable();
+    const result = this.db.prepare(`DELETE FROM ${this.tableName} WHERE key = ?`).run(key);
+    return Number(result.changes) > 0;
+  }
+
+  private ensureTable(): void {
+    if (this.tableReady) {
+      return;
+    }
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+         key TEXT PRIMARY KEY,
+         history_id TEXT NOT NULL,
+         last_sync_time TEXT NOT NULL,
+         total_changes INTEGER NOT NULL DEFAULT 0,
+         full_resync_page_token TEXT
+       )`
+    );
+
+    // Tables created by earlier versions lack the resync column
+    const column = this.db.prepare(
+      `SELECT COUNT(*) AS count FROM pragma_table_info(?) WHERE name = 'full_resync_page_token'`
+    ).get(this.tableName) as { count: number } | undefined;
+    if (!column || Number(column.count) === 0) {
+      this.db.exec(`ALTER TABLE ${this.tableName} ADD COLUMN full_resync_page_token TEXT`);
+    }
+    this.tableReady = true;
+  }
+}
@@ -0,0 +1,267 @@
+import { EmailAddress } from '../interfaces.js';
+
+// One RFC 2047 encoded word: =?charset?B|Q?text?=
+const ENCODED_WORD = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/;
+const ENCODED_WORD_RUN = new RegExp(`${ENCODED_WORD.source}(?:\\s*${ENCODED_WORD.source})*`, 'g');
+
+// Characters that force a display name into a quoted string (RFC 5322 specials)
+const NAME_SPECIALS = /[()<>[\]:;@\\,."]/;
+
+interface Token {
+  type: 'text' | 'quoted' | 'comment' | 'angle' | 'comma' | 'groupStart' | 'groupEnd';
+  value: string;
+}
+
+interface Mailbox {
+  phrase: string[]; // Display name parts, or a bare address
+  comments: string[];
+  angle?: string; // Address inside <...>
+}
+
+/**
+ * Parses and renders RFC 5322 address headers (From, To, Cc, Reply-To, Sender, ...).
+ * Handles quoted and RFC 2047 encoded display names, comments, groups and the common
+ * non-compliant forms real mail uses, such as unquoted commas in a display name.
+ */
+export class AddressParser {
+  /**
+   * Parse an address list header into its mailboxes. Group names are dropped and their members kept.
+   */
+  public static parse(header?: string | null): EmailAddress[] {
+    if (!header) {
+      return [];
+    }
+
+    const addresses: EmailAddress[] = [];
+    let current: Mailbox = { phrase: [], comments: [] };
+    // Words before a comma that were not an address, e.g. "Doe" in: Doe, Jane <jane@example.com>
+    let pendingName: string | undefined;
+
+    // A lone word that never found its address is most likely a bare local address such as "root"
+    const releasePending = () => {
+      if (pendingName && !pendingName.includes(' ')) {
+        addresses.push({ address: pendingName });
+      }
+      pendingName = undefined;
+    };
+
+    const flush = () => {
+      const mailbox = current;
+      current = { phrase: [], comments: [] };
+      const phrase = mailbox.phrase.join(' ').replace(/\s+/g, ' ').trim();
+      const comment = mailbox.comments.join(' ').replace(/\s+/g, ' ').trim();
+
+      if (mailbox.angle !== undefined) {
+        const name = [pendingName, phrase || comment].filter(Boolean).join(', ') || undefined;
+        const address = AddressParser.stripRoute(mailbox.angle);
+        pendingName = undefined;
+        if (address) {
+          addresses.push(name ? { name, address } : { address });
+        }
+        return;
+      }
+
+      const words = phrase.split(' ');
+      const addressIndex = words.map(word => word.includes('@')).lastIndexOf(true);
+      if (addressIndex === -1) {
+        if (phrase) {
+          pendingName = pendingName ? `${pendingName}, ${phrase}` : phrase;
+        }
+        return;
+      }
+
+      // Bare address, with the name in a trailing comment as in: jane@example.com (Jane Doe)
+      releasePending();
+      const name = words.filter((_, index) => index !== addressIndex).join(' ') || comment;
+      const address = words[addressIndex];
+      addresses.push(name ? { name, address } : { address });
+    };
+
+    for (const token of AddressParser.tokenize(header)) {
+      switch (token.type) {
+        case 'comma':
+        case 'groupEnd':
+          flush();
+          break;
+        case 'groupStart':
+          // "Team: a@example.com, b@example.com;" - the phrase so far names the group
+          current = { phrase: [], comments: [] };
+          pendingName = undefined;
+          break;
+        case 'angle':
+          current.angle = token.value;
+          break;
+        case 'comment':
+          current.comments.push(AddressParser.decodeWords(token.value));
+          break;
+        default:
+          current.phrase.push(token.type === 'quoted' ? AddressParser.decodeWords(token.value) : token.value);
+      }
+    }
+    flush();
+    releasePending();
+
+    return addresses;
+  }
+
+  /**
+   * Parse a single-mailbox header such as From or Sender
+   */
+  public static parseOne(header?: string | null): EmailAddress | undefined {
+    return AddressParser.parse(header)[0];
+  }
+
+  /**
+   * Render an address the way it appears in a header: "Doe, Jane" <jane@example.com>, or the bare address
+   */
+  public static format(address: EmailAddress): string {
+    if (!address.name) {
+      return address.address;
+    }
+    const name = NAME_SPECIALS.test(address.name)
+      ? `"${address.name.replace(/(["\\])/g, '\\$1')}"`
+      : address.name;
+    return address.address ? `${name} <${address.address}>` : name;
+  }
+
+  /**
+   * Render several addresses as one comma-separated header value
+   */
+  public static formatList(addresses?: EmailAddress[]): string {
+    return (addresses || []).map(AddressParser.format).join(', ');
+  }
+
+  /**
+   * Decode RFC 2047 encoded words, e.g. =?UTF-8?B?SsO8cmdlbg==?= becomes Jürgen.
+   * Whitespace between adjacent encoded words is dropped, as the RFC requires.
+   */
+  public static decodeWords(text: string): string {
+    return text.replace(ENCODED_WORD_RUN, run => {
+      const words = run.match(new RegExp(ENCODED_WORD.source, 'g')) || [];
+      let decoded = '';
+      let charset = '';
+      let bytes: Buffer[] = [];
+
+      // Adjacent words in one charset are decoded together, since a multi-byte character may span them
+      for (const word of words) {
+        const [, wordCharset, encoding, encoded] = word.match(ENCODED_WORD)!;
+        const normalizedCharset = wordCharset.split('*')[0].toLowerCase(); // Drop the RFC 2231 language tag
+        if (normalizedCharset !== charset) {
+          decoded += AddressParser.decodeBytes(Buffer.concat(bytes), charset);
+          charset = normalizedCharset;
+          bytes = [];
+        }
+        bytes.push(encoding.toUpperCase() === 'B'
+          ? Buffer.from(encoded, 'base64')
+          : AddressParser.decodeQ(encoded));
+      }
+
+      return decoded + AddressParser.decodeBytes(Buffer.concat(bytes), charset);
+    });
+  }
+
+  /**
+   * Address from inside <...>, without the obsolete source route in <@relay.example.com:jane@example.com>
+   */
+  private static stripRoute(value: string): string {
+    return value.trim().replace(/^@[^:]*:/, '').trim();
+  }
+
+  /**
+   * Split a header into quoted strings, comments, <addresses>, separators and runs of plain text
+   */
+  private static tokenize(header: string): Token[] {
+    const tokens: Token[] = [];
+    let text = '';
+    let i = 0;
+
+    const pushText = () => {
+      if (text.trim()) {
+        tokens.push({ type: 'text', value: AddressParser.decodeWords(text.trim()) });
+      }
+      text = '';
+    };
+
+    while (i < header.length) {
+      const char = header[i];
+
+      if (char === '"') {
+        pushText();
+        let value = '';
+        i++;
+        while (i < header.length && header[i] !== '"') {
+          if (header[i] === '\\' && i + 1 < header.length) {
+            i++;
+          }
+          value += header[i++];
+        }
+        i++;
+        tokens.push({ type: 'quoted', value });
+      } else if (char === '(') {
+        pushText();
+        let value = '';
+        let depth = 1;
+        i++;
+        while (i < header.length && depth > 0) {
+          if (header[i] === '\\' && i + 1 < header.length) {
+            value += header[i + 1];
+            i += 2;
+            continue;
+          }
+          if (header[i] === '(') {
+            depth++;
+          } else if (header[i] === ')' && --depth === 0) {
+            i++;
+            break;
+          }
+          value += header[i++];
+        }
+        tokens.push({ type: 'comment', value });
+      } else if (char === '<') {
+        pushText();
+        const end = header.indexOf('>', i);
+        const stop = end === -1 ? header.length : end;
+        tokens.push({ type: 'angle', value: header.slice(i + 1, stop) });
+        i = stop + 1;
+      } else if (char === ',' || char === ':' || char === ';') {
+        pushText();
+        tokens.push({ type: char === ',' ? 'comma' : char === ':' ? 'groupStart' : 'groupEnd', value: char });
+        i++;
+      } else {
+        text += char;
+        i++;
+      }
+    }
+    pushText();
+
+    return tokens;
+  }
+
+  private static decodeQ(encoded: string): Buffer {
+    const bytes: number[] = [];
+    for (let i = 0; i < encoded.length; i++) {
+      const char = encoded[i];
+      if (char === '_') {
+        bytes.push(0x20);
+      } else if (char === '=' && /^[0-9a-fA-F]{2}$/.test(encoded.slice(i + 1, i + 3))) {
+        bytes.push(parseInt(encoded.slice(i + 1, i + 3), 16));
+        i += 2;
+      } else {
+        bytes.push(char.charCodeAt(0) & 0xff);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private static decodeBytes(bytes: Buffer, charset: string): string {
+    if (bytes.length === 0) {
+      return '';
+    }
+    try {
+      return new TextDecoder(charset || 'utf-8').decode(bytes);
+    } catch {
+      // Unknown charset: latin1 at least keeps ASCII intact
+      return bytes.toString('latin1');
+    }
+  }
+}
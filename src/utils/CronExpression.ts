@@ -0,0 +1,142 @@
+/**
+ * Minimal five-field cron expression (minute hour day-of-month month day-of-week), evaluated in local time.
+ * Supports "*", single values, ranges ("1-5"), lists ("1,15") and steps ("0-30/5", or "*" followed by "/10").
+ * As in standard cron, when both day fields are restricted a day matching either one fires.
+ */
+export class CronExpression {
+  private static readonly FIELD_RANGES: Array<[number, number]> = [
+    [0, 59], // minute
+    [0, 23], // hour
+    [1, 31], // day of month
+    [1, 12], // month
+    [0, 7]   // day of week (0 and 7 are Sunday)
+  ];
+
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  private constructor(fields: string[]) {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+      CronExpression.parseField(field, CronExpression.FIELD_RANGES[index])
+    );
+
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+    this.daysOfWeek = new Set([...daysOfWeek].map(day => day % 7));
+    // Like vixie cron, a field starting with "*" (including "*/2") counts as unrestricted
+    this.dayOfMonthRestricted = !fields[2].startsWith('*');
+    this.dayOfWeekRestricted = !fields[4].startsWith('*');
+  }
+
+  /**
+   * Parse a cron expression, throwing on anything outside the supported syntax
+   */
+  public static parse(expression: string): CronExpression {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+    }
+    try {
+      return new CronExpression(fields);
+    } catch (error) {
+      throw new Error(`Invalid cron expression "${expression}": ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * The first matching minute strictly after the given time
+   */
+  public next(from: Date = new Date()): Date {
+    const candidate = new Date(from.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    // Four years covers every valid combination, including Feb 29
+    const limit = from.getTime() + 4 * 366 * 24 * 60 * 60 * 1000;
+
+    while (candidate.getTime() <= limit) {
+      if (!this.months.has(candidate.getMonth() + 1)) {
+        candidate.setMonth(candidate.getMonth() + 1, 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+        continue;
+      }
+      return candidate;
+    }
+
+    throw new Error('Cron expression never matches');
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private static parseField(field: string, [min, max]: [number, number]): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const [rangePart, stepPart] = part.split('/');
+      const step = stepPart === undefined ? 1 : CronExpression.parseNumber(stepPart);
+      if (step < 1) {
+        throw new Error(`invalid step "${stepPart}"`);
+      }
+
+      let start: number;
+      let end: number;
+      if (rangePart === '*') {
+        start = min;
+        end = max;
+      } else if (rangePart.includes('-')) {
+        const [low, high] = rangePart.split('-');
+        start = CronExpression.parseNumber(low);
+        end = CronExpression.parseNumber(high);
+      } else {
+        start = CronExpression.parseNumber(rangePart);
+        // "5/15" means every 15 starting at 5
+        end = stepPart === undefined ? start : max;
+      }
+
+      if (start < min || end > max || start > end) {
+        throw new Error(`value "${part}" is out of range ${min}-${max}`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static parseNumber(value: string): number {
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`"${value}" is not a number`);
+    }
+    return parseInt(value, 10);
+  }
+}
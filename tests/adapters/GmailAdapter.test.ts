@@ -80,8 +80,8 @@ describe('GmailAdapter', () => {
     const MockEmailParserService = EmailParserService as jest.MockedClass<typeof EmailParserService>;
     MockEmailParserService.prototype.parseEmail.mockResolvedValue({
       id: 'test-email-id',
-      from: 'sender@example.com',
-      to: ['recipient@example.com'],
+      from: { address: 'sender@example.com' },
+      to: [{ address: 'recipient@example.com' }],
       subject: 'Test Email',
       bodyText: 'This is a test email',
       bodyHtml: '<p>This is a test email</p>',
@@ -253,6 +253,25 @@ describe('GmailAdapter', () => {
       });
     });
     
+    test('should hand attachments to the attachmentSink one email at a time', async () => {
+      const MockEmailParserService = EmailParserService as jest.MockedClass<typeof EmailParserService>;
+      MockEmailParserService.prototype.parseEmail.mockImplementation(async (_raw, id) => ({
+        id,
+        from: { address: 'sender@example.com' },
+        to: [],
+        attachments: [{ filename: `${id}.txt`, mimeType: 'text/plain', size: 2, buffer: Buffer.from(id) }],
+        date: new Date(),
+        provider: 'gmail'
+      }));
+      const sink = { write: jest.fn(async (attachment: { filename: string }) => `/store/${attachment.filename}`) };
+
+      const result = await adapter.fetchEmails({ attachmentSink: sink, attachmentDir: '/ignored' });
+
+      expect(sink.write).toHaveBeenCalledTimes(2);
+      expect(sink.write).toHaveBeenCalledWith(expect.objectContaining({ filename: 'msg1.txt' }), expect.anything(), { emailId: 'msg1', provider: 'gmail' });
+      expect(result.emails[1].attachments[0]).toEqual({ filename: 'msg2.txt', mimeType: 'text/plain', size: 2, filePath: '/store/msg2.txt' });
+    });
+
     test('should handle empty response', async () => {
       mockGmailApi.users.messages.list.mockResolvedValueOnce({
         data: {} // No messages property
@@ -266,5 +285,697 @@ describe('GmailAdapter', () => {
         totalCount: undefined
       });
     });
+
+    test('should parse address headers without splitting quoted names', async () => {
+      mockGmailApi.users.messages.get.mockResolvedValueOnce({
+        data: {
+          id: 'msg1',
+          payload: {
+            headers: [
+              { name: 'From', value: '=?UTF-8?B?SsO8cmdlbg==?= <juergen@example.com>' },
+              { name: 'To', value: '"Doe, Jane" <jane@example.com>, bob@example.com' },
+              { name: 'Reply-To', value: 'Team: list@example.com;' },
+              { name: 'Sender', value: 'bounce@example.com' }
+            ]
+          }
+        }
+      });
+
+      const email = await adapter.getEmailById('msg1');
+
+      expect(email!.from).toEqual({ name: 'Jürgen', address: 'juergen@example.com' });
+      expect(email!.to).toEqual([{ name: 'Doe, Jane', address: 'jane@example.com' }, { address: 'bob@example.com' }]);
+      expect(email!.replyTo).toEqual([{ address: 'list@example.com' }]);
+      expect(email!.sender).toEqual({ address: 'bounce@example.com' });
+    });
+
+    test('should walk nested MIME parts like the raw-format parser', async () => {
+      const data = (text: string | Buffer) => Buffer.from(text).toString('base64url');
+      mockGmailApi.users.messages.attachments = {
+        get: jest.fn().mockImplementation(async ({ id }) => ({ data: { data: data(`content of ${id}`) } }))
+      };
+      mockGmailApi.users.messages.get.mockResolvedValueOnce({
+        data: {
+          id: 'msg1',
+          payload: {
+            mimeType: 'multipart/mixed',
+            headers: [{ name: 'Subject', value: 'Nested' }],
+            parts: [
+              {
+                mimeType: 'multipart/related',
+                parts: [
+                  {
+                    mimeType: 'multipart/alternative',
+                    parts: [
+                      {
+                        mimeType: 'text/plain',
+                        headers: [{ name: 'Content-Type', value: 'text/plain; charset="ISO-8859-1"' }],
+                        body: { data: data(Buffer.from([0x43, 0x61, 0x66, 0xe9, 0x3f])) }
+                      },
+                      { mimeType: 'text/html', body: { data: data('<p>Café? ÿ</p>') } }
+                    ]
+                  },
+                  {
+                    mimeType: 'image/png',
+                    filename: '',
+                    headers: [{ name: 'Content-ID', value: '<logo@example.com>' }, { name: 'Content-Disposition', value: 'inline' }],
+                    body: { data: data('png'), size: 3 }
+                  }
+                ]
+              },
+              { mimeType: 'application/pdf', filename: 'report.pdf', body: { attachmentId: 'att-1', size: 17 } },
+              { mimeType: 'message/rfc822', filename: 'forwarded.eml', body: { attachmentId: 'att-2', size: 17 } }
+            ]
+          }
+        }
+      });
+
+      const email = await adapter.getEmailById('msg1');
+
+      expect(email!.bodyText).toBe('Café?');
+      expect(email!.bodyHtml).toBe('<p>Café? ÿ</p>');
+      expect(email!.attachments).toEqual([
+        { filename: 'untitled', mimeType: 'image/png', size: 3, buffer: Buffer.from('png'), contentId: '<logo@example.com>', category: 'image' },
+        { filename: 'report.pdf', mimeType: 'application/pdf', size: 17, buffer: Buffer.from('content of att-1'), contentId: undefined, category: 'document' },
+        { filename: 'forwarded.eml', mimeType: 'message/rfc822', size: 17, buffer: Buffer.from('content of att-2'), contentId: undefined, category: 'email' }
+      ]);
+    });
+
+    test('should fetch large bodies by attachment ID and keep bodies of expanded attached messages out', async () => {
+      mockGmailApi.users.messages.attachments = {
+        get: jest.fn().mockResolvedValue({ data: { data: Buffer.from('Long body').toString('base64url') } })
+      };
+      mockGmailApi.users.messages.get.mockResolvedValueOnce({
+        data: {
+          id: 'msg1',
+          payload: {
+            mimeType: 'multipart/mixed',
+            parts: [
+              { mimeType: 'text/plain', body: { attachmentId: 'big-body', size: 9 } },
+              {
+                mimeType: 'message/rfc822',
+                body: { size: 0 },
+                parts: [{ mimeType: 'text/plain', body: { data: Buffer.from('Embedded').toString('base64url') } }]
+              }
+            ]
+          }
+        }
+      });
+
+      const email = await adapter.getEmailById('msg1');
+
+      expect(mockGmailApi.users.messages.attachments.get).toHaveBeenCalledWith({ userId: 'me', messageId: 'msg1', id: 'big-body' });
+      expect(email!.bodyText).toBe('Long body');
+      expect(email!.attachments).toEqual([]);
+    });
+  });
+
+  describe('attachments', () => {
+    const payload = {
+      partId: '',
+      mimeType: 'multipart/mixed',
+      parts: [
+        { partId: '0', mimeType: 'text/plain', body: { data: Buffer.from('Hello').toString('base64url') } },
+        { partId: '1', mimeType: 'application/pdf', filename: 'report.pdf', body: { attachmentId: 'volatile-id', size: 6 } }
+      ]
+    };
+
+    beforeEach(async () => {
+      mockGmailApi.users.messages.attachments = {
+        get: jest.fn().mockResolvedValue({ data: { data: Buffer.from('%PDF-1').toString('base64url') } })
+      };
+      mockGmailApi.users.messages.get.mockImplementation(async ({ id }: { id: string }) => ({ data: { id, payload } }));
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    test('should list attachments without content in metadata attachment mode', async () => {
+      const result = await adapter.fetchEmails({ attachmentMode: 'metadata' });
+
+      expect(mockGmailApi.users.messages.get).toHaveBeenCalledWith(expect.objectContaining({ format: 'full' }));
+      expect(mockGmailApi.users.messages.attachments.get).not.toHaveBeenCalled();
+      expect(result.emails[0].bodyText).toBe('Hello');
+      expect(result.emails[0].attachments).toEqual([{
+        filename: 'report.pdf',
+        mimeType: 'application/pdf',
+        size: 6,
+        buffer: undefined,
+        contentId: undefined,
+        attachmentId: '1',
+        source: { provider: 'gmail', emailId: 'msg1' },
+        category: 'document'
+      }]);
+    });
+
+    test('should download a listed attachment on demand by its part ID', async () => {
+      const result = await adapter.fetchEmails({ attachmentMode: 'metadata' });
+      const attachment = result.emails[0].attachments[0];
+
+      await expect(attachment.download!()).resolves.toEqual(Buffer.from('%PDF-1'));
+      expect(mockGmailApi.users.messages.get).toHaveBeenLastCalledWith({ userId: 'me', id: 'msg1', format: 'full' });
+      expect(mockGmailApi.users.messages.attachments.get).toHaveBeenCalledWith({ userId: 'me', messageId: 'msg1', id: 'volatile-id' });
+    });
+
+    test('should reject unknown part IDs in getAttachment', async () => {
+      await expect(adapter.getAttachment('msg1', '7')).rejects.toThrow('Failed to get attachment 7 of email msg1: No such MIME part');
+    });
+  });
+
+  describe('sync', () => {
+    beforeEach(async () => {
+      mockGmailApi.users.getProfile = jest.fn().mockResolvedValue({ data: { historyId: '9000' } });
+      mockGmailApi.users.history = { list: jest.fn() };
+
+      const MockEmailParserService = EmailParserService as jest.MockedClass<typeof EmailParserService>;
+      MockEmailParserService.prototype.parseEmail.mockImplementation(async (_raw, id) => ({
+        id,
+        from: { address: 'sender@example.com' },
+        to: [{ address: 'recipient@example.com' }],
+        subject: 'Test Email',
+        attachments: [],
+        provider: 'gmail',
+        labels: []
+      } as any));
+
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should throw on an expired history ID by default', async () => {
+      mockGmailApi.users.history.list.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 404 }));
+
+      await expect(adapter.processSync({ startHistoryId: '100' })).rejects.toThrow('is too old or invalid');
+    });
+
+    test('should fall back to a full resync when the history ID has expired', async () => {
+      mockGmailApi.users.history.list.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 404 }));
+      mockGmailApi.users.messages.list.mockResolvedValueOnce({
+        data: { messages: [{ id: 'msg1' }, { id: 'msg2' }, { id: 'msg3' }] }
+      });
+      mockGmailApi.users.messages.get.mockImplementation(({ id, format }: any) => {
+        if (format === 'minimal' && id === 'gone') {
+          return Promise.reject(Object.assign(new Error('Not Found'), { code: 404 }));
+        }
+        return Promise.resolve({ data: { id, raw: Buffer.from('mock email content').toString('base64') } });
+      });
+
+      const result = await adapter.processSync({
+        startHistoryId: '100',
+        fullResyncOnExpired: true,
+        lastSyncTime: new Date('2024-01-01T00:00:00Z'),
+        knownMessageIds: ['msg1', 'old', 'gone']
+      });
+
+      expect(mockGmailApi.users.messages.list).toHaveBeenCalledWith(expect.objectContaining({
+        q: 'after:1704067200',
+        maxResults: 500
+      }));
+      expect(result.fullResync).toBe(true);
+      expect(result.addedEmails.map(e => e.id)).toEqual(['msg2', 'msg3']);
+      expect(result.updatedEmails.map(e => e.id)).toEqual(['msg1']);
+      expect(result.deletedEmailIds).toEqual(['gone']);
+      expect(result.newHistoryId).toBe('9000');
+      expect(result.hasMoreChanges).toBe(false);
+    });
+
+    test('should stop the full listing at fullResyncLimit and continue from the returned token', async () => {
+      mockGmailApi.users.history.list.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 404 }));
+      mockGmailApi.users.messages.list
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'msg1' }, { id: 'msg2' }], nextPageToken: 'more' } })
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'msg3' }] } });
+      mockGmailApi.users.messages.get.mockImplementation(({ id, format }: any) => {
+        if (format === 'minimal') {
+          return Promise.reject(Object.assign(new Error('Not Found'), { code: 404 }));
+        }
+        return Promise.resolve({ data: { id, raw: Buffer.from('mock email content').toString('base64') } });
+      });
+
+      const first = await adapter.processSync({
+        startHistoryId: '100', fullResyncOnExpired: true, fullResyncLimit: 2, knownMessageIds: ['gone']
+      });
+
+      expect(mockGmailApi.users.messages.list).toHaveBeenCalledWith(expect.objectContaining({ maxResults: 2 }));
+      expect(first.addedEmails).toHaveLength(2);
+      expect(first.deletedEmailIds).toEqual([]);
+      expect(first.hasMoreChanges).toBe(true);
+      expect(first.fullResyncPageToken).toBe('0:more');
+
+      const rest = await adapter.processSync({
+        startHistoryId: first.newHistoryId,
+        fullResyncLimit: 2,
+        fullResyncPageToken: first.fullResyncPageToken,
+        knownMessageIds: ['gone']
+      });
+
+      expect(mockGmailApi.users.history.list).toHaveBeenCalledTimes(1);
+      expect(mockGmailApi.users.messages.list).toHaveBeenLastCalledWith(expect.objectContaining({ pageToken: 'more' }));
+      expect(rest.addedEmails.map(e => e.id)).toEqual(['msg3']);
+      expect(rest.deletedEmailIds).toEqual(['gone']);
+      expect(rest.newHistoryId).toBe(first.newHistoryId);
+      expect(rest.hasMoreChanges).toBe(false);
+      expect(rest.fullResyncPageToken).toBeUndefined();
+    });
+
+    test('should list each label on its own and keep messages matching any of them', async () => {
+      mockGmailApi.users.history.list.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 404 }));
+      mockGmailApi.users.messages.list
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'msg1' }, { id: 'msg2' }] } })
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'msg2' }, { id: 'msg3' }] } });
+      mockGmailApi.users.messages.get.mockImplementation(({ id, format }: any) => {
+        if (format === 'minimal') {
+          return Promise.resolve({ data: { id, labelIds: id === 'moved' ? ['Label_9'] : ['INBOX'] } });
+        }
+        return Promise.resolve({ data: { id, raw: Buffer.from('mock email content').toString('base64') } });
+      });
+
+      const result = await adapter.processSync({
+        startHistoryId: '100',
+        fullResyncOnExpired: true,
+        labelIds: ['INBOX', 'IMPORTANT'],
+        knownMessageIds: ['old', 'moved']
+      });
+
+      expect(mockGmailApi.users.messages.list.mock.calls.map(([params]: any) => params.labelIds)).toEqual([['INBOX'], ['IMPORTANT']]);
+      expect(result.addedEmails.map(e => e.id)).toEqual(['msg1', 'msg2', 'msg3']);
+      expect(result.updatedEmails.map(e => e.id)).toEqual(['moved']);
+      expect(result.deletedEmailIds).toEqual([]);
+    });
+
+    test('should drain history pages up to maxHistoryPages', async () => {
+      mockGmailApi.users.history.list
+        .mockResolvedValueOnce({
+          data: { history: [{ id: '101', messagesAdded: [{ message: { id: 'msg1', threadId: 't1' } }] }], nextPageToken: 'p2', historyId: '300' }
+        })
+        .mockResolvedValueOnce({
+          data: { history: [{ id: '102', messagesDeleted: [{ message: { id: 'msg0', threadId: 't0' } }] }], nextPageToken: 'p3', historyId: '300' }
+        })
+        .mockResolvedValueOnce({
+          data: { history: [{ id: '103', messagesAdded: [{ message: { id: 'msg2', threadId: 't2' } }] }], historyId: '300' }
+        });
+
+      const result = await adapter.processSync({ startHistoryId: '100', drainAllPages: true });
+
+      expect(mockGmailApi.users.history.list).toHaveBeenCalledTimes(3);
+      expect(mockGmailApi.users.history.list).toHaveBeenLastCalledWith(expect.objectContaining({
+        startHistoryId: '100',
+        pageToken: 'p3'
+      }));
+      expect(result.processedHistoryRecords).toBe(3);
+      expect(result.addedEmails.map(e => e.id)).toEqual(['msg1', 'msg2']);
+      expect(result.deletedEmailIds).toEqual(['msg0']);
+      expect(result.newHistoryId).toBe('300');
+      expect(result.hasMoreChanges).toBe(false);
+    });
+
+    test('should resume after the last record when pages remain', async () => {
+      mockGmailApi.users.history.list.mockResolvedValueOnce({
+        data: { history: [{ id: '150', messagesAdded: [{ message: { id: 'msg1', threadId: 't1' } }] }], nextPageToken: 'p3', historyId: '300' }
+      });
+
+      const result = await adapter.processSync({ startHistoryId: '100', pageToken: 'p2' });
+
+      expect(mockGmailApi.users.history.list).toHaveBeenCalledWith(expect.objectContaining({ pageToken: 'p2' }));
+      expect(result.hasMoreChanges).toBe(true);
+      expect(result.nextPageToken).toBe('p3');
+      expect(result.newHistoryId).toBe('150');
+    });
+
+    test('should move past a page where no record matches the labels', async () => {
+      mockGmailApi.users.history.list.mockResolvedValueOnce({
+        data: {
+          history: [
+            { id: '140', messagesAdded: [{ message: { id: 'spam-msg', threadId: 't1', labelIds: ['SPAM'] } }] },
+            { id: '160', messagesAdded: [{ message: { id: 'draft-msg', threadId: 't2', labelIds: ['DRAFT'] } }] }
+          ],
+          nextPageToken: 'p2',
+          historyId: '300'
+        }
+      });
+
+      const result = await adapter.processSync({ startHistoryId: '100', labelIds: ['INBOX', 'STARRED'] });
+
+      expect(result.processedHistoryRecords).toBe(0);
+      expect(result.hasMoreChanges).toBe(true);
+      expect(result.newHistoryId).toBe('160');
+    });
+
+    test('should filter several labels client-side', async () => {
+      mockGmailApi.users.history.list.mockResolvedValueOnce({
+        data: {
+          history: [
+            { id: '101', messagesAdded: [{ message: { id: 'inbox-msg', threadId: 't1', labelIds: ['INBOX'] } }] },
+            { id: '102', messagesAdded: [{ message: { id: 'spam-msg', threadId: 't2', labelIds: ['SPAM'] } }] },
+            { id: '103', labelsAdded: [{ message: { id: 'starred-msg', threadId: 't3', labelIds: ['CATEGORY_SOCIAL'] }, labelIds: ['STARRED'] }] }
+          ],
+          historyId: '300'
+        }
+      });
+
+      const history = await adapter.getHistory('100', { labelIds: ['INBOX', 'STARRED'] });
+
+      expect(mockGmailApi.users.history.list).toHaveBeenCalledWith(expect.objectContaining({ labelId: undefined }));
+      expect(history.history.map(record => record.id)).toEqual(['101', '103']);
+    });
+  });
+
+  describe('mutations', () => {
+    beforeEach(async () => {
+      mockGmailApi.users.messages.batchModify = jest.fn().mockResolvedValue({});
+      mockGmailApi.users.messages.batchDelete = jest.fn().mockResolvedValue({});
+      mockGmailApi.users.messages.trash = jest.fn().mockResolvedValue({});
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    test('should mark emails as read by removing the UNREAD label', async () => {
+      await adapter.markAsRead(['msg1', 'msg2']);
+
+      expect(mockGmailApi.users.messages.batchModify).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { ids: ['msg1', 'msg2'], addLabelIds: [], removeLabelIds: ['UNREAD'] }
+      });
+    });
+
+    test('should star and archive a single email', async () => {
+      await adapter.flag('msg1');
+      await adapter.archive('msg1');
+
+      expect(mockGmailApi.users.messages.batchModify).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        requestBody: { ids: ['msg1'], addLabelIds: ['STARRED'], removeLabelIds: [] }
+      }));
+      expect(mockGmailApi.users.messages.batchModify).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        requestBody: { ids: ['msg1'], addLabelIds: [], removeLabelIds: ['INBOX'] }
+      }));
+    });
+
+    test('should split bulk deletes into chunks of 1000', async () => {
+      const ids = Array.from({ length: 1500 }, (_, i) => `msg${i}`);
+
+      await adapter.permanentlyDelete(ids);
+
+      expect(mockGmailApi.users.messages.batchDelete).toHaveBeenCalledTimes(2);
+      expect(mockGmailApi.users.messages.batchDelete.mock.calls[1][0].requestBody.ids).toHaveLength(500);
+    });
+
+    test('should trash each email and wrap API errors', async () => {
+      mockGmailApi.users.messages.trash.mockRejectedValueOnce(new Error('Insufficient Permission'));
+
+      await expect(adapter.moveToTrash(['msg1'])).rejects.toThrow('Failed to move emails to trash: Insufficient Permission');
+    });
+  });
+
+  describe('sendEmail', () => {
+    beforeEach(async () => {
+      mockGmailApi.users.messages.send = jest.fn().mockResolvedValue({ data: { id: 'sent-1', threadId: 'thread-9' } });
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    test('should send raw MIME with Bcc kept for Gmail to route', async () => {
+      const result = await adapter.sendEmail({
+        to: 'a@example.com',
+        bcc: 'hidden@example.com',
+        subject: 'Hello',
+        text: 'Hello from Gmail'
+      });
+
+      const { requestBody } = mockGmailApi.users.messages.send.mock.calls[0][0];
+      const raw = Buffer.from(requestBody.raw, 'base64url').toString();
+      expect(requestBody.raw).not.toMatch(/[+/=]/);
+      expect(raw).toContain('Subject: Hello');
+      expect(raw).toContain('Bcc: hidden@example.com');
+      expect(result).toEqual({ messageId: expect.stringMatching(/^<.+>$/), id: 'sent-1', threadId: 'thread-9' });
+    });
+
+    test('should add replies to the Gmail thread', async () => {
+      await adapter.sendEmail({ to: 'a@example.com', text: 'Reply', inReplyTo: '<orig@example.com>', threadId: 'thread-9' });
+
+      expect(mockGmailApi.users.messages.send.mock.calls[0][0].requestBody.threadId).toBe('thread-9');
+    });
+
+    test('should wrap API errors', async () => {
+      mockGmailApi.users.messages.send.mockRejectedValueOnce(new Error('Daily sending quota exceeded'));
+
+      await expect(adapter.sendEmail({ to: 'a@example.com', text: 'Hi' }))
+        .rejects.toThrow('Failed to send email: Daily sending quota exceeded');
+    });
+  });
+
+  describe('drafts', () => {
+    beforeEach(async () => {
+      mockGmailApi.users.drafts = {
+        create: jest.fn().mockResolvedValue({ data: { id: 'draft-1', message: { id: 'msg-d1' } } }),
+        update: jest.fn().mockResolvedValue({ data: { id: 'draft-1' } }),
+        get: jest.fn().mockResolvedValue({
+          data: {
+            id: 'draft-1',
+            message: { id: 'msg-d1', threadId: 'thread-1', labelIds: ['DRAFT'], raw: Buffer.from('draft').toString('base64url') }
+          }
+        }),
+        list: jest.fn().mockResolvedValue({ data: { drafts: [{ id: 'draft-1' }], nextPageToken: 'next', resultSizeEstimate: 3 } }),
+        send: jest.fn().mockResolvedValue({ data: { id: 'sent-1', threadId: 'thread-1' } }),
+        delete: jest.fn().mockResolvedValue({})
+      };
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    test('should create a draft in the given thread and return it marked as a draft', async () => {
+      const draft = await adapter.createDraft({ to: 'a@example.com', subject: 'Later', text: 'Draft body', threadId: 'thread-1' });
+
+      const { requestBody } = mockGmailApi.users.drafts.create.mock.calls[0][0];
+      expect(requestBody.message.threadId).toBe('thread-1');
+      expect(Buffer.from(requestBody.message.raw, 'base64url').toString()).toContain('Subject: Later');
+      expect(draft).toEqual(expect.objectContaining({ threadId: 'thread-1', labels: ['DRAFT'], isDraft: true, draftId: 'draft-1' }));
+    });
+
+    test('should update a draft in place', async () => {
+      await adapter.updateDraft('draft-1', { to: 'a@example.com', text: 'Edited' });
+
+      expect(mockGmailApi.users.drafts.update).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'draft-1',
+        requestBody: expect.objectContaining({ id: 'draft-1' })
+      }));
+    });
+
+    test('should list drafts with paging', async () => {
+      const response = await adapter.listDrafts({ limit: 1 });
+
+      expect(mockGmailApi.users.drafts.list).toHaveBeenCalledWith({ userId: 'me', maxResults: 1, pageToken: undefined });
+      expect(response.emails.map(email => email.draftId)).toEqual(['draft-1']);
+      expect(response.nextPageToken).toBe('next');
+      expect(response.totalCount).toBe(3);
+    });
+
+    test('should return null for a missing draft', async () => {
+      mockGmailApi.users.drafts.get.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 404 }));
+
+      await expect(adapter.getDraft('gone')).resolves.toBeNull();
+    });
+
+    test('should send a draft and read back its Message-ID', async () => {
+      mockGmailApi.users.messages.get.mockResolvedValueOnce({
+        data: { id: 'sent-1', payload: { headers: [{ name: 'Message-Id', value: '<sent@example.com>' }] } }
+      });
+
+      const result = await adapter.sendDraft('draft-1');
+
+      expect(mockGmailApi.users.drafts.send).toHaveBeenCalledWith({ userId: 'me', requestBody: { id: 'draft-1' } });
+      expect(result).toEqual({ messageId: '<sent@example.com>', id: 'sent-1', threadId: 'thread-1' });
+    });
+  });
+
+  describe('folders', () => {
+    const labels = [
+      { id: 'INBOX', name: 'INBOX', type: 'system' },
+      { id: 'Label_1', name: 'Projects', type: 'user' },
+      { id: 'Label_2', name: 'Projects/Alpha', type: 'user' }
+    ];
+
+    beforeEach(async () => {
+      mockGmailApi.users.labels.list.mockResolvedValue({ data: { labels } });
+      mockGmailApi.users.labels.get = jest.fn().mockImplementation(({ id }) => Promise.resolve({
+        data: { ...labels.find(label => label.id === id), messagesTotal: 10, messagesUnread: 2 }
+      }));
+      mockGmailApi.users.labels.create = jest.fn().mockImplementation(({ requestBody }) =>
+        Promise.resolve({ data: { id: 'Label_3', type: 'user', ...requestBody } }));
+      mockGmailApi.users.labels.patch = jest.fn().mockImplementation(({ id, requestBody }) =>
+        Promise.resolve({ data: { id, type: 'user', ...requestBody } }));
+      mockGmailApi.users.messages.batchModify = jest.fn().mockResolvedValue({});
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    test('should list labels as folders with counts and nesting', async () => {
+      const folders = await adapter.listFolders();
+
+      expect(folders).toEqual([
+        { id: 'INBOX', name: 'INBOX', path: 'INBOX', type: 'system', role: 'inbox', parentId: undefined, unreadCount: 2, totalCount: 10 },
+        { id: 'Label_1', name: 'Projects', path: 'Projects', type: 'user', parentId: undefined, unreadCount: 2, totalCount: 10 },
+        { id: 'Label_2', name: 'Alpha', path: 'Projects/Alpha', type: 'user', parentId: 'Label_1', unreadCount: 2, totalCount: 10 }
+      ]);
+    });
+
+    test('should create nested labels under the parent name', async () => {
+      const folder = await adapter.createFolder('Beta', { parentId: 'Label_1' });
+
+      expect(mockGmailApi.users.labels.create).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { name: 'Projects/Beta', labelListVisibility: 'labelShow', messageListVisibility: 'show' }
+      });
+      expect(folder).toMatchObject({ id: 'Label_3', name: 'Beta', path: 'Projects/Beta', parentId: 'Label_1' });
+    });
+
+    test('should keep the parent when renaming a nested label', async () => {
+      const folder = await adapter.renameFolder('Label_2', 'Gamma');
+
+      expect(mockGmailApi.users.labels.patch).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'Label_2',
+        requestBody: { name: 'Projects/Gamma' }
+      });
+      expect(folder).toMatchObject({ name: 'Gamma', path: 'Projects/Gamma', parentId: 'Label_1' });
+    });
+
+    test('should add and remove labels by ID', async () => {
+      await adapter.addLabels(['msg1'], ['Label_1']);
+      await adapter.removeLabels('msg1', ['Label_2']);
+
+      expect(mockGmailApi.users.messages.batchModify).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        requestBody: { ids: ['msg1'], addLabelIds: ['Label_1'], removeLabelIds: [] }
+      }));
+      expect(mockGmailApi.users.messages.batchModify).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        requestBody: { ids: ['msg1'], addLabelIds: [], removeLabelIds: ['Label_2'] }
+      }));
+    });
+
+    test('should scope fetchEmails to a folder', async () => {
+      await adapter.fetchEmails({ folderId: 'Label_1' });
+
+      expect(mockGmailApi.users.messages.list).toHaveBeenCalledWith(expect.objectContaining({ labelIds: ['Label_1'] }));
+    });
+  });
+
+  describe('label resolution', () => {
+    beforeEach(async () => {
+      mockGmailApi.users.labels.list.mockResolvedValue({
+        data: {
+          labels: [
+            { id: 'INBOX', name: 'INBOX', type: 'system' },
+            { id: 'UNREAD', name: 'UNREAD', type: 'system' },
+            { id: 'Label_1', name: 'Invoices', type: 'user' }
+          ]
+        }
+      });
+      mockGmailApi.users.messages.get.mockImplementation(({ id }: any) => Promise.resolve({
+        data: { id, threadId: `thread-${id}`, raw: Buffer.from('mock email content').toString('base64'), labelIds: ['INBOX', 'Label_1'] }
+      }));
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    test('should attach resolved labels alongside the raw IDs', async () => {
+      const { emails } = await adapter.fetchEmails({});
+
+      expect(emails[0].labels).toEqual(['INBOX', 'Label_1']);
+      expect(emails[0].labelDetails).toEqual([
+        { id: 'INBOX', name: 'INBOX', type: 'system', role: 'inbox' },
+        { id: 'Label_1', name: 'Invoices', type: 'user', role: undefined }
+      ]);
+    });
+
+    test('should load the label map once and reuse it', async () => {
+      await adapter.fetchEmails({});
+      await adapter.getEmailById('msg3');
+
+      expect(mockGmailApi.users.labels.list).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reload once when a label is unknown and keep the ID as its name', async () => {
+      const labels = await adapter.resolveLabels(['INBOX']);
+      const resolved = await adapter.resolveLabels(['Label_999']);
+      await adapter.resolveLabels(['Label_999']);
+
+      expect(labels[0].role).toBe('inbox');
+      expect(resolved).toEqual([{ id: 'Label_999', name: 'Label_999', type: 'user', role: undefined }]);
+      expect(mockGmailApi.users.labels.list).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reload after the TTL expires', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      adapter = new GmailAdapter({ labelCacheTtlMs: 1000 });
+      await adapter.initialize(mockData.gmailCredentials);
+
+      await adapter.resolveLabels(['INBOX']);
+      nowSpy.mockReturnValue(1_000_500);
+      await adapter.resolveLabels(['INBOX']);
+      nowSpy.mockReturnValue(1_002_000);
+      await adapter.resolveLabels(['INBOX']);
+
+      expect(mockGmailApi.users.labels.list).toHaveBeenCalledTimes(2);
+      nowSpy.mockRestore();
+    });
+
+    test('should drop the cache when labels change', async () => {
+      mockGmailApi.users.labels.delete = jest.fn().mockResolvedValue({});
+
+      await adapter.resolveLabels(['INBOX']);
+      await adapter.deleteFolder('Label_1');
+      await adapter.resolveLabels(['INBOX']);
+
+      expect(mockGmailApi.users.labels.list).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('threads', () => {
+    beforeEach(async () => {
+      mockGmailApi.users.threads = {
+        get: jest.fn().mockResolvedValue({
+          data: { id: 'thread1', messages: [{ id: 'msg1', snippet: 'First' }, { id: 'msg2', snippet: 'Latest reply' }] }
+        }),
+        list: jest.fn().mockResolvedValue({
+          data: { threads: [{ id: 'thread1' }], nextPageToken: 'threads-page-2', resultSizeEstimate: 7 }
+        })
+      };
+      const MockEmailParserService = EmailParserService as jest.MockedClass<typeof EmailParserService>;
+      MockEmailParserService.prototype.parseEmail.mockImplementation(async (_raw, id) => ({
+        id,
+        from: { address: 'sender@example.com' },
+        to: [{ address: 'recipient@example.com' }],
+        subject: id === 'msg1' ? 'Original' : 'Re: Original',
+        attachments: [],
+        date: new Date(id === 'msg1' ? '2024-01-01' : '2024-01-02'),
+        provider: 'gmail'
+      }));
+      await adapter.initialize(mockData.gmailCredentials);
+    });
+
+    test('should load every message of a thread oldest first', async () => {
+      const thread = await adapter.getThread('thread1');
+
+      expect(mockGmailApi.users.threads.get).toHaveBeenCalledWith({ userId: 'me', id: 'thread1', format: 'minimal' });
+      expect(thread!.messages.map(message => message.id)).toEqual(['msg1', 'msg2']);
+      expect(thread!.subject).toBe('Original');
+      expect(thread!.snippet).toBe('Latest reply');
+      expect(thread!.unread).toBe(true); // messages.get reports UNREAD
+    });
+
+    test('should return null for a missing thread', async () => {
+      mockGmailApi.users.threads.get.mockRejectedValueOnce(Object.assign(new Error('Not Found'), { code: 404 }));
+
+      await expect(adapter.getThread('missing')).resolves.toBeNull();
+    });
+
+    test('should list threads with the fetchEmails filters', async () => {
+      const result = await adapter.fetchThreads({ limit: 5, unreadOnly: true, folderId: 'Label_1' });
+
+      expect(mockGmailApi.users.threads.list).toHaveBeenCalledWith({
+        userId: 'me',
+        q: 'is:unread',
+        labelIds: ['Label_1'],
+        maxResults: 5,
+        pageToken: undefined
+      });
+      expect(result.threads).toHaveLength(1);
+      expect(result.nextPageToken).toBe('threads-page-2');
+      expect(result.totalCount).toBe(7);
+    });
   });
 });
@@ -0,0 +1,800 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ImapAdapter } from '../../src/adapters/ImapAdapter.js';
+
+// Mock dependencies
+jest.mock('imapflow');
+
+const buildRawEmail = (uid: number) => Buffer.from(
+  `From: sender${uid}@example.com\r\n` +
+  `To: recipient@example.com\r\n` +
+  `Subject: Test Email ${uid}\r\n` +
+  `Message-ID: <msg-${uid}@example.com>\r\n` +
+  `Date: Mon, 15 Jan 2024 12:00:00 +0000\r\n` +
+  `\r\n` +
+  `Body of email ${uid}`
+);
+
+describe('ImapAdapter', () => {
+  let adapter: ImapAdapter;
+  let mockClient: any;
+  let mailboxUids: number[];
+
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    mailboxUids = [101, 102, 103, 104, 105];
+
+    mockClient = Object.assign(new EventEmitter(), {
+      mailbox: { path: 'INBOX', uidValidity: BigInt(1), uidNext: 106, exists: 5, highestModseq: BigInt(500) },
+      enabled: new Set(['CONDSTORE', 'QRESYNC']),
+      connect: jest.fn().mockResolvedValue(undefined),
+      logout: jest.fn().mockResolvedValue(undefined),
+      getMailboxLock: jest.fn().mockResolvedValue({ path: 'INBOX', release: jest.fn() }),
+      search: jest.fn().mockImplementation(() => Promise.resolve([...mailboxUids])),
+      fetch: jest.fn().mockImplementation(async function* (uids: number[], query: any) {
+        // Servers answer in mailbox order regardless of requested order
+        for (const uid of [...uids].sort((a, b) => a - b)) {
+          yield {
+            uid,
+            seq: uid - 100,
+            source: query.source ? buildRawEmail(uid) : undefined,
+            headers: query.headers ? buildRawEmail(uid) : undefined
+          };
+        }
+      })
+    });
+
+    const { ImapFlow } = require('imapflow');
+    ImapFlow.mockImplementation(() => mockClient);
+
+    adapter = new ImapAdapter({
+      host: 'imap.example.com',
+      port: 993,
+      secure: true,
+      auth: { user: 'user@example.com', pass: 'password' }
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('fetchEmails', () => {
+    test('should write attachments to attachmentDir instead of keeping buffers', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'unimail-imap-'));
+      mockClient.fetch.mockImplementation(async function* (uids: number[]) {
+        for (const uid of uids) {
+          yield {
+            uid,
+            source: Buffer.from(
+              'From: sender@example.com\r\n' +
+              'Subject: Report\r\n' +
+              'Content-Type: multipart/mixed; boundary="b"\r\n' +
+              '\r\n' +
+              '--b\r\nContent-Type: text/plain\r\n\r\nSee attached\r\n' +
+              '--b\r\nContent-Type: application/pdf; name="../report.pdf"\r\n' +
+              'Content-Disposition: attachment; filename="../report.pdf"\r\n' +
+              'Content-Transfer-Encoding: base64\r\n\r\n' +
+              `${Buffer.from(`pdf ${uid}`).toString('base64')}\r\n` +
+              '--b--\r\n'
+            )
+          };
+        }
+      });
+
+      try {
+        const result = await adapter.fetchEmails({ pageSize: 2, attachmentDir: dir });
+
+        const [first, second] = result.emails.map(email => email.attachments[0]);
+        expect(first.buffer).toBeUndefined();
+        expect(first.filePath).toBe(path.join(dir, 'report.pdf'));
+        expect(second.filePath).toBe(path.join(dir, 'report (1).pdf'));
+        expect(await fs.readFile(first.filePath!, 'utf-8')).toBe('pdf 105');
+        expect(await fs.readFile(second.filePath!, 'utf-8')).toBe('pdf 104');
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('should keep only the attachmentTypes asked for, judged by content', async () => {
+      mockClient.fetch.mockImplementation(async function* (uids: number[]) {
+        for (const uid of uids) {
+          yield {
+            uid,
+            source: Buffer.from(
+              'From: sender@example.com\r\n' +
+              'Content-Type: multipart/mixed; boundary="b"\r\n' +
+              '\r\n' +
+              '--b\r\nContent-Type: text/plain\r\n\r\nScans attached\r\n' +
+              '--b\r\nContent-Type: application/octet-stream; name="scan"\r\n' +
+              'Content-Disposition: attachment; filename="scan"\r\n' +
+              'Content-Transfer-Encoding: base64\r\n\r\n' +
+              `${Buffer.from('%PDF-1.4 scan').toString('base64')}\r\n` +
+              '--b\r\nContent-Type: application/zip; name="logs.zip"\r\n' +
+              'Content-Disposition: attachment; filename="logs.zip"\r\n' +
+              'Content-Transfer-Encoding: base64\r\n\r\n' +
+              `${Buffer.from([0x50, 0x4b, 0x03, 0x04]).toString('base64')}\r\n` +
+              '--b--\r\n'
+            )
+          };
+        }
+      });
+
+      const result = await adapter.fetchEmails({ pageSize: 1, attachmentTypes: ['pdf', 'image'] });
+
+      expect(result.emails[0].attachments).toHaveLength(1);
+      expect(result.emails[0].attachments[0]).toEqual(expect.objectContaining({
+        filename: 'scan',
+        mimeType: 'application/octet-stream',
+        detectedMimeType: 'application/pdf',
+        category: 'document'
+      }));
+    });
+
+    test('should extract attachment text while fetching when extractText is set', async () => {
+      mockClient.fetch.mockImplementation(async function* (uids: number[]) {
+        for (const uid of uids) {
+          yield {
+            uid,
+            source: Buffer.from(
+              'From: sender@example.com\r\n' +
+              'Content-Type: multipart/mixed; boundary="b"\r\n' +
+              '\r\n' +
+              '--b\r\nContent-Type: text/plain\r\n\r\nMinutes attached\r\n' +
+              '--b\r\nContent-Type: text/html; name="minutes.html"\r\n' +
+              'Content-Disposition: attachment; filename="minutes.html"\r\n\r\n' +
+              '<h1>Minutes</h1><p>Ship on Friday</p>\r\n' +
+              '--b--\r\n'
+            )
+          };
+        }
+      });
+
+      const result = await adapter.fetchEmails({ pageSize: 1, extractText: true });
+
+      expect(result.emails[0].attachments[0].extractedText).toBe('Minutes\n\nShip on Friday');
+      expect(result.emails[0].attachments[0].extraction).toEqual({ extractor: 'html' });
+    });
+
+    test('should return the newest page with a UID page token', async () => {
+      const result = await adapter.fetchEmails({ pageSize: 2 });
+
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('INBOX');
+      expect(mockClient.search).toHaveBeenCalledWith({ all: true }, { uid: true });
+      expect(result.emails.map(e => e.id)).toEqual(['105', '104']);
+      expect(result.emails[0].provider).toBe('imap');
+      expect(result.emails[0].subject).toBe('Test Email 105');
+      expect(result.nextPageToken).toBe('104');
+      expect(result.totalCount).toBe(5);
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should continue from the page token', async () => {
+      const result = await adapter.fetchEmails({ pageSize: 2, pageToken: '103' });
+
+      expect(result.emails.map(e => e.id)).toEqual(['102', '101']);
+      expect(result.nextPageToken).toBeUndefined();
+    });
+
+    test('should build search criteria from shared fetch options', async () => {
+      const since = new Date('2024-01-01');
+      const before = new Date('2024-02-01');
+
+      await adapter.fetchEmails({ since, before, unreadOnly: true, query: 'invoice', mailbox: 'Archive' });
+
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('Archive');
+      expect(mockClient.search).toHaveBeenCalledWith(
+        { since, before, seen: false, body: 'invoice' },
+        { uid: true }
+      );
+    });
+
+    test('should only fetch headers when body and attachments are not needed', async () => {
+      const result = await adapter.fetchEmails({ includeBody: false, includeAttachments: false });
+
+      expect(mockClient.fetch).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ headers: true }),
+        { uid: true }
+      );
+      expect(result.emails[0].bodyText).toBeUndefined();
+      expect(result.emails[0].subject).toBe('Test Email 105');
+    });
+
+    test('should reject an invalid page token', async () => {
+      await expect(adapter.fetchEmails({ pageToken: 'not-a-uid' })).rejects.toThrow('Invalid IMAP page token');
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should close the connection when the mailbox cannot be opened', async () => {
+      mockClient.getMailboxLock.mockRejectedValueOnce(new Error('Mailbox does not exist'));
+
+      await expect(adapter.fetchEmails({ mailbox: 'Missing' })).rejects.toThrow('Mailbox does not exist');
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+  });
+
+  describe('attachments', () => {
+    const { Readable } = require('stream');
+    const partContent: Record<string, string> = { '1': 'See attached', '2': '%PDF-1' };
+
+    beforeEach(() => {
+      mockClient.mailbox = { ...mockClient.mailbox, path: 'Archive' };
+      mockClient.fetch.mockImplementation(async function* (uids: number[], query: any) {
+        for (const uid of uids) {
+          yield {
+            uid,
+            headers: buildRawEmail(uid),
+            source: query.source ? buildRawEmail(uid) : undefined,
+            bodyStructure: {
+              type: 'multipart/mixed',
+              childNodes: [
+                { part: '1', type: 'text/plain', childNodes: [] },
+                {
+                  part: '2',
+                  type: 'application/pdf',
+                  encoding: 'base64',
+                  size: 8,
+                  disposition: 'attachment',
+                  dispositionParameters: { filename: 'report.pdf' },
+                  childNodes: []
+                }
+              ]
+            }
+          };
+        }
+      });
+      mockClient.download = jest.fn().mockImplementation(async (_uid: string, part: string) => ({
+        meta: {},
+        content: Readable.from([Buffer.from(partContent[part])])
+      }));
+    });
+
+    test('should list attachments from the body structure in metadata attachment mode', async () => {
+      const result = await adapter.fetchEmails({ pageSize: 1, attachmentMode: 'metadata', folderId: 'Archive' });
+
+      expect(mockClient.fetch).toHaveBeenCalledWith([105], expect.not.objectContaining({ source: true }), { uid: true });
+      expect(mockClient.download).toHaveBeenCalledTimes(1);
+      expect(mockClient.download).toHaveBeenCalledWith('105', '1', { uid: true });
+      expect(result.emails[0].bodyText).toBe('See attached');
+      expect(result.emails[0].attachments).toEqual([{
+        filename: 'report.pdf',
+        mimeType: 'application/pdf',
+        size: 6,
+        contentId: undefined,
+        attachmentId: '2',
+        source: { provider: 'imap', emailId: '105', mailbox: 'Archive' },
+        category: 'document'
+      }]);
+    });
+
+    test('should not download listed attachments just to extract their text', async () => {
+      const result = await adapter.fetchEmails({ pageSize: 1, attachmentMode: 'metadata', folderId: 'Archive', extractText: true });
+
+      expect(mockClient.download).toHaveBeenCalledTimes(1);
+      expect(result.emails[0].attachments[0].extraction).toBeUndefined();
+    });
+
+    test('should download a listed attachment from its mailbox and release the connection', async () => {
+      const result = await adapter.fetchEmails({ pageSize: 1, attachmentMode: 'metadata', folderId: 'Archive' });
+      mockClient.logout.mockClear();
+
+      await expect(result.emails[0].attachments[0].download!()).resolves.toEqual(Buffer.from('%PDF-1'));
+      expect(mockClient.getMailboxLock).toHaveBeenLastCalledWith('Archive');
+      expect(mockClient.download).toHaveBeenLastCalledWith('105', '2', { uid: true });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should wrap download errors in getAttachment', async () => {
+      mockClient.download.mockRejectedValueOnce(new Error('Part not found'));
+
+      await expect(adapter.getAttachment('105', '9')).rejects.toThrow('Failed to get attachment 9 of email 105: Part not found');
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+  });
+
+  describe('streamEmails', () => {
+    test('should stream all matching emails in batches over one connection', async () => {
+      const batches: string[][] = [];
+      for await (const batch of adapter.streamEmails({ batchSize: 2 })) {
+        batches.push(batch.map(e => e.id));
+      }
+
+      expect(batches).toEqual([['105', '104'], ['103', '102'], ['101']]);
+      expect(mockClient.connect).toHaveBeenCalledTimes(1);
+      expect(mockClient.logout).toHaveBeenCalledTimes(1);
+    });
+
+    test('should report exact totals through fetchEmailsStream', async () => {
+      const onBatch = jest.fn();
+
+      await adapter.fetchEmailsStream({ batchSize: 3 }, { onBatch });
+
+      expect(onBatch).toHaveBeenCalledTimes(2);
+      expect(onBatch.mock.calls[0][1]).toEqual(expect.objectContaining({ current: 3, total: 5, estimatedRemaining: 2 }));
+    });
+  });
+
+  describe('watch', () => {
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+      // Range fetches from the watcher ask for "lastUid+1:*"
+      mockClient.fetch.mockImplementation(async function* (range: string, query: any) {
+        const from = parseInt(range.split(':')[0], 10);
+        const matching = mailboxUids.filter(uid => uid >= from);
+        // "N:*" always returns the newest message even if it is below N
+        const uids = matching.length > 0 ? matching : [mailboxUids[mailboxUids.length - 1]];
+        for (const uid of uids) {
+          yield { uid, seq: uid - 100, source: query.source ? buildRawEmail(uid) : undefined };
+        }
+      });
+    });
+
+    test('should emit only messages that arrive after the watch starts', async () => {
+      const watcher = await adapter.watch();
+      const received: string[] = [];
+      watcher.on('email', email => received.push(email.id));
+
+      mailboxUids.push(106, 107);
+      mockClient.emit('exists', { path: 'INBOX', count: 7, prevCount: 5 });
+      // Parsing runs on real streams, so give it a few turns of the event loop
+      for (let i = 0; i < 20 && received.length < 2; i++) {
+        await flush();
+      }
+
+      expect(received).toEqual(['106', '107']);
+      expect(watcher.lastSeenUid).toBe(107);
+
+      await watcher.stop();
+    });
+
+    test('should report a message that fails to parse by its UID and carry on', async () => {
+      const watcher = await adapter.watch();
+      const received: string[] = [];
+      const errors: Error[] = [];
+      watcher.on('email', email => received.push(email.id));
+      watcher.on('error', error => errors.push(error));
+      const parser = (adapter as any).emailParserService;
+      jest.spyOn(parser, 'parseEmail').mockRejectedValueOnce(new Error('Malformed MIME'));
+
+      mailboxUids.push(106, 107);
+      mockClient.emit('exists', { path: 'INBOX', count: 7, prevCount: 5 });
+      for (let i = 0; i < 20 && received.length < 1; i++) {
+        await flush();
+      }
+
+      expect(errors.map(error => error.message)).toEqual(['Failed to parse message UID 106: Malformed MIME']);
+      expect(received).toEqual(['107']);
+      expect(watcher.lastSeenUid).toBe(107);
+
+      await watcher.stop();
+    });
+
+    test('should catch up from sinceUid before resolving', async () => {
+      const watcher = await adapter.watch({ sinceUid: 103 });
+
+      expect(mockClient.fetch).toHaveBeenCalledWith('104:*', expect.any(Object), { uid: true });
+      expect(watcher.lastSeenUid).toBe(105);
+      await watcher.stop();
+    });
+
+    test('should reconnect after the connection closes', async () => {
+      const watcher = await adapter.watch({ initialReconnectDelay: 1 });
+      const reconnecting = jest.fn();
+      watcher.on('reconnecting', reconnecting);
+
+      mockClient.emit('close');
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(reconnecting).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 1 }));
+      expect(mockClient.connect).toHaveBeenCalledTimes(2);
+
+      await watcher.stop();
+    });
+
+    test('should log out and stop emitting when stopped', async () => {
+      const watcher = await adapter.watch();
+      const stopped = jest.fn();
+      watcher.on('stopped', stopped);
+
+      await watcher.stop();
+
+      expect(mockClient.logout).toHaveBeenCalled();
+      expect(stopped).toHaveBeenCalled();
+      expect(watcher.isRunning).toBe(false);
+    });
+  });
+
+  describe('sync', () => {
+    const decodeToken = (token: string) => JSON.parse(Buffer.from(token, 'base64url').toString('utf-8'));
+    const encodeToken = (token: object) => Buffer.from(JSON.stringify(token)).toString('base64url');
+
+    beforeEach(() => {
+      mockClient.search.mockImplementation(async (query: any) => {
+        if (query.uid) {
+          const [from, to] = query.uid.split(':');
+          const max = to === '*' ? Infinity : parseInt(to || from, 10);
+          const matching = mailboxUids.filter(uid => uid >= parseInt(from, 10) && uid <= max);
+          return matching.length > 0 || to !== '*' ? matching : [mailboxUids[mailboxUids.length - 1]];
+        }
+        return [...mailboxUids];
+      });
+
+      mockClient.fetch.mockImplementation(async function* (range: any, query: any, options: any) {
+        if (options.changedSince) {
+          // Flag change on 102, and 103 expunged since the last sync
+          mockClient.emit('expunge', { path: 'INBOX', uid: 103, vanished: true, earlier: true });
+          yield { uid: 102, seq: 2, flags: new Set(['\\Seen']) };
+          return;
+        }
+        for (const uid of range) {
+          yield { uid, seq: uid - 100, flags: new Set(['\\Seen']), source: buildRawEmail(uid) };
+        }
+      });
+    });
+
+    test('should return a token describing the mailbox state', async () => {
+      const token = decodeToken(await adapter.getCurrentHistoryId());
+
+      expect(token).toEqual({ mailbox: 'INBOX', uidValidity: '1', lastUid: 105, highestModseq: '500' });
+    });
+
+    test('should store the known UID set when QRESYNC is unavailable', async () => {
+      mockClient.enabled = new Set(['CONDSTORE']);
+      mailboxUids = [101, 102, 103, 105];
+
+      const token = decodeToken(await adapter.getCurrentHistoryId());
+
+      expect(token.uids).toBe('101:103,105');
+    });
+
+    test('should report added, updated and vanished messages with QRESYNC', async () => {
+      const startHistoryId = encodeToken({ mailbox: 'INBOX', uidValidity: '1', lastUid: 103, highestModseq: '400' });
+      mailboxUids = [101, 102, 104, 105];
+      mockClient.mailbox.highestModseq = BigInt(600);
+
+      const result = await adapter.processSync({ startHistoryId });
+
+      expect(result.addedEmails.map(e => e.id)).toEqual(['104', '105']);
+      expect(result.updatedEmails.map(e => e.id)).toEqual(['102']);
+      expect(result.updatedEmails[0].labels).toEqual(['\\Seen']);
+      expect(result.deletedEmailIds).toEqual(['103']);
+      expect(result.hasMoreChanges).toBe(false);
+      expect(decodeToken(result.newHistoryId)).toEqual({ mailbox: 'INBOX', uidValidity: '1', lastUid: 105, highestModseq: '600' });
+    });
+
+    test('should detect deletions from the stored UID set without QRESYNC', async () => {
+      mockClient.enabled = new Set();
+      const startHistoryId = encodeToken({ mailbox: 'INBOX', uidValidity: '1', lastUid: 103, uids: '101:103' });
+      mailboxUids = [101, 103, 104];
+      mockClient.mailbox.uidNext = 105;
+
+      const result = await adapter.processSync({ startHistoryId });
+
+      expect(result.deletedEmailIds).toEqual(['102']);
+      expect(result.addedEmails.map(e => e.id)).toEqual(['104']);
+      expect(result.updatedEmails).toEqual([]);
+      expect(decodeToken(result.newHistoryId).uids).toBe('101,103:104');
+    });
+
+    test('should cap added emails at maxResults and resume from the last one', async () => {
+      const startHistoryId = encodeToken({ mailbox: 'INBOX', uidValidity: '1', lastUid: 101, highestModseq: '500' });
+      mockClient.enabled = new Set(['QRESYNC']);
+
+      const result = await adapter.processSync({ startHistoryId, maxResults: 2 });
+
+      expect(result.addedEmails.map(e => e.id)).toEqual(['102', '103']);
+      expect(result.hasMoreChanges).toBe(true);
+      expect(decodeToken(result.newHistoryId).lastUid).toBe(103);
+    });
+
+    test('should reject a token from a different UIDVALIDITY', async () => {
+      const startHistoryId = encodeToken({ mailbox: 'INBOX', uidValidity: '99', lastUid: 105 });
+
+      await expect(adapter.processSync({ startHistoryId })).rejects.toThrow('UIDVALIDITY of INBOX changed');
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should reject a malformed token', async () => {
+      await expect(adapter.processSync({ startHistoryId: 'garbage' })).rejects.toThrow('Invalid IMAP sync token');
+    });
+  });
+
+  describe('mutations', () => {
+    beforeEach(() => {
+      mockClient.messageFlagsAdd = jest.fn().mockResolvedValue(true);
+      mockClient.messageFlagsRemove = jest.fn().mockResolvedValue(true);
+      mockClient.messageMove = jest.fn().mockResolvedValue({});
+      mockClient.messageDelete = jest.fn().mockResolvedValue(true);
+      mockClient.list = jest.fn().mockResolvedValue([
+        { path: 'INBOX' },
+        { path: 'Archive', specialUse: '\\Archive' },
+        { path: 'Deleted Messages', specialUse: '\\Trash' }
+      ]);
+    });
+
+    test('should set \\Seen on a compressed UID set', async () => {
+      await adapter.markAsRead(['101', '102', '103', '107']);
+
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('INBOX');
+      expect(mockClient.messageFlagsAdd).toHaveBeenCalledWith('101:103,107', ['\\Seen'], { uid: true });
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should clear \\Flagged in the given mailbox', async () => {
+      await adapter.unflag('42', { mailbox: 'Work' });
+
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('Work');
+      expect(mockClient.messageFlagsRemove).toHaveBeenCalledWith('42', ['\\Flagged'], { uid: true });
+    });
+
+    test('should move emails to the special-use trash mailbox', async () => {
+      await adapter.moveToTrash(['101']);
+
+      expect(mockClient.messageMove).toHaveBeenCalledWith('101', 'Deleted Messages', { uid: true });
+    });
+
+    test('should fail when the server has no archive mailbox', async () => {
+      mockClient.list.mockResolvedValueOnce([{ path: 'INBOX' }]);
+
+      await expect(adapter.archive('101')).rejects.toThrow('Failed to archive emails: No \\Archive mailbox found on the server');
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should reject IDs that are not UIDs', async () => {
+      await expect(adapter.permanentlyDelete(['abc'])).rejects.toThrow('Invalid IMAP UID abc');
+      expect(mockClient.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendEmail', () => {
+    test('should delegate to the SmtpSender', async () => {
+      const smtpSender = { sendEmail: jest.fn().mockResolvedValue({ messageId: '<m1@example.com>' }) };
+      const withSmtp = new ImapAdapter({ host: 'imap.example.com', port: 993, auth: { user: 'u', pass: 'p' } }, smtpSender as any);
+
+      await expect(withSmtp.sendEmail({ to: 'a@example.com', text: 'Hi' })).resolves.toEqual({ messageId: '<m1@example.com>' });
+      expect(smtpSender.sendEmail).toHaveBeenCalledWith({ to: 'a@example.com', text: 'Hi' });
+    });
+
+    test('should explain that IMAP needs an SmtpSender', async () => {
+      await expect(adapter.sendEmail({ to: 'a@example.com', text: 'Hi' })).rejects.toThrow('pass an SmtpSender');
+    });
+  });
+
+  describe('drafts', () => {
+    beforeEach(() => {
+      mockClient.list = jest.fn().mockResolvedValue([{ path: 'INBOX' }, { path: 'Drafts', specialUse: '\\Drafts' }]);
+      mockClient.append = jest.fn().mockResolvedValue({ destination: 'Drafts', uid: 103 });
+      mockClient.messageDelete = jest.fn().mockResolvedValue(true);
+    });
+
+    test('should append drafts to the special-use mailbox with the \\Draft flag', async () => {
+      const draft = await adapter.createDraft({ to: 'a@example.com', subject: 'Later', text: 'Draft body' });
+
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('Drafts');
+      expect(mockClient.append).toHaveBeenCalledWith('Drafts', expect.any(Buffer), ['\\Draft', '\\Seen']);
+      expect(mockClient.append.mock.calls[0][1].toString()).toContain('Subject: Later');
+      expect(draft).toEqual(expect.objectContaining({ id: '103', isDraft: true, draftId: '103' }));
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should find the appended draft by Message-ID without UIDPLUS', async () => {
+      mockClient.append.mockResolvedValueOnce({ destination: 'Drafts' });
+      mockClient.search.mockResolvedValueOnce([104]);
+
+      const draft = await adapter.createDraft({ to: 'a@example.com', text: 'Draft body' });
+
+      expect(mockClient.search).toHaveBeenCalledWith({ header: { 'message-id': expect.stringMatching(/^<.+>$/) } }, { uid: true });
+      expect(draft.draftId).toBe('104');
+    });
+
+    test('should replace a draft by appending and expunging the old UID', async () => {
+      const draft = await adapter.updateDraft('101', { to: 'a@example.com', text: 'Edited' }, { mailbox: 'Entwürfe' });
+
+      expect(mockClient.list).not.toHaveBeenCalled();
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('Entwürfe');
+      expect(mockClient.messageDelete).toHaveBeenCalledWith('101', { uid: true });
+      expect(draft.draftId).toBe('103');
+    });
+
+    test('should list drafts newest first', async () => {
+      const response = await adapter.listDrafts({ limit: 2 });
+
+      expect(response.emails.map(email => email.draftId)).toEqual(['105', '104']);
+      expect(response.emails.every(email => email.isDraft)).toBe(true);
+      expect(response.nextPageToken).toBe('104');
+    });
+
+    test('should send the stored draft over SMTP as saved and then delete it', async () => {
+      const source = Buffer.from(
+        'From: me@example.com\r\n' +
+        'To: a@example.com\r\n' +
+        'Cc: b@example.com\r\n' +
+        'Bcc: hidden@example.com\r\n' +
+        'Reply-To: replies@example.com\r\n' +
+        'In-Reply-To: <parent@example.com>\r\n' +
+        'X-Campaign: spring\r\n' +
+        'Subject: Later\r\n' +
+        '\r\n' +
+        'Draft body'
+      );
+      mockClient.fetch.mockImplementation(async function* (uids: number[]) {
+        yield { uid: uids[0], source };
+      });
+      const smtpSender = { sendRawMessage: jest.fn().mockResolvedValue({ messageId: '<m1@example.com>' }) };
+      adapter = new ImapAdapter({ host: 'imap.example.com', port: 993, auth: { user: 'u', pass: 'p' } }, smtpSender as any);
+
+      await expect(adapter.sendDraft('102')).resolves.toEqual({ messageId: '<m1@example.com>' });
+      expect(smtpSender.sendRawMessage).toHaveBeenCalledWith(source, {
+        from: 'me@example.com',
+        to: ['a@example.com', 'b@example.com', 'hidden@example.com']
+      });
+      expect(mockClient.messageDelete).toHaveBeenCalledWith('102', { uid: true });
+    });
+
+    test('should not send a draft that does not exist', async () => {
+      const smtpSender = { sendRawMessage: jest.fn() };
+      adapter = new ImapAdapter({ host: 'imap.example.com', port: 993, auth: { user: 'u', pass: 'p' } }, smtpSender as any);
+      mockClient.fetch.mockImplementation(async function* () {});
+
+      await expect(adapter.sendDraft('999')).rejects.toThrow('Failed to send draft 999: draft not found');
+      expect(smtpSender.sendRawMessage).not.toHaveBeenCalled();
+    });
+
+    test('should fail clearly when the server has no drafts mailbox', async () => {
+      mockClient.list.mockResolvedValueOnce([{ path: 'INBOX' }]);
+
+      await expect(adapter.listDrafts()).rejects.toThrow('Failed to list drafts: No \\Drafts mailbox found on the server');
+    });
+  });
+
+  describe('folders', () => {
+    let mailboxes: any[];
+
+    beforeEach(() => {
+      mailboxes = [
+        { path: 'INBOX', name: 'INBOX', parentPath: '', specialUse: '\\Inbox', status: { messages: 5, unseen: 2 } },
+        { path: 'Work', name: 'Work', parentPath: '', status: { messages: 3, unseen: 0 } },
+        { path: 'Work/Clients', name: 'Clients', parentPath: 'Work', status: { messages: 1, unseen: 1 } }
+      ];
+      mockClient.list = jest.fn().mockImplementation(() => Promise.resolve(mailboxes));
+      mockClient.mailboxCreate = jest.fn().mockImplementation((path: string | string[]) => {
+        const fullPath = Array.isArray(path) ? path.join('/') : path;
+        mailboxes.push({ path: fullPath, name: fullPath.split('/').pop(), parentPath: Array.isArray(path) ? path[0] : '' });
+        return Promise.resolve({ path: fullPath, created: true });
+      });
+      mockClient.mailboxRename = jest.fn().mockImplementation((path: string, newPath: string | string[]) => {
+        const fullPath = Array.isArray(newPath) ? newPath.join('/') : newPath;
+        const mailbox = mailboxes.find(item => item.path === path);
+        Object.assign(mailbox, { path: fullPath, name: fullPath.split('/').pop() });
+        return Promise.resolve({ path, newPath: fullPath });
+      });
+      mockClient.mailboxDelete = jest.fn().mockResolvedValue({ path: 'Work' });
+      mockClient.messageFlagsAdd = jest.fn().mockResolvedValue(true);
+      mockClient.messageFlagsRemove = jest.fn().mockResolvedValue(true);
+    });
+
+    test('should list mailboxes with status counts', async () => {
+      const folders = await adapter.listFolders();
+
+      expect(mockClient.list).toHaveBeenCalledWith({ statusQuery: { messages: true, unseen: true } });
+      expect(folders).toEqual([
+        { id: 'INBOX', name: 'INBOX', path: 'INBOX', type: 'system', role: 'inbox', parentId: undefined, unreadCount: 2, totalCount: 5 },
+        { id: 'Work', name: 'Work', path: 'Work', type: 'user', parentId: undefined, unreadCount: 0, totalCount: 3 },
+        { id: 'Work/Clients', name: 'Clients', path: 'Work/Clients', type: 'user', parentId: 'Work', unreadCount: 1, totalCount: 1 }
+      ]);
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should create a mailbox under its parent', async () => {
+      const folder = await adapter.createFolder('Suppliers', { parentId: 'Work' });
+
+      expect(mockClient.mailboxCreate).toHaveBeenCalledWith(['Work', 'Suppliers']);
+      expect(folder).toMatchObject({ id: 'Work/Suppliers', name: 'Suppliers', parentId: 'Work' });
+    });
+
+    test('should rename a mailbox without moving it', async () => {
+      const folder = await adapter.renameFolder('Work/Clients', 'Customers');
+
+      expect(mockClient.mailboxRename).toHaveBeenCalledWith('Work/Clients', ['Work', 'Customers']);
+      expect(folder).toMatchObject({ id: 'Work/Customers', name: 'Customers' });
+    });
+
+    test('should wrap errors when deleting', async () => {
+      mockClient.mailboxDelete.mockRejectedValueOnce(new Error('Mailbox is in use'));
+
+      await expect(adapter.deleteFolder('Work')).rejects.toThrow('Failed to delete folder Work: Mailbox is in use');
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+
+    test('should add and remove keywords as labels', async () => {
+      await adapter.addLabels(['101', '102'], ['Invoices']);
+      await adapter.removeLabels('101', ['Invoices'], { mailbox: 'Work' });
+
+      expect(mockClient.messageFlagsAdd).toHaveBeenCalledWith('101:102', ['Invoices'], { uid: true });
+      expect(mockClient.getMailboxLock).toHaveBeenLastCalledWith('Work');
+      expect(mockClient.messageFlagsRemove).toHaveBeenCalledWith('101', ['Invoices'], { uid: true });
+    });
+
+    test('should scope fetchEmails to a folder', async () => {
+      await adapter.fetchEmails({ folderId: 'Work/Clients' });
+
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('Work/Clients');
+    });
+  });
+
+  describe('threads', () => {
+    const message = (uid: number, headers: string, flags: string[]) => ({
+      uid,
+      flags: new Set(flags),
+      source: Buffer.from(`From: user${uid}@example.com\r\nTo: team@example.com\r\nDate: Mon, ${uid - 100} Jan 2024 12:00:00 +0000\r\n${headers}\r\nbody ${uid}`)
+    });
+    const messages: Record<number, any> = {
+      101: message(101, 'Subject: Launch\r\nMessage-ID: <root@example.com>\r\n', ['\\Seen']),
+      102: message(102, 'Subject: Re: Launch\r\nMessage-ID: <reply@example.com>\r\nReferences: <root@example.com>\r\n', []),
+      103: message(103, 'Subject: Re: Launch\r\nMessage-ID: <late@example.com>\r\nIn-Reply-To: <reply@example.com>\r\nReferences: <root@example.com> <reply@example.com>\r\n', ['\\Seen'])
+    };
+
+    beforeEach(() => {
+      // Every message here belongs to the thread started by <root@example.com>
+      mockClient.search = jest.fn().mockImplementation((query: any) =>
+        Promise.resolve(query.or ? [101, 102, 103] : [103, 102]));
+      mockClient.fetch = jest.fn().mockImplementation(async function* (uids: number[], query: any) {
+        for (const uid of [...uids].sort((a, b) => a - b)) {
+          yield query.source ? messages[uid] : { uid, flags: messages[uid].flags, headers: messages[uid].source };
+        }
+      });
+    });
+
+    test('should rebuild a thread from its root Message-ID', async () => {
+      const thread = await adapter.getThread('<root@example.com>', 'Work');
+
+      expect(mockClient.getMailboxLock).toHaveBeenCalledWith('Work');
+      expect(mockClient.search).toHaveBeenCalledWith({
+        or: [
+          { header: { 'message-id': '<root@example.com>' } },
+          { header: { references: '<root@example.com>' } },
+          { header: { 'in-reply-to': '<root@example.com>' } }
+        ]
+      }, { uid: true });
+      expect(thread!.messages.map(email => email.id)).toEqual(['101', '102', '103']);
+      expect(thread!.messages.every(email => email.threadId === '<root@example.com>')).toBe(true);
+      expect(thread!.subject).toBe('Launch');
+      expect(thread!.unread).toBe(true);
+    });
+
+    test('should thread replies that only carry In-Reply-To', async () => {
+      messages[104] = message(104, 'Subject: Re: Launch\r\nMessage-ID: <short@example.com>\r\nIn-Reply-To: <root@example.com>\r\n', []);
+      mockClient.search.mockResolvedValueOnce([104]);
+
+      const { emails } = await adapter.fetchEmails({ limit: 1 });
+      delete messages[104];
+
+      expect(emails[0].inReplyTo).toBe('<root@example.com>');
+      expect(emails[0].threadId).toBe('<root@example.com>');
+    });
+
+    test('should set threadId on fetched emails to the root Message-ID', async () => {
+      const { emails } = await adapter.fetchEmails({ limit: 2 });
+
+      expect(emails.map(email => email.threadId)).toEqual(['<root@example.com>', '<root@example.com>']);
+    });
+
+    test('should group fetched messages into threads', async () => {
+      const result = await adapter.fetchThreads({ limit: 2 });
+
+      expect(mockClient.search).toHaveBeenCalledTimes(2); // The page, then one thread lookup
+      expect(result.threads).toHaveLength(1);
+      expect(result.threads[0].id).toBe('<root@example.com>');
+      expect(result.totalCount).toBe(2);
+      expect(mockClient.logout).toHaveBeenCalled();
+    });
+  });
+});
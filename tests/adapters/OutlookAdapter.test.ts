@@ -38,6 +38,8 @@ describe('OutlookAdapter', () => {
       api: jest.fn().mockReturnThis(),
       get: jest.fn(),
       post: jest.fn(),
+      patch: jest.fn(),
+      delete: jest.fn(),
       select: jest.fn().mockReturnThis(),
       filter: jest.fn().mockReturnThis(),
       top: jest.fn().mockReturnThis(),
@@ -102,8 +104,8 @@ describe('OutlookAdapter', () => {
     const MockEmailParserService = EmailParserService as jest.MockedClass<typeof EmailParserService>;
     MockEmailParserService.prototype.parseEmail.mockResolvedValue({
       id: 'test-email-id',
-      from: 'sender@example.com',
-      to: ['recipient@example.com'],
+      from: { address: 'sender@example.com' },
+      to: [{ address: 'recipient@example.com' }],
       subject: 'Test Email',
       bodyText: 'This is a test email',
       bodyHtml: '<p>This is a test email</p>',
@@ -120,7 +122,17 @@ describe('OutlookAdapter', () => {
     test('should initialize with refresh token', async () => {
       await adapter.initialize(mockData.outlookCredentials);
       
-      expect(mockMsalApp.acquireTokenByRefreshToken).toHaveBeenCalled();
+      expect(mockMsalApp.acquireTokenByRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+        scopes: ['https://graph.microsoft.com/Mail.ReadWrite', 'https://graph.microsoft.com/Mail.Send', 'offline_access']
+      }));
+    });
+
+    test('should request the scopes given in the credentials', async () => {
+      await adapter.initialize({ ...mockData.outlookCredentials, scopes: ['Mail.Read'] });
+
+      expect(mockMsalApp.acquireTokenByRefreshToken).toHaveBeenCalledWith(expect.objectContaining({
+        scopes: ['https://graph.microsoft.com/Mail.Read', 'offline_access']
+      }));
     });
     
     test('should initialize with auth code', async () => {
@@ -245,5 +257,711 @@ describe('OutlookAdapter', () => {
       expect(mockGraphClient.filter).toHaveBeenCalled();
       expect(mockGraphClient.top).toHaveBeenCalledWith(5);
     });
+
+    test('should leave the raw headers out of message listings', async () => {
+      await adapter.fetchEmails({ includeAttachments: false });
+
+      expect(mockGraphClient.select).toHaveBeenCalledWith(expect.not.stringContaining('internetMessageHeaders'));
+    });
+
+    test('should read In-Reply-To and References from the headers of a single message', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({
+        id: 'msg1',
+        conversationId: 'conv1',
+        internetMessageId: '<reply@example.com>',
+        internetMessageHeaders: [
+          { name: 'In-Reply-To', value: '<parent@example.com>' },
+          { name: 'References', value: '<root@example.com>\r\n <parent@example.com>' }
+        ],
+        toRecipients: []
+      });
+
+      const email = await adapter.getEmailById('msg1');
+
+      expect(mockGraphClient.select).toHaveBeenCalledWith(expect.stringContaining('internetMessageHeaders'));
+      expect(email!.inReplyTo).toBe('<parent@example.com>');
+      expect(email!.references).toEqual(['<root@example.com>', '<parent@example.com>']);
+    });
+  });
+
+  describe('attachments', () => {
+    const { Readable } = require('stream');
+    const listing = (...attachments: any[]) => {
+      mockGraphClient.get
+        .mockResolvedValueOnce({ value: [{ id: 'msg1', hasAttachments: true, toRecipients: [] }] })
+        .mockResolvedValueOnce({ value: attachments });
+    };
+
+    beforeEach(async () => {
+      mockGraphClient.version = jest.fn().mockReturnThis();
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should list attachments without contentBytes in metadata attachment mode', async () => {
+      mockGraphClient.get
+        .mockResolvedValueOnce({ value: [{ id: 'msg1', hasAttachments: true, toRecipients: [] }] })
+        .mockResolvedValueOnce({ value: [{ id: 'att1', name: 'report.pdf', contentType: 'application/pdf', size: 6 }] });
+
+      const { emails } = await adapter.fetchEmails({ attachmentMode: 'metadata' });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages/msg1/attachments');
+      expect(mockGraphClient.select).toHaveBeenCalledWith('id,name,contentType,size,isInline,contentId');
+      expect(emails[0].attachments).toEqual([{
+        filename: 'report.pdf',
+        mimeType: 'application/pdf',
+        size: 6,
+        contentId: undefined,
+        attachmentId: 'att1',
+        source: { provider: 'outlook', emailId: 'msg1' },
+        kind: 'file',
+        category: 'document'
+      }]);
+    });
+
+    test('should stream attachment content from $value', async () => {
+      const { Readable } = require('stream');
+      mockGraphClient.getStream = jest.fn().mockResolvedValue(Readable.from([Buffer.from('%PDF-1')]));
+      mockGraphClient.get
+        .mockResolvedValueOnce({ value: [{ id: 'msg1', hasAttachments: true, toRecipients: [] }] })
+        .mockResolvedValueOnce({ value: [{ id: 'att1', name: 'report.pdf', contentType: 'application/pdf', size: 6 }] });
+
+      const { emails } = await adapter.fetchEmails({ attachmentMode: 'metadata' });
+
+      await expect(emails[0].attachments[0].download!()).resolves.toEqual(Buffer.from('%PDF-1'));
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages/msg1/attachments/att1/$value');
+    });
+
+    test('should read getAttachment from $value and wrap errors', async () => {
+      mockGraphClient.getStream = jest.fn()
+        .mockResolvedValueOnce(Readable.from([Buffer.from('hello')]))
+        .mockRejectedValueOnce(new Error('ErrorItemNotFound'));
+
+      await expect(adapter.getAttachment('msg1', 'att1')).resolves.toEqual(Buffer.from('hello'));
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages/msg1/attachments/att1/$value');
+      await expect(adapter.getAttachment('msg1', 'att2')).rejects.toThrow('Failed to get attachment att2 of email msg1: ErrorItemNotFound');
+    });
+
+    test('should read small files from contentBytes and stream large ones into the sink', async () => {
+      const large = 5 * 1024 * 1024;
+      listing(
+        { '@odata.type': '#microsoft.graph.fileAttachment', id: 'small', name: 'note.txt', contentType: 'text/plain', size: 5 },
+        { '@odata.type': '#microsoft.graph.fileAttachment', id: 'large', name: 'video.mp4', contentType: 'video/mp4', size: large }
+      );
+      mockGraphClient.get.mockResolvedValueOnce({ id: 'small', contentBytes: Buffer.from('hello').toString('base64') });
+      mockGraphClient.getStream = jest.fn().mockResolvedValue(Readable.from([Buffer.from('video')]));
+      const sink = { write: jest.fn().mockResolvedValue('/store/video.mp4') };
+
+      const { emails } = await adapter.fetchEmails({ attachmentSink: sink });
+      const [small, video] = emails[0].attachments;
+
+      expect(mockGraphClient.select).toHaveBeenCalledWith('id,name,contentType,size,isInline,contentId');
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages/msg1/attachments/small');
+      expect(mockGraphClient.api).not.toHaveBeenCalledWith('/me/messages/msg1/attachments/large');
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages/msg1/attachments/large/$value');
+      expect(sink.write).toHaveBeenCalledTimes(2);
+      expect(sink.write).toHaveBeenCalledWith(expect.objectContaining({ filename: 'video.mp4' }), expect.any(Readable), { emailId: 'msg1', provider: 'outlook' });
+      expect(video).toEqual(expect.objectContaining({ filePath: '/store/video.mp4', size: large }));
+      expect(video.buffer).toBeUndefined();
+      expect(small.filePath).toBe('/store/video.mp4');
+    });
+
+    test('should parse attached emails into nested emails', async () => {
+      listing({ '@odata.type': '#microsoft.graph.itemAttachment', id: 'item1', name: 'Quarterly numbers', size: 2048 });
+      mockGraphClient.get.mockResolvedValueOnce({ id: 'item1', item: { '@odata.type': '#microsoft.graph.message' } });
+      mockGraphClient.getStream = jest.fn().mockResolvedValue(Readable.from([Buffer.from('Subject: Quarterly numbers\r\n\r\nHi')]));
+
+      const { emails } = await adapter.fetchEmails({});
+      const [item] = emails[0].attachments;
+
+      expect(mockGraphClient.expand).toHaveBeenCalledWith('microsoft.graph.itemattachment/item');
+      expect(item).toEqual(expect.objectContaining({
+        kind: 'item',
+        filename: 'Quarterly numbers.eml',
+        mimeType: 'message/rfc822',
+        buffer: Buffer.from('Subject: Quarterly numbers\r\n\r\nHi')
+      }));
+      expect(EmailParserService.prototype.parseEmail).toHaveBeenCalledWith(item.buffer, 'item1', 'outlook');
+      expect(item.email!.subject).toBe('Test Email');
+    });
+
+    test('should list attached events without content', async () => {
+      listing({ '@odata.type': '#microsoft.graph.itemAttachment', id: 'item1', name: 'Standup', size: 512 });
+      mockGraphClient.get.mockResolvedValueOnce({ id: 'item1', item: { '@odata.type': '#microsoft.graph.event' } });
+      mockGraphClient.getStream = jest.fn();
+
+      const { emails } = await adapter.fetchEmails({});
+
+      expect(mockGraphClient.getStream).not.toHaveBeenCalled();
+      expect(emails[0].attachments[0]).toEqual(expect.objectContaining({ kind: 'item', filename: 'Standup' }));
+      expect(emails[0].attachments[0].buffer).toBeUndefined();
+    });
+
+    test('should surface reference attachments as links', async () => {
+      listing({ '@odata.type': '#microsoft.graph.referenceAttachment', id: 'ref1', name: 'Plan.docx', size: 0 });
+      mockGraphClient.get.mockResolvedValueOnce({
+        id: 'ref1',
+        sourceUrl: 'https://contoso-my.sharepoint.com/personal/plan.docx',
+        providerType: 'oneDriveBusiness',
+        permission: 'edit',
+        isFolder: false
+      });
+
+      const { emails } = await adapter.fetchEmails({});
+      const [reference] = emails[0].attachments;
+
+      expect(mockGraphClient.version).toHaveBeenCalledWith('beta');
+      expect(reference.kind).toBe('reference');
+      expect(reference.link).toEqual({
+        url: 'https://contoso-my.sharepoint.com/personal/plan.docx',
+        providerType: 'oneDriveBusiness',
+        permission: 'edit',
+        isFolder: false,
+        previewUrl: undefined,
+        thumbnailUrl: undefined
+      });
+      expect(reference.download).toBeUndefined();
+    });
+  });
+
+  describe('sync', () => {
+    const deltaLink = 'https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages/delta?$deltatoken=abc';
+
+    beforeEach(async () => {
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should page through the initial delta round to get a delta link', async () => {
+      mockGraphClient.get
+        .mockResolvedValueOnce({ value: [{ id: 'msg1' }], '@odata.nextLink': 'https://graph.microsoft.com/v1.0/next' })
+        .mockResolvedValueOnce({ value: [{ id: 'msg2' }], '@odata.deltaLink': deltaLink });
+
+      const historyId = await adapter.getCurrentHistoryId();
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/mailFolders/inbox/messages/delta');
+      expect(mockGraphClient.api).toHaveBeenCalledWith('https://graph.microsoft.com/v1.0/next');
+      expect(historyId).toBe(deltaLink);
+    });
+
+    test('should map delta changes into history records', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({
+        value: [
+          { id: 'new-msg', conversationId: 'conv1', createdDateTime: '2024-01-02T00:00:00Z' },
+          { id: 'old-msg', conversationId: 'conv2', createdDateTime: '2023-12-01T00:00:00Z' },
+          { id: 'gone-msg', '@removed': { reason: 'deleted' } }
+        ],
+        '@odata.deltaLink': 'https://graph.microsoft.com/v1.0/delta?$deltatoken=next'
+      });
+
+      const history = await adapter.getHistory(deltaLink, { lastSyncTime: new Date('2024-01-01T00:00:00Z') });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith(deltaLink);
+      expect(history.history).toEqual([
+        { id: 'new-msg', messagesAdded: [{ message: { id: 'new-msg', threadId: 'conv1', labelIds: undefined } }] },
+        { id: 'old-msg', messages: [{ id: 'old-msg', threadId: 'conv2' }] },
+        { id: 'gone-msg', messagesDeleted: [{ message: { id: 'gone-msg', threadId: '' } }] }
+      ]);
+      expect(history.historyId).toBe('https://graph.microsoft.com/v1.0/delta?$deltatoken=next');
+      expect(history.nextPageToken).toBeUndefined();
+    });
+
+    test('should report an expired delta token clearly', async () => {
+      mockGraphClient.get.mockRejectedValueOnce(Object.assign(new Error('Gone'), { statusCode: 410 }));
+
+      await expect(adapter.getHistory(deltaLink)).rejects.toThrow('is too old or invalid');
+    });
+
+    test('should process delta changes into a sync result', async () => {
+      mockGraphClient.get
+        .mockResolvedValueOnce({
+          value: [
+            { id: 'new-msg', createdDateTime: '2024-01-02T00:00:00Z' },
+            { id: 'old-msg', createdDateTime: '2023-12-01T00:00:00Z' },
+            { id: 'moved-msg', '@removed': { reason: 'changed' } }
+          ],
+          '@odata.nextLink': 'https://graph.microsoft.com/v1.0/delta?$skiptoken=page2'
+        })
+        .mockResolvedValueOnce({ id: 'new-msg', subject: 'New', from: { emailAddress: { address: 'a@example.com' } } })
+        .mockResolvedValueOnce({ id: 'old-msg', subject: 'Old', from: { emailAddress: { address: 'b@example.com' } } });
+
+      const result = await adapter.processSync({
+        startHistoryId: deltaLink,
+        lastSyncTime: new Date('2024-01-01T00:00:00Z')
+      });
+
+      expect(result.addedEmails.map(e => e.id)).toEqual(['new-msg']);
+      expect(result.updatedEmails.map(e => e.id)).toEqual(['old-msg']);
+      expect(result.deletedEmailIds).toEqual(['moved-msg']);
+      expect(result.hasMoreChanges).toBe(true);
+      expect(result.newHistoryId).toBe('https://graph.microsoft.com/v1.0/delta?$skiptoken=page2');
+    });
+
+    test('should require a start history ID', async () => {
+      await expect(adapter.processSync({})).rejects.toThrow('startHistoryId is required for processSync');
+    });
+  });
+
+  describe('push notifications', () => {
+    const deltaLink = 'https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages/delta?$deltatoken=abc';
+    const expirationDateTime = '2030-01-01T00:00:00.000Z';
+
+    beforeEach(async () => {
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should create a subscription and return a delta link to sync from', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({ value: [], '@odata.deltaLink': deltaLink });
+      mockGraphClient.post.mockResolvedValueOnce({ id: 'sub-1', expirationDateTime });
+
+      const setup = await adapter.setupPushNotifications({
+        webhookUrl: 'https://example.com/webhook',
+        clientState: 'secret'
+      });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/subscriptions');
+      expect(mockGraphClient.post).toHaveBeenCalledWith(expect.objectContaining({
+        changeType: 'created,updated,deleted',
+        notificationUrl: 'https://example.com/webhook',
+        resource: "me/mailFolders('inbox')/messages",
+        clientState: 'secret'
+      }));
+      expect(setup).toEqual({
+        historyId: deltaLink,
+        expiration: Date.parse(expirationDateTime),
+        subscriptionId: 'sub-1',
+        clientState: 'secret'
+      });
+    });
+
+    test('should generate a clientState and cap the lifetime', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({ value: [], '@odata.deltaLink': deltaLink });
+      mockGraphClient.post.mockResolvedValueOnce({ id: 'sub-1', expirationDateTime });
+
+      const before = Date.now();
+      const setup = await adapter.setupPushNotifications({
+        webhookUrl: 'https://example.com/webhook',
+        labelIds: ['archive'],
+        expirationMinutes: 100000
+      });
+
+      const body = mockGraphClient.post.mock.calls[0][0];
+      expect(body.resource).toBe("me/mailFolders('archive')/messages");
+      expect(Date.parse(body.expirationDateTime) - before).toBeLessThanOrEqual(4230 * 60 * 1000 + 1000);
+      expect(setup.clientState).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    test('should renew and delete the current subscription', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({ value: [], '@odata.deltaLink': deltaLink });
+      mockGraphClient.post.mockResolvedValueOnce({ id: 'sub-1', expirationDateTime });
+      mockGraphClient.patch.mockResolvedValueOnce({ id: 'sub-1', expirationDateTime: '2030-01-02T00:00:00.000Z' });
+      await adapter.setupPushNotifications({ webhookUrl: 'https://example.com/webhook' });
+
+      const expiration = await adapter.renewPushNotifications();
+      await adapter.stopPushNotifications();
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/subscriptions/sub-1');
+      expect(mockGraphClient.patch).toHaveBeenCalledWith({ expirationDateTime: expect.any(String) });
+      expect(expiration).toBe(Date.parse('2030-01-02T00:00:00.000Z'));
+      expect(mockGraphClient.delete).toHaveBeenCalled();
+    });
+
+    test('should renew automatically before expiration', async () => {
+      jest.useFakeTimers();
+      try {
+        mockGraphClient.get.mockResolvedValueOnce({ value: [], '@odata.deltaLink': deltaLink });
+        mockGraphClient.post.mockResolvedValueOnce({
+          id: 'sub-1',
+          expirationDateTime: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+        });
+        mockGraphClient.patch.mockResolvedValue({ id: 'sub-1', expirationDateTime });
+
+        await adapter.setupPushNotifications({ webhookUrl: 'https://example.com/webhook', autoRenew: true });
+        await jest.advanceTimersByTimeAsync(50 * 60 * 1000);
+
+        expect(mockGraphClient.patch).toHaveBeenCalledTimes(1);
+        await adapter.stopPushNotifications();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test('should retry a failed renewal with backoff and report when it gives up', async () => {
+      jest.useFakeTimers();
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        const onRenewalError = jest.fn();
+        mockGraphClient.get.mockResolvedValueOnce({ value: [], '@odata.deltaLink': deltaLink });
+        mockGraphClient.post.mockResolvedValueOnce({
+          id: 'sub-1',
+          expirationDateTime: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+        });
+        mockGraphClient.patch
+          .mockRejectedValueOnce(new Error('Service unavailable'))
+          .mockResolvedValueOnce({ id: 'sub-1', expirationDateTime: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString() })
+          .mockRejectedValue(new Error('Service unavailable'));
+
+        await adapter.setupPushNotifications({ webhookUrl: 'https://example.com/webhook', autoRenew: true, onRenewalError });
+        await jest.advanceTimersByTimeAsync(50 * 60 * 1000 + 30 * 1000);
+
+        expect(mockGraphClient.patch).toHaveBeenCalledTimes(2);
+        expect(onRenewalError).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+
+        expect(mockGraphClient.patch.mock.calls.length).toBeGreaterThan(3);
+        expect(onRenewalError).toHaveBeenCalledTimes(1);
+        expect(onRenewalError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('Service unavailable') }), 'sub-1');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test('should ignore deleting a subscription that no longer exists', async () => {
+      mockGraphClient.delete.mockRejectedValueOnce(Object.assign(new Error('Not found'), { statusCode: 404 }));
+
+      await expect(adapter.stopPushNotifications('sub-gone')).resolves.toBeUndefined();
+    });
+
+    test('should extract the validation token from a handshake request', () => {
+      expect(OutlookAdapter.getValidationToken({ validationToken: 'token-123' })).toBe('token-123');
+      expect(OutlookAdapter.getValidationToken({})).toBeUndefined();
+    });
+
+    test('should verify clientState on incoming notifications', () => {
+      const notification = {
+        subscriptionId: 'sub-1',
+        subscriptionExpirationDateTime: expirationDateTime,
+        changeType: 'created',
+        resource: 'Users/u1/Messages/msg1',
+        clientState: 'secret'
+      };
+
+      expect(OutlookAdapter.verifyNotifications({ value: [notification] }, 'secret')).toEqual([notification]);
+      expect(OutlookAdapter.verifyNotifications({ value: [notification] }, id => id === 'sub-1' ? 'secret' : undefined))
+        .toHaveLength(1);
+      expect(() => OutlookAdapter.verifyNotifications({ value: [notification] }, 'other'))
+        .toThrow('clientState mismatch for subscription sub-1');
+      expect(() => OutlookAdapter.verifyNotifications({}, 'secret')).toThrow('Invalid Graph notification payload');
+    });
+  });
+
+  describe('mutations', () => {
+    beforeEach(async () => {
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should mark emails as read through a JSON batch', async () => {
+      mockGraphClient.post.mockResolvedValueOnce({ responses: [{ id: '0', status: 200 }, { id: '1', status: 200 }] });
+
+      await adapter.markAsRead(['msg1', 'msg2']);
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/$batch');
+      expect(mockGraphClient.post).toHaveBeenCalledWith({
+        requests: [
+          { id: '0', method: 'PATCH', url: '/me/messages/msg1', body: { isRead: true }, headers: { 'Content-Type': 'application/json' } },
+          { id: '1', method: 'PATCH', url: '/me/messages/msg2', body: { isRead: true }, headers: { 'Content-Type': 'application/json' } }
+        ]
+      });
+    });
+
+    test('should move emails to the well-known archive folder', async () => {
+      mockGraphClient.post.mockResolvedValueOnce({ responses: [{ id: '0', status: 201 }] });
+
+      await adapter.archive('msg1');
+
+      expect(mockGraphClient.post).toHaveBeenCalledWith({
+        requests: [expect.objectContaining({ method: 'POST', url: '/me/messages/msg1/move', body: { destinationId: 'archive' } })]
+      });
+    });
+
+    test('should send at most 20 requests per batch', async () => {
+      mockGraphClient.post.mockResolvedValue({ responses: [] });
+      const ids = Array.from({ length: 45 }, (_, i) => `msg${i}`);
+
+      await adapter.permanentlyDelete(ids);
+
+      expect(mockGraphClient.post).toHaveBeenCalledTimes(3);
+      expect(mockGraphClient.post.mock.calls[2][0].requests).toHaveLength(5);
+      expect(mockGraphClient.post.mock.calls[0][0].requests[0]).toEqual({ id: '0', method: 'POST', url: '/me/messages/msg0/permanentDelete' });
+    });
+
+    test('should report the messages that failed inside a batch', async () => {
+      mockGraphClient.post.mockResolvedValueOnce({
+        responses: [
+          { id: '0', status: 200 },
+          { id: '1', status: 404, body: { error: { message: 'Item not found' } } }
+        ]
+      });
+
+      await expect(adapter.flag(['msg1', 'msg2']))
+        .rejects.toThrow('Failed to flag emails: 1 of 2 messages failed: msg2 (404: Item not found)');
+    });
+  });
+
+  describe('sendEmail', () => {
+    beforeEach(async () => {
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should post base64 MIME to sendMail', async () => {
+      mockGraphClient.post.mockResolvedValueOnce(undefined);
+
+      const result = await adapter.sendEmail({
+        to: ['a@example.com'],
+        subject: 'Hello',
+        html: '<p>Hello from Outlook</p>',
+        attachments: [{ filename: 'notes.txt', mimeType: 'text/plain', size: 5, buffer: Buffer.from('notes') }]
+      });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/sendMail');
+      expect(mockGraphClient.headers).toHaveBeenCalledWith({ 'Content-Type': 'text/plain' });
+      const raw = Buffer.from(mockGraphClient.post.mock.calls[0][0], 'base64').toString();
+      expect(raw).toContain(`Message-ID: ${result.messageId}`);
+      expect(raw).toContain('filename=notes.txt');
+    });
+
+    test('should wrap Graph errors', async () => {
+      mockGraphClient.post.mockRejectedValueOnce(new Error('Access is denied'));
+
+      await expect(adapter.sendEmail({ to: 'a@example.com', text: 'Hi' }))
+        .rejects.toThrow('Failed to send email: Access is denied');
+    });
+  });
+
+  describe('drafts', () => {
+    const draftMessage = {
+      id: 'draft-1',
+      subject: 'Later',
+      isDraft: true,
+      from: { emailAddress: { address: 'me@example.com' } },
+      toRecipients: [{ emailAddress: { address: 'a@example.com' } }],
+      receivedDateTime: '2024-03-01T12:00:00Z'
+    };
+
+    beforeEach(async () => {
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should create a draft from MIME', async () => {
+      mockGraphClient.post.mockResolvedValueOnce({ id: 'draft-1' });
+      mockGraphClient.get.mockResolvedValueOnce(draftMessage);
+
+      const draft = await adapter.createDraft({ to: 'a@example.com', subject: 'Later', text: 'Draft body' });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages');
+      expect(mockGraphClient.headers).toHaveBeenCalledWith({ 'Content-Type': 'text/plain' });
+      expect(Buffer.from(mockGraphClient.post.mock.calls[0][0], 'base64').toString()).toContain('Subject: Later');
+      expect(draft).toEqual(expect.objectContaining({ id: 'draft-1', isDraft: true, draftId: 'draft-1' }));
+    });
+
+    test('should patch recipients and body when updating', async () => {
+      mockGraphClient.get.mockResolvedValueOnce(draftMessage);
+
+      await adapter.updateDraft('draft-1', { to: 'Alice <a@example.com>', subject: 'Edited', html: '<p>Edited</p>' });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages/draft-1');
+      expect(mockGraphClient.patch).toHaveBeenCalledWith({
+        subject: 'Edited',
+        body: { contentType: 'html', content: '<p>Edited</p>' },
+        toRecipients: [{ emailAddress: { name: 'Alice', address: 'a@example.com' } }],
+        ccRecipients: [],
+        bccRecipients: [],
+        replyTo: []
+      });
+    });
+
+    test('should split recipient lists and keep quoted names intact', async () => {
+      mockGraphClient.get.mockResolvedValueOnce(draftMessage);
+
+      await adapter.updateDraft('draft-1', { to: ['a@x.com, B <b@y.com>', '"Smith, J <Ops> \\"JJ\\"" <j@z.com>'], subject: 'Edited' });
+
+      expect(mockGraphClient.patch).toHaveBeenCalledWith(expect.objectContaining({
+        toRecipients: [
+          { emailAddress: { address: 'a@x.com' } },
+          { emailAddress: { name: 'B', address: 'b@y.com' } },
+          { emailAddress: { name: 'Smith, J <Ops> "JJ"', address: 'j@z.com' } }
+        ]
+      }));
+    });
+
+    test('should treat sent messages as missing drafts', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({ ...draftMessage, isDraft: false });
+
+      await expect(adapter.getDraft('draft-1')).resolves.toBeNull();
+    });
+
+    test('should list the Drafts folder', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({
+        value: [draftMessage],
+        '@odata.nextLink': 'https://graph.microsoft.com/v1.0/me/mailFolders/drafts/messages?$skiptoken=abc'
+      });
+
+      const response = await adapter.listDrafts({ limit: 5 });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/mailFolders/drafts/messages');
+      expect(mockGraphClient.top).toHaveBeenCalledWith(5);
+      expect(response.emails[0].draftId).toBe('draft-1');
+      expect(response.nextPageToken).toBe('abc');
+    });
+
+    test('should send a draft', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({ internetMessageId: '<draft@example.com>' });
+      mockGraphClient.post.mockResolvedValueOnce(undefined);
+
+      const result = await adapter.sendDraft('draft-1');
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/messages/draft-1/send');
+      expect(result).toEqual({ messageId: '<draft@example.com>' });
+    });
+  });
+
+  describe('folders', () => {
+    const folders: Record<string, any> = {
+      '/me/mailFolders': {
+        value: [
+          { id: 'AAInbox', displayName: 'Inbox', childFolderCount: 1, unreadItemCount: 3, totalItemCount: 40 },
+          { id: 'AAProjects', displayName: 'Projects', childFolderCount: 0, unreadItemCount: 0, totalItemCount: 5 }
+        ],
+        '@odata.nextLink': 'https://graph.microsoft.com/v1.0/me/mailFolders?$skip=2'
+      },
+      'https://graph.microsoft.com/v1.0/me/mailFolders?$skip=2': {
+        value: [{ id: 'AADrafts', displayName: 'Drafts', childFolderCount: 0 }]
+      },
+      '/me/mailFolders/AAInbox/childFolders': {
+        value: [{ id: 'AAReceipts', displayName: 'Receipts', parentFolderId: 'AAInbox', childFolderCount: 0 }]
+      }
+    };
+    const wellKnown = {
+      responses: [
+        { id: 'inbox', status: 200, body: { id: 'AAInbox' } },
+        { id: 'drafts', status: 200, body: { id: 'AADrafts' } },
+        { id: 'archive', status: 404, body: { error: { message: 'Not found' } } }
+      ]
+    };
+    let currentPath: string;
+
+    beforeEach(async () => {
+      mockGraphClient.api.mockImplementation((path: string) => {
+        currentPath = path;
+        return mockGraphClient;
+      });
+      mockGraphClient.get.mockImplementation(() => Promise.resolve(
+        currentPath.startsWith('/me/messages/') ? { categories: ['Blue'] } : folders[currentPath]
+      ));
+      mockGraphClient.post.mockImplementation((body: any) => {
+        if (currentPath !== '/$batch') {
+          return Promise.resolve({ id: 'AANew', displayName: body.displayName, parentFolderId: 'AAProjects' });
+        }
+        // The well-known folder lookup, or a message update batch
+        return Promise.resolve(body.requests[0].url.startsWith('/me/mailFolders/') ? wellKnown : { responses: [] });
+      });
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should walk nested folders across pages and mark well-known folders as system', async () => {
+      const result = await adapter.listFolders();
+
+      expect(result.map(folder => [folder.id, folder.path, folder.type, folder.parentId])).toEqual([
+        ['AAInbox', 'Inbox', 'system', undefined],
+        ['AAReceipts', 'Inbox/Receipts', 'user', 'AAInbox'],
+        ['AAProjects', 'Projects', 'user', undefined],
+        ['AADrafts', 'Drafts', 'system', undefined]
+      ]);
+      expect(result[0]).toMatchObject({ role: 'inbox', unreadCount: 3, totalCount: 40 });
+      expect(result[3].role).toBe('drafts');
+    });
+
+    test('should create child folders under the parent', async () => {
+      const folder = await adapter.createFolder('Alpha', { parentId: 'AAProjects' });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/mailFolders/AAProjects/childFolders');
+      expect(mockGraphClient.post).toHaveBeenCalledWith({ displayName: 'Alpha' });
+      expect(folder).toMatchObject({ id: 'AANew', name: 'Alpha', type: 'user', parentId: 'AAProjects' });
+    });
+
+    test('should rename and delete folders', async () => {
+      mockGraphClient.patch.mockResolvedValueOnce({ id: 'AAProjects', displayName: 'Archive 2024' });
+
+      const folder = await adapter.renameFolder('AAProjects', 'Archive 2024');
+      await adapter.deleteFolder('AAProjects');
+
+      expect(mockGraphClient.patch).toHaveBeenCalledWith({ displayName: 'Archive 2024' });
+      expect(folder.name).toBe('Archive 2024');
+      expect(mockGraphClient.api).toHaveBeenLastCalledWith('/me/mailFolders/AAProjects');
+      expect(mockGraphClient.delete).toHaveBeenCalled();
+    });
+
+    test('should merge categories with the ones already on the message', async () => {
+      await adapter.addLabels('msg1', ['Red', 'Blue']);
+
+      expect(mockGraphClient.select).toHaveBeenCalledWith('categories');
+      expect(mockGraphClient.post).toHaveBeenLastCalledWith({
+        requests: [expect.objectContaining({ method: 'PATCH', url: '/me/messages/msg1', body: { categories: ['Blue', 'Red'] } })]
+      });
+    });
+
+    test('should remove categories', async () => {
+      await adapter.removeLabels(['msg1'], ['Blue']);
+
+      expect(mockGraphClient.post).toHaveBeenLastCalledWith({
+        requests: [expect.objectContaining({ body: { categories: [] } })]
+      });
+    });
+
+    test('should scope fetchEmails to a folder', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({ value: [] });
+
+      await adapter.fetchEmails({ folderId: 'AAProjects' });
+
+      expect(mockGraphClient.api).toHaveBeenCalledWith('/me/mailFolders/AAProjects/messages');
+    });
+  });
+
+  describe('threads', () => {
+    beforeEach(async () => {
+      await adapter.initialize(mockData.outlookCredentials);
+    });
+
+    test('should filter messages by conversationId and sort them client-side', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({
+        value: [
+          { id: 'msg2', conversationId: "conv'1", subject: 'Re: Hello', isRead: false, receivedDateTime: '2024-01-02T00:00:00Z', from: { emailAddress: { address: 'b@example.com' } }, toRecipients: [] },
+          { id: 'msg1', conversationId: "conv'1", subject: 'Hello', isRead: true, receivedDateTime: '2024-01-01T00:00:00Z', from: { emailAddress: { address: 'a@example.com' } }, toRecipients: [{ emailAddress: { address: 'b@example.com' } }] }
+        ],
+        '@odata.nextLink': 'https://graph.microsoft.com/v1.0/me/messages?$skiptoken=abc'
+      });
+      mockGraphClient.get.mockResolvedValueOnce({ value: [] });
+
+      const thread = await adapter.getThread("conv'1");
+
+      expect(mockGraphClient.filter).toHaveBeenCalledWith("conversationId eq 'conv''1'");
+      expect(mockGraphClient.api).toHaveBeenCalledWith('https://graph.microsoft.com/v1.0/me/messages?$skiptoken=abc');
+      expect(thread!.messages.map(message => message.id)).toEqual(['msg1', 'msg2']);
+      expect(thread!.participants).toEqual([{ address: 'a@example.com' }, { address: 'b@example.com' }]);
+      expect(thread!.unread).toBe(true);
+    });
+
+    test('should return null for an unknown conversation', async () => {
+      mockGraphClient.get.mockResolvedValueOnce({ value: [] });
+
+      await expect(adapter.getThread('missing')).resolves.toBeNull();
+    });
+
+    test('should group a page of messages into conversations', async () => {
+      mockGraphClient.get
+        .mockResolvedValueOnce({
+          value: [
+            { id: 'msg3', conversationId: 'conv1', receivedDateTime: '2024-01-03T00:00:00Z' },
+            { id: 'msg1', conversationId: 'conv1', receivedDateTime: '2024-01-01T00:00:00Z' },
+            { id: 'msg9', conversationId: 'conv2', receivedDateTime: '2024-01-02T00:00:00Z' }
+          ]
+        })
+        .mockResolvedValueOnce({ value: [{ id: 'msg1', conversationId: 'conv1', isRead: true }, { id: 'msg3', conversationId: 'conv1', isRead: true }] })
+        .mockResolvedValueOnce({ value: [{ id: 'msg9', conversationId: 'conv2', isRead: true }] });
+
+      const result = await adapter.fetchThreads({ limit: 3 });
+
+      expect(result.threads.map(thread => [thread.id, thread.messages.length])).toEqual([['conv1', 2], ['conv2', 1]]);
+      expect(result.threads[0].unread).toBe(false);
+    });
   });
 });
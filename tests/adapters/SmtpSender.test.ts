@@ -0,0 +1,159 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { SmtpSender } from '../../src/adapters/SmtpSender.js';
+
+interface ReceivedMail {
+  from: string;
+  recipients: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP sink: accepts every message and records the envelope and DATA.
+ * Recipients at reject.example.com are refused.
+ */
+function startSmtpSink(): Promise<{ port: number; received: ReceivedMail[]; close: () => Promise<void> }> {
+  const received: ReceivedMail[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let current: ReceivedMail = { from: '', recipients: [], data: '' };
+
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            received.push(current);
+            current = { from: '', recipients: [], data: '' };
+            socket.write('250 OK queued\r\n');
+          } else {
+            current.data += line.replace(/^\./, '') + '\r\n';
+          }
+          continue;
+        }
+
+        const command = line.toUpperCase();
+        if (command.startsWith('EHLO') || command.startsWith('HELO')) {
+          socket.write('250-sink\r\n250 8BITMIME\r\n');
+        } else if (command.startsWith('MAIL FROM')) {
+          current.from = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          socket.write('250 OK\r\n');
+        } else if (command.startsWith('RCPT TO')) {
+          const recipient = line.slice(line.indexOf('<') + 1, line.indexOf('>'));
+          if (recipient.endsWith('@reject.example.com')) {
+            socket.write('550 No such user\r\n');
+          } else {
+            current.recipients.push(recipient);
+            socket.write('250 OK\r\n');
+          }
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        received,
+        close: () => new Promise<void>(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+describe('SmtpSender', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+  let sender: SmtpSender;
+
+  beforeEach(async () => {
+    sink = await startSmtpSink();
+    sender = new SmtpSender({
+      host: '127.0.0.1',
+      port: sink.port,
+      secure: false,
+      ignoreTLS: true,
+      defaultFrom: 'me@example.com'
+    });
+  });
+
+  afterEach(async () => {
+    sender.close();
+    await sink.close();
+  });
+
+  test('should deliver the MIME message with Bcc only in the envelope', async () => {
+    const result = await sender.sendEmail({
+      to: 'a@example.com',
+      bcc: 'hidden@example.com',
+      subject: 'Hello',
+      text: 'Hello over SMTP'
+    });
+
+    expect(sink.received).toHaveLength(1);
+    const [mail] = sink.received;
+    expect(mail.from).toBe('me@example.com');
+    expect(mail.recipients).toEqual(['a@example.com', 'hidden@example.com']);
+    expect(mail.data).toContain('Subject: Hello');
+    expect(mail.data).toContain(`Message-ID: ${result.messageId}`);
+    expect(mail.data).not.toContain('hidden@example.com');
+    expect(result.accepted).toEqual(['a@example.com', 'hidden@example.com']);
+  });
+
+  test('should send a built message as-is apart from the Bcc header', async () => {
+    const raw = Buffer.from(
+      'To: a@example.com\r\n' +
+      'Bcc: hidden@example.com,\r\n' +
+      ' other@example.com\r\n' +
+      'X-Campaign: spring\r\n' +
+      'Message-ID: <draft-1@example.com>\r\n' +
+      'Subject: Saved\r\n' +
+      '\r\n' +
+      'Saved body'
+    );
+
+    const result = await sender.sendRawMessage(raw, { to: ['a@example.com', 'hidden@example.com', 'other@example.com'] });
+
+    const [mail] = sink.received;
+    expect(mail.from).toBe('me@example.com');
+    expect(mail.recipients).toEqual(['a@example.com', 'hidden@example.com', 'other@example.com']);
+    expect(mail.data).toBe(
+      'From: me@example.com\r\nTo: a@example.com\r\nX-Campaign: spring\r\nMessage-ID: <draft-1@example.com>\r\n' +
+      'Subject: Saved\r\n\r\nSaved body\r\n'
+    );
+    expect(result.messageId).toBe('<draft-1@example.com>');
+  });
+
+  test('should report rejected recipients', async () => {
+    const result = await sender.sendEmail({
+      to: ['a@example.com', 'nobody@reject.example.com'],
+      subject: 'Partial',
+      text: 'Partial delivery'
+    });
+
+    expect(result.accepted).toEqual(['a@example.com']);
+    expect(result.rejected).toEqual(['nobody@reject.example.com']);
+  });
+
+  test('should require a from address', async () => {
+    sender.close();
+    sender = new SmtpSender({ host: '127.0.0.1', port: sink.port, ignoreTLS: true });
+
+    await expect(sender.sendEmail({ to: 'a@example.com', text: 'Hi' })).rejects.toThrow('no from address');
+  });
+});
@@ -0,0 +1,140 @@
+import { Readable } from 'stream';
+import { AttachmentClassifier } from '../../src/attachments/AttachmentClassifier.js';
+import { AttachmentHandle } from '../../src/attachments/AttachmentHandle.js';
+import { Attachment } from '../../src/interfaces.js';
+
+describe('AttachmentClassifier', () => {
+  const attachment = (filename: string, mimeType = 'application/octet-stream', buffer?: Buffer): Attachment =>
+    ({ filename, mimeType, size: buffer?.length ?? 0, buffer });
+
+  // A ZIP whose first entry is named as given, optionally followed by more bytes
+  const zip = (firstEntry: string, rest = '') => Buffer.concat([
+    Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+    Buffer.alloc(22),
+    Buffer.from([firstEntry.length, 0, 0, 0]),
+    Buffer.from(firstEntry + rest, 'latin1')
+  ]);
+
+  describe('sniff', () => {
+    test.each([
+      ['PDF', Buffer.from('%PDF-1.7\n'), 'application/pdf', 'pdf'],
+      ['PNG', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]), 'image/png', 'png'],
+      ['JPEG', Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'image/jpeg', 'jpg'],
+      ['WebP', Buffer.from('RIFF\x00\x00\x00\x00WEBPVP8 ', 'latin1'), 'image/webp', 'webp'],
+      ['gzip', Buffer.from([0x1f, 0x8b, 0x08]), 'application/gzip', 'gz'],
+      ['Windows executable', Buffer.from('MZ\x90\x00', 'latin1'), 'application/x-msdownload', 'exe'],
+      ['calendar', Buffer.from('\uFEFF\r\nBEGIN:VCALENDAR\r\nVERSION:2.0\r\n'), 'text/calendar', 'ics'],
+      ['PGP message', Buffer.from('-----BEGIN PGP MESSAGE-----\n'), 'application/pgp-encrypted', 'asc'],
+      ['email', Buffer.from('Received: from mx.example.com\r\nSubject: Hi\r\n\r\n'), 'message/rfc822', 'eml']
+    ])('should recognize %s', (_name, content, mimeType, extension) => {
+      expect(AttachmentClassifier.sniff(content)).toEqual({ mimeType, extension });
+    });
+
+    test('should tell Office Open XML packages from plain ZIP archives', () => {
+      expect(AttachmentClassifier.sniff(zip('[Content_Types].xml', '...xl/workbook.xml'))!.extension).toBe('xlsx');
+      expect(AttachmentClassifier.sniff(zip('[Content_Types].xml', '...word/document.xml'))!.extension).toBe('docx');
+      expect(AttachmentClassifier.sniff(zip('mimetypeapplication/vnd.oasis.opendocument.spreadsheet'))!.extension).toBe('ods');
+      expect(AttachmentClassifier.sniff(zip('photos/beach.jpg'))).toEqual({ mimeType: 'application/zip', extension: 'zip' });
+    });
+
+    test('should recognize legacy Office files by their streams', () => {
+      const ole = Buffer.concat([
+        Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+        Buffer.alloc(64),
+        Buffer.from('Workbook', 'utf16le')
+      ]);
+      expect(AttachmentClassifier.sniff(ole)).toEqual({ mimeType: 'application/vnd.ms-excel', extension: 'xls' });
+    });
+
+    test('should recognize DER-encoded S/MIME signatures', () => {
+      const signature = Buffer.from([0x30, 0x80, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x07, 0x02, 0xa0, 0x80]);
+      expect(AttachmentClassifier.sniff(signature)).toEqual({ mimeType: 'application/pkcs7-signature', extension: 'p7s' });
+    });
+
+    test('should return undefined for unknown content', () => {
+      expect(AttachmentClassifier.sniff(Buffer.from('just some notes'))).toBeUndefined();
+    });
+  });
+
+  describe('classify', () => {
+    test('should detect the real type behind a generic claimed type', () => {
+      const classified = AttachmentClassifier.classify(attachment('scan', 'application/octet-stream', Buffer.from([0xff, 0xd8, 0xff, 0xe1])));
+
+      expect(classified.mimeType).toBe('application/octet-stream');
+      expect(classified.detectedMimeType).toBe('image/jpeg');
+      expect(classified.detectedExtension).toBe('jpg');
+      expect(classified.category).toBe('image');
+    });
+
+    test('should tag invoice-like PDFs by file name or document metadata', () => {
+      const pdf = (title: string) => Buffer.from(`%PDF-1.4\n1 0 obj << /Title (${title}) >> endobj`);
+
+      expect(AttachmentClassifier.classify(attachment('Invoice-2024-001.pdf', 'application/pdf')).category).toBe('invoice');
+      expect(AttachmentClassifier.classify(attachment('scan.pdf', 'application/pdf', pdf('Rechnung 4711'))).category).toBe('invoice');
+      expect(AttachmentClassifier.classify(attachment('scan.pdf', 'application/pdf', pdf('Holiday plans'))).category).toBe('document');
+    });
+
+    test('should fall back to the claimed type and file name without content', () => {
+      expect(AttachmentClassifier.classify(attachment('budget.xlsx')).category).toBe('spreadsheet');
+      expect(AttachmentClassifier.classify(attachment('smime.p7s', 'application/pkcs7-signature')).category).toBe('signed');
+      expect(AttachmentClassifier.classify(attachment('setup.exe')).category).toBe('executable');
+      expect(AttachmentClassifier.classify(attachment('invite.ics', 'text/calendar')).category).toBe('calendar');
+      expect(AttachmentClassifier.classify(attachment('data.bin')).category).toBe('other');
+    });
+
+    test('should classify from the start of a stream and pass the whole stream on', async () => {
+      const target = attachment('video', 'application/octet-stream');
+      const content = Readable.from([Buffer.from([0, 0, 0, 0x18]), Buffer.from('ftypisom'), Buffer.from('rest of the video')]);
+
+      const replay = await AttachmentClassifier.classifyStream(target, content);
+
+      expect(target.detectedMimeType).toBe('video/mp4');
+      expect(target.category).toBe('video');
+      expect((await AttachmentHandle.toBuffer(replay)).toString('latin1')).toBe('\x00\x00\x00\x18ftypisomrest of the video');
+    });
+
+    test('should close the source when the returned stream is destroyed', async () => {
+      const source = new Readable({ read() {} });
+      source.push(Buffer.alloc(70 * 1024));
+
+      const replay = await AttachmentClassifier.classifyStream(attachment('big.bin'), source);
+      replay.destroy();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(source.destroyed).toBe(true);
+    });
+
+    test('should only look for OLE streams and ZIP entries within the sniffed head', () => {
+      const ole = Buffer.concat([
+        Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+        Buffer.alloc(64 * 1024),
+        Buffer.from('WordDocument', 'utf16le')
+      ]);
+      const late = zip('[Content_Types].xml', 'x'.repeat(64 * 1024) + 'word/document.xml');
+
+      expect(AttachmentClassifier.sniff(ole)?.mimeType).toBe('application/x-ole-storage');
+      expect(AttachmentClassifier.sniff(late)?.mimeType).toBe('application/zip');
+    });
+  });
+
+  describe('matches', () => {
+    const invoice = AttachmentClassifier.classify(attachment('invoice.pdf', 'application/pdf'));
+    const photo = AttachmentClassifier.classify(attachment('IMG_1.JPG', 'image/jpeg'));
+    const archive = AttachmentClassifier.classify(attachment('logs.zip', 'application/zip'));
+
+    test('should match categories, extensions, MIME types and wildcards', () => {
+      expect(AttachmentClassifier.matches(invoice, ['invoice'])).toBe(true);
+      expect(AttachmentClassifier.matches(invoice, ['pdf'])).toBe(true);
+      expect(AttachmentClassifier.matches(photo, ['image'])).toBe(true);
+      expect(AttachmentClassifier.matches(photo, ['jpeg'])).toBe(true);
+      expect(AttachmentClassifier.matches(photo, ['image/*'])).toBe(true);
+      expect(AttachmentClassifier.matches(archive, ['application/zip'])).toBe(true);
+      expect(AttachmentClassifier.matches(archive, ['pdf', 'image'])).toBe(false);
+    });
+
+    test('should filter a list, keeping everything without types', () => {
+      expect(AttachmentClassifier.filter([invoice, photo, archive], ['pdf', 'image'])).toEqual([invoice, photo]);
+      expect(AttachmentClassifier.filter([invoice, photo, archive], [])).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { Readable } from 'stream';
+import { AttachmentHandle } from '../../src/attachments/AttachmentHandle.js';
+import { Attachment } from '../../src/interfaces.js';
+
+describe('AttachmentHandle', () => {
+  const listed = (): Attachment => ({ filename: 'report.pdf', mimeType: 'application/pdf', size: 6, attachmentId: '2' });
+
+  test('should download content through the bound opener', async () => {
+    const open = jest.fn().mockImplementation(async () => Readable.from([Buffer.from('%PDF'), Buffer.from('-1')]));
+    const attachment = AttachmentHandle.bind(listed(), open);
+
+    await expect(attachment.download!()).resolves.toEqual(Buffer.from('%PDF-1'));
+    await expect(AttachmentHandle.toBuffer(await attachment.stream!())).resolves.toEqual(Buffer.from('%PDF-1'));
+    expect(open).toHaveBeenCalledTimes(2);
+  });
+
+  test('should use a buffer already on the attachment', async () => {
+    const open = jest.fn();
+    const attachment = AttachmentHandle.bind({ ...listed(), buffer: Buffer.from('cached') }, open);
+
+    await expect(attachment.download!()).resolves.toEqual(Buffer.from('cached'));
+    expect(open).not.toHaveBeenCalled();
+  });
+
+  test('should keep the handles out of serialization and equality', () => {
+    const attachment = AttachmentHandle.bind(listed(), jest.fn());
+
+    expect(typeof attachment.download).toBe('function');
+    expect(JSON.parse(JSON.stringify(attachment))).toEqual(listed());
+    expect(attachment).toEqual(listed());
+    expect({ ...attachment }.download).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { ExtractionPipeline } from '../../src/attachments/ExtractionPipeline.js';
+import { Attachment, AttachmentExtractor, NormalizedEmail } from '../../src/interfaces.js';
+
+describe('ExtractionPipeline', () => {
+  const attachment = (filename: string, mimeType: string, content?: string): Attachment =>
+    ({ filename, mimeType, size: content?.length ?? 0, buffer: content === undefined ? undefined : Buffer.from(content) });
+
+  const extractor = (extract: AttachmentExtractor['extract']): AttachmentExtractor => ({
+    name: 'custom',
+    supports: candidate => candidate.filename.endsWith('.custom'),
+    extract
+  });
+
+  test('should extract text from every supported attachment of an email', async () => {
+    const email = {
+      id: '1',
+      attachments: [
+        attachment('notes.txt', 'text/plain', 'Call back on Monday'),
+        attachment('list.csv', 'text/csv', 'a,b\n1,2'),
+        attachment('photo.jpg', 'image/jpeg', '\xff\xd8\xff')
+      ]
+    } as NormalizedEmail;
+
+    await ExtractionPipeline.extract(email);
+
+    expect(email.attachments[0].extractedText).toBe('Call back on Monday');
+    expect(email.attachments[0].extraction).toEqual({ extractor: 'text' });
+    expect(email.attachments[1].extractedText).toBe('a\tb\n1\t2');
+    expect(email.attachments[1].extraction).toEqual({ extractor: 'spreadsheet', sheets: ['list'] });
+    expect(email.attachments[2].extractedText).toBeUndefined();
+    expect(email.attachments[2].extraction).toBeUndefined();
+  });
+
+  test('should try custom extractors first and download content that is not in memory', async () => {
+    const extract = jest.fn().mockResolvedValue({ text: 'custom text', pageCount: 2 });
+    const listed: Attachment = { filename: 'report.custom', mimeType: 'text/plain', size: 9 };
+    listed.download = jest.fn().mockResolvedValue(Buffer.from('raw bytes'));
+
+    await ExtractionPipeline.extractAttachment(listed, { extractors: [extractor(extract)] });
+
+    expect(extract).toHaveBeenCalledWith(Buffer.from('raw bytes'), listed, expect.objectContaining({ maxTextLength: 1_000_000 }));
+    expect(listed.extractedText).toBe('custom text');
+    expect(listed.extraction).toEqual({ extractor: 'custom', pageCount: 2 });
+  });
+
+  test('should skip attachments over the size limit without downloading them', async () => {
+    const listed: Attachment = { filename: 'big.txt', mimeType: 'text/plain', size: 2048 };
+    listed.download = jest.fn();
+
+    await ExtractionPipeline.extractAttachment(listed, { maxBytes: 1024 });
+
+    expect(listed.download).not.toHaveBeenCalled();
+    expect(listed.extraction).toEqual({ extractor: 'text', error: 'Attachment exceeds the 1024 byte extraction limit' });
+  });
+
+  test('should give up after the time limit and abort the extractor', async () => {
+    let signal: AbortSignal | undefined;
+    const slow = extractor((_content, _attachment, context) => {
+      signal = context.signal;
+      return new Promise(() => undefined);
+    });
+    const target = attachment('stuck.custom', 'application/octet-stream', 'data');
+
+    await ExtractionPipeline.extractAttachment(target, { extractors: [slow], timeoutMs: 20 });
+
+    expect(target.extraction).toEqual({ extractor: 'custom', error: 'Extraction timed out after 20 ms' });
+    expect(signal!.aborted).toBe(true);
+  });
+
+  test('should count a slow download against the time limit', async () => {
+    const listed: Attachment = { filename: 'slow.txt', mimeType: 'text/plain', size: 4 };
+    listed.download = () => new Promise(() => undefined);
+
+    await ExtractionPipeline.extractAttachment(listed, { timeoutMs: 20 });
+
+    expect(listed.extraction).toEqual({ extractor: 'text', error: 'Extraction timed out after 20 ms' });
+  });
+
+  test('should cut long text and record failures instead of throwing', async () => {
+    const long = attachment('long.txt', 'text/plain', 'abcdefghij');
+    const broken = attachment('broken.pdf', 'application/pdf', 'not a pdf');
+
+    await ExtractionPipeline.extractAttachment(long, { maxTextLength: 4 });
+    await ExtractionPipeline.extractAttachment(broken);
+
+    expect(long.extractedText).toBe('abcd');
+    expect(long.extraction).toEqual({ extractor: 'text', truncated: true });
+    expect(broken.extractedText).toBeUndefined();
+    expect(broken.extraction).toEqual({ extractor: 'pdf', error: 'Not a PDF file' });
+  });
+
+  test('should read extraction options from fetch options', () => {
+    expect(ExtractionPipeline.optionsFor({})).toBeUndefined();
+    expect(ExtractionPipeline.optionsFor({ extractText: false })).toBeUndefined();
+    expect(ExtractionPipeline.optionsFor({ extractText: true })).toEqual({});
+    expect(ExtractionPipeline.optionsFor({ extractText: { maxBytes: 5 } })).toEqual({ maxBytes: 5 });
+  });
+});
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { FileAttachmentSink } from '../../src/attachments/FileAttachmentSink.js';
+import { AttachmentStorage } from '../../src/attachments/AttachmentStorage.js';
+import { AttachmentSink, NormalizedEmail } from '../../src/interfaces.js';
+
+describe('FileAttachmentSink', () => {
+  let dir: string;
+  const attachment = (filename: string) => ({ filename, mimeType: 'text/plain', size: 5 });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'unimail-attachments-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should write into the directory, creating it first', async () => {
+    const sink = new FileAttachmentSink(path.join(dir, 'nested'));
+
+    const filePath = await sink.write(attachment('notes.txt'), Readable.from([Buffer.from('hello')]));
+
+    expect(filePath).toBe(path.join(dir, 'nested', 'notes.txt'));
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('hello');
+  });
+
+  test('should number colliding names instead of overwriting', async () => {
+    const sink = new FileAttachmentSink(dir);
+
+    const paths = await Promise.all(['a', 'b', 'c'].map(content =>
+      sink.write(attachment('report.pdf'), Readable.from([Buffer.from(content)]))));
+
+    expect(paths.map(filePath => path.basename(filePath)).sort()).toEqual(['report (1).pdf', 'report (2).pdf', 'report.pdf']);
+    const contents = await Promise.all(paths.map(filePath => fs.readFile(filePath, 'utf-8')));
+    expect(contents.sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should remove the partial file when the content stream fails', async () => {
+    const sink = new FileAttachmentSink(dir);
+    const failing = new Readable({
+      read() {
+        this.destroy(new Error('connection reset'));
+      }
+    });
+
+    await expect(sink.write(attachment('broken.bin'), failing))
+      .rejects.toThrow('Failed to write attachment broken.bin: connection reset');
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  test('should sanitize file names', () => {
+    expect(FileAttachmentSink.sanitizeFilename('../../etc/passwd')).toBe('passwd');
+    expect(FileAttachmentSink.sanitizeFilename('C:\\Users\\me\\invoice.pdf')).toBe('invoice.pdf');
+    expect(FileAttachmentSink.sanitizeFilename('what?: a <mess>|"*.txt')).toBe('what__ a _mess____.txt');
+    expect(FileAttachmentSink.sanitizeFilename('.hidden. ')).toBe('hidden');
+    expect(FileAttachmentSink.sanitizeFilename('CON.txt')).toBe('_CON.txt');
+    expect(FileAttachmentSink.sanitizeFilename('')).toBe('attachment');
+
+    const long = FileAttachmentSink.sanitizeFilename(`${'é'.repeat(300)}.pdf`);
+    expect(Buffer.byteLength(long)).toBeLessThanOrEqual(200);
+    expect(long.endsWith('é.pdf')).toBe(true);
+  });
+});
+
+describe('AttachmentStorage', () => {
+  const email = (): NormalizedEmail => ({
+    id: 'msg1',
+    from: { address: 'a@example.com' },
+    to: [],
+    attachments: [
+      { filename: 'a.txt', mimeType: 'text/plain', size: 1, buffer: Buffer.from('a') },
+      { filename: 'listed-only.txt', mimeType: 'text/plain', size: 1 }
+    ],
+    date: new Date(),
+    provider: 'gmail'
+  });
+
+  test('should prefer attachmentSink over attachmentDir', () => {
+    const sink: AttachmentSink = { write: jest.fn() };
+
+    expect(AttachmentStorage.sinkFor({ attachmentSink: sink, attachmentDir: '/tmp' })).toBe(sink);
+    expect(AttachmentStorage.sinkFor({ attachmentDir: '/tmp' })).toBeInstanceOf(FileAttachmentSink);
+    expect(AttachmentStorage.sinkFor({})).toBeUndefined();
+  });
+
+  test('should gather the attachment handling of a fetch', () => {
+    const sink: AttachmentSink = { write: jest.fn() };
+
+    expect(AttachmentStorage.handlingFor({ attachmentSink: sink, attachmentMode: 'metadata', attachmentTypes: ['pdf'], extractText: true }))
+      .toEqual({ sink, lazy: true, types: ['pdf'], extraction: {} });
+    expect(AttachmentStorage.handlingFor({})).toEqual({ sink: undefined, lazy: false, types: undefined, extraction: undefined });
+  });
+
+  test('should replace buffers with the location the sink returns', async () => {
+    const written: string[] = [];
+    const sink: AttachmentSink = {
+      write: jest.fn(async (attachment, content, context) => {
+        for await (const chunk of content) {
+          written.push(chunk.toString());
+        }
+        return `s3://bucket/${context.emailId}/${attachment.filename}`;
+      })
+    };
+    const message = email();
+
+    await AttachmentStorage.store(message, { sink });
+
+    expect(written).toEqual(['a']);
+    expect(message.attachments[0]).toEqual({ filename: 'a.txt', mimeType: 'text/plain', size: 1, filePath: 's3://bucket/msg1/a.txt' });
+    expect(message.attachments[1].filePath).toBeUndefined();
+    expect(sink.write).toHaveBeenCalledWith(message.attachments[0], expect.anything(), { emailId: 'msg1', provider: 'gmail' });
+  });
+});
@@ -0,0 +1,51 @@
+import { DocxExtractor } from '../../../src/attachments/extractors/DocxExtractor.js';
+import { Attachment } from '../../../src/interfaces.js';
+import { zip } from './zipFixture.js';
+
+describe('DocxExtractor', () => {
+  const extractor = new DocxExtractor();
+  const attachment: Attachment = { filename: 'contract.docx', mimeType: 'application/octet-stream', size: 0 };
+
+  const context = () => ({ signal: new AbortController().signal, maxTextLength: 1_000_000 });
+
+  const document = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+
+  test('should extract paragraphs, tabs, breaks and tables', async () => {
+    const content = zip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': document(
+        '<w:p><w:r><w:t>Service </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">Agreement &amp; Terms</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:t>Name:</w:t><w:tab/><w:t>ACME</w:t><w:br/><w:t>Berlin</w:t></w:r></w:p>' +
+        '<w:p><w:r><w:delText>removed</w:delText><w:instrText>PAGE</w:instrText></w:r></w:p>' +
+        '<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Item</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Price</w:t></w:r></w:p></w:tc></w:tr>' +
+        '<w:tr><w:tc><w:p><w:r><w:t>Support</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>€99</w:t></w:r></w:p></w:tc></w:tr></w:tbl>'
+      ),
+      'docProps/app.xml': '<Properties><Pages>3</Pages><Words>12</Words></Properties>'
+    });
+
+    const result = await extractor.extract(content, attachment, context());
+
+    expect(result.text).toBe('Service Agreement & Terms\nName:\tACME\nBerlin\n\nItem\tPrice\nSupport\t€99');
+    expect(result.pageCount).toBe(3);
+  });
+
+  test('should fail on archives that are not Word documents', async () => {
+    await expect(extractor.extract(zip({ 'readme.txt': 'hi' }), attachment, context())).rejects.toThrow('word/document.xml is missing');
+    await expect(extractor.extract(Buffer.from('plain'), attachment, context())).rejects.toThrow('Not a ZIP archive');
+  });
+
+  test('should stop after unzipping once the extraction is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Extraction timed out after 1 ms'));
+    const content = zip({ 'word/document.xml': document('<w:p><w:r><w:t>Late</w:t></w:r></w:p>') });
+
+    await expect(extractor.extract(content, attachment, { signal: controller.signal, maxTextLength: 100 }))
+      .rejects.toThrow('Extraction timed out after 1 ms');
+  });
+
+  test('should support .docx by extension', () => {
+    expect(extractor.supports(attachment)).toBe(true);
+    expect(extractor.supports({ filename: 'old.doc', mimeType: 'application/msword', size: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { HtmlExtractor } from '../../../src/attachments/extractors/HtmlExtractor.js';
+import { PlainTextExtractor } from '../../../src/attachments/extractors/PlainTextExtractor.js';
+import { Attachment } from '../../../src/interfaces.js';
+
+describe('HtmlExtractor', () => {
+  const extractor = new HtmlExtractor();
+  const attachment: Attachment = { filename: 'page.html', mimeType: 'text/html', size: 0 };
+  const context = () => ({ signal: new AbortController().signal, maxTextLength: 1_000_000 });
+
+  test('should render visible text with blocks, lists and table cells apart', async () => {
+    const html = `<!DOCTYPE html><html><head><title>Hidden</title><style>p { color: red }</style></head>
+      <body><!-- note --><h1>Order   confirmed</h1>
+      <p>Thanks,<br>your order&nbsp;#42 is on its way &mdash; caf&eacute; &#x2615;</p>
+      <script>alert('x')</script>
+      <ul><li>Mug</li><li>Beans</li></ul>
+      <table><tr><th>Item</th><th>Qty</th></tr><tr><td>Mug</td><td>2</td></tr></table></body></html>`;
+
+    const result = await extractor.extract(Buffer.from(html), attachment, context());
+
+    expect(result.text).toBe('Order confirmed\n\nThanks,\nyour order #42 is on its way — café ☕\n\n- Mug\n- Beans\n\nItem\tQty\nMug\t2');
+  });
+
+  test('should honor a Latin-1 charset declaration', async () => {
+    const html = Buffer.from('<meta charset="iso-8859-1"><p>Gr\xfc\xdfe</p>', 'latin1');
+
+    expect((await extractor.extract(html, attachment, context())).text).toBe('Grüße');
+  });
+});
+
+describe('PlainTextExtractor', () => {
+  test('should decode by byte order mark', () => {
+    expect(PlainTextExtractor.decode(Buffer.from('\uFEFFhello'))).toBe('hello');
+    expect(PlainTextExtractor.decode(Buffer.from('\uFEFFhi', 'utf16le'))).toBe('hi');
+    expect(PlainTextExtractor.decode(Buffer.from([0xfe, 0xff, 0x00, 0x68, 0x00, 0x69]))).toBe('hi');
+  });
+});
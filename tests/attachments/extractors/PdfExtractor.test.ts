@@ -0,0 +1,102 @@
+import { deflateSync } from 'zlib';
+import { PdfExtractor } from '../../../src/attachments/extractors/PdfExtractor.js';
+import { Attachment } from '../../../src/interfaces.js';
+
+describe('PdfExtractor', () => {
+  const extractor = new PdfExtractor();
+  const attachment: Attachment = { filename: 'doc.pdf', mimeType: 'application/pdf', size: 0 };
+  const context = () => ({ signal: new AbortController().signal, maxTextLength: 1_000_000 });
+
+  // Assemble a PDF from object bodies; numbers start at 1 and streams are written as given
+  const pdf = (objects: (string | { dict: string; data: Buffer })[]) => {
+    const parts: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    objects.forEach((object, index) => {
+      if (typeof object === 'string') {
+        parts.push(Buffer.from(`${index + 1} 0 obj\n${object}\nendobj\n`, 'latin1'));
+      } else {
+        parts.push(
+          Buffer.from(`${index + 1} 0 obj\n${object.dict.replace('>>', ` /Length ${object.data.length} >>`)}\nstream\n`, 'latin1'),
+          object.data,
+          Buffer.from('\nendstream\nendobj\n', 'latin1')
+        );
+      }
+    });
+    parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'));
+    return Buffer.concat(parts);
+  };
+
+  const flate = (content: string) => ({ dict: '<< /Filter /FlateDecode >>', data: deflateSync(Buffer.from(content, 'latin1')) });
+
+  test('should extract the text of each page in page tree order', async () => {
+    const content = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents [6 0 R] >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      flate('BT /F1 12 Tf 72 720 Td (Invoice \\(draft\\)) Tj 0 -14 Td [(Total) -300 (due:) -300 (\\20042.00)] TJ ET'),
+      flate('BT /F1 12 Tf 72 720 Td (Page two) Tj T* (next line) Tj ET')
+    ]);
+
+    const result = await extractor.extract(content, attachment, context());
+
+    expect(result.text).toBe('Invoice (draft)\nTotal due: €42.00\n\nPage two\nnext line');
+    expect(result.pageCount).toBe(2);
+  });
+
+  test('should decode composite fonts through their ToUnicode map', async () => {
+    const cmap = [
+      'begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '2 beginbfchar <0001> <0048> <0002> <00E9> endbfchar',
+      '1 beginbfrange <0010> <0012> <006C> endbfrange',
+      'endcmap'
+    ].join('\n');
+    const content = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F2 4 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type0 /BaseFont /ABCDEF+Noto /Encoding /Identity-H /ToUnicode 5 0 R >>',
+      flate(cmap),
+      flate('BT /F2 10 Tf 1 0 0 1 50 700 Tm <000100020010001000120011> Tj ET')
+    ]);
+
+    const result = await extractor.extract(content, attachment, context());
+
+    expect(result.text).toBe('Héllnm');
+  });
+
+  test('should read objects packed into object streams and text inside form XObjects', async () => {
+    const packed = '<< /Type /Pages /Kids [3 0 R] /Count 1 >> << /Type /Font /Subtype /Type1 /BaseFont /Courier >>';
+    const offsets = `2 0 4 ${packed.indexOf('<< /Type /Font')} `;
+    const content = pdf([
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      'null',
+      '<< /Type /Page /Parent 2 0 R /Resources << /XObject << /Fm1 5 0 R >> >> /Contents 6 0 R >>',
+      'null',
+      { dict: '<< /Type /XObject /Subtype /Form /Resources << /Font << /F1 4 0 R >> >> >>', data: Buffer.from('BT /F1 9 Tf (Stamped) Tj ET') },
+      flate('q /Fm1 Do Q'),
+      { dict: `<< /Type /ObjStm /N 2 /First ${offsets.length} /Filter /FlateDecode >>`, data: deflateSync(Buffer.from(offsets + packed)) }
+    ]);
+    // Objects 2 and 4 were written as null placeholders; the object stream holds the real ones
+    const withoutPlaceholders = Buffer.from(content.toString('latin1').replace(/\n[24] 0 obj\nnull\nendobj\n/g, '\n'), 'latin1');
+
+    const result = await extractor.extract(withoutPlaceholders, attachment, context());
+
+    expect(result.text).toBe('Stamped');
+    expect(result.pageCount).toBe(1);
+  });
+
+  test('should reject encrypted and malformed files', async () => {
+    const encrypted = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R /Encrypt 9 0 R >>');
+
+    await expect(extractor.extract(encrypted, attachment, context())).rejects.toThrow('Encrypted PDFs are not supported');
+    await expect(extractor.extract(Buffer.from('hello'), attachment, context())).rejects.toThrow('Not a PDF file');
+  });
+
+  test('should support PDFs by detected or claimed type', () => {
+    expect(extractor.supports(attachment)).toBe(true);
+    expect(extractor.supports({ filename: 'scan', mimeType: 'application/octet-stream', size: 0, detectedMimeType: 'application/pdf' })).toBe(true);
+    expect(extractor.supports({ filename: 'notes.txt', mimeType: 'text/plain', size: 0 })).toBe(false);
+  });
+});
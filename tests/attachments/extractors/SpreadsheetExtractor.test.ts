@@ -0,0 +1,46 @@
+import { SpreadsheetExtractor } from '../../../src/attachments/extractors/SpreadsheetExtractor.js';
+import { Attachment } from '../../../src/interfaces.js';
+import { zip } from './zipFixture.js';
+
+describe('SpreadsheetExtractor', () => {
+  const extractor = new SpreadsheetExtractor();
+  const context = { signal: new AbortController().signal, maxTextLength: 1_000_000 };
+  const attachment = (filename: string, mimeType = 'application/octet-stream'): Attachment => ({ filename, mimeType, size: 0 });
+
+  test('should extract every sheet of a workbook with shared, inline and numeric cells', async () => {
+    const content = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Q1 &amp; Q2" sheetId="1" r:id="rId1"/><sheet name="Notes" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Item</t></si><si><r><t>To</t></r><r><t>tal</t></r><rPh><t>x</t></rPh></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2" t="inlineStr"><is><t>Hosting</t></is></c><c r="C2"><v>42.5</v></c><c r="D2" t="b"><v>1</v></c></row>' +
+        '<row r="3"/>' +
+        '</sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml': '<worksheet><sheetData><row r="1"><c r="B1" t="str"><f>A1</f><v>Paid</v></c></row></sheetData></worksheet>'
+    });
+
+    const result = await extractor.extract(content, attachment('budget.xlsx'), context);
+
+    expect(result.sheets).toEqual(['Q1 & Q2', 'Notes']);
+    expect(result.text).toBe('# Q1 & Q2\nItem\t\tTotal\nHosting\t\t42.5\tTRUE\n\n# Notes\n\tPaid');
+  });
+
+  test('should parse CSV with quoting and semicolon delimiters as one sheet', async () => {
+    const csv = Buffer.from('Name;Amount;Note\r\n"Doe; Jane";12,50;"said ""hi""\nthen left"\r\nRoe;3;\r\n');
+
+    const result = await extractor.extract(csv, attachment('export.csv', 'text/csv'), context);
+
+    expect(result.sheets).toEqual(['export']);
+    expect(result.text).toBe('Name\tAmount\tNote\nDoe; Jane\t12,50\tsaid "hi" then left\nRoe\t3\t');
+  });
+
+  test('should support workbooks and CSV files', () => {
+    expect(extractor.supports(attachment('budget.xlsx'))).toBe(true);
+    expect(extractor.supports(attachment('data', 'text/csv'))).toBe(true);
+    expect(extractor.supports(attachment('slides.pptx'))).toBe(false);
+  });
+});
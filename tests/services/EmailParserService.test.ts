@@ -17,8 +17,8 @@ describe('EmailParserService', () => {
     
     // Setup default mock implementation
     simpleParserMock.mockResolvedValue({
-      from: { text: 'sender@example.com' },
-      to: [{ text: 'recipient@example.com' }],
+      from: { text: 'sender@example.com', value: [{ name: '', address: 'sender@example.com' }] },
+      to: [{ text: 'recipient@example.com', value: [{ name: '', address: 'recipient@example.com' }] }],
       subject: 'Test Email',
       text: 'Plain text content',
       html: '<p>HTML content</p>',
@@ -47,6 +47,53 @@ describe('EmailParserService', () => {
     expect(result.attachments[0].filename).toBe('attachment.pdf');
   });
 
+  test('should keep threading headers out of threadId and labels', async () => {
+    simpleParserMock.mockResolvedValueOnce({
+      from: { text: 'sender@example.com', value: [{ name: '', address: 'sender@example.com' }] },
+      to: [{ text: 'recipient@example.com', value: [{ name: '', address: 'recipient@example.com' }] }],
+      messageId: '<reply@example.com>',
+      inReplyTo: '<parent@example.com>',
+      references: ['<root@example.com>', '<parent@example.com>'],
+      date: new Date()
+    });
+
+    const result = await emailParserService.parseEmail('raw email data', 'email-id', 'imap');
+
+    expect(result.messageId).toBe('<reply@example.com>');
+    expect(result.inReplyTo).toBe('<parent@example.com>');
+    expect(result.references).toEqual(['<root@example.com>', '<parent@example.com>']);
+    expect(result.threadId).toBeUndefined();
+    expect(result.labels).toEqual([]);
+  });
+
+  test('should map address headers to EmailAddress objects', async () => {
+    const headers = new Map<string, unknown>([
+      ['sender', { value: [{ name: 'Mailer', address: 'bounce@lists.example.com' }] }]
+    ]);
+    simpleParserMock.mockResolvedValueOnce({
+      from: { value: [{ name: 'Doe, Jane', address: 'jane@example.com' }] },
+      to: [
+        { value: [{ name: 'Team', group: [{ name: '', address: 'a@example.com' }, { name: 'Bob', address: 'b@example.com' }] }] },
+        { value: [{ name: '', address: 'c@example.com' }] }
+      ],
+      replyTo: { value: [{ name: 'List', address: 'list@example.com' }] },
+      headers,
+      date: new Date()
+    });
+
+    const result = await emailParserService.parseEmail('raw email data', 'email-id', 'imap');
+
+    expect(result.from).toEqual({ name: 'Doe, Jane', address: 'jane@example.com' });
+    expect(result.to).toEqual([
+      { address: 'a@example.com' },
+      { name: 'Bob', address: 'b@example.com' },
+      { address: 'c@example.com' }
+    ]);
+    expect(result.cc).toEqual([]);
+    expect(result.replyTo).toEqual([{ name: 'List', address: 'list@example.com' }]);
+    expect(result.sender).toEqual({ name: 'Mailer', address: 'bounce@lists.example.com' });
+  });
+
   test('should handle parsing errors correctly', async () => {
     simpleParserMock.mockRejectedValueOnce(new Error('Parsing error'));
     
@@ -56,8 +103,8 @@ describe('EmailParserService', () => {
 
   test('should handle email with no attachments', async () => {
     simpleParserMock.mockResolvedValueOnce({
-      from: { text: 'sender@example.com' },
-      to: [{ text: 'recipient@example.com' }],
+      from: { text: 'sender@example.com', value: [{ name: '', address: 'sender@example.com' }] },
+      to: [{ text: 'recipient@example.com', value: [{ name: '', address: 'recipient@example.com' }] }],
       subject: 'Test Email',
       text: 'Plain text content',
       html: '<p>HTML content</p>',
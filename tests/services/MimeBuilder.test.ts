@@ -0,0 +1,70 @@
+import { simpleParser } from 'mailparser';
+import { MimeBuilder } from '../../src/services/MimeBuilder.js';
+
+describe('MimeBuilder', () => {
+  const builder = new MimeBuilder();
+
+  test('should build a multipart message with attachments and custom headers', async () => {
+    const message = await builder.build({
+      from: 'Sender <sender@example.com>',
+      to: ['a@example.com', 'b@example.com'],
+      cc: 'c@example.com',
+      subject: 'Quarterly report',
+      text: 'See attached',
+      html: '<p>See attached</p><img src="cid:logo@example.com">',
+      headers: { 'X-Campaign': 'spring' },
+      attachments: [
+        { filename: 'report.pdf', mimeType: 'application/pdf', size: 3, buffer: Buffer.from('pdf') },
+        { filename: 'logo.png', mimeType: 'image/png', size: 3, buffer: Buffer.from('png'), contentId: 'logo@example.com' }
+      ]
+    });
+
+    const parsed = await simpleParser(message.raw);
+
+    expect(parsed.messageId).toBe(message.messageId);
+    expect(parsed.subject).toBe('Quarterly report');
+    expect(parsed.text?.trim()).toBe('See attached');
+    expect(parsed.headers.get('x-campaign')).toBe('spring');
+    expect(parsed.attachments.map(attachment => attachment.filename).sort()).toEqual(['logo.png', 'report.pdf']);
+    expect(parsed.attachments.find(attachment => attachment.filename === 'logo.png')!.contentId).toBe('<logo@example.com>');
+    expect(message.envelope).toEqual({
+      from: 'sender@example.com',
+      to: ['a@example.com', 'b@example.com', 'c@example.com']
+    });
+  });
+
+  test('should leave Bcc out of the headers unless asked to keep it', async () => {
+    const email = { to: 'a@example.com', bcc: 'hidden@example.com', subject: 'Hi', text: 'Hi' };
+
+    const stripped = await builder.build(email);
+    const kept = await builder.build(email, { keepBcc: true });
+
+    expect(stripped.raw.toString()).not.toContain('hidden@example.com');
+    expect(stripped.envelope.to).toContain('hidden@example.com');
+    expect(kept.raw.toString()).toContain('Bcc: hidden@example.com');
+  });
+
+  test('should write threading headers', async () => {
+    const message = await builder.build({
+      to: 'a@example.com',
+      subject: 'Re: Hi',
+      inReplyTo: '<orig@example.com>',
+      references: ['<root@example.com>', '<orig@example.com>']
+    });
+
+    const parsed = await simpleParser(message.raw);
+    expect(parsed.inReplyTo).toBe('<orig@example.com>');
+    expect(parsed.references).toEqual(['<root@example.com>', '<orig@example.com>']);
+  });
+
+  test('should reject messages without recipients', async () => {
+    await expect(builder.build({ to: [], subject: 'Nobody' })).rejects.toThrow('at least one recipient');
+  });
+
+  test('should reject attachments without content', async () => {
+    await expect(builder.build({
+      to: 'a@example.com',
+      attachments: [{ filename: 'empty.txt', mimeType: 'text/plain', size: 0 }]
+    })).rejects.toThrow('Attachment empty.txt has no content');
+  });
+});
@@ -0,0 +1,200 @@
+import { Poller } from '../../src/services/Poller.js';
+import { NormalizedEmail, SyncResult } from '../../src/interfaces.js';
+
+const email = (id: string) => ({ id, provider: 'gmail', subject: `Email ${id}` } as NormalizedEmail);
+
+const syncResult = (ids: string[], newHistoryId: string, hasMoreChanges = false): SyncResult => ({
+  processedHistoryRecords: ids.length,
+  addedEmails: ids.map(email),
+  deletedEmailIds: [],
+  updatedEmails: [],
+  newHistoryId,
+  hasMoreChanges
+});
+
+describe('Poller', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('sync mode', () => {
+    let adapter: any;
+
+    beforeEach(() => {
+      adapter = {
+        fetchEmails: jest.fn(),
+        getCurrentHistoryId: jest.fn().mockResolvedValue('100'),
+        processSync: jest.fn()
+      };
+    });
+
+    test('should start from the current history ID and emit only new emails', async () => {
+      jest.useFakeTimers();
+      adapter.processSync
+        .mockResolvedValueOnce(syncResult(['msg1', 'msg2'], '110'))
+        .mockResolvedValueOnce(syncResult(['msg2', 'msg3'], '120'));
+
+      const poller = new Poller(adapter, { interval: 1000 });
+      const received: string[][] = [];
+      poller.on('emails', emails => received.push(emails.map(e => e.id)));
+
+      await poller.start();
+      expect(adapter.getCurrentHistoryId).toHaveBeenCalled();
+      expect(adapter.processSync).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(adapter.processSync).toHaveBeenNthCalledWith(1, expect.objectContaining({ startHistoryId: '100' }));
+      expect(adapter.processSync).toHaveBeenNthCalledWith(2, expect.objectContaining({ startHistoryId: '110' }));
+      expect(received).toEqual([['msg1', 'msg2'], ['msg3']]);
+      expect(poller.currentHistoryId).toBe('120');
+
+      await poller.stop();
+    });
+
+    test('should not advance the history ID when onEmails fails', async () => {
+      adapter.processSync.mockResolvedValue(syncResult(['msg1'], '110'));
+      const onEmails = jest.fn().mockRejectedValueOnce(new Error('handler failed'));
+      const onError = jest.fn();
+
+      const poller = new Poller(adapter, { startHistoryId: '100', onEmails });
+      poller.on('error', onError);
+
+      await poller.start();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'handler failed' }));
+      expect(poller.currentHistoryId).toBe('100');
+
+      await poller.pollNow();
+      expect(onEmails).toHaveBeenCalledTimes(2);
+      expect(poller.currentHistoryId).toBe('110');
+
+      await poller.stop();
+    });
+
+    test('should poll again right away when changes remain', async () => {
+      jest.useFakeTimers();
+      adapter.processSync
+        .mockResolvedValueOnce(syncResult(['msg1'], '105', true))
+        .mockResolvedValueOnce(syncResult(['msg2'], '110'));
+
+      const poller = new Poller(adapter, { startHistoryId: '100', interval: 60000 });
+      await poller.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(adapter.processSync).toHaveBeenCalledTimes(2);
+      expect(adapter.processSync).toHaveBeenLastCalledWith(expect.objectContaining({ startHistoryId: '105' }));
+
+      await poller.stop();
+    });
+
+    test('should continue a truncated full resync with the same lastSyncTime', async () => {
+      jest.useFakeTimers();
+      adapter.processSync
+        .mockResolvedValueOnce({ ...syncResult(['msg1'], '500', true), fullResyncPageToken: '0:page2' })
+        .mockResolvedValueOnce(syncResult(['msg2'], '500'));
+
+      const poller = new Poller(adapter, { startHistoryId: '100', interval: 60000 });
+      await poller.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(adapter.processSync).toHaveBeenCalledTimes(2);
+      expect(adapter.processSync).toHaveBeenLastCalledWith(expect.objectContaining({
+        startHistoryId: '500',
+        fullResyncPageToken: '0:page2',
+        lastSyncTime: undefined
+      }));
+
+      await poller.stop();
+    });
+
+    test('should skip scheduled polls while paused', async () => {
+      jest.useFakeTimers();
+      adapter.processSync.mockResolvedValue(syncResult([], '100'));
+
+      const poller = new Poller(adapter, { startHistoryId: '100', interval: 1000, runImmediately: false });
+      await poller.start();
+
+      poller.pause();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(adapter.processSync).not.toHaveBeenCalled();
+      expect(poller.isPaused).toBe(true);
+
+      poller.resume();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(adapter.processSync).toHaveBeenCalledTimes(1);
+
+      await poller.stop();
+    });
+
+    test('should add jitter to the interval', async () => {
+      jest.useFakeTimers();
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      adapter.processSync.mockResolvedValue(syncResult([], '100'));
+
+      const poller = new Poller(adapter, { startHistoryId: '100', interval: 1000, jitter: 400, runImmediately: false });
+      await poller.start();
+
+      await jest.advanceTimersByTimeAsync(1100);
+      expect(adapter.processSync).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(100);
+      expect(adapter.processSync).toHaveBeenCalledTimes(1);
+
+      await poller.stop();
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('fetch mode', () => {
+    test('should record existing mail first and then emit unseen emails since the high-water mark', async () => {
+      const adapter: any = {
+        fetchEmails: jest.fn()
+          .mockResolvedValueOnce({ emails: [email('old1')], nextPageToken: 'p2' })
+          .mockResolvedValueOnce({ emails: [email('old2')] })
+          .mockResolvedValueOnce({ emails: [email('old2'), email('new1')] })
+      };
+      const onEmails = jest.fn();
+
+      const poller = new Poller(adapter, { fetchOptions: { pageSize: 50 }, onEmails });
+      await poller.start();
+
+      expect(adapter.fetchEmails).toHaveBeenCalledTimes(2);
+      expect(adapter.fetchEmails).toHaveBeenLastCalledWith(expect.objectContaining({ pageSize: 50, pageToken: 'p2' }));
+      expect(onEmails).not.toHaveBeenCalled();
+
+      const highWaterMark = poller.currentHighWaterMark;
+      await poller.pollNow();
+
+      expect(adapter.fetchEmails).toHaveBeenLastCalledWith(expect.objectContaining({ since: highWaterMark }));
+      expect(onEmails).toHaveBeenCalledWith([email('new1')]);
+
+      await poller.stop();
+    });
+  });
+
+  test('should run on a cron schedule', async () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2024, 0, 15, 10, 7, 30));
+    const adapter: any = {
+      fetchEmails: jest.fn(),
+      getCurrentHistoryId: jest.fn().mockResolvedValue('100'),
+      processSync: jest.fn().mockResolvedValue(syncResult([], '100'))
+    };
+
+    const poller = new Poller(adapter, { cron: '*/10 * * * *', startHistoryId: '100', runImmediately: false });
+    await poller.start();
+
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+    expect(adapter.processSync).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+    expect(adapter.processSync).toHaveBeenCalledTimes(1);
+
+    await poller.stop();
+  });
+
+  test('should reject an invalid schedule', () => {
+    expect(() => new Poller({} as any, { interval: 0 })).toThrow('positive number');
+    expect(() => new Poller({} as any, { cron: 'every minute' })).toThrow('Invalid cron expression');
+    expect(() => new Poller({} as any, { cron: '0 0 30 2 *' })).toThrow('never matches');
+  });
+});
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ReplyService } from '../../src/services/ReplyService.js';
+import { Attachment, NormalizedEmail } from '../../src/interfaces.js';
+
+describe('ReplyService', () => {
+  let sender: { sendEmail: jest.Mock };
+  let service: ReplyService;
+
+  const original: NormalizedEmail = {
+    id: 'msg1',
+    threadId: 'thread-1',
+    messageId: '<orig@example.com>',
+    references: ['<root@example.com>'],
+    from: { name: 'Alice', address: 'alice@example.com' },
+    to: [{ name: 'Me', address: 'me@example.com' }, { address: 'bob@example.com' }],
+    cc: [{ address: 'carol@example.com' }, { address: 'ME@example.com' }],
+    subject: 'Lunch plans',
+    bodyText: 'Noon works?\n> earlier line',
+    bodyHtml: '<p>Noon works?</p>',
+    attachments: [{ filename: 'menu.pdf', mimeType: 'application/pdf', size: 4, buffer: Buffer.from('menu') }],
+    date: new Date('2024-03-01T12:00:00Z'),
+    provider: 'gmail'
+  };
+
+  beforeEach(() => {
+    sender = { sendEmail: jest.fn().mockResolvedValue({ messageId: '<reply@example.com>' }) };
+    service = new ReplyService(sender, { selfAddresses: ['me@example.com'] });
+  });
+
+  test('should reply to the sender with threading headers and a quoted body', async () => {
+    await service.reply(original, { text: 'Sounds good' });
+
+    const email = sender.sendEmail.mock.calls[0][0];
+    expect(email).toEqual(expect.objectContaining({
+      to: ['Alice <alice@example.com>'],
+      cc: [],
+      subject: 'Re: Lunch plans',
+      inReplyTo: '<orig@example.com>',
+      references: ['<root@example.com>', '<orig@example.com>'],
+      threadId: 'thread-1',
+      attachments: undefined
+    }));
+    expect(email.text).toBe('Sounds good\n\nOn Fri, 01 Mar 2024 12:00:00 GMT, Alice <alice@example.com> wrote:\n> Noon works?\n>> earlier line');
+    expect(email.html).toContain('<div>Sounds good</div>');
+    expect(email.html).toContain('<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex"><p>Noon works?</p></blockquote>');
+  });
+
+  test('should reply to everyone except ourselves', async () => {
+    const email = await service.buildReply(original, { text: 'Count me in' }, { all: true });
+
+    expect(email.to).toEqual(['Alice <alice@example.com>', 'bob@example.com']);
+    expect(email.cc).toEqual(['carol@example.com']);
+  });
+
+  test('should reply to the original recipients when we sent the email', async () => {
+    const sent = { ...original, from: { address: 'me@example.com' }, to: [{ address: 'alice@example.com' }], cc: [] };
+
+    expect((await service.buildReply(sent, { text: 'Following up' })).to).toEqual(['alice@example.com']);
+  });
+
+  test('should reply to Reply-To instead of From when it is set', async () => {
+    const list = { ...original, replyTo: [{ name: 'Lunch, Team', address: 'lunch@example.com' }] };
+
+    expect((await service.buildReply(list, { text: 'Yes' })).to).toEqual(['"Lunch, Team" <lunch@example.com>']);
+    expect((await service.buildReply(list, { text: 'Yes' }, { all: true })).to)
+      .toEqual(['"Lunch, Team" <lunch@example.com>', 'bob@example.com']);
+  });
+
+  test('should not stack subject prefixes or quote when asked not to', async () => {
+    const email = await service.buildReply({ ...original, subject: 'RE: Lunch plans' }, { text: 'Yes' }, { quote: false });
+
+    expect(email.subject).toBe('RE: Lunch plans');
+    expect(email.text).toBe('Yes');
+    expect(email.html).toBeUndefined();
+  });
+
+  test('should forward with the original attachments and a forwarded header in a new thread', async () => {
+    await service.forward(original, 'dave@example.com', { text: 'FYI' });
+
+    const email = sender.sendEmail.mock.calls[0][0];
+    expect(email.to).toBe('dave@example.com');
+    expect(email.subject).toBe('Fwd: Lunch plans');
+    expect(email.attachments).toEqual(original.attachments);
+    expect(email.threadId).toBeUndefined();
+    expect(email.inReplyTo).toBeUndefined();
+    expect(email.references).toBeUndefined();
+    expect(email.text).toContain('---------- Forwarded message ---------\nFrom: Alice <alice@example.com>');
+    expect(email.html).toContain('From: Alice &lt;alice@example.com&gt;<br>');
+  });
+
+  test('should download listed attachments and read stored ones before re-attaching them', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'unimail-reply-'));
+    try {
+      await fs.writeFile(path.join(dir, 'menu.pdf'), 'menu');
+      const listed: Attachment = { filename: 'agenda.txt', mimeType: 'text/plain', size: 6 };
+      listed.download = jest.fn().mockResolvedValue(Buffer.from('agenda'));
+      const stored: Attachment = { filename: 'menu.pdf', mimeType: 'application/pdf', size: 4, filePath: path.join(dir, 'menu.pdf') };
+
+      const email = await service.buildForward({ ...original, attachments: [listed, stored] }, 'dave@example.com');
+
+      expect(email.attachments!.map(attachment => attachment.buffer)).toEqual([Buffer.from('agenda'), Buffer.from('menu')]);
+      expect(listed.buffer).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should refuse to re-attach attachments fetched without content', async () => {
+    const withoutContent = { ...original, attachments: [{ filename: 'menu.pdf', mimeType: 'application/pdf', size: 4 }] };
+
+    await expect(service.buildForward(withoutContent, 'dave@example.com'))
+      .rejects.toThrow('Attachment menu.pdf was fetched without content');
+  });
+});
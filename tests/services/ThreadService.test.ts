@@ -0,0 +1,145 @@
+import { ThreadService, ThreadNode } from '../../src/services/ThreadService.js';
+import { NormalizedEmail } from '../../src/interfaces.js';
+
+const email = (overrides: Partial<NormalizedEmail>): NormalizedEmail => ({
+  id: 'id',
+  from: { address: 'alice@example.com' },
+  to: [{ address: 'bob@example.com' }],
+  attachments: [],
+  date: new Date('2024-01-01T00:00:00Z'),
+  provider: 'imap',
+  ...overrides
+});
+
+let day = 0;
+const message = (messageId: string, subject: string, headers: Partial<NormalizedEmail> = {}): NormalizedEmail => email({
+  id: messageId,
+  messageId,
+  subject,
+  date: new Date(Date.UTC(2024, 0, ++day)),
+  ...headers
+});
+
+// Tree shape as nested [messageId, children] pairs, placeholders marked with '?'
+const shape = (node: ThreadNode): unknown => [
+  node.email ? node.messageId : `?${node.messageId}`,
+  ...(node.children.length > 0 ? [node.children.map(shape)] : [])
+];
+
+describe('ThreadService', () => {
+  beforeEach(() => {
+    day = 0;
+  });
+
+  describe('buildThread', () => {
+    test('should order messages oldest first and summarize the thread', () => {
+      const reply = email({
+        id: '2',
+        from: { name: 'Bob', address: 'bob@example.com' },
+        to: [{ name: 'Alice', address: 'ALICE@example.com' }],
+        cc: [{ address: 'carol@example.com' }],
+        subject: 'Re: Plan',
+        bodyText: 'Sounds   good,\n\nsee you then',
+        date: new Date('2024-01-02T00:00:00Z'),
+        labels: []
+      });
+      const original = email({ id: '1', subject: 'Plan', labels: ['\\Seen'] });
+
+      const thread = ThreadService.buildThread('<root@example.com>', [reply, original]);
+
+      expect(thread.messages.map(item => item.id)).toEqual(['1', '2']);
+      expect(thread.subject).toBe('Plan');
+      expect(thread.participants).toEqual([
+        { name: 'Alice', address: 'alice@example.com' },
+        { name: 'Bob', address: 'bob@example.com' },
+        { address: 'carol@example.com' }
+      ]);
+      expect(thread.snippet).toBe('Sounds good, see you then');
+      expect(thread.unread).toBe(true); // The IMAP reply has no \Seen flag
+      expect(thread.lastMessageDate).toEqual(new Date('2024-01-02T00:00:00Z'));
+      expect(thread.provider).toBe('imap');
+    });
+
+    test('should prefer the provider snippet and cut long text', () => {
+      const long = email({ bodyText: 'x'.repeat(300) });
+
+      expect(ThreadService.buildThread('t', [long], { snippet: 'From the API' }).snippet).toBe('From the API');
+      expect(ThreadService.buildThread('t', [long]).snippet).toHaveLength(201);
+    });
+
+    test('should read unread state the way each provider reports it', () => {
+      expect(ThreadService.isUnread(email({ provider: 'gmail', labels: ['INBOX', 'UNREAD'] }))).toBe(true);
+      expect(ThreadService.isUnread(email({ provider: 'outlook', raw: { isRead: true } }))).toBe(false);
+      expect(ThreadService.isUnread(email({ provider: 'imap', labels: ['\\Seen'] }))).toBe(false);
+      expect(ThreadService.buildThread('t', [email({ labels: [] })], { isUnread: () => false }).unread).toBe(false);
+    });
+  });
+
+  describe('threadEmails', () => {
+    test('should build a tree from References and In-Reply-To', () => {
+      const emails = [
+        message('<a@x>', 'Launch'),
+        message('<b@x>', 'Re: Launch', { references: ['<a@x>'] }),
+        message('<c@x>', 'Re: Launch', { inReplyTo: '<a@x>' }),
+        message('<d@x>', 'Re: Launch', { references: ['<a@x>', '<b@x>'] })
+      ];
+
+      const trees = ThreadService.threadEmails([...emails].reverse());
+
+      expect(trees.map(shape)).toEqual([['<a@x>', [['<b@x>', [['<d@x>']]], ['<c@x>']]]]);
+    });
+
+    test('should keep placeholders for missing messages that tie replies together', () => {
+      const trees = ThreadService.threadEmails([
+        message('<b@x>', 'Re: Budget', { references: ['<missing@x>'] }),
+        message('<c@x>', 'Re: Budget', { references: ['<missing@x>'] }),
+        message('<d@x>', 'Re: Other', { references: ['<gone@x>'] })
+      ]);
+
+      expect(trees.map(shape)).toEqual([['?<missing@x>', [['<b@x>'], ['<c@x>']]], ['<d@x>']]);
+    });
+
+    test('should survive reference loops and messages without a Message-ID', () => {
+      const trees = ThreadService.threadEmails([
+        message('<a@x>', 'Loop', { references: ['<b@x>'] }),
+        message('<b@x>', 'Loop', { references: ['<a@x>'] }),
+        email({ id: 'no-id', subject: 'Lonely' })
+      ]);
+
+      expect(trees.flatMap(ThreadService.flatten)).toHaveLength(3);
+      expect(trees.map(tree => tree.messageId)).toContain('imap:no-id:2');
+    });
+
+    test('should only merge by subject when asked to', () => {
+      const emails = [
+        message('<a@x>', 'Weekly sync'),
+        message('<b@x>', 'RE: Re: Weekly sync'),
+        message('<c@x>', 'Something else')
+      ];
+
+      expect(ThreadService.threadEmails(emails)).toHaveLength(3);
+      expect(ThreadService.threadEmails(emails, { groupBySubject: true }).map(shape))
+        .toEqual([['<a@x>', [['<b@x>']]], ['<c@x>']]);
+    });
+  });
+
+  describe('groupThreads', () => {
+    test('should thread emails from several providers into NormalizedThreads', () => {
+      const threads = ThreadService.groupThreads([
+        message('<a@x>', 'Offer', { provider: 'gmail', labels: ['INBOX'] }),
+        message('<b@x>', 'Re: Offer', { provider: 'outlook', inReplyTo: '<a@x>', raw: { isRead: false } })
+      ]);
+
+      expect(threads).toHaveLength(1);
+      expect(threads[0].id).toBe('<a@x>');
+      expect(threads[0].messages.map(item => item.messageId)).toEqual(['<a@x>', '<b@x>']);
+      expect(threads[0].unread).toBe(true);
+    });
+  });
+
+  test('should use the oldest reference as the root Message-ID', () => {
+    expect(ThreadService.rootMessageId(email({ messageId: '<c@x>', references: ['<a@x>', '<b@x>'] }))).toBe('<a@x>');
+    expect(ThreadService.rootMessageId(email({ messageId: '<b@x>', inReplyTo: '<a@x>' }))).toBe('<a@x>');
+    expect(ThreadService.rootMessageId(email({ messageId: '<a@x>' }))).toBe('<a@x>');
+  });
+});
@@ -0,0 +1,185 @@
+import { WebhookReceiver, WebhookMailbox } from '../../src/services/WebhookReceiver.js';
+import { MemorySyncStateStore } from '../../src/sync/storage/MemorySyncStateStore.js';
+import { SyncResult } from '../../src/interfaces.js';
+
+const gmailBody = (emailAddress: string, historyId: number) => ({
+  message: {
+    data: Buffer.from(JSON.stringify({ emailAddress, historyId })).toString('base64'),
+    messageId: 'pubsub-1'
+  },
+  subscription: 'projects/test/subscriptions/gmail-push'
+});
+
+const outlookNotification = (subscriptionId: string, clientState: string) => ({
+  subscriptionId,
+  subscriptionExpirationDateTime: '2030-01-01T00:00:00.000Z',
+  changeType: 'created' as const,
+  resource: 'Users/u1/Messages/msg1',
+  clientState
+});
+
+describe('WebhookReceiver', () => {
+  let stateStore: MemorySyncStateStore;
+  let adapter: any;
+  let mailbox: WebhookMailbox;
+  let onSyncResult: jest.Mock;
+  let onError: jest.Mock;
+  let receiver: WebhookReceiver;
+
+  const syncResult: SyncResult = {
+    processedHistoryRecords: 2,
+    addedEmails: [{ id: 'msg1' } as any],
+    deletedEmailIds: ['msg0'],
+    updatedEmails: [],
+    newHistoryId: '200',
+    hasMoreChanges: false
+  };
+
+  beforeEach(async () => {
+    stateStore = new MemorySyncStateStore();
+    await stateStore.saveState('user@example.com', { historyId: '100', lastSyncTime: new Date('2024-01-01'), totalChanges: 5 });
+
+    adapter = {
+      processSync: jest.fn().mockResolvedValue(syncResult),
+      getCurrentHistoryId: jest.fn().mockResolvedValue('delta-link')
+    };
+    mailbox = { key: 'user@example.com', adapter, clientState: 'secret' };
+    onSyncResult = jest.fn();
+    onError = jest.fn();
+
+    receiver = new WebhookReceiver({
+      resolveMailbox: jest.fn(() => mailbox),
+      stateStore,
+      onSyncResult,
+      onError
+    });
+  });
+
+  describe('gmail', () => {
+    test('should sync from the stored state and commit the new history ID', async () => {
+      const response = await receiver.handle({ body: gmailBody('user@example.com', 150) });
+      await response.processing;
+
+      expect(response.status).toBe(202);
+      expect(adapter.processSync).toHaveBeenCalledWith({
+        startHistoryId: '100',
+        lastSyncTime: new Date('2024-01-01')
+      });
+      expect(onSyncResult).toHaveBeenCalledWith(syncResult, {
+        provider: 'gmail',
+        mailboxId: 'user@example.com',
+        historyId: '150'
+      });
+      expect(await stateStore.getState('user@example.com')).toEqual(expect.objectContaining({ historyId: '200', totalChanges: 7 }));
+    });
+
+    test('should skip notifications already covered by the stored state', async () => {
+      const response = await receiver.handle({ body: gmailBody('user@example.com', 90) });
+      await response.processing;
+
+      expect(adapter.processSync).not.toHaveBeenCalled();
+    });
+
+    test('should record a starting point when no state is stored', async () => {
+      await stateStore.deleteState('user@example.com');
+
+      const response = await receiver.handle({ body: gmailBody('user@example.com', 150) });
+      await response.processing;
+
+      expect(adapter.processSync).not.toHaveBeenCalled();
+      expect(await stateStore.getState('user@example.com')).toEqual(expect.objectContaining({ historyId: '150', totalChanges: 0 }));
+    });
+
+    test('should keep the old state when the result callback fails', async () => {
+      onSyncResult.mockRejectedValueOnce(new Error('database down'));
+
+      const response = await receiver.handle({ body: gmailBody('user@example.com', 150) });
+      await response.processing;
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'database down' }), expect.any(Object));
+      expect((await stateStore.getState('user@example.com'))!.historyId).toBe('100');
+    });
+
+    test('should serialize overlapping notifications for the same mailbox', async () => {
+      const first = await receiver.handle({ body: gmailBody('user@example.com', 150) });
+      const second = await receiver.handle({ body: gmailBody('user@example.com', 180) });
+      await Promise.all([first.processing, second.processing]);
+
+      // The second notification sees the state committed by the first and is already covered
+      expect(adapter.processSync).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject a wrong verification token', async () => {
+      receiver = new WebhookReceiver({
+        resolveMailbox: () => mailbox,
+        stateStore,
+        onSyncResult,
+        gmailVerificationToken: 'expected'
+      });
+
+      const response = await receiver.handle({ body: gmailBody('user@example.com', 150), query: { token: 'wrong' } });
+
+      expect(response.status).toBe(403);
+      expect(adapter.processSync).not.toHaveBeenCalled();
+    });
+
+    test('should reject undecodable Pub/Sub data', async () => {
+      const response = await receiver.handle({ body: { message: { data: 'bm90IGpzb24=' } } });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('outlook', () => {
+    test('should answer the validation handshake', async () => {
+      const response = await receiver.handle({ body: undefined, query: { validationToken: 'token-123' } });
+
+      expect(response).toEqual({ status: 200, body: 'token-123', contentType: 'text/plain' });
+    });
+
+    test('should sync once per subscription after verifying clientState', async () => {
+      const response = await receiver.handle({
+        body: { value: [outlookNotification('sub-1', 'secret'), outlookNotification('sub-1', 'secret')] }
+      });
+      await response.processing;
+
+      expect(response.status).toBe(202);
+      expect(adapter.processSync).toHaveBeenCalledTimes(1);
+      expect(onSyncResult).toHaveBeenCalledWith(syncResult, expect.objectContaining({
+        provider: 'outlook',
+        mailboxId: 'sub-1'
+      }));
+    });
+
+    test('should reject notifications with the wrong clientState', async () => {
+      const response = await receiver.handle({ body: { value: [outlookNotification('sub-1', 'forged')] } });
+
+      expect(response.status).toBe(403);
+      expect(adapter.processSync).not.toHaveBeenCalled();
+    });
+  });
+
+  test('should reject unrecognized payloads', async () => {
+    const response = await receiver.handle({ body: { hello: 'world' } });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('should send the response through the Express middleware', async () => {
+    const res: any = {
+      status: jest.fn().mockReturnThis(),
+      type: jest.fn().mockReturnThis(),
+      send: jest.fn().mockReturnThis(),
+      end: jest.fn().mockReturnThis()
+    };
+    const next = jest.fn();
+
+    receiver.expressMiddleware()({ body: {}, query: { validationToken: 'token-123' } } as any, res, next);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.type).toHaveBeenCalledWith('text/plain');
+    expect(res.send).toHaveBeenCalledWith('token-123');
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { SyncService } from '../../src/sync/SyncService.js';
+import { MemorySyncStateStore } from '../../src/sync/storage/MemorySyncStateStore.js';
+import { SyncResult } from '../../src/interfaces.js';
+
+describe('SyncService', () => {
+  let store: MemorySyncStateStore;
+  let service: SyncService;
+  let adapter: any;
+
+  const syncResult: SyncResult = {
+    processedHistoryRecords: 1,
+    addedEmails: [{ id: 'msg1' } as any],
+    deletedEmailIds: [],
+    updatedEmails: [],
+    newHistoryId: '200',
+    hasMoreChanges: false
+  };
+
+  beforeEach(async () => {
+    store = new MemorySyncStateStore();
+    service = new SyncService(store);
+    adapter = {
+      processSync: jest.fn().mockResolvedValue(syncResult),
+      getCurrentHistoryId: jest.fn().mockResolvedValue('150')
+    };
+  });
+
+  test('should initialize state from the adapter', async () => {
+    const state = await service.initialize('user@example.com', adapter);
+
+    expect(state).toEqual(expect.objectContaining({ historyId: '150', totalChanges: 0 }));
+    expect(await store.getState('user@example.com')).toEqual(state);
+  });
+
+  test('should sync from stored state and commit after the handler succeeds', async () => {
+    await store.saveState('user@example.com', { historyId: '100', lastSyncTime: new Date('2024-01-01'), totalChanges: 4 });
+    const handler = jest.fn();
+
+    const result = await service.sync('user@example.com', adapter, handler, { maxResults: 50 });
+
+    expect(adapter.processSync).toHaveBeenCalledWith({
+      maxResults: 50,
+      startHistoryId: '100',
+      lastSyncTime: new Date('2024-01-01')
+    });
+    expect(handler).toHaveBeenCalledWith(syncResult);
+    expect(result).toBe(syncResult);
+    expect(await store.getState('user@example.com')).toEqual(expect.objectContaining({ historyId: '200', totalChanges: 5 }));
+  });
+
+  test('should leave state untouched when the handler fails', async () => {
+    await store.saveState('user@example.com', { historyId: '100', lastSyncTime: new Date('2024-01-01'), totalChanges: 4 });
+
+    await expect(service.sync('user@example.com', adapter, () => {
+      throw new Error('handler failed');
+    })).rejects.toThrow('handler failed');
+
+    expect((await store.getState('user@example.com'))!.historyId).toBe('100');
+  });
+
+  test('should store a truncated full resync and continue it on the next sync', async () => {
+    const lastSyncTime = new Date('2024-01-01');
+    await store.saveState('user@example.com', { historyId: '100', lastSyncTime, totalChanges: 0 });
+    adapter.processSync
+      .mockResolvedValueOnce({ ...syncResult, newHistoryId: '500', hasMoreChanges: true, fullResyncPageToken: '0:page2' })
+      .mockResolvedValueOnce({ ...syncResult, newHistoryId: '500' });
+
+    await service.sync('user@example.com', adapter, jest.fn());
+
+    expect(await store.getState('user@example.com')).toEqual(expect.objectContaining({
+      historyId: '500',
+      lastSyncTime,
+      fullResyncPageToken: '0:page2'
+    }));
+
+    await service.sync('user@example.com', adapter, jest.fn());
+
+    expect(adapter.processSync).toHaveBeenLastCalledWith(expect.objectContaining({
+      startHistoryId: '500',
+      lastSyncTime,
+      fullResyncPageToken: '0:page2'
+    }));
+    expect((await store.getState('user@example.com'))!.fullResyncPageToken).toBeUndefined();
+  });
+
+  test('should require stored state before syncing', async () => {
+    await expect(service.sync('user@example.com', adapter, jest.fn())).rejects.toThrow('Call initialize() first');
+  });
+});
@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSyncStateStore } from '../../../src/sync/storage/FileSyncStateStore.js';
+
+describe('FileSyncStateStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: FileSyncStateStore;
+  const state = { historyId: '12345', lastSyncTime: new Date('2024-01-01T00:00:00Z'), totalChanges: 3 };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'unimail-sync-'));
+    filePath = path.join(dir, 'nested', 'sync-state.json');
+    store = new FileSyncStateStore(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should return null before anything is stored', async () => {
+    expect(await store.getState('user@example.com')).toBeNull();
+  });
+
+  test('should persist state across instances with dates revived', async () => {
+    await store.saveState('user@example.com', state);
+
+    const reopened = new FileSyncStateStore(filePath);
+    const loaded = await reopened.getState('user@example.com');
+
+    expect(loaded).toEqual(state);
+    expect(loaded!.lastSyncTime).toBeInstanceOf(Date);
+  });
+
+  test('should not lose concurrent writes', async () => {
+    await Promise.all([
+      store.saveState('a@example.com', state),
+      store.saveState('b@example.com', state),
+      store.updateState('c@example.com', { historyId: '1' })
+    ]);
+
+    const contents = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    expect(Object.keys(contents).sort()).toEqual(['a@example.com', 'b@example.com', 'c@example.com']);
+  });
+
+  test('should delete state for a mailbox', async () => {
+    await store.saveState('user@example.com', state);
+
+    expect(await store.deleteState('user@example.com')).toBe(true);
+    expect(await store.getState('user@example.com')).toBeNull();
+  });
+
+  test('should report a corrupt state file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '{ not json', 'utf-8');
+
+    await expect(store.getState('user@example.com')).rejects.toThrow('Failed to read sync state file');
+  });
+});
@@ -0,0 +1,35 @@
+import { MemorySyncStateStore } from '../../../src/sync/storage/MemorySyncStateStore.js';
+
+describe('MemorySyncStateStore', () => {
+  let store: MemorySyncStateStore;
+  const state = { historyId: '12345', lastSyncTime: new Date('2024-01-01T00:00:00Z'), totalChanges: 3 };
+
+  beforeEach(() => {
+    store = new MemorySyncStateStore();
+  });
+
+  test('should save and retrieve state for a mailbox', async () => {
+    await store.saveState('user@example.com', state);
+
+    expect(await store.getState('user@example.com')).toEqual(state);
+  });
+
+  test('should merge partial updates into existing state', async () => {
+    await store.saveState('user@example.com', state);
+    await store.updateState('user@example.com', { historyId: '12400' });
+
+    expect(await store.getState('user@example.com')).toEqual({ ...state, historyId: '12400' });
+  });
+
+  test('should require a historyId when updating missing state', async () => {
+    await expect(store.updateState('nobody', { totalChanges: 1 })).rejects.toThrow('without a historyId');
+  });
+
+  test('should delete state for a mailbox', async () => {
+    await store.saveState('user@example.com', state);
+
+    expect(await store.deleteState('user@example.com')).toBe(true);
+    expect(await store.getState('user@example.com')).toBeNull();
+    expect(await store.deleteState('user@example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { SqliteSyncStateStore } from '../../../src/sync/storage/SqliteSyncStateStore.js';
+
+describe('SqliteSyncStateStore', () => {
+  let mockDb: any;
+  let mockStatement: any;
+  let store: SqliteSyncStateStore;
+
+  beforeEach(() => {
+    mockStatement = {
+      run: jest.fn().mockReturnValue({ changes: 1 }),
+      get: jest.fn()
+    };
+    mockDb = {
+      exec: jest.fn(),
+      // The table already has every column unless a test says otherwise
+      prepare: jest.fn((sql: string) => (sql.includes('pragma_table_info') ? { get: () => ({ count: 1 }) } : mockStatement))
+    };
+    store = new SqliteSyncStateStore(mockDb);
+  });
+
+  test('should create the table once on first use', async () => {
+    await store.getState('a@example.com');
+    await store.getState('b@example.com');
+
+    expect(mockDb.exec).toHaveBeenCalledTimes(1);
+    expect(mockDb.exec.mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS unimail_sync_state');
+  });
+
+  test('should upsert state with an ISO timestamp', async () => {
+    await store.saveState('user@example.com', {
+      historyId: '12345',
+      lastSyncTime: new Date('2024-01-01T00:00:00Z'),
+      totalChanges: 3
+    });
+
+    expect(mockDb.prepare.mock.calls[1][0]).toContain('ON CONFLICT(key) DO UPDATE');
+    expect(mockStatement.run).toHaveBeenCalledWith('user@example.com', '12345', '2024-01-01T00:00:00.000Z', 3, null);
+  });
+
+  test('should keep the page token of an unfinished full resync', async () => {
+    mockStatement.get.mockReturnValue({
+      history_id: '12345', last_sync_time: '2024-01-01T00:00:00.000Z', total_changes: 3, full_resync_page_token: '0:page2'
+    });
+
+    await store.saveState('user@example.com', {
+      historyId: '12345',
+      lastSyncTime: new Date('2024-01-01T00:00:00Z'),
+      totalChanges: 3,
+      fullResyncPageToken: '0:page2'
+    });
+
+    expect(mockStatement.run).toHaveBeenCalledWith('user@example.com', '12345', '2024-01-01T00:00:00.000Z', 3, '0:page2');
+    expect((await store.getState('user@example.com'))!.fullResyncPageToken).toBe('0:page2');
+  });
+
+  test('should add the resync column to a table from an earlier version', async () => {
+    mockDb.prepare.mockImplementation((sql: string) => (sql.includes('pragma_table_info') ? { get: () => ({ count: 0 }) } : mockStatement));
+
+    await store.getState('user@example.com');
+
+    expect(mockDb.exec).toHaveBeenLastCalledWith('ALTER TABLE unimail_sync_state ADD COLUMN full_resync_page_token TEXT');
+  });
+
+  test('should map rows back to sync state', async () => {
+    mockStatement.get.mockReturnValue({ history_id: '12345', last_sync_time: '2024-01-01T00:00:00.000Z', total_changes: 3 });
+
+    expect(await store.getState('user@example.com')).toEqual({
+      historyId: '12345',
+      lastSyncTime: new Date('2024-01-01T00:00:00Z'),
+      totalChanges: 3
+    });
+    expect(mockStatement.get).toHaveBeenCalledWith('user@example.com');
+  });
+
+  test('should report whether a row was deleted', async () => {
+    mockStatement.run.mockReturnValueOnce({ changes: 0 });
+
+    expect(await store.deleteState('missing@example.com')).toBe(false);
+  });
+
+  test('should reject unsafe table names', () => {
+    expect(() => new SqliteSyncStateStore(mockDb, 'state; DROP TABLE users')).toThrow('Invalid SQLite table name');
+  });
+});
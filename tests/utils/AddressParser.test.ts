@@ -0,0 +1,70 @@
+import { AddressParser } from '../../src/utils/AddressParser.js';
+
+describe('AddressParser', () => {
+  describe('parse', () => {
+    test('should keep commas inside quoted display names', () => {
+      expect(AddressParser.parse('"Doe, Jane" <jane@example.com>, Bob <bob@example.com>, carol@example.com')).toEqual([
+        { name: 'Doe, Jane', address: 'jane@example.com' },
+        { name: 'Bob', address: 'bob@example.com' },
+        { address: 'carol@example.com' }
+      ]);
+    });
+
+    test('should join an unquoted comma in a display name back together', () => {
+      expect(AddressParser.parse('Doe, Jane <jane@example.com>, root')).toEqual([
+        { name: 'Doe, Jane', address: 'jane@example.com' },
+        { address: 'root' }
+      ]);
+    });
+
+    test('should decode RFC 2047 encoded words', () => {
+      // The second word continues the first; the space between them is not part of the name
+      expect(AddressParser.parse('=?UTF-8?B?SsO8cmdlbg==?= =?utf-8?Q?_M=C3=BCller?= <jm@example.com>')).toEqual([
+        { name: 'Jürgen Müller', address: 'jm@example.com' }
+      ]);
+      expect(AddressParser.parse('"=?ISO-8859-1?Q?Andr=E9?=" <andre@example.com>')).toEqual([
+        { name: 'André', address: 'andre@example.com' }
+      ]);
+    });
+
+    test('should handle escapes, comments and source routes', () => {
+      expect(AddressParser.parse('"Jane \\"JD\\" Doe" <jane@example.com>')).toEqual([
+        { name: 'Jane "JD" Doe', address: 'jane@example.com' }
+      ]);
+      expect(AddressParser.parse('jane@example.com (Jane (the boss) Doe)')).toEqual([
+        { name: 'Jane (the boss) Doe', address: 'jane@example.com' }
+      ]);
+      expect(AddressParser.parse('<@relay.example.com:jane@example.com>')).toEqual([{ address: 'jane@example.com' }]);
+    });
+
+    test('should flatten groups and drop empty ones', () => {
+      expect(AddressParser.parse('Team: a@example.com, B <b@example.com>;, undisclosed-recipients:;, c@example.com')).toEqual([
+        { address: 'a@example.com' },
+        { name: 'B', address: 'b@example.com' },
+        { address: 'c@example.com' }
+      ]);
+    });
+
+    test('should return nothing for empty headers', () => {
+      expect(AddressParser.parse(undefined)).toEqual([]);
+      expect(AddressParser.parse('  ')).toEqual([]);
+      expect(AddressParser.parseOne('<>')).toBeUndefined();
+    });
+  });
+
+  describe('format', () => {
+    test('should quote names with specials and round-trip through parse', () => {
+      const addresses = [
+        { name: 'Doe, Jane', address: 'jane@example.com' },
+        { name: 'Jane "JD" Doe', address: 'jd@example.com' },
+        { name: 'Jürgen', address: 'juergen@example.com' },
+        { address: 'bob@example.com' }
+      ];
+
+      const header = AddressParser.formatList(addresses);
+
+      expect(header).toBe('"Doe, Jane" <jane@example.com>, "Jane \\"JD\\" Doe" <jd@example.com>, Jürgen <juergen@example.com>, bob@example.com');
+      expect(AddressParser.parse(header)).toEqual(addresses);
+    });
+  });
+});
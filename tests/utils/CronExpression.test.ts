@@ -0,0 +1,47 @@
+import { CronExpression } from '../../src/utils/CronExpression.js';
+
+describe('CronExpression', () => {
+  // Local-time dates, since cron schedules are evaluated in local time
+  const at = (year: number, month: number, day: number, hour: number, minute: number) =>
+    new Date(year, month - 1, day, hour, minute);
+
+  test('should find the next step match', () => {
+    const cron = CronExpression.parse('*/15 * * * *');
+
+    expect(cron.next(at(2024, 1, 15, 10, 7))).toEqual(at(2024, 1, 15, 10, 15));
+    expect(cron.next(at(2024, 1, 15, 10, 45))).toEqual(at(2024, 1, 15, 11, 0));
+  });
+
+  test('should always move strictly forward', () => {
+    const cron = CronExpression.parse('30 9 * * *');
+
+    expect(cron.next(at(2024, 1, 15, 9, 30))).toEqual(at(2024, 1, 16, 9, 30));
+  });
+
+  test('should honor ranges, lists and weekdays', () => {
+    // 08:00 and 17:00 on weekdays; 2024-01-13 is a Saturday
+    const cron = CronExpression.parse('0 8,17 * * 1-5');
+
+    expect(cron.next(at(2024, 1, 12, 18, 0))).toEqual(at(2024, 1, 15, 8, 0));
+  });
+
+  test('should match either day field when both are restricted', () => {
+    // The 1st of the month or any Sunday; 2024-01-07 is a Sunday
+    const cron = CronExpression.parse('0 0 1 * 0');
+
+    expect(cron.next(at(2024, 1, 2, 0, 0))).toEqual(at(2024, 1, 7, 0, 0));
+  });
+
+  test('should cross into later months and leap days', () => {
+    const cron = CronExpression.parse('0 12 29 2 *');
+
+    expect(cron.next(at(2024, 3, 1, 0, 0))).toEqual(at(2028, 2, 29, 12, 0));
+  });
+
+  test('should reject malformed expressions', () => {
+    expect(() => CronExpression.parse('* * * *')).toThrow('expected 5 fields');
+    expect(() => CronExpression.parse('61 * * * *')).toThrow('out of range');
+    expect(() => CronExpression.parse('*/0 * * * *')).toThrow('invalid step');
+    expect(() => CronExpression.parse('MON * * * *')).toThrow('is not a number');
+  });
+});